@@ -283,6 +283,22 @@ contract SignalsCore is
         if (ret.length > 0) proceeds = abi.decode(ret, (uint256));
     }
 
+    function calculateQuantityFromBudget(
+        uint256 marketId,
+        int256 lowerTick,
+        int256 upperTick,
+        uint256 budget
+    ) external override returns (uint128 quantity, uint256 cost, uint256 fee) {
+        bytes memory ret = _delegateView(tradeModule, abi.encodeWithSignature(
+            "calculateQuantityFromBudget(uint256,int256,int256,uint256)",
+            marketId,
+            lowerTick,
+            upperTick,
+            budget
+        ));
+        if (ret.length > 0) (quantity, cost, fee) = abi.decode(ret, (uint128, uint256, uint256));
+    }
+
     function calculatePositionValue(
         uint256 positionId
     ) external override returns (uint256 value) {
@@ -293,6 +309,34 @@ contract SignalsCore is
         if (ret.length > 0) value = abi.decode(ret, (uint256));
     }
 
+    function getRangeSum(
+        uint256 marketId,
+        int256 lowerTick,
+        int256 upperTick
+    ) external override returns (uint256 sum) {
+        bytes memory ret = _delegateView(tradeModule, abi.encodeWithSignature(
+            "getRangeSum(uint256,int256,int256)",
+            marketId,
+            lowerTick,
+            upperTick
+        ));
+        if (ret.length > 0) sum = abi.decode(ret, (uint256));
+    }
+
+    function getBinProbabilities(
+        uint256 marketId,
+        uint32 fromBin,
+        uint32 count
+    ) external override returns (int256[] memory lowerTicks, uint256[] memory probabilities) {
+        bytes memory ret = _delegateView(tradeModule, abi.encodeWithSignature(
+            "getBinProbabilities(uint256,uint32,uint32)",
+            marketId,
+            fromBin,
+            count
+        ));
+        if (ret.length > 0) (lowerTicks, probabilities) = abi.decode(ret, (int256[], uint256[]));
+    }
+
     // --- Lifecycle / oracle ---
 
     /// @notice Create a new market with prior-based factors
@@ -314,6 +358,67 @@ contract SignalsCore is
         address feePolicy,
         uint256[] calldata baseFactors
     ) external override onlyOwner whenNotPaused returns (uint256 marketId) {
+        marketId = _createMarket(
+            minTick,
+            maxTick,
+            tickSpacing,
+            startTimestamp,
+            endTimestamp,
+            settlementTimestamp,
+            numBins,
+            liquidityParameter,
+            feePolicy,
+            baseFactors
+        );
+    }
+
+    /// @notice Create a new market that settles against its own Redstone feed
+    /// @dev Same as createMarket, then pins `oracle` (feed id, decimals, Δmax, δfuture) to the
+    ///      market in OracleModule. Markets created with createMarket follow setRedstoneConfig.
+    function createMarketWithOracle(
+        int256 minTick,
+        int256 maxTick,
+        int256 tickSpacing,
+        uint64 startTimestamp,
+        uint64 endTimestamp,
+        uint64 settlementTimestamp,
+        uint32 numBins,
+        uint256 liquidityParameter,
+        address feePolicy,
+        uint256[] calldata baseFactors,
+        MarketOracleConfig calldata oracle
+    ) external override onlyOwner whenNotPaused returns (uint256 marketId) {
+        marketId = _createMarket(
+            minTick,
+            maxTick,
+            tickSpacing,
+            startTimestamp,
+            endTimestamp,
+            settlementTimestamp,
+            numBins,
+            liquidityParameter,
+            feePolicy,
+            baseFactors
+        );
+        _delegate(oracleModule, abi.encodeWithSignature(
+            "setMarketOracleConfig(uint256,(bytes32,uint8,uint64,uint64))",
+            marketId,
+            oracle
+        ));
+    }
+
+    function _createMarket(
+        int256 minTick,
+        int256 maxTick,
+        int256 tickSpacing,
+        uint64 startTimestamp,
+        uint64 endTimestamp,
+        uint64 settlementTimestamp,
+        uint32 numBins,
+        uint256 liquidityParameter,
+        address feePolicy,
+        uint256[] calldata baseFactors
+    ) internal returns (uint256 marketId) {
         // Risk gate first: RiskModule calculates deltaEt from baseFactors and validates α bounds
         _riskGate(abi.encodeCall(
             IRiskModule.gateCreateMarket,
@@ -414,6 +519,32 @@ contract SignalsCore is
         ));
     }
 
+    /// @notice Oracle settings a market settles with (its own, or the global config)
+    function getMarketOracleConfig(uint256 marketId) external override returns (MarketOracleConfig memory config) {
+        bytes memory ret = _delegateView(oracleModule, abi.encodeWithSignature(
+            "getMarketOracleConfig(uint256)",
+            marketId
+        ));
+        if (ret.length > 0) config = abi.decode(ret, (MarketOracleConfig));
+    }
+
+    /// @notice Configure the multi-sample settlement rule
+    /// @dev mode 0 = closest sample (default), 1 = median, 2 = time-weighted average of up to
+    ///      `maxSamples` samples; markets whose samples deviate by more than `maxDeviationBps`
+    ///      are marked failed at finalization
+    function setSettlementRule(
+        uint8 mode,
+        uint8 maxSamples,
+        uint32 maxDeviationBps
+    ) external onlyOwner whenNotPaused {
+        _delegate(oracleModule, abi.encodeWithSignature(
+            "setSettlementRule(uint8,uint8,uint32)",
+            mode,
+            maxSamples,
+            maxDeviationBps
+        ));
+    }
+
     /// @notice Set settlement timeline parameters (WP v2 state machine)
     /// @param _sampleWindow Δsettle: SettlementOpen duration for sample submission
     /// @param _opsWindow Δops: PendingOps duration
@@ -466,6 +597,37 @@ contract SignalsCore is
         if (ret.length > 0) (price, priceTimestamp) = abi.decode(ret, (int256, uint64));
     }
 
+    /// @notice Preview the P&L and payout reserve of settling a market at `settlementValue`
+    function previewSettlement(uint256 marketId, int256 settlementValue)
+        external
+        override
+        returns (int256 settlementTick, int256 lt, uint256 ftot, uint256 payoutReserve, uint256 deltaEt)
+    {
+        bytes memory ret = _delegateView(lifecycleModule, abi.encodeWithSignature(
+            "previewSettlement(uint256,int256)",
+            marketId,
+            settlementValue
+        ));
+        if (ret.length > 0) {
+            (settlementTick, lt, ftot, payoutReserve, deltaEt) = abi.decode(
+                ret,
+                (int256, int256, uint256, uint256, uint256)
+            );
+        }
+    }
+
+    function getSettlementSamples(uint256 marketId)
+        external
+        override
+        returns (int256[] memory values, uint64[] memory priceTimestamps)
+    {
+        bytes memory ret = _delegateView(oracleModule, abi.encodeWithSignature(
+            "getSettlementSamples(uint256)",
+            marketId
+        ));
+        if (ret.length > 0) (values, priceTimestamps) = abi.decode(ret, (int256[], uint64[]));
+    }
+
     /// @notice Trigger settlement snapshot chunks after market settlement (owner only).
     function requestSettlementChunks(uint256 marketId, uint32 maxChunksPerTx)
         external
@@ -512,6 +674,11 @@ contract SignalsCore is
         _delegate(vaultModule, abi.encodeWithSignature("processDailyBatch(uint64)", batchId));
     }
 
+    /// @notice Advance over an ended batch that had no markets (ops decision, hence owner-only)
+    function processEmptyBatch(uint64 batchId) external onlyOwner whenNotPaused nonReentrant {
+        _delegate(vaultModule, abi.encodeWithSignature("processEmptyBatch(uint64)", batchId));
+    }
+
     /// @notice Claim shares from processed deposit
     /// @dev Allowed even when paused - user funds should always be claimable after batch processing
     function claimDeposit(uint64 requestId) external nonReentrant returns (uint256 shares) {
@@ -573,6 +740,15 @@ contract SignalsCore is
         return (riskConfig.lambda, riskConfig.kDrawdown, riskConfig.enforceAlpha);
     }
 
+    /// @notice Get the multi-sample settlement rule
+    function getSettlementRule() external view returns (
+        uint8 mode,
+        uint8 maxSamples,
+        uint32 maxDeviationBps
+    ) {
+        return (settlementRule.mode, settlementRule.maxSamples, settlementRule.maxDeviationBps);
+    }
+
     /// @notice Get fee waterfall configuration
     function getFeeWaterfallConfig() external view returns (
         uint256 rhoBS,
@@ -614,6 +790,52 @@ contract SignalsCore is
         return withdrawalLagBatches;
     }
 
+    /// @notice Get the full daily P&L snapshot, including the fee waterfall breakdown
+    function getDailyPnlSnapshot(uint64 batchId) external view returns (DailyPnlSnapshot memory) {
+        return _dailyPnl[batchId];
+    }
+
+    /// @notice Get a deposit request (amount in WAD)
+    function getDepositRequest(uint64 requestId) external view returns (
+        uint64 id,
+        address owner,
+        uint256 amount,
+        uint64 eligibleBatchId,
+        RequestStatus status
+    ) {
+        DepositRequest storage req = _depositRequests[requestId];
+        return (req.id, req.owner, req.amount, req.eligibleBatchId, req.status);
+    }
+
+    /// @notice Get a withdraw request
+    function getWithdrawRequest(uint64 requestId) external view returns (
+        uint64 id,
+        address owner,
+        uint256 shares,
+        uint64 eligibleBatchId,
+        RequestStatus status
+    ) {
+        WithdrawRequest storage req = _withdrawRequests[requestId];
+        return (req.id, req.owner, req.shares, req.eligibleBatchId, req.status);
+    }
+
+    /// @notice Get queued deposit assets (WAD) and withdraw shares for a batch
+    function getPendingBatchTotals(uint64 batchId) external view returns (uint256 deposits, uint256 withdraws) {
+        PendingBatchTotal storage totals = _pendingBatchTotals[batchId];
+        return (totals.deposits, totals.withdraws);
+    }
+
+    /// @notice Get the batch result claims are priced from
+    function getBatchAggregation(uint64 batchId) external view returns (
+        uint256 totalDepositAssets,
+        uint256 totalWithdrawShares,
+        uint256 batchPrice,
+        bool processed
+    ) {
+        BatchAggregation storage agg = _batchAggregations[batchId];
+        return (agg.totalDepositAssets, agg.totalWithdrawShares, agg.batchPrice, agg.processed);
+    }
+
     function getDailyPnl(uint64 batchId)
         external
         returns (
@@ -291,6 +291,46 @@ abstract contract SignalsCoreStorage {
     /// @notice Market ID → batch resolution flag (prevents double-counting)
     mapping(uint256 => bool) internal _marketBatchResolved;
 
+    // ============================================================
+    // Multi-Sample Settlement Rule
+    // ============================================================
+
+    /// @dev settlementRule.mode values
+    uint8 internal constant SETTLEMENT_RULE_CLOSEST = 0;
+    uint8 internal constant SETTLEMENT_RULE_MEDIAN = 1;
+    uint8 internal constant SETTLEMENT_RULE_TIME_WEIGHTED = 2;
+
+    /// @dev Upper bound on K so that sorting at finalization stays cheap
+    uint8 internal constant MAX_SETTLEMENT_SAMPLES = 16;
+
+    /// @notice Per-deployment rule for turning oracle samples into a settlement value
+    struct SettlementRuleConfig {
+        uint8 mode;              // SETTLEMENT_RULE_*; CLOSEST keeps the single closest sample (default)
+        uint8 maxSamples;        // K: samples kept per market, closest to Tset first
+        uint32 maxDeviationBps;  // Max |sample - aggregate| / aggregate before auto-fail (0 = off)
+    }
+
+    /// @notice Oracle sample kept for MEDIAN / TIME_WEIGHTED settlement
+    struct SettlementSample {
+        int256 value;
+        uint64 priceTimestamp;
+    }
+
+    /// @notice Settlement rule configuration
+    SettlementRuleConfig internal settlementRule;
+
+    /// @notice Market ID → stored samples (unordered, one per priceTimestamp, at most K)
+    mapping(uint256 => SettlementSample[]) internal _settlementSamples;
+
+    // ============================================================
+    // Per-Market Oracle Configuration
+    // ============================================================
+
+    /// @notice Market ID → Redstone settings set by createMarketWithOracle
+    /// @dev Zero feedId: the market uses the global redstoneFeedId / redstoneFeedDecimals /
+    ///      maxSampleDistance / futureTolerance
+    mapping(uint256 => ISignalsCore.MarketOracleConfig) internal _marketOracleConfig;
+
     // Reserve ample slots for future upgrades; do not change after first deployment.
-    uint256[13] internal __gap;
+    uint256[10] internal __gap;
 }
@@ -41,6 +41,8 @@ interface SignalsErrors {
     error NotInPendingOps();
     error ClaimTooEarly(uint64 claimOpenTimestamp, uint64 currentTimestamp);
     error PriceOverflow(uint256 scaled);
+    error InvalidSettlementRule(uint8 mode, uint8 maxSamples, uint32 maxDeviationBps);
+    error InvalidMarketOracleConfig(uint256 marketId);
 
     // ============================================================
     // Batch Processing
@@ -50,6 +52,7 @@ interface SignalsErrors {
     error BatchAlreadyHasMarket(uint64 batchId, uint256 existingMarketId);
     error BatchMarketNotSettled(uint64 batchId, uint256 marketId);
     error BatchHasNoMarkets(uint64 batchId);
+    error BatchHasMarkets(uint64 batchId, uint64 totalMarkets);
     error BatchMarketsNotResolved(uint64 batchId, uint64 resolvedMarkets, uint64 totalMarkets);
     error BatchNotReady(uint64 batchId);
     error BatchNotEnded(uint64 batchId, uint64 batchEndTime, uint64 currentTime);
@@ -47,6 +47,14 @@ interface ISignalsCore {
         uint256 deltaEt;
     }
 
+    /// @notice Per-market Redstone settings (zero feedId: the global setRedstoneConfig applies)
+    struct MarketOracleConfig {
+        bytes32 feedId;
+        uint8 feedDecimals;
+        uint64 maxSampleDistance;
+        uint64 futureTolerance;
+    }
+
     // Trade / lifecycle entrypoints (signatures preserved for parity)
     function openPosition(
         uint256 marketId,
@@ -95,8 +103,26 @@ interface ISignalsCore {
 
     function calculateCloseProceeds(uint256 positionId) external returns (uint256 proceeds);
 
+    /// @notice Largest buy quantity over [lowerTick, upperTick) whose cost plus fee fits in `budget`
+    function calculateQuantityFromBudget(
+        uint256 marketId,
+        int256 lowerTick,
+        int256 upperTick,
+        uint256 budget
+    ) external returns (uint128 quantity, uint256 cost, uint256 fee);
+
     function calculatePositionValue(uint256 positionId) external returns (uint256 value);
 
+    /// @notice Segment tree sum over [lowerTick, upperTick) (lets off-chain replicas cross-check)
+    function getRangeSum(uint256 marketId, int256 lowerTick, int256 upperTick) external returns (uint256 sum);
+
+    /// @notice Implied probability (WAD) and lower tick of bins [fromBin, fromBin + count), clamped to numBins
+    function getBinProbabilities(
+        uint256 marketId,
+        uint32 fromBin,
+        uint32 count
+    ) external returns (int256[] memory lowerTicks, uint256[] memory probabilities);
+
     // Lifecycle: settlement snapshot trigger
     function requestSettlementChunks(uint256 marketId, uint32 maxChunksPerTx) external returns (uint32 emitted);
 
@@ -126,6 +152,22 @@ interface ISignalsCore {
         uint256[] calldata baseFactors
     ) external returns (uint256 marketId);
 
+    /// @notice Create a market that settles against its own Redstone feed
+    /// @dev Same as createMarket; `oracle` replaces the global feed id, decimals, Δmax and δfuture
+    function createMarketWithOracle(
+        int256 minTick,
+        int256 maxTick,
+        int256 tickSpacing,
+        uint64 startTimestamp,
+        uint64 endTimestamp,
+        uint64 settlementTimestamp,
+        uint32 numBins,
+        uint256 liquidityParameter,
+        address feePolicy,
+        uint256[] calldata baseFactors,
+        MarketOracleConfig calldata oracle
+    ) external returns (uint256 marketId);
+
     function finalizePrimarySettlement(uint256 marketId) external;
 
     function reopenMarket(uint256 marketId) external;
@@ -150,6 +192,17 @@ interface ISignalsCore {
         uint64 futureTolerance
     ) external;
 
+    /// @notice Configure the multi-sample settlement rule (0 = closest, 1 = median, 2 = time-weighted)
+    function setSettlementRule(
+        uint8 mode,
+        uint8 maxSamples,
+        uint32 maxDeviationBps
+    ) external;
+
+    /// @notice Oracle settings a market settles with (its own, or the global config)
+    /// @dev Not view because it uses delegatecall internally
+    function getMarketOracleConfig(uint256 marketId) external returns (MarketOracleConfig memory config);
+
     /// @notice Set settlement timeline parameters
     function setSettlementTimeline(
         uint64 sampleWindow,
@@ -194,4 +247,17 @@ interface ISignalsCore {
     function getSettlementPrice(uint256 marketId)
         external
         returns (int256 price, uint64 priceTimestamp);
+
+    /// @notice Settlement tick, P&L, fees, payout reserve and ΔEₜ that settling at `settlementValue` would record
+    /// @dev Read-only preview of finalizePrimarySettlement / finalizeSecondarySettlement accounting.
+    ///      Not view because it uses delegatecall internally
+    function previewSettlement(uint256 marketId, int256 settlementValue)
+        external
+        returns (int256 settlementTick, int256 lt, uint256 ftot, uint256 payoutReserve, uint256 deltaEt);
+
+    /// @notice Returns the samples stored under a median / time-weighted settlement rule (unordered)
+    /// @dev Not view because it uses delegatecall internally
+    function getSettlementSamples(uint256 marketId)
+        external
+        returns (int256[] memory values, uint64[] memory priceTimestamps);
 }
@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title SettlementSampleLib
+ * @notice Aggregation of stored oracle samples for multi-sample settlement
+ * @dev Arrays are small (at most MAX_SETTLEMENT_SAMPLES), so insertion sort is used.
+ *      Both aggregates sort their inputs in place.
+ *
+ * Aggregates:
+ *   - median: middle value; an even count averages the two middle values (rounded toward zero,
+ *     the same as Redstone's off-chain median for positive prices)
+ *   - timeWeightedAverage: average of the piecewise-linear price path between the earliest
+ *     and latest sample, Σ (p_i + p_{i+1}) · (t_{i+1} - t_i) / (2 · (t_last - t_first))
+ */
+library SettlementSampleLib {
+    uint256 internal constant BPS_DENOMINATOR = 10_000;
+
+    /// @notice Median of `values` (sorts `values` ascending)
+    function median(int256[] memory values) internal pure returns (int256) {
+        uint256 n = values.length;
+        for (uint256 i = 1; i < n; i++) {
+            int256 v = values[i];
+            uint256 j = i;
+            while (j > 0 && values[j - 1] > v) {
+                values[j] = values[j - 1];
+                j--;
+            }
+            values[j] = v;
+        }
+        uint256 mid = n / 2;
+        if (n % 2 == 1) return values[mid];
+        return (values[mid - 1] + values[mid]) / 2;
+    }
+
+    /// @notice Time-weighted average of `values` observed at distinct `timestamps`
+    /// @dev Sorts both arrays by timestamp. A single sample is its own average.
+    function timeWeightedAverage(
+        int256[] memory values,
+        uint64[] memory timestamps
+    ) internal pure returns (int256) {
+        uint256 n = values.length;
+        for (uint256 i = 1; i < n; i++) {
+            int256 v = values[i];
+            uint64 t = timestamps[i];
+            uint256 j = i;
+            while (j > 0 && timestamps[j - 1] > t) {
+                values[j] = values[j - 1];
+                timestamps[j] = timestamps[j - 1];
+                j--;
+            }
+            values[j] = v;
+            timestamps[j] = t;
+        }
+        uint64 span = timestamps[n - 1] - timestamps[0];
+        if (span == 0) return values[0];
+
+        int256 area;
+        for (uint256 i = 1; i < n; i++) {
+            area += (values[i - 1] + values[i]) * int256(uint256(timestamps[i] - timestamps[i - 1]));
+        }
+        return area / int256(2 * uint256(span));
+    }
+
+    /// @notice Largest |value - aggregate| / |aggregate| in basis points, rounded up
+    /// @dev Any spread around a zero aggregate is reported as type(uint256).max
+    function maxDeviationBps(int256[] memory values, int256 aggregate) internal pure returns (uint256 deviationBps) {
+        uint256 base = _abs(aggregate);
+        for (uint256 i = 0; i < values.length; i++) {
+            uint256 diff = _abs(values[i] - aggregate);
+            if (diff == 0) continue;
+            if (base == 0) return type(uint256).max;
+            uint256 bps = (diff * BPS_DENOMINATOR + base - 1) / base;
+            if (bps > deviationBps) deviationBps = bps;
+        }
+    }
+
+    function _abs(int256 x) private pure returns (uint256) {
+        return x >= 0 ? uint256(x) : uint256(-x);
+    }
+}
@@ -24,6 +24,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
  * 1. User calls requestDeposit/requestWithdraw → gets requestId
  * 2. Request recorded with eligibleBatchId (D_lag applied for withdrawals)
  * 3. processDailyBatch(batchId) processes pre-aggregated totals
+ *    (processEmptyBatch for an ended day that had no markets)
  * 4. User calls claimDeposit/claimWithdraw to receive shares/assets
  */
 contract LPVaultModule is SignalsCoreStorage {
@@ -51,6 +52,9 @@ contract LPVaultModule is SignalsCoreStorage {
         uint256 drawdown     // Drawdown from peak
     );
 
+    /// @notice Batch advanced with no markets (flows processed at the unchanged price)
+    event EmptyBatchProcessed(uint64 indexed batchId);
+
     event DepositRequestCreated(
         uint64 indexed requestId,
         address indexed owner,
@@ -290,6 +294,38 @@ contract LPVaultModule is SignalsCoreStorage {
      * @param batchId Batch identifier (must be currentBatchId + 1)
      */
     function processDailyBatch(uint64 batchId) external onlyDelegated {
+        DailyPnlSnapshot storage snap = _checkBatchReady(batchId);
+
+        // Batch can only process once all assigned markets are resolved (settled or failed)
+        BatchMarketState storage marketState = _batchMarketState[batchId];
+        if (marketState.total == 0) revert SE.BatchHasNoMarkets(batchId);
+        if (marketState.resolved != marketState.total) {
+            revert SE.BatchMarketsNotResolved(batchId, marketState.resolved, marketState.total);
+        }
+
+        _processBatch(batchId, snap);
+    }
+
+    /**
+     * @notice Advance over an ended batch that has no markets
+     * @dev Owner-only at the core: processDailyBatch stays strict so nobody can pre-process
+     *      a day before its market exists. The snapshot is all zeros, so the waterfall leaves
+     *      NAV and the capital stack untouched and queued deposits/withdrawals settle at the
+     *      previous price. Markets can no longer be registered to the batch afterwards.
+     * @param batchId Batch identifier (must be currentBatchId + 1)
+     */
+    function processEmptyBatch(uint64 batchId) external onlyDelegated {
+        DailyPnlSnapshot storage snap = _checkBatchReady(batchId);
+
+        uint64 totalMarkets = _batchMarketState[batchId].total;
+        if (totalMarkets != 0) revert SE.BatchHasMarkets(batchId, totalMarkets);
+
+        _processBatch(batchId, snap);
+        emit EmptyBatchProcessed(batchId);
+    }
+
+    /// @dev Sequence, end-time and double-processing checks shared by both batch paths
+    function _checkBatchReady(uint64 batchId) internal view returns (DailyPnlSnapshot storage snap) {
         if (!lpVault.isSeeded) revert SE.VaultNotSeeded();
         if (batchId != currentBatchId + 1) revert SE.BatchNotReady(batchId);
 
@@ -297,16 +333,11 @@ contract LPVaultModule is SignalsCoreStorage {
         uint64 batchEndTime = (batchId + 1) * BATCH_SECONDS;
         if (block.timestamp < batchEndTime) revert SE.BatchNotEnded(batchId, batchEndTime, uint64(block.timestamp));
 
-        DailyPnlSnapshot storage snap = _dailyPnl[batchId];
+        snap = _dailyPnl[batchId];
         if (snap.processed) revert SE.DailyBatchAlreadyProcessed(batchId);
+    }
 
-        // Batch can only process once all assigned markets are resolved (settled or failed)
-        BatchMarketState storage marketState = _batchMarketState[batchId];
-        if (marketState.total == 0) revert SE.BatchHasNoMarkets(batchId);
-        if (marketState.resolved != marketState.total) {
-            revert SE.BatchMarketsNotResolved(batchId, marketState.resolved, marketState.total);
-        }
-
+    function _processBatch(uint64 batchId, DailyPnlSnapshot storage snap) internal {
         // Step 1: Get pre-aggregated totals (O(1))
         PendingBatchTotal storage pending = _pendingBatchTotals[batchId];
         uint256 totalWithdraws = pending.withdraws;
@@ -7,6 +7,7 @@ import "../lib/LazyMulSegmentTree.sol";
 import "../lib/FixedPointMathU.sol";
 import "../lib/ExposureDiffLib.sol";
 import "../lib/TickBinLib.sol";
+import "../lib/SettlementSampleLib.sol";
 
 /// @notice Delegate-only lifecycle module (skeleton)
 contract MarketLifecycleModule is SignalsCoreStorage {
@@ -44,6 +45,13 @@ contract MarketLifecycleModule is SignalsCoreStorage {
     );
     event MarketReopened(uint256 indexed marketId);
     event MarketFailed(uint256 indexed marketId, uint64 timestamp);
+    event SettlementSamplesAggregated(
+        uint256 indexed marketId,
+        uint8 mode,
+        uint256 sampleCount,
+        int256 aggregateValue,
+        uint256 deviationBps
+    );
     event MarketSettledSecondary(
         uint256 indexed marketId,
         int256 settlementValue,
@@ -172,7 +180,9 @@ contract MarketLifecycleModule is SignalsCoreStorage {
     /**
      * @notice Finalize primary settlement after PendingOps window ends
      * @dev Called after Tset + Δsettle + Δops. Uses the closest-sample candidate 
-     *      from SettlementOpen window.
+     *      from SettlementOpen window, or under a MEDIAN / TIME_WEIGHTED settlement rule
+     *      the aggregate of the stored samples. If a sample deviates from the aggregate by
+     *      more than maxDeviationBps, the market is marked failed instead (no revert).
      * @param marketId Market to finalize
      */
     function finalizePrimarySettlement(uint256 marketId) external onlyDelegated {
@@ -191,10 +201,25 @@ contract MarketLifecycleModule is SignalsCoreStorage {
         uint64 opsEnd = tSet + settlementSubmitWindow + pendingOpsWindow;
         require(nowTs >= opsEnd, SE.PendingOpsNotStarted());
 
-        int256 settlementTick = _toSettlementTick(market, state.candidateValue);
+        int256 settlementValue = state.candidateValue;
+        SettlementRuleConfig memory rule = settlementRule;
+        SettlementSample[] storage samples = _settlementSamples[marketId];
+        // Markets sampled before the rule was enabled have no samples: keep the candidate
+        if (rule.mode != SETTLEMENT_RULE_CLOSEST && samples.length != 0) {
+            (int256 aggregate, uint256 deviationBps) = _aggregateSamples(samples, rule.mode);
+            emit SettlementSamplesAggregated(marketId, rule.mode, samples.length, aggregate, deviationBps);
+            if (rule.maxDeviationBps != 0 && deviationBps > rule.maxDeviationBps) {
+                _failMarket(marketId, market, nowTs);
+                return;
+            }
+            settlementValue = aggregate;
+        }
+        delete _settlementSamples[marketId];
+
+        int256 settlementTick = _toSettlementTick(market, settlementValue);
 
         market.settled = true;
-        market.settlementValue = state.candidateValue;
+        market.settlementValue = settlementValue;
         market.settlementTick = settlementTick;
         // settlementTimestamp stays as-is (market day key set at creation)
         // settlementFinalizedAt records when settlement tx was mined
@@ -255,16 +280,8 @@ contract MarketLifecycleModule is SignalsCoreStorage {
         
         // After PendingOps with candidate: should use settleMarket instead
         require(nowTs < opsEnd || !hasCandidate, SE.SettlementOracleCandidateMissing());
-        
-        // Clear any candidate (WP v2: divergence case discards candidate)
-        state.candidateValue = 0;
-        state.candidatePriceTimestamp = 0;
 
-        market.failed = true;
-        market.isActive = false;
-        _markMarketResolved(marketId, _getBatchIdForMarket(marketId));
-
-        emit MarketFailed(marketId, nowTs);
+        _failMarket(marketId, market, nowTs);
     }
 
     /**
@@ -313,6 +330,32 @@ contract MarketLifecycleModule is SignalsCoreStorage {
         emit MarketSettledSecondary(marketId, settlementValue, settlementTick, market.settlementFinalizedAt);
     }
 
+    /**
+     * @notice What settling at `settlementValue` would record, without changing state
+     * @dev Same tick clamping and P&L as finalizePrimarySettlement / finalizeSecondarySettlement:
+     *      lt and ftot are added to the batch snapshot, payoutReserve is escrowed and deltaEt
+     *      joins the batch's DeltaEtSum. Settlement windows and the failed flag are not checked.
+     * @param marketId Market to preview
+     * @param settlementValue Candidate settlement value (6 decimals)
+     */
+    function previewSettlement(
+        uint256 marketId,
+        int256 settlementValue
+    )
+        external
+        view
+        onlyDelegated
+        returns (int256 settlementTick, int256 lt, uint256 ftot, uint256 payoutReserve, uint256 deltaEt)
+    {
+        ISignalsCore.Market storage market = markets[marketId];
+        require(_marketExists(marketId), SE.MarketNotFound(marketId));
+        require(!market.settled, SE.MarketAlreadySettled(marketId));
+
+        settlementTick = _toSettlementTick(market, settlementValue);
+        (lt, ftot, payoutReserve) = _calculateMarketPnlWithPayout(marketId, settlementTick);
+        deltaEt = market.deltaEt;
+    }
+
     function reopenMarket(uint256 marketId) external onlyDelegated {
         ISignalsCore.Market storage market = markets[marketId];
         require(_marketExists(marketId), SE.MarketNotFound(marketId));
@@ -339,6 +382,7 @@ contract MarketLifecycleModule is SignalsCoreStorage {
         market.snapshotChunksDone = false;
 
         settlementOracleState[marketId] = SettlementOracleState({candidateValue: 0, candidatePriceTimestamp: 0});
+        delete _settlementSamples[marketId];
         emit MarketReopened(marketId);
     }
 
@@ -436,6 +480,40 @@ contract MarketLifecycleModule is SignalsCoreStorage {
         require(startTimestamp < endTimestamp && endTimestamp <= settlementTimestamp, SE.InvalidTimeRange(startTimestamp, endTimestamp, settlementTimestamp));
     }
 
+    /// @dev Discard oracle state (WP v2: divergence case discards candidate) and mark failed
+    function _failMarket(uint256 marketId, ISignalsCore.Market storage market, uint64 nowTs) internal {
+        SettlementOracleState storage state = settlementOracleState[marketId];
+        state.candidateValue = 0;
+        state.candidatePriceTimestamp = 0;
+        delete _settlementSamples[marketId];
+
+        market.failed = true;
+        market.isActive = false;
+        _markMarketResolved(marketId, _getBatchIdForMarket(marketId));
+
+        emit MarketFailed(marketId, nowTs);
+    }
+
+    /// @dev Aggregate stored samples per the settlement rule mode
+    /// @return aggregate Median or time-weighted average of the sample values
+    /// @return deviationBps Largest sample deviation from the aggregate (bps, rounded up)
+    function _aggregateSamples(
+        SettlementSample[] storage samples,
+        uint8 mode
+    ) internal view returns (int256 aggregate, uint256 deviationBps) {
+        uint256 n = samples.length;
+        int256[] memory values = new int256[](n);
+        uint64[] memory timestamps = new uint64[](n);
+        for (uint256 i = 0; i < n; i++) {
+            values[i] = samples[i].value;
+            timestamps[i] = samples[i].priceTimestamp;
+        }
+        aggregate = mode == SETTLEMENT_RULE_MEDIAN
+            ? SettlementSampleLib.median(values)
+            : SettlementSampleLib.timeWeightedAverage(values, timestamps);
+        deviationBps = SettlementSampleLib.maxDeviationBps(values, aggregate);
+    }
+
     function _marketExists(uint256 marketId) internal view returns (bool) {
         return markets[marketId].numBins > 0;
     }
@@ -620,6 +698,8 @@ contract MarketLifecycleModule is SignalsCoreStorage {
     }
 
     function _registerMarketForBatch(uint64 batchId) internal {
+        // A processed batch (incl. one skipped as empty) can never record this market's P&L
+        require(!_dailyPnl[batchId].processed, SE.BatchAlreadyProcessed(batchId));
         _batchMarketState[batchId].total += 1;
     }
 
@@ -12,6 +12,9 @@ import "@redstone-finance/evm-connector/contracts/data-services/PrimaryProdDataS
 ///      - Closest-sample selection: |priceTimestamp - Tset| minimum, tie-break to past
 ///      - Δmax validation: reject samples too far from Tset
 ///      - δfuture validation: reject future-dated samples
+///      - Per-market feed / decimals / Δmax / δfuture (createMarketWithOracle), global by default
+///      - Optional multi-sample rule: keep the K samples closest to Tset for median /
+///        time-weighted settlement (aggregated by MarketLifecycleModule at finalization)
 contract OracleModule is SignalsCoreStorage, PrimaryProdDataServiceConsumerBase {
     address private immutable self;
 
@@ -43,6 +46,23 @@ contract OracleModule is SignalsCoreStorage, PrimaryProdDataServiceConsumerBase
         uint64 distance
     );
 
+    event SettlementSampleRecorded(
+        uint256 indexed marketId,
+        int256 settlementValue,
+        uint64 priceTimestamp,
+        uint64 replacedTimestamp
+    );
+
+    event MarketOracleConfigSet(
+        uint256 indexed marketId,
+        bytes32 feedId,
+        uint8 feedDecimals,
+        uint64 maxSampleDistance,
+        uint64 futureTolerance
+    );
+
+    event SettlementRuleUpdated(uint8 mode, uint8 maxSamples, uint32 maxDeviationBps);
+
     event OracleConfigUpdated(
         bytes32 feedId,
         uint8 feedDecimals,
@@ -72,6 +92,52 @@ contract OracleModule is SignalsCoreStorage, PrimaryProdDataServiceConsumerBase
         emit OracleConfigUpdated(feedId, feedDecimals, _maxSampleDistance, _futureTolerance);
     }
 
+    /// @notice Pin a market to its own Redstone settings (called by core createMarketWithOracle)
+    /// @param marketId Market just created
+    /// @param config Feed id (non-zero), feed decimals, Δmax and δfuture for this market
+    function setMarketOracleConfig(
+        uint256 marketId,
+        ISignalsCore.MarketOracleConfig calldata config
+    ) external onlyDelegated {
+        require(markets[marketId].numBins != 0, SE.MarketNotFound(marketId));
+        require(config.feedId != bytes32(0), SE.InvalidMarketOracleConfig(marketId));
+        _marketOracleConfig[marketId] = config;
+        emit MarketOracleConfigSet(
+            marketId,
+            config.feedId,
+            config.feedDecimals,
+            config.maxSampleDistance,
+            config.futureTolerance
+        );
+    }
+
+    /// @notice Set the multi-sample settlement rule
+    /// @dev CLOSEST (default) settles on the single closest sample and takes no parameters.
+    ///      MEDIAN / TIME_WEIGHTED keep up to `maxSamples` (2..MAX_SETTLEMENT_SAMPLES) samples per market.
+    ///      Applies to samples submitted after the change; finalization uses the rule in force then.
+    /// @param mode SETTLEMENT_RULE_CLOSEST, SETTLEMENT_RULE_MEDIAN or SETTLEMENT_RULE_TIME_WEIGHTED
+    /// @param maxSamples K: samples kept per market
+    /// @param maxDeviationBps Fail the market at finalization if a sample deviates more (0 = off)
+    function setSettlementRule(
+        uint8 mode,
+        uint8 maxSamples,
+        uint32 maxDeviationBps
+    ) external onlyDelegated {
+        bool valid = mode == SETTLEMENT_RULE_CLOSEST
+            ? maxSamples == 0 && maxDeviationBps == 0
+            : mode <= SETTLEMENT_RULE_TIME_WEIGHTED &&
+                maxSamples >= 2 &&
+                maxSamples <= MAX_SETTLEMENT_SAMPLES &&
+                maxDeviationBps <= 10_000;
+        require(valid, SE.InvalidSettlementRule(mode, maxSamples, maxDeviationBps));
+        settlementRule = SettlementRuleConfig({
+            mode: mode,
+            maxSamples: maxSamples,
+            maxDeviationBps: maxDeviationBps
+        });
+        emit SettlementRuleUpdated(mode, maxSamples, maxDeviationBps);
+    }
+
     // ============================================================
     // Settlement Submission (Redstone Signed-Pull)
     // ============================================================
@@ -96,27 +162,36 @@ contract OracleModule is SignalsCoreStorage, PrimaryProdDataServiceConsumerBase
         require(nowTs >= tSet, SE.OracleSampleTooEarly(tSet, nowTs));
         require(nowTs < tSet + settlementSubmitWindow, SE.SettlementWindowClosed());
 
+        ISignalsCore.MarketOracleConfig memory oracle = _oracleConfig(marketId);
+
         // Extract price and timestamp from Redstone payload in calldata
         // PrimaryProdDataServiceConsumerBase validates signatures and unique signer threshold
-        uint256 price = getOracleNumericValueFromTxMsg(redstoneFeedId);
+        uint256 price = getOracleNumericValueFromTxMsg(oracle.feedId);
         uint256 timestampMs = extractTimestampsAndAssertAllAreEqual();
         uint64 priceTimestamp = uint64(timestampMs / 1000);
 
         // δfuture check: reject future-dated samples
-        require(priceTimestamp <= nowTs + futureTolerance, SE.OracleSampleInFuture(priceTimestamp, nowTs));
+        require(priceTimestamp <= nowTs + oracle.futureTolerance, SE.OracleSampleInFuture(priceTimestamp, nowTs));
 
         // Δmax check: |priceTimestamp - Tset| ≤ maxSampleDistance
         uint64 distance = priceTimestamp >= tSet
             ? priceTimestamp - tSet
             : tSet - priceTimestamp;
-        require(maxSampleDistance == 0 || distance <= maxSampleDistance, SE.OracleSampleTooFarFromTset(distance, maxSampleDistance));
+        require(
+            oracle.maxSampleDistance == 0 || distance <= oracle.maxSampleDistance,
+            SE.OracleSampleTooFarFromTset(distance, oracle.maxSampleDistance)
+        );
 
         // Convert price to settlementValue (scale from feedDecimals to 6 decimals)
-        int256 settlementValue = _convertPriceToSettlementValue(price);
+        int256 settlementValue = _convertPriceToSettlementValue(price, oracle.feedDecimals);
 
         // Closest-sample selection: prefer sample closest to Tset
         _updateCandidate(marketId, settlementValue, priceTimestamp, tSet);
 
+        if (settlementRule.mode != SETTLEMENT_RULE_CLOSEST) {
+            _recordSample(marketId, settlementValue, priceTimestamp, tSet);
+        }
+
         emit SettlementPriceSubmitted(marketId, settlementValue, priceTimestamp, msg.sender);
     }
 
@@ -169,10 +244,66 @@ contract OracleModule is SignalsCoreStorage, PrimaryProdDataServiceConsumerBase
         }
     }
 
+    /// @dev Keep the K samples closest to Tset (multi-sample rule)
+    ///      - One sample per priceTimestamp; later duplicates are ignored
+    ///      - When full, replace the worst stored sample (farthest, later on tie)
+    ///        if the new one would beat it under the closest-sample rule
+    function _recordSample(
+        uint256 marketId,
+        int256 settlementValue,
+        uint64 priceTimestamp,
+        uint64 tSet
+    ) internal {
+        SettlementSample[] storage samples = _settlementSamples[marketId];
+        uint256 n = samples.length;
+        uint256 worst;
+        uint64 worstTs;
+        uint64 worstDistance;
+        for (uint256 i = 0; i < n; i++) {
+            uint64 ts = samples[i].priceTimestamp;
+            if (ts == priceTimestamp) return;
+            uint64 distance = ts >= tSet ? ts - tSet : tSet - ts;
+            if (i == 0 || distance > worstDistance || (distance == worstDistance && ts > worstTs)) {
+                worst = i;
+                worstTs = ts;
+                worstDistance = distance;
+            }
+        }
+
+        if (n < settlementRule.maxSamples) {
+            samples.push(SettlementSample({value: settlementValue, priceTimestamp: priceTimestamp}));
+            emit SettlementSampleRecorded(marketId, settlementValue, priceTimestamp, 0);
+            return;
+        }
+
+        uint64 newDistance = priceTimestamp >= tSet ? priceTimestamp - tSet : tSet - priceTimestamp;
+        if (newDistance < worstDistance || (newDistance == worstDistance && priceTimestamp < worstTs)) {
+            samples[worst] = SettlementSample({value: settlementValue, priceTimestamp: priceTimestamp});
+            emit SettlementSampleRecorded(marketId, settlementValue, priceTimestamp, worstTs);
+        }
+    }
+
     // ============================================================
     // View Functions
     // ============================================================
 
+    /// @notice Returns the samples stored for a market under the multi-sample rule (unordered)
+    function getSettlementSamples(uint256 marketId)
+        external
+        view
+        onlyDelegated
+        returns (int256[] memory values, uint64[] memory priceTimestamps)
+    {
+        SettlementSample[] storage samples = _settlementSamples[marketId];
+        uint256 n = samples.length;
+        values = new int256[](n);
+        priceTimestamps = new uint64[](n);
+        for (uint256 i = 0; i < n; i++) {
+            values[i] = samples[i].value;
+            priceTimestamps[i] = samples[i].priceTimestamp;
+        }
+    }
+
     /// @notice Returns the settlement price candidate for a market
     function getSettlementPrice(uint256 marketId)
         external
@@ -186,6 +317,17 @@ contract OracleModule is SignalsCoreStorage, PrimaryProdDataServiceConsumerBase
         priceTimestamp = state.candidatePriceTimestamp;
     }
 
+    /// @notice Oracle settings a market settles with (its own, or the global config)
+    function getMarketOracleConfig(uint256 marketId)
+        external
+        view
+        onlyDelegated
+        returns (ISignalsCore.MarketOracleConfig memory config)
+    {
+        require(markets[marketId].numBins != 0, SE.MarketNotFound(marketId));
+        config = _oracleConfig(marketId);
+    }
+
     /// @notice Get the current market state (derived from timestamps)
     /// @return state 0=Trading, 1=SettlementOpen, 2=PendingOps, 3=FinalizedPrimary, 4=FinalizedSecondary, 5=FailedPendingManual
     function getMarketState(uint256 marketId) external view returns (uint8 state) {
@@ -230,17 +372,30 @@ contract OracleModule is SignalsCoreStorage, PrimaryProdDataServiceConsumerBase
     // Internal Helpers
     // ============================================================
 
+    /// @dev Per-market settings if set at creation, otherwise the global Redstone config
+    function _oracleConfig(uint256 marketId) internal view returns (ISignalsCore.MarketOracleConfig memory config) {
+        config = _marketOracleConfig[marketId];
+        if (config.feedId == bytes32(0)) {
+            config = ISignalsCore.MarketOracleConfig({
+                feedId: redstoneFeedId,
+                feedDecimals: redstoneFeedDecimals,
+                maxSampleDistance: maxSampleDistance,
+                futureTolerance: futureTolerance
+            });
+        }
+    }
+
     /// @dev Convert Redstone price (feedDecimals) to settlementValue (6 decimals)
-    function _convertPriceToSettlementValue(uint256 price) internal view returns (int256) {
-        if (redstoneFeedDecimals <= 6) {
+    function _convertPriceToSettlementValue(uint256 price, uint8 feedDecimals) internal pure returns (int256) {
+        if (feedDecimals <= 6) {
             // Scale up if feed has fewer decimals
-            uint256 scaleFactor = 10 ** uint256(6 - redstoneFeedDecimals);
+            uint256 scaleFactor = 10 ** uint256(6 - feedDecimals);
             uint256 scaled = price * scaleFactor;
             if (scaled > uint256(type(int256).max)) revert SE.PriceOverflow(scaled);
             return int256(scaled);
         } else {
             // Scale down if feed has more decimals
-            uint256 scaleDivisor = 10 ** uint256(redstoneFeedDecimals - 6);
+            uint256 scaleDivisor = 10 ** uint256(feedDecimals - 6);
             uint256 scaled = price / scaleDivisor;
             if (scaled > uint256(type(int256).max)) revert SE.PriceOverflow(scaled);
             return int256(scaled);
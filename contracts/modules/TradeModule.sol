@@ -300,6 +300,99 @@ contract TradeModule is SignalsCoreStorage {
         return _roundCredit(proceedsWad);
     }
 
+    /// @notice Largest quantity whose cost plus overlay fee fits in `budget` (6 decimals) for a buy over the range.
+    /// @dev Fee is quoted by the market's fee policy for msg.sender, as openPosition would. The search is
+    ///      bounded by the fee-free inverse (ClmsrMath.calculateQuantityFromCost), by what one
+    ///      openPosition can apply (MAX_CHUNKS_PER_TX safe chunks) and by the largest quantity the
+    ///      range sum can absorb without overflowing, then bisects on the forward quote,
+    ///      so `openPosition(quantity, maxCost = cost + fee)` succeeds against the same state.
+    ///      Returns zero quantity when the budget does not cover the smallest unit.
+    function calculateQuantityFromBudget(
+        uint256 marketId,
+        int256 lowerTick,
+        int256 upperTick,
+        uint256 budget
+    ) external view returns (uint128 quantity, uint256 cost, uint256 fee) {
+        require(budget != 0, SE.ZeroAmount());
+        ISignalsCore.Market storage market = _loadAndValidateMarket(marketId);
+        address feePolicy = market.feePolicy != address(0) ? market.feePolicy : defaultFeePolicy;
+        (uint32 loBin, uint32 hiBin) = TickBinLib.ticksToBins(
+            market.minTick, market.maxTick, market.tickSpacing, market.numBins,
+            lowerTick, upperTick
+        );
+        uint256 alpha = market.liquidityParameter;
+        LazyMulSegmentTree.Tree storage tree = marketTrees[marketId];
+
+        uint256 hi = (ClmsrMath.maxSafeChunkQuantity(alpha) * MAX_CHUNKS_PER_TX).fromWad();
+        // Forward quotes overflow once rangeSum * exp(q / alpha) exceeds uint256 (factors are WAD-scaled)
+        uint256 affectedSum = tree.getRangeSum(loBin, hiBin);
+        require(affectedSum != 0, SE.AffectedSumZero());
+        uint256 headroom = type(uint256).max / affectedSum;
+        uint256 overflowCap = headroom > FixedPointMathU.WAD ? alpha.wMul(headroom.wLn()).fromWad() : 0;
+        if (overflowCap < hi) hi = overflowCap;
+        uint256 budgetWad = budget.toWad();
+        if (budgetWad.wDiv(alpha) <= FixedPointMathU.MAX_EXP_INPUT_WAD) {
+            uint256 inverse = tree.calculateQuantityFromCost(alpha, loBin, hiBin, budgetWad).fromWad() + 1;
+            if (inverse < hi) hi = inverse;
+        }
+        if (hi > type(uint128).max) hi = type(uint128).max;
+
+        uint256 lo;
+        while (lo < hi) {
+            uint256 mid = (lo + hi + 1) / 2;
+            (uint256 midCost, uint256 midFee) = _quoteBuyWithFee(
+                feePolicy, marketId, lowerTick, upperTick, loBin, hiBin, alpha, uint128(mid)
+            );
+            if (midCost + midFee <= budget) {
+                lo = mid;
+                (cost, fee) = (midCost, midFee);
+            } else {
+                hi = mid - 1;
+            }
+        }
+        quantity = uint128(lo);
+    }
+
+    /// @notice Raw tree sum over [lowerTick, upperTick); readable for any existing market, settled or not.
+    function getRangeSum(
+        uint256 marketId,
+        int256 lowerTick,
+        int256 upperTick
+    ) external view returns (uint256 sum) {
+        require(_marketExists(marketId), SE.MarketNotFound(marketId));
+        ISignalsCore.Market storage market = markets[marketId];
+        (uint32 loBin, uint32 hiBin) = TickBinLib.ticksToBins(
+            market.minTick, market.maxTick, market.tickSpacing, market.numBins,
+            lowerTick, upperTick
+        );
+        sum = marketTrees[marketId].getRangeSum(loBin, hiBin);
+    }
+
+    /// @notice Market-implied probability of each bin in [fromBin, fromBin + count), clamped to numBins.
+    /// @dev probabilities[i] = binSum / totalSum in WAD, rounded down (a full read sums to at most 1 WAD).
+    ///      Bin i covers [lowerTicks[i], lowerTicks[i] + tickSpacing). Page through large markets
+    ///      (up to 256 bins) with several calls to stay under eth_call gas caps.
+    function getBinProbabilities(
+        uint256 marketId,
+        uint32 fromBin,
+        uint32 count
+    ) external view returns (int256[] memory lowerTicks, uint256[] memory probabilities) {
+        require(_marketExists(marketId), SE.MarketNotFound(marketId));
+        ISignalsCore.Market storage market = markets[marketId];
+        uint32 numBins = market.numBins;
+        require(fromBin < numBins, SE.IndexOutOfBounds(fromBin, numBins));
+        uint32 toBin = count > numBins - fromBin ? numBins : fromBin + count;
+
+        LazyMulSegmentTree.Tree storage tree = marketTrees[marketId];
+        uint256 total = tree.totalSum();
+        lowerTicks = new int256[](toBin - fromBin);
+        probabilities = new uint256[](toBin - fromBin);
+        for (uint32 bin = fromBin; bin < toBin; bin++) {
+            lowerTicks[bin - fromBin] = market.minTick + int256(uint256(bin)) * market.tickSpacing;
+            probabilities[bin - fromBin] = tree.getRangeSum(bin, bin).wDiv(total);
+        }
+    }
+
     // --- Shared validation helpers ---
 
     function _marketExists(uint256 marketId) internal view returns (bool) {
@@ -336,6 +429,21 @@ contract TradeModule is SignalsCoreStorage {
         costWad = tree.calculateTradeCost(market.liquidityParameter, loBin, hiBin, quantityWad);
     }
 
+    /// @dev calculateOpenCost plus the policy fee on it, for the budget search.
+    function _quoteBuyWithFee(
+        address feePolicy,
+        uint256 marketId,
+        int256 lowerTick,
+        int256 upperTick,
+        uint32 loBin,
+        uint32 hiBin,
+        uint256 alpha,
+        uint128 quantity
+    ) internal view returns (uint256 cost6, uint256 fee6) {
+        cost6 = _roundDebit(marketTrees[marketId].calculateTradeCost(alpha, loBin, hiBin, uint256(quantity).toWad()));
+        fee6 = _quoteFeeWithPolicy(feePolicy, true, msg.sender, marketId, lowerTick, upperTick, quantity, cost6);
+    }
+
     function _calculateSellProceeds(
         uint256 marketId,
         int256 lowerTick,
@@ -140,6 +140,13 @@ contract LPVaultModuleProxy is SignalsCoreStorage {
         ));
     }
 
+    function processEmptyBatch(uint64 batchId) external {
+        _delegate(abi.encodeWithSelector(
+            LPVaultModule.processEmptyBatch.selector,
+            batchId
+        ));
+    }
+
     // ============================================================
     // Claims
     // ============================================================
@@ -227,6 +234,11 @@ contract LPVaultModuleProxy is SignalsCoreStorage {
         );
     }
 
+    /// @notice Harness-only: full snapshot including the fee waterfall audit fields
+    function harnessGetDailyPnlSnapshot(uint64 batchId) external view returns (DailyPnlSnapshot memory) {
+        return _dailyPnl[batchId];
+    }
+
     function getCurrentBatchId() external view returns (uint64) {
         return currentBatchId;
     }
@@ -0,0 +1,102 @@
+import hre from "hardhat";
+import { loadEnvironment, recordDeployment, recordMarket, updateConfig, updateContracts } from "../utils/environment";
+import { writeReleaseSnapshot } from "../utils/release";
+import type { PendingEnvUpdate } from "../utils/safe";
+import type { Environment, EnvironmentFile } from "../types/environment";
+import { collectDrift, type DriftEntry } from "./safety-check";
+
+const BATCH_SECONDS = 86400n;
+
+/** The environment file as it reads once `pending` is applied (same merge as updateConfig / updateContracts) */
+export function applyPendingEnv(data: EnvironmentFile, pending: PendingEnvUpdate): EnvironmentFile {
+  const next = JSON.parse(JSON.stringify(data)) as EnvironmentFile;
+  const existing = next.config ?? {};
+  next.config = {
+    ...existing,
+    ...pending.config,
+    owners: { ...existing.owners, ...pending.config?.owners },
+  };
+  next.contracts = { ...next.contracts, ...pending.contracts };
+  for (const marketId of pending.markets ?? []) {
+    const record = next.markets?.[marketId];
+    if (record) record.status = "created";
+  }
+  return next;
+}
+
+function driftKey(entry: DriftEntry): string {
+  return JSON.stringify([entry.check, entry.chain, entry.env, entry.message]);
+}
+
+/**
+ * Apply the environment changes a SAFE_EXPORT run held back, once the Safe has executed its batch.
+ *
+ * The export's history entry is found by `SAFE_BATCH` (its `meta.safeBatch` path). The changes are
+ * only recorded if they add no safety-check drift, i.e. the chain already carries them, and every
+ * queued market exists in the batch it was recorded for.
+ */
+export async function reconcileSafeAction(env: Environment) {
+  const { ethers, network } = hre;
+  console.log(`[reconcile-safe] environment=${env} network=${network.name}`);
+  const batchPath = process.env.SAFE_BATCH;
+  if (!batchPath) {
+    throw new Error("SAFE_BATCH is required (exported batch path, as recorded in history meta.safeBatch)");
+  }
+
+  const envData = loadEnvironment(env);
+  const entry = envData.history.find((record) => record.meta?.safeBatch === batchPath);
+  if (!entry) throw new Error(`No history entry exported ${batchPath}`);
+  if (envData.history.some((record) => record.action === "reconcile-safe" && record.meta?.safeBatch === batchPath)) {
+    throw new Error(`${batchPath} is already reconciled`);
+  }
+  const pending = (entry.meta?.pendingEnv ?? {}) as PendingEnvUpdate;
+  console.log(`[reconcile-safe] ${entry.action} (version=${entry.version}) ${batchPath}`);
+
+  const coreAddress = envData.contracts.SignalsCoreProxy;
+  if (!coreAddress) throw new Error("Missing SignalsCoreProxy in environment file");
+  const core = await ethers.getContractAt("SignalsCore", coreAddress);
+  for (const marketId of pending.markets ?? []) {
+    const record = envData.markets?.[marketId];
+    const market = await core.markets(marketId);
+    if (market.numBins === 0n) {
+      throw new Error(`Market ${marketId} is not on chain yet; has the Safe executed ${batchPath}?`);
+    }
+    const batchId = (market.settlementTimestamp / BATCH_SECONDS).toString();
+    if (record && batchId !== record.batchId) {
+      throw new Error(
+        `Market ${marketId} settles in batch ${batchId}, recorded ${record.batchId}; ` +
+          "another market took the expected id, fix the record by hand"
+      );
+    }
+  }
+
+  // Drift the env file already has is not this batch's doing; anything new is a value not on chain.
+  // Entries are matched on their values too, so a pending value that is wrong for an already
+  // drifting check still counts as introduced.
+  const before = new Set((await collectDrift(envData)).drift.map(driftKey));
+  const after = await collectDrift(applyPendingEnv(envData, pending));
+  const introduced = after.drift.filter((item) => item.severity === "error" && !before.has(driftKey(item)));
+  if (introduced.length) {
+    for (const item of introduced) console.error(`[reconcile-safe] ${item.message}`);
+    throw new Error(`${introduced.length} pending value(s) differ from the chain; has the Safe executed ${batchPath}?`);
+  }
+
+  if (pending.config) updateConfig(env, pending.config);
+  if (pending.contracts) updateContracts(env, pending.contracts);
+  for (const marketId of pending.markets ?? []) {
+    const record = envData.markets?.[marketId];
+    if (record) recordMarket(env, { ...record, status: "created" });
+  }
+  const [operator] = await ethers.getSigners();
+  const { data, record } = recordDeployment(env, {
+    action: "reconcile-safe",
+    deployer: operator.address,
+    meta: { safeBatch: batchPath, reconciles: entry.version },
+  });
+  writeReleaseSnapshot(env, data, pending.release);
+  console.log(
+    `[reconcile-safe] applied config=${Object.keys(pending.config ?? {}).length} contracts=${
+      Object.keys(pending.contracts ?? {}).length
+    } markets=${(pending.markets ?? []).length} (version=${record.version})`
+  );
+}
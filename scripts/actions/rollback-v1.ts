@@ -0,0 +1,165 @@
+import fs from "fs";
+import path from "path";
+import hre from "hardhat";
+import { loadEnvironment, recordDeployment } from "../utils/environment";
+import { buildReleaseMetaFromEnv, writeReleaseSnapshot } from "../utils/release";
+import {
+  createSafeBatch,
+  isSafeExportMode,
+  resolveSafeAddress,
+  sendOrQueue,
+  updateContractsOrQueue,
+  writeSafeBatch,
+} from "../utils/safe";
+import type { Environment, EnvironmentContracts } from "../types/environment";
+
+interface ReleaseSnapshot {
+  version: number;
+  contracts: EnvironmentContracts;
+  release?: { release?: string };
+}
+
+interface ModuleSet {
+  TradeModule: string;
+  MarketLifecycleModule: string;
+  RiskModule: string;
+  LPVaultModule: string;
+  OracleModule: string;
+}
+
+const MODULE_KEYS: (keyof ModuleSet)[] = [
+  "TradeModule",
+  "MarketLifecycleModule",
+  "RiskModule",
+  "LPVaultModule",
+  "OracleModule",
+];
+
+function loadSnapshots(env: Environment): { file: string; snapshot: ReleaseSnapshot }[] {
+  const dir = path.join("releases", env);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => {
+      const file = path.join(dir, name);
+      return { file, snapshot: JSON.parse(fs.readFileSync(file, "utf8")) as ReleaseSnapshot };
+    });
+}
+
+function findSnapshot(env: Environment, target: string) {
+  const snapshots = loadSnapshots(env);
+  const matches = /^\d+$/.test(target)
+    ? snapshots.filter(({ snapshot }) => snapshot.version === Number(target))
+    : snapshots.filter(
+        ({ file, snapshot }) =>
+          snapshot.release?.release === target || path.basename(file, ".json").endsWith(`-${target}`)
+      );
+  if (matches.length === 0) {
+    const available = snapshots
+      .map(({ snapshot }) => `${snapshot.version}${snapshot.release?.release ? ` (${snapshot.release.release})` : ""}`)
+      .join(", ");
+    throw new Error(
+      `No release snapshot for "${target}" in releases/${env}/ (available: ${available || "none"})`
+    );
+  }
+  if (matches.length > 1) {
+    throw new Error(`Ambiguous rollback target "${target}": ${matches.map(({ file }) => file).join(", ")}`);
+  }
+  return matches[0];
+}
+
+function extractModules(contracts: EnvironmentContracts, source: string): ModuleSet {
+  const modules = {
+    TradeModule: contracts.TradeModule,
+    MarketLifecycleModule: contracts.MarketLifecycleModule,
+    RiskModule: contracts.RiskModule,
+    LPVaultModule: contracts.LPVaultModule ?? contracts.VaultModule,
+    OracleModule: contracts.OracleModule,
+  };
+  const missing = MODULE_KEYS.filter((key) => !modules[key]);
+  if (missing.length) {
+    throw new Error(`Snapshot ${source} is missing module addresses: ${missing.join(", ")}`);
+  }
+  return modules as ModuleSet;
+}
+
+export async function rollbackAction(env: Environment) {
+  const { ethers, network } = hre;
+  console.log(`[rollback] environment=${env} network=${network.name}`);
+  const [deployer] = await ethers.getSigners();
+
+  const target = process.env.ROLLBACK_TO;
+  if (!target) {
+    throw new Error("ROLLBACK_TO is required (target version number or release label)");
+  }
+
+  const envData = loadEnvironment(env);
+  const coreProxyAddr = envData.contracts.SignalsCoreProxy;
+  if (!coreProxyAddr) {
+    throw new Error("Missing SignalsCoreProxy in environment file");
+  }
+
+  const { file, snapshot } = findSnapshot(env, target);
+  const modules = extractModules(snapshot.contracts, file);
+  console.log(`[rollback] target version=${snapshot.version} source=${file}`);
+
+  for (const key of MODULE_KEYS) {
+    const code = await ethers.provider.getCode(modules[key]);
+    if (code === "0x") {
+      throw new Error(`${key} has no code at ${modules[key]} (snapshot ${file})`);
+    }
+  }
+
+  const core = await ethers.getContractAt("SignalsCore", coreProxyAddr);
+  const current: ModuleSet = {
+    TradeModule: await core.tradeModule(),
+    MarketLifecycleModule: await core.lifecycleModule(),
+    RiskModule: await core.riskModule(),
+    LPVaultModule: await core.vaultModule(),
+    OracleModule: await core.oracleModule(),
+  };
+  for (const key of MODULE_KEYS) {
+    const changed = current[key].toLowerCase() !== modules[key].toLowerCase();
+    console.log(`[rollback] ${key}: ${current[key]} -> ${modules[key]}${changed ? "" : " (unchanged)"}`);
+  }
+
+  const safeBatch = isSafeExportMode()
+    ? createSafeBatch(
+        `rollback-v${snapshot.version}`,
+        (await ethers.provider.getNetwork()).chainId,
+        resolveSafeAddress(await core.owner())
+      )
+    : undefined;
+  await sendOrQueue(safeBatch, core, "setModules", [
+    modules.TradeModule,
+    modules.MarketLifecycleModule,
+    modules.RiskModule,
+    modules.LPVaultModule,
+    modules.OracleModule,
+  ]);
+  const safeBatchPath = safeBatch ? writeSafeBatch(env, safeBatch) : undefined;
+
+  updateContractsOrQueue(env, safeBatch, {
+    ...modules,
+    ...(snapshot.contracts.LazyMulSegmentTree
+      ? { LazyMulSegmentTree: snapshot.contracts.LazyMulSegmentTree }
+      : {}),
+  });
+
+  const releaseMeta = buildReleaseMetaFromEnv();
+  const { data: updatedEnv, record } = recordDeployment(env, {
+    action: "rollback",
+    deployer: deployer.address,
+    meta: {
+      ...releaseMeta,
+      rollbackTo: snapshot.version,
+      source: file,
+      ...(safeBatch ? { safeBatch: safeBatchPath, pendingEnv: { ...safeBatch.pendingEnv, release: releaseMeta } } : {}),
+    },
+  });
+  if (!safeBatch) writeReleaseSnapshot(env, updatedEnv, releaseMeta);
+
+  console.log(`[rollback] completed (version=${record.version}, restored=${snapshot.version})`);
+}
@@ -1,11 +1,50 @@
 import hre from "hardhat";
 import { loadEnvironment } from "../utils/environment";
-import type { Environment } from "../types/environment";
+import type { Environment, EnvironmentFile } from "../types/environment";
 
-function assertAddressMatch(label: string, actual: string, expected?: string) {
-  if (!expected) return;
-  if (actual.toLowerCase() !== expected.toLowerCase()) {
-    throw new Error(`${label} mismatch: chain=${actual} env=${expected}`);
+type DriftSeverity = "error" | "warn";
+
+export interface DriftEntry {
+  check: string;
+  severity: DriftSeverity;
+  chain?: string;
+  env?: string;
+  message: string;
+}
+
+export interface DriftReport {
+  environment: Environment;
+  network: string;
+  ok: boolean;
+  checked: number;
+  drift: DriftEntry[];
+}
+
+class DriftCollector {
+  checked = 0;
+  readonly drift: DriftEntry[] = [];
+
+  fail(check: string, message: string, severity: DriftSeverity = "error") {
+    this.drift.push({ check, severity, message });
+  }
+
+  compare(check: string, actual: string, expected: string | undefined, severity: DriftSeverity = "error") {
+    if (expected === undefined) return;
+    this.checked++;
+    if (actual !== expected) {
+      this.drift.push({
+        check,
+        severity,
+        chain: actual,
+        env: expected,
+        message: `${check} mismatch: chain=${actual} env=${expected}`,
+      });
+    }
+  }
+
+  compareAddress(check: string, actual: string, expected?: string) {
+    if (!expected) return;
+    this.compare(check, actual.toLowerCase(), expected.toLowerCase());
   }
 }
 
@@ -13,10 +52,27 @@ function toBigIntString(value: bigint): string {
   return value.toString();
 }
 
+function isJsonMode(): boolean {
+  return process.env.SAFETY_CHECK_JSON === "1";
+}
+
 export async function safetyCheckAction(env: Environment) {
-  const { ethers, upgrades, network } = hre;
-  console.log(`[safety-check] environment=${env} network=${network.name}`);
-  const envData = loadEnvironment(env);
+  const json = isJsonMode();
+  if (!json) console.log(`[safety-check] environment=${env} network=${hre.network.name}`);
+  const drift = await collectDrift(loadEnvironment(env), json ? () => {} : console.warn);
+  return finish(env, hre.network.name, drift, json);
+}
+
+/**
+ * Compare an environment file (addresses, owners, config, per-market feeds, code presence) with the chain.
+ */
+export async function collectDrift(
+  envData: EnvironmentFile,
+  warn: (message: string) => void = () => {}
+): Promise<Pick<DriftReport, "checked" | "drift">> {
+  const { ethers, upgrades } = hre;
+  const config = envData.config ?? {};
+  const drift = new DriftCollector();
 
   const required = [
     "SignalsCoreProxy",
@@ -33,41 +89,36 @@ export async function safetyCheckAction(env: Environment) {
   ];
   for (const key of required) {
     if (!envData.contracts[key]) {
-      throw new Error(`Missing ${key} in environment file`);
+      drift.fail(`contracts.${key}`, `Missing ${key} in environment file`);
     }
   }
 
   const coreProxy = envData.contracts.SignalsCoreProxy;
   const positionProxy = envData.contracts.SignalsPositionProxy;
+  if (!coreProxy || !positionProxy) {
+    // Nothing on-chain can be checked without the proxies
+    return drift;
+  }
 
   const coreImpl = await upgrades.erc1967.getImplementationAddress(coreProxy);
   const positionImpl = await upgrades.erc1967.getImplementationAddress(positionProxy);
-
-  if (coreImpl.toLowerCase() !== envData.contracts.SignalsCoreImplementation.toLowerCase()) {
-    throw new Error(`Core impl mismatch: manifest=${coreImpl} env=${envData.contracts.SignalsCoreImplementation}`);
-  }
-  if (positionImpl.toLowerCase() !== envData.contracts.SignalsPositionImplementation.toLowerCase()) {
-    throw new Error(
-      `Position impl mismatch: manifest=${positionImpl} env=${envData.contracts.SignalsPositionImplementation}`
-    );
-  }
+  drift.compareAddress("Core impl", coreImpl, envData.contracts.SignalsCoreImplementation);
+  drift.compareAddress("Position impl", positionImpl, envData.contracts.SignalsPositionImplementation);
 
   const core = await ethers.getContractAt("SignalsCore", coreProxy);
   const position = await ethers.getContractAt("SignalsPosition", positionProxy);
 
-  const expectedCoreOwner = envData.config?.owners?.core;
-  const expectedPositionOwner = envData.config?.owners?.position;
+  const expectedCoreOwner = config.owners?.core;
+  const expectedPositionOwner = config.owners?.position;
   if (expectedCoreOwner) {
-    const actual = await core.owner();
-    assertAddressMatch("Core owner", actual, expectedCoreOwner);
+    drift.compareAddress("Core owner", await core.owner(), expectedCoreOwner);
   } else {
-    console.warn("[safety-check] expected core owner not set in environment config");
+    warn("[safety-check] expected core owner not set in environment config");
   }
   if (expectedPositionOwner) {
-    const actual = await position.owner();
-    assertAddressMatch("Position owner", actual, expectedPositionOwner);
+    drift.compareAddress("Position owner", await position.owner(), expectedPositionOwner);
   } else {
-    console.warn("[safety-check] expected position owner not set in environment config");
+    warn("[safety-check] expected position owner not set in environment config");
   }
 
   const moduleChecks = [
@@ -98,86 +149,108 @@ export async function safetyCheckAction(env: Environment) {
     },
   ];
   for (const module of moduleChecks) {
-    if (!module.expected) {
-      if (["TradeModule", "MarketLifecycleModule", "OracleModule"].includes(module.name)) {
-        throw new Error(`Missing ${module.name} in environment file`);
-      }
-      continue;
-    }
-    assertAddressMatch(`${module.name} address`, module.actual, module.expected);
+    drift.compareAddress(`${module.name} address`, module.actual, module.expected);
   }
 
-  const positionCore = await position.core();
-  assertAddressMatch("Position core", positionCore, coreProxy);
-
-  const corePosition = await core.positionContract();
-  assertAddressMatch("Core positionContract", corePosition, positionProxy);
+  drift.compareAddress("Position core", await position.core(), coreProxy);
+  drift.compareAddress("Core positionContract", await core.positionContract(), positionProxy);
 
-  const paymentToken = await core.paymentToken();
   const expectedPaymentToken = envData.contracts.SignalsUSDToken ?? envData.contracts.PaymentToken;
   if (!expectedPaymentToken) {
-    throw new Error("Missing SignalsUSDToken (payment token) in environment file");
+    drift.fail("contracts.SignalsUSDToken", "Missing SignalsUSDToken (payment token) in environment file");
   }
-  assertAddressMatch("Payment token", paymentToken, expectedPaymentToken);
+  drift.compareAddress("Payment token", await core.paymentToken(), expectedPaymentToken);
+  drift.compareAddress("LP share token", await core.lpShareToken(), envData.contracts.SignalsLPShare);
 
-  const lpShareToken = await core.lpShareToken();
-  assertAddressMatch("LP share token", lpShareToken, envData.contracts.SignalsLPShare);
-
-  const submitWindow = envData.config?.settlementSubmitWindow;
-  if (submitWindow) {
-    const actual = await core.settlementSubmitWindow();
-    if (toBigIntString(actual) !== submitWindow) {
-      throw new Error(`settlementSubmitWindow mismatch: chain=${actual} env=${submitWindow}`);
-    }
+  // Settlement + oracle config
+  drift.compare(
+    "settlementSubmitWindow",
+    toBigIntString(await core.settlementSubmitWindow()),
+    config.settlementSubmitWindow
+  );
+  drift.compare(
+    "claimDelaySeconds",
+    toBigIntString(await core.claimDelaySeconds()),
+    config.settlementFinalizeDeadline
+  );
+  drift.compare("pendingOpsWindow", toBigIntString(await core.pendingOpsWindow()), config.pendingOpsWindow);
+  if (config.redstoneFeedId) {
+    drift.compare(
+      "redstoneFeedId",
+      (await core.redstoneFeedId()).toLowerCase(),
+      ethers.encodeBytes32String(config.redstoneFeedId).toLowerCase()
+    );
   }
-
-  const finalizeDeadline = envData.config?.settlementFinalizeDeadline;
-  if (finalizeDeadline) {
-    const actual = await core.claimDelaySeconds();
-    if (toBigIntString(actual) !== finalizeDeadline) {
-      throw new Error(`claimDelaySeconds mismatch: chain=${actual} env=${finalizeDeadline}`);
-    }
+  drift.compare(
+    "redstoneFeedDecimals",
+    toBigIntString(await core.redstoneFeedDecimals()),
+    config.redstoneFeedDecimals?.toString()
+  );
+  drift.compare("maxSampleDistance", toBigIntString(await core.maxSampleDistance()), config.redstoneMaxSampleDistance);
+  drift.compare("futureTolerance", toBigIntString(await core.futureTolerance()), config.redstoneFutureTolerance);
+  if (config.settlementRule) {
+    const [mode, maxSamples, maxDeviationBps] = await core.getSettlementRule();
+    drift.compare("settlementRule.mode", toBigIntString(mode), config.settlementRule.mode.toString());
+    drift.compare("settlementRule.maxSamples", toBigIntString(maxSamples), config.settlementRule.maxSamples.toString());
+    drift.compare(
+      "settlementRule.maxDeviationBps",
+      toBigIntString(maxDeviationBps),
+      config.settlementRule.maxDeviationBps.toString()
+    );
   }
 
-  const pendingOpsWindow = envData.config?.pendingOpsWindow;
-  if (pendingOpsWindow) {
-    const actual = await core.pendingOpsWindow();
-    if (toBigIntString(actual) !== pendingOpsWindow) {
-      throw new Error(`pendingOpsWindow mismatch: chain=${actual} env=${pendingOpsWindow}`);
-    }
+  // Economic config written by create-market
+  const [lambda, kDrawdown, enforceAlpha] = await core.getRiskConfig();
+  if (config.risk) {
+    drift.compare("risk.lambda", toBigIntString(lambda), config.risk.lambda);
+    drift.compare("risk.kDrawdown", toBigIntString(kDrawdown), config.risk.kDrawdown);
+    drift.compare("risk.enforceAlpha", String(enforceAlpha), String(config.risk.enforceAlpha));
   }
 
-  const redstoneFeedId = envData.config?.redstoneFeedId;
-  if (redstoneFeedId) {
-    const expected = ethers.encodeBytes32String(redstoneFeedId);
-    const actual = await core.redstoneFeedId();
-    if (actual.toLowerCase() !== expected.toLowerCase()) {
-      throw new Error(`redstoneFeedId mismatch: chain=${actual} env=${expected}`);
-    }
+  const [rhoBS, pdd, phiLP, phiBS, phiTR] = await core.getFeeWaterfallConfig();
+  const expectedPdd =
+    config.feeWaterfall?.pdd ?? (config.risk ? (-BigInt(config.risk.lambda)).toString() : undefined);
+  drift.compare("feeWaterfall.pdd", toBigIntString(pdd), expectedPdd);
+  if (config.feeWaterfall) {
+    drift.compare("feeWaterfall.rhoBS", toBigIntString(rhoBS), config.feeWaterfall.rhoBS);
+    drift.compare("feeWaterfall.phiLP", toBigIntString(phiLP), config.feeWaterfall.phiLP);
+    drift.compare("feeWaterfall.phiBS", toBigIntString(phiBS), config.feeWaterfall.phiBS);
+    drift.compare("feeWaterfall.phiTR", toBigIntString(phiTR), config.feeWaterfall.phiTR);
   }
 
-  const redstoneFeedDecimals = envData.config?.redstoneFeedDecimals;
-  if (redstoneFeedDecimals !== undefined) {
-    const actual = await core.redstoneFeedDecimals();
-    if (Number(actual) !== redstoneFeedDecimals) {
-      throw new Error(`redstoneFeedDecimals mismatch: chain=${actual} env=${redstoneFeedDecimals}`);
-    }
+  if (config.capitalStack) {
+    // Backstop/treasury NAV move with every processed batch, so drift here is informational
+    const [backstopNav, treasuryNav] = await core.getCapitalStack();
+    drift.compare("capitalStack.backstopNav", toBigIntString(backstopNav), config.capitalStack.backstopNav, "warn");
+    drift.compare("capitalStack.treasuryNav", toBigIntString(treasuryNav), config.capitalStack.treasuryNav, "warn");
   }
 
-  const redstoneMaxSampleDistance = envData.config?.redstoneMaxSampleDistance;
-  if (redstoneMaxSampleDistance) {
-    const actual = await core.maxSampleDistance();
-    if (toBigIntString(actual) !== redstoneMaxSampleDistance) {
-      throw new Error(`maxSampleDistance mismatch: chain=${actual} env=${redstoneMaxSampleDistance}`);
-    }
-  }
+  drift.compare("minSeedAmount", toBigIntString(await core.minSeedAmount()), config.minSeedAmount);
+  drift.compare(
+    "withdrawalLagBatches",
+    toBigIntString(await core.getWithdrawalLagBatches()),
+    config.withdrawalLagBatches
+  );
+  drift.compareAddress("feeRecipient", await core.feeRecipient(), config.feeRecipient);
+  drift.compareAddress("defaultFeePolicy", await core.defaultFeePolicy(), config.defaultFeePolicy);
 
-  const redstoneFutureTolerance = envData.config?.redstoneFutureTolerance;
-  if (redstoneFutureTolerance) {
-    const actual = await core.futureTolerance();
-    if (toBigIntString(actual) !== redstoneFutureTolerance) {
-      throw new Error(`futureTolerance mismatch: chain=${actual} env=${redstoneFutureTolerance}`);
-    }
+  // Per-market feeds recorded by create-market / schedule-markets (queued ones are not on chain yet)
+  for (const [marketId, record] of Object.entries(envData.markets ?? {})) {
+    if (!record.oracle || record.status === "queued") continue;
+    const oracle = await core.getMarketOracleConfig.staticCall(marketId);
+    const at = `market.${marketId}.oracle`;
+    drift.compare(`${at}.feedId`, ethers.decodeBytes32String(oracle.feedId), record.oracle.feedId);
+    drift.compare(`${at}.feedDecimals`, toBigIntString(oracle.feedDecimals), record.oracle.feedDecimals.toString());
+    drift.compare(
+      `${at}.maxSampleDistance`,
+      toBigIntString(oracle.maxSampleDistance),
+      record.oracle.maxSampleDistanceSec.toString()
+    );
+    drift.compare(
+      `${at}.futureTolerance`,
+      toBigIntString(oracle.futureTolerance),
+      record.oracle.futureToleranceSec.toString()
+    );
   }
 
   const codeChecks = [
@@ -202,9 +275,42 @@ export async function safetyCheckAction(env: Environment) {
   for (const name of codeChecks) {
     const addr = envData.contracts[name];
     if (!addr) continue;
+    drift.checked++;
     const code = await ethers.provider.getCode(addr);
-    if (code === "0x") throw new Error(`${name} has no code at ${addr}`);
+    if (code === "0x") drift.fail(`code.${name}`, `${name} has no code at ${addr}`);
+  }
+
+  return drift;
+}
+
+function finish(
+  env: Environment,
+  networkName: string,
+  drift: Pick<DriftReport, "checked" | "drift">,
+  json: boolean
+): DriftReport {
+  const errors = drift.drift.filter((entry) => entry.severity === "error");
+  const report: DriftReport = {
+    environment: env,
+    network: networkName,
+    ok: errors.length === 0,
+    checked: drift.checked,
+    drift: drift.drift,
+  };
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    if (!report.ok) process.exitCode = 1;
+    return report;
   }
 
-  console.log("[safety-check] OK");
+  for (const entry of drift.drift) {
+    const log = entry.severity === "error" ? console.error : console.warn;
+    log(`[safety-check] ${entry.severity.toUpperCase()} ${entry.message}`);
+  }
+  if (!report.ok) {
+    throw new Error(`Safety check failed: ${errors.length} mismatch(es) (run with SAFETY_CHECK_JSON=1 for a drift report)`);
+  }
+  console.log(`[safety-check] OK (${drift.checked} checks, ${drift.drift.length} warning(s))`);
+  return report;
 }
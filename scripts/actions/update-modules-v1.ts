@@ -1,6 +1,14 @@
 import hre from "hardhat";
-import { loadEnvironment, recordDeployment, updateContracts } from "../utils/environment";
+import { loadEnvironment, recordDeployment } from "../utils/environment";
 import { buildReleaseMetaFromEnv, writeReleaseSnapshot } from "../utils/release";
+import {
+  createSafeBatch,
+  isSafeExportMode,
+  resolveSafeAddress,
+  sendOrQueue,
+  updateContractsOrQueue,
+  writeSafeBatch,
+} from "../utils/safe";
 import type { Environment } from "../types/environment";
 
 type ModuleKey = "TradeModule" | "MarketLifecycleModule" | "OracleModule" | "RiskModule" | "LPVaultModule";
@@ -118,14 +126,22 @@ export async function updateModulesAction(env: Environment) {
   }
 
   const core = await ethers.getContractAt("SignalsCore", coreProxyAddr);
-  const modulesTx = await core.setModules(
+  // SAFE_EXPORT=1: modules are deployed from the hot key, setModules goes to the owner Safe
+  const safeBatch = isSafeExportMode()
+    ? createSafeBatch(
+        "update-modules",
+        (await ethers.provider.getNetwork()).chainId,
+        resolveSafeAddress(await core.owner())
+      )
+    : undefined;
+  await sendOrQueue(safeBatch, core, "setModules", [
     tradeModuleAddr,
     lifecycleModuleAddr,
     riskModuleAddr,
     vaultModuleAddr,
-    oracleModuleAddr
-  );
-  await modulesTx.wait();
+    oracleModuleAddr,
+  ]);
+  const safeBatchPath = safeBatch ? writeSafeBatch(env, safeBatch) : undefined;
 
   const updatedContracts = {
     TradeModule: tradeModuleAddr,
@@ -135,15 +151,18 @@ export async function updateModulesAction(env: Environment) {
     ...(updateRisk ? { RiskModule: riskModuleAddr } : {}),
     ...(updateVault ? { LPVaultModule: vaultModuleAddr } : {}),
   };
-  updateContracts(env, updatedContracts);
+  // Exported: the modules are not live until the Safe executes; reconcile-safe records them then
+  updateContractsOrQueue(env, safeBatch, updatedContracts);
 
   const releaseMeta = buildReleaseMetaFromEnv();
   const { data: updatedEnv, record } = recordDeployment(env, {
     action: "update-modules",
     deployer: deployer.address,
-    meta: releaseMeta,
+    meta: safeBatch
+      ? { ...releaseMeta, safeBatch: safeBatchPath, pendingEnv: { ...safeBatch.pendingEnv, release: releaseMeta } }
+      : releaseMeta,
   });
-  writeReleaseSnapshot(env, updatedEnv, releaseMeta);
+  if (!safeBatch) writeReleaseSnapshot(env, updatedEnv, releaseMeta);
 
   console.log(`[update-modules] completed (version=${record.version})`);
 }
@@ -1,5 +1,7 @@
 import hre from "hardhat";
 import { normalizeEnvironment } from "./utils/environment";
+import { isPlanMode, runPlanned } from "./utils/plan";
+import { decodeRevert } from "./utils/revert";
 import type { Environment } from "./types/environment";
 
 const MANIFEST_DIRS: Partial<Record<Environment, string>> = {
@@ -7,11 +9,14 @@ const MANIFEST_DIRS: Partial<Record<Environment, string>> = {
   "citrea-prod": ".openzeppelin/prod",
 };
 
+const PLAN_ACTIONS = new Set(["deploy", "upgrade", "update-modules", "rollback"]);
+
 function usage() {
   console.error("Usage: COMMAND=<action:env> hardhat run scripts/dispatcher.ts --network <network>");
   console.error(
-    "Actions: deploy, upgrade, update-modules, deploy-fee-policies, safety-check, verify. Envs: localhost, citrea:dev, citrea:prod"
+    "Actions: deploy, upgrade, update-modules, rollback, create-market, schedule-markets, close-market, preview-settlement, settlement-keeper, relay-settlement, export-vault-history, deploy-fee-policies, safety-check, verify, reconcile-safe. Envs: localhost, citrea:dev, citrea:prod"
   );
+  console.error(`PLAN=1 simulates ${Array.from(PLAN_ACTIONS).join(", ")} against a local/forked node without writing anything`);
   process.exit(1);
 }
 
@@ -47,6 +52,17 @@ async function main() {
   enforceNetworkMatch(env);
   enforceManifestDir(env);
 
+  if (isPlanMode()) {
+    if (!PLAN_ACTIONS.has(action)) {
+      throw new Error(`PLAN=1 is not supported for "${action}" (supported: ${Array.from(PLAN_ACTIONS).join(", ")})`);
+    }
+    await runPlanned(env, () => runAction(action, env));
+    return;
+  }
+  await runAction(action, env);
+}
+
+async function runAction(action: string, env: Environment) {
   switch (action) {
     case "deploy": {
       const { deployAction } = await import("./actions/deploy-v1");
@@ -63,6 +79,46 @@ async function main() {
       await updateModulesAction(env);
       break;
     }
+    case "rollback": {
+      const { rollbackAction } = await import("./actions/rollback-v1");
+      await rollbackAction(env);
+      break;
+    }
+    case "create-market": {
+      const { createMarketAction } = await import("./ops/create-market");
+      await createMarketAction(env);
+      break;
+    }
+    case "schedule-markets": {
+      const { scheduleMarketsAction } = await import("./ops/schedule-markets");
+      await scheduleMarketsAction(env);
+      break;
+    }
+    case "close-market": {
+      const { closeMarketAction } = await import("./ops/close-market");
+      await closeMarketAction(env);
+      break;
+    }
+    case "preview-settlement": {
+      const { previewSettlementAction } = await import("./ops/settlement-preview");
+      await previewSettlementAction(env);
+      break;
+    }
+    case "settlement-keeper": {
+      const { settlementKeeperAction } = await import("./keeper/settlement-keeper");
+      await settlementKeeperAction(env);
+      break;
+    }
+    case "relay-settlement": {
+      const { relaySettlementAction } = await import("./keeper/redstone-relayer");
+      await relaySettlementAction(env);
+      break;
+    }
+    case "export-vault-history": {
+      const { exportVaultHistoryAction } = await import("./indexer/vault-history");
+      await exportVaultHistoryAction(env);
+      break;
+    }
     case "deploy-fee-policies": {
       const { deployFeePoliciesAction } = await import("./actions/deploy-fee-policies");
       await deployFeePoliciesAction(env);
@@ -73,6 +129,11 @@ async function main() {
       await safetyCheckAction(env);
       break;
     }
+    case "reconcile-safe": {
+      const { reconcileSafeAction } = await import("./actions/reconcile-safe");
+      await reconcileSafeAction(env);
+      break;
+    }
     case "verify": {
       const { verifyAction } = await import("./actions/verify-v1");
       await verifyAction(env);
@@ -84,6 +145,8 @@ async function main() {
 }
 
 main().catch((err) => {
+  const revert = decodeRevert(err);
+  if (revert) console.error(`[dispatcher] ${process.env.COMMAND} reverted: ${revert.message}`);
   console.error(err);
   process.exit(1);
 });
@@ -0,0 +1,246 @@
+import type { Provider } from "ethers";
+import { MarketLifecycleModule__factory, TradeModule__factory } from "../../typechain-types";
+import type { SignalsCore } from "../../typechain-types";
+import { WAD, wDiv } from "../lib/fixed-point-math";
+import { applyRangeFactor, createTree, getRangeSum, totalSum, type SegmentTree } from "../lib/lazy-mul-segment-tree";
+import { ticksToBins, type QuoteMarket, type Tick } from "../lib/clmsr-quote";
+
+// Events are declared on the modules; SignalsCore emits them through delegatecall
+const lifecycleInterface = MarketLifecycleModule__factory.createInterface();
+const tradeInterface = TradeModule__factory.createInterface();
+const MARKET_CREATED = lifecycleInterface.getEvent("MarketCreated").topicHash;
+const MARKET_FACTORS_SEEDED = lifecycleInterface.getEvent("MarketFactorsSeeded").topicHash;
+const RANGE_FACTOR_APPLIED = tradeInterface.getEvent("RangeFactorApplied").topicHash;
+
+export interface AppliedFactor {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  loBin: number;
+  hiBin: number;
+  factor: bigint;
+}
+
+export interface MarketReplica {
+  marketId: bigint;
+  market: QuoteMarket;
+  /** Tree replayed up to the indexer's last synced block */
+  tree: SegmentTree;
+  baseFactors: bigint[];
+  createdBlock: number;
+  /** Every RangeFactorApplied in order, so the tree can be rebuilt at any past block */
+  applied: AppliedFactor[];
+}
+
+export interface BinWeight {
+  bin: number;
+  lowerTick: bigint;
+  upperTick: bigint;
+  /** Leaf sum, i.e. exp(q_b / α) scaled by the prior */
+  weight: bigint;
+  /** weight / total sum in WAD (floor) */
+  probabilityWad: bigint;
+}
+
+export interface CrossCheckResult {
+  marketId: bigint;
+  blockNumber: number;
+  checkedRanges: number;
+  mismatches: { lowerTick: bigint; upperTick: bigint; replayed: bigint; onChain: bigint }[];
+}
+
+export interface MarketIndexerOptions {
+  /** First block to scan (the core deployment block is enough) */
+  fromBlock?: number;
+  /** Max block span per eth_getLogs call */
+  blockBatchSize?: number;
+  /** Cross-check touched markets against SignalsCore.getRangeSum every N syncs (0 disables) */
+  crossCheckEvery?: number;
+  /** Only replay these markets */
+  marketIds?: bigint[];
+  onCrossCheck?: (result: CrossCheckResult) => void;
+}
+
+export interface MarketIndexer {
+  readonly lastSyncedBlock: number;
+  /** Replay new events up to `toBlock` (default: latest); returns the block synced to */
+  sync(toBlock?: number): Promise<number>;
+  marketIds(): bigint[];
+  getReplica(marketId: bigint): MarketReplica | undefined;
+  rangeSum(marketId: bigint, lowerTick: Tick, upperTick: Tick): bigint;
+  /** Per-bin weights and implied probabilities, at the synced head or any earlier block */
+  binWeights(marketId: bigint, atBlock?: number): BinWeight[];
+  crossCheck(marketId: bigint): Promise<CrossCheckResult>;
+}
+
+interface PendingMarket {
+  market: QuoteMarket;
+  createdBlock: number;
+}
+
+function requireReplica(replicas: Map<bigint, MarketReplica>, marketId: bigint): MarketReplica {
+  const replica = replicas.get(marketId);
+  if (!replica) throw new Error(`Market ${marketId} has not been replayed (not created or not synced yet)`);
+  return replica;
+}
+
+function treeAt(replica: MarketReplica, atBlock: number): SegmentTree {
+  const tree = createTree(replica.baseFactors);
+  for (const entry of replica.applied) {
+    if (entry.blockNumber > atBlock) break;
+    applyRangeFactor(tree, entry.loBin, entry.hiBin, entry.factor);
+  }
+  return tree;
+}
+
+function binTicks(market: QuoteMarket, bin: number): { lowerTick: bigint; upperTick: bigint } {
+  const lowerTick = market.minTick + BigInt(bin) * market.tickSpacing;
+  return { lowerTick, upperTick: lowerTick + market.tickSpacing };
+}
+
+/**
+ * Rebuild every market's LazyMulSegmentTree from `MarketFactorsSeeded` and `RangeFactorApplied`
+ * logs. Replays use the bit-exact scripts/lib port, so replicas equal on-chain trees to the wei
+ * and history only needs event logs, not archive state.
+ */
+export function createMarketIndexer(core: SignalsCore, options: MarketIndexerOptions = {}): MarketIndexer {
+  const blockBatchSize = options.blockBatchSize ?? 2000;
+  const crossCheckEvery = options.crossCheckEvery ?? 10;
+  const filter = options.marketIds ? new Set(options.marketIds) : undefined;
+  const replicas = new Map<bigint, MarketReplica>();
+  const pending = new Map<bigint, PendingMarket>();
+  const touched = new Set<bigint>();
+  let lastSyncedBlock = (options.fromBlock ?? 0) - 1;
+  let syncCount = 0;
+
+  const provider = (): Provider => {
+    if (!core.runner?.provider) throw new Error("SignalsCore contract has no provider");
+    return core.runner.provider;
+  };
+
+  async function crossCheck(marketId: bigint): Promise<CrossCheckResult> {
+    const replica = requireReplica(replicas, marketId);
+    const { market, tree } = replica;
+    const blockTag = lastSyncedBlock;
+    const ranges: [bigint, bigint, bigint][] = [
+      [market.minTick, market.minTick + market.numBins * market.tickSpacing, totalSum(tree)],
+    ];
+    for (let bin = 0; bin < Number(market.numBins); bin++) {
+      const { lowerTick, upperTick } = binTicks(market, bin);
+      ranges.push([lowerTick, upperTick, getRangeSum(tree, bin, bin)]);
+    }
+
+    const mismatches: CrossCheckResult["mismatches"] = [];
+    for (const [lowerTick, upperTick, replayed] of ranges) {
+      const onChain = await core.getRangeSum.staticCall(marketId, lowerTick, upperTick, { blockTag });
+      if (onChain !== replayed) mismatches.push({ lowerTick, upperTick, replayed, onChain });
+    }
+    const result = { marketId, blockNumber: blockTag, checkedRanges: ranges.length, mismatches };
+    options.onCrossCheck?.(result);
+    return result;
+  }
+
+  async function sync(toBlock?: number): Promise<number> {
+    const target = toBlock ?? (await provider().getBlockNumber());
+    const address = await core.getAddress();
+
+    for (let from = lastSyncedBlock + 1; from <= target; from += blockBatchSize) {
+      const to = Math.min(target, from + blockBatchSize - 1);
+      const logs = await provider().getLogs({
+        address,
+        fromBlock: from,
+        toBlock: to,
+        topics: [[MARKET_CREATED, MARKET_FACTORS_SEEDED, RANGE_FACTOR_APPLIED]],
+      });
+      for (const log of logs) {
+        const marketId = BigInt(log.topics[1]);
+        if (filter && !filter.has(marketId)) continue;
+
+        if (log.topics[0] === MARKET_CREATED) {
+          const { args } = lifecycleInterface.parseLog(log)!;
+          pending.set(marketId, {
+            market: {
+              minTick: args.minTick,
+              maxTick: args.maxTick,
+              tickSpacing: args.tickSpacing,
+              numBins: args.numBins,
+              liquidityParameter: args.liquidityParameter,
+            },
+            createdBlock: log.blockNumber,
+          });
+        } else if (log.topics[0] === MARKET_FACTORS_SEEDED) {
+          const created = pending.get(marketId);
+          if (!created) throw new Error(`MarketFactorsSeeded for market ${marketId} without MarketCreated`);
+          pending.delete(marketId);
+          const baseFactors = [...lifecycleInterface.parseLog(log)!.args.baseFactors] as bigint[];
+          replicas.set(marketId, {
+            marketId,
+            market: created.market,
+            tree: createTree(baseFactors),
+            baseFactors,
+            createdBlock: created.createdBlock,
+            applied: [],
+          });
+        } else {
+          const replica = requireReplica(replicas, marketId);
+          const { args } = tradeInterface.parseLog(log)!;
+          const { loBin, hiBin } = ticksToBins(replica.market, args.lo, args.hi);
+          applyRangeFactor(replica.tree, loBin, hiBin, args.factor);
+          replica.applied.push({
+            blockNumber: log.blockNumber,
+            logIndex: log.index,
+            txHash: log.transactionHash,
+            loBin,
+            hiBin,
+            factor: args.factor,
+          });
+        }
+        touched.add(marketId);
+      }
+      lastSyncedBlock = to;
+    }
+
+    syncCount++;
+    if (crossCheckEvery > 0 && syncCount % crossCheckEvery === 0) {
+      for (const marketId of touched) {
+        if (replicas.has(marketId)) await crossCheck(marketId);
+      }
+      touched.clear();
+    }
+    return lastSyncedBlock;
+  }
+
+  return {
+    get lastSyncedBlock() {
+      return lastSyncedBlock;
+    },
+    sync,
+    marketIds: () => [...replicas.keys()],
+    getReplica: (marketId) => replicas.get(marketId),
+    rangeSum(marketId, lowerTick, upperTick) {
+      const { market, tree } = requireReplica(replicas, marketId);
+      const { loBin, hiBin } = ticksToBins(market, lowerTick, upperTick);
+      return getRangeSum(tree, loBin, hiBin);
+    },
+    binWeights(marketId, atBlock) {
+      const replica = requireReplica(replicas, marketId);
+      const tree = atBlock === undefined ? replica.tree : treeAt(replica, atBlock);
+      const total = totalSum(tree);
+      return Array.from({ length: Number(replica.market.numBins) }, (_, bin) => {
+        const weight = getRangeSum(tree, bin, bin);
+        return {
+          bin,
+          ...binTicks(replica.market, bin),
+          weight,
+          probabilityWad: total === 0n ? 0n : wDiv(weight, total),
+        };
+      });
+    },
+    crossCheck,
+  };
+}
+
+/** Implied probability as a float, for charts */
+export function probabilityToNumber(probabilityWad: bigint): number {
+  return Number((probabilityWad * 1_000_000n) / WAD) / 1_000_000;
+}
@@ -0,0 +1,288 @@
+import fs from "fs";
+import path from "path";
+import hre from "hardhat";
+import { formatUnits, type Provider } from "ethers";
+import { LPVaultModule__factory } from "../../typechain-types";
+import type { SignalsCore } from "../../typechain-types";
+import { loadEnvironment } from "../utils/environment";
+import type { Environment } from "../types/environment";
+
+/**
+ * Daily vault history from DailyBatchProcessed: NAV, share price, drawdown, fee attribution,
+ * backstop/treasury NAV and returns, one row per processed batch.
+ *
+ * The event carries the NAV/price path; the fee waterfall breakdown comes from
+ * getDailyPnlSnapshot and the capital stack from getCapitalStack read at the event's block
+ * (older blocks need an archive RPC). WAD values are written as decimal strings so the JSON
+ * round-trips exactly; derived return columns are recomputed from the rows on every export,
+ * which makes a resumed export identical to a full one.
+ */
+
+export const VAULT_HISTORY_VERSION = 1;
+const DAYS_PER_YEAR = 365;
+const TRAILING_WINDOWS = [7, 30] as const;
+
+const vaultInterface = LPVaultModule__factory.createInterface();
+const DAILY_BATCH_PROCESSED = vaultInterface.getEvent("DailyBatchProcessed").topicHash;
+
+/** Raw per-batch values; WAD decimal strings unless noted */
+export interface VaultHistoryBatch {
+  batchId: string;
+  blockNumber: number;
+  /** Unix seconds of the processing block */
+  timestamp: number;
+  txHash: string;
+  /** CLMSR P&L (signed) */
+  lt: string;
+  ftot: string;
+  floss: string;
+  fpool: string;
+  ffill: string;
+  fdust: string;
+  /** Fees credited to LP NAV: Floss + F_core_LP + Fdust */
+  ft: string;
+  /** Fees leaving the LP pool: Ffill + F_core_BS + F_core_TR */
+  feesToCapitalStack: string;
+  gt: string;
+  deltaEtSum: string;
+  navPrev: string;
+  navPre: string;
+  batchPrice: string;
+  navPost: string;
+  pricePost: string;
+  drawdown: string;
+  backstopNav: string;
+  treasuryNav: string;
+}
+
+/** Derived from the batch rows; decimal fractions (0.01 = 1%), empty when not computable */
+export interface VaultHistoryReturns {
+  /** Npre / Nprev − 1: the day's P&L, fees and grant, before deposits/withdrawals */
+  dailyReturn: string;
+  /** (1 + dailyReturn)^365 − 1 */
+  dailyApy: string;
+  /** (pricePost_t / pricePost_{t−7})^(365/7) − 1, needs the batch 7 days earlier */
+  apy7d: string;
+  apy30d: string;
+}
+
+export type VaultHistoryRow = VaultHistoryBatch & VaultHistoryReturns;
+
+export interface VaultHistoryFile {
+  version: number;
+  chainId: string;
+  core: string;
+  /** Last block scanned; resume continues from the next one */
+  lastBlock: number;
+  rows: VaultHistoryRow[];
+}
+
+export interface VaultHistoryOptions {
+  /** First block to scan when there is no previous export (the core deployment block is enough) */
+  fromBlock?: number;
+  toBlock?: number;
+  /** Max block span per eth_getLogs call */
+  blockBatchSize?: number;
+}
+
+export const CSV_COLUMNS: (keyof VaultHistoryRow)[] = [
+  "batchId",
+  "blockNumber",
+  "timestamp",
+  "txHash",
+  "lt",
+  "ftot",
+  "floss",
+  "fpool",
+  "ffill",
+  "fdust",
+  "ft",
+  "feesToCapitalStack",
+  "gt",
+  "deltaEtSum",
+  "navPrev",
+  "navPre",
+  "batchPrice",
+  "navPost",
+  "pricePost",
+  "drawdown",
+  "backstopNav",
+  "treasuryNav",
+  "dailyReturn",
+  "dailyApy",
+  "apy7d",
+  "apy30d",
+];
+
+const wad = (value: bigint) => formatUnits(value, 18);
+const toNumber = (value: string) => Number(value);
+const formatRate = (value: number) => (Number.isFinite(value) ? value.toFixed(10) : "");
+
+function annualise(growth: number, days: number): number {
+  return Math.pow(growth, DAYS_PER_YEAR / days) - 1;
+}
+
+/** Scan DailyBatchProcessed in [fromBlock, toBlock] and read each batch's snapshot and capital stack */
+export async function fetchVaultHistoryBatches(
+  core: SignalsCore,
+  fromBlock: number,
+  toBlock: number,
+  blockBatchSize = 2000
+): Promise<VaultHistoryBatch[]> {
+  const provider: Provider | null | undefined = core.runner?.provider;
+  if (!provider) throw new Error("SignalsCore contract has no provider");
+  const address = await core.getAddress();
+
+  const batches: VaultHistoryBatch[] = [];
+  for (let from = fromBlock; from <= toBlock; from += blockBatchSize) {
+    const to = Math.min(toBlock, from + blockBatchSize - 1);
+    const logs = await provider.getLogs({ address, fromBlock: from, toBlock: to, topics: [DAILY_BATCH_PROCESSED] });
+    for (const log of logs) {
+      const { args } = vaultInterface.parseLog(log)!;
+      const batchId: bigint = args.batchId;
+      const snapshot = await core.getDailyPnlSnapshot(batchId);
+      const [backstopNav, treasuryNav] = await core.getCapitalStack({ blockTag: log.blockNumber });
+      const block = await provider.getBlock(log.blockNumber);
+      if (!block) throw new Error(`Block ${log.blockNumber} not found`);
+
+      const [lt, ftot, ft, gt, navPre]: bigint[] = [args.lt, args.ftot, args.ft, args.gt, args.navPre];
+      batches.push({
+        batchId: batchId.toString(),
+        blockNumber: log.blockNumber,
+        timestamp: block.timestamp,
+        txHash: log.transactionHash,
+        lt: wad(lt),
+        ftot: wad(ftot),
+        floss: wad(snapshot.Floss),
+        fpool: wad(snapshot.Fpool),
+        ffill: wad(snapshot.Ffill),
+        fdust: wad(snapshot.Fdust),
+        ft: wad(ft),
+        feesToCapitalStack: wad(ftot - ft),
+        gt: wad(gt),
+        deltaEtSum: wad(snapshot.DeltaEtSum),
+        // Npre = Nprev + Lt + Ft + Gt
+        navPrev: wad(navPre - lt - ft - gt),
+        navPre: wad(navPre),
+        batchPrice: wad(args.batchPrice),
+        navPost: wad(args.navPost),
+        pricePost: wad(args.pricePost),
+        drawdown: wad(args.drawdown),
+        backstopNav: wad(backstopNav),
+        treasuryNav: wad(treasuryNav),
+      });
+    }
+  }
+  return batches;
+}
+
+/** Attach the return columns; rows must be sorted by batchId */
+export function computeVaultReturns(batches: VaultHistoryBatch[]): VaultHistoryRow[] {
+  const priceByBatch = new Map(batches.map((b) => [b.batchId, toNumber(b.pricePost)]));
+  return batches.map((batch) => {
+    const navPrev = toNumber(batch.navPrev);
+    const dailyReturn = navPrev > 0 ? toNumber(batch.navPre) / navPrev - 1 : NaN;
+    const trailing = TRAILING_WINDOWS.map((days) => {
+      const start = priceByBatch.get((BigInt(batch.batchId) - BigInt(days)).toString());
+      return start ? annualise(toNumber(batch.pricePost) / start, days) : NaN;
+    });
+    return {
+      ...batch,
+      dailyReturn: formatRate(dailyReturn),
+      dailyApy: formatRate(annualise(1 + dailyReturn, 1)),
+      apy7d: formatRate(trailing[0]),
+      apy30d: formatRate(trailing[1]),
+    };
+  });
+}
+
+export function toVaultHistoryCsv(rows: VaultHistoryRow[]): string {
+  const lines = rows.map((row) => CSV_COLUMNS.map((column) => String(row[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n";
+}
+
+export function vaultHistoryPaths(outDir: string): { jsonPath: string; csvPath: string } {
+  return { jsonPath: path.join(outDir, "vault-history.json"), csvPath: path.join(outDir, "vault-history.csv") };
+}
+
+export function readVaultHistory(outDir: string): VaultHistoryFile | undefined {
+  const { jsonPath } = vaultHistoryPaths(outDir);
+  if (!fs.existsSync(jsonPath)) return undefined;
+  const file = JSON.parse(fs.readFileSync(jsonPath, "utf8")) as VaultHistoryFile;
+  if (file.version !== VAULT_HISTORY_VERSION) {
+    throw new Error(`Unsupported vault history version ${file.version} in ${jsonPath}`);
+  }
+  return file;
+}
+
+/**
+ * Export (or extend) the history in `outDir`. An existing export for the same chain and core
+ * is resumed from its last scanned block; anything else is refused rather than mixed in.
+ */
+export async function exportVaultHistory(
+  core: SignalsCore,
+  outDir: string,
+  options: VaultHistoryOptions = {}
+): Promise<{ file: VaultHistoryFile; added: number; jsonPath: string; csvPath: string }> {
+  const provider = core.runner?.provider;
+  if (!provider) throw new Error("SignalsCore contract has no provider");
+  const chainId = (await provider.getNetwork()).chainId.toString();
+  const coreAddress = await core.getAddress();
+
+  const previous = readVaultHistory(outDir);
+  if (previous && (previous.chainId !== chainId || previous.core.toLowerCase() !== coreAddress.toLowerCase())) {
+    throw new Error(
+      `Existing export in ${outDir} is for core ${previous.core} on chain ${previous.chainId}, not ${coreAddress} on ${chainId}`
+    );
+  }
+
+  const fromBlock = previous ? previous.lastBlock + 1 : (options.fromBlock ?? 0);
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const fetched =
+    toBlock >= fromBlock ? await fetchVaultHistoryBatches(core, fromBlock, toBlock, options.blockBatchSize) : [];
+
+  const byBatch = new Map<string, VaultHistoryBatch>();
+  for (const row of previous?.rows ?? []) {
+    const { dailyReturn: _r, dailyApy: _d, apy7d: _a7, apy30d: _a30, ...batch } = row;
+    byBatch.set(batch.batchId, batch);
+  }
+  for (const batch of fetched) {
+    if (byBatch.has(batch.batchId)) throw new Error(`Batch ${batch.batchId} already exported`);
+    byBatch.set(batch.batchId, batch);
+  }
+  const batches = [...byBatch.values()].sort((a, b) => (BigInt(a.batchId) < BigInt(b.batchId) ? -1 : 1));
+
+  const file: VaultHistoryFile = {
+    version: VAULT_HISTORY_VERSION,
+    chainId,
+    core: coreAddress,
+    lastBlock: Math.max(toBlock, previous?.lastBlock ?? -1),
+    rows: computeVaultReturns(batches),
+  };
+  fs.mkdirSync(outDir, { recursive: true });
+  const { jsonPath, csvPath } = vaultHistoryPaths(outDir);
+  fs.writeFileSync(jsonPath, JSON.stringify(file, null, 2) + "\n");
+  fs.writeFileSync(csvPath, toVaultHistoryCsv(file.rows));
+  return { file, added: fetched.length, jsonPath, csvPath };
+}
+
+export async function exportVaultHistoryAction(env: Environment) {
+  const { ethers } = hre;
+  const envData = loadEnvironment(env);
+  const coreAddress = envData.contracts.SignalsCoreProxy;
+  if (!coreAddress) throw new Error("Missing SignalsCoreProxy in environment file");
+
+  const core = await ethers.getContractAt("SignalsCore", coreAddress);
+  const outDir = process.env.VAULT_HISTORY_OUT ?? path.join("out", "vault-history", env);
+  const fromBlock = process.env.VAULT_HISTORY_FROM_BLOCK ? Number(process.env.VAULT_HISTORY_FROM_BLOCK) : undefined;
+  const blockBatchSize = Number(process.env.VAULT_HISTORY_BLOCK_BATCH ?? "2000");
+
+  console.log(`[export-vault-history] core=${coreAddress} out=${outDir}`);
+  const { file, added, jsonPath, csvPath } = await exportVaultHistory(core, outDir, { fromBlock, blockBatchSize });
+  const last = file.rows[file.rows.length - 1];
+  console.log(
+    `[export-vault-history] +${added} batches (${file.rows.length} total) through block ${file.lastBlock}` +
+      (last ? `; batch ${last.batchId} price=${last.pricePost} nav=${last.navPost}` : "")
+  );
+  console.log(`[export-vault-history] wrote ${jsonPath} and ${csvPath}`);
+}
@@ -0,0 +1,124 @@
+import { DataPackage, NumericDataPoint, RedstonePayload, type SignedDataPackage } from "@redstone-finance/protocol";
+import { getSignersForDataServiceId, requestRedstonePayload } from "@redstone-finance/sdk";
+import { SignalsCore__factory } from "../../typechain-types";
+
+export const DEFAULT_DATA_SERVICE_ID = "redstone-primary-prod";
+const coreInterface = SignalsCore__factory.createInterface();
+
+export interface PayloadRequest {
+  marketId: bigint;
+  /** Market settlement timestamp (Tset, seconds) */
+  settlementTimestamp: bigint;
+  /** Redstone feed id as a string (e.g. "BTC"), from the market's oracle config */
+  feedId: string;
+  feedDecimals: number;
+}
+
+/**
+ * Source of signed Redstone payloads appended to `submitSettlementSample` calldata.
+ * Returns a hex payload (with or without 0x prefix).
+ */
+export interface PayloadSource {
+  readonly name: string;
+  getPayload(request: PayloadRequest): Promise<string>;
+}
+
+export interface RedstonePayloadSourceOptions {
+  dataServiceId?: string;
+  uniqueSignersCount?: number;
+}
+
+// Redstone gateways only serve historical packages on 10s boundaries
+export const HISTORICAL_DENOMINATOR_MS = 10_000;
+
+/**
+ * Fetch historical packages closest to Tset from the Redstone gateways.
+ */
+export function createRedstonePayloadSource(options: RedstonePayloadSourceOptions = {}): PayloadSource {
+  const dataServiceId = options.dataServiceId ?? DEFAULT_DATA_SERVICE_ID;
+  const uniqueSignersCount = options.uniqueSignersCount ?? 3;
+  return {
+    name: `redstone:${dataServiceId}`,
+    async getPayload({ settlementTimestamp, feedId }) {
+      const tSetMs = Number(settlementTimestamp) * 1000;
+      return requestRedstonePayload({
+        dataServiceId,
+        dataPackagesIds: [feedId],
+        uniqueSignersCount,
+        authorizedSigners: getSignersForDataServiceId(dataServiceId as "redstone-primary-prod"),
+        historicalTimestamp: tSetMs - (tSetMs % HISTORICAL_DENOMINATOR_MS),
+      });
+    },
+  };
+}
+
+export interface MockPayloadSourceOptions {
+  /** Private keys signing each data package (one package per key) */
+  signerKeys: string[];
+  /** Defaults to the decimals of the market's feed */
+  feedDecimals?: number;
+  /** Human price for a market (e.g. 85000 for BTC/USD) */
+  price: (request: PayloadRequest) => number;
+  /** Sample timestamp; defaults to Tset */
+  timestamp?: (request: PayloadRequest) => number;
+  dataServiceId?: string;
+}
+
+/**
+ * Locally signed payloads for hardhat nodes running OracleModuleHarness,
+ * which authorises the default hardhat accounts as Redstone signers on chainid 31337.
+ */
+export function createMockPayloadSource(options: MockPayloadSourceOptions): PayloadSource {
+  const dataServiceId = options.dataServiceId ?? DEFAULT_DATA_SERVICE_ID;
+  return {
+    name: "mock",
+    async getPayload(request) {
+      const packages = signDataPackages({
+        signerKeys: options.signerKeys,
+        feedId: request.feedId,
+        feedDecimals: options.feedDecimals ?? request.feedDecimals,
+        price: options.price(request),
+        timestampSec: options.timestamp?.(request) ?? Number(request.settlementTimestamp),
+      });
+      return buildSamplePayload(packages, dataServiceId);
+    },
+  };
+}
+
+export interface SignPackagesOptions {
+  /** One package per key */
+  signerKeys: string[];
+  feedId: string;
+  feedDecimals: number;
+  /** Human price (e.g. 85000 for BTC/USD) */
+  price: number;
+  timestampSec: number;
+}
+
+/** Sign one single-feed package per key, as a Redstone node would */
+export function signDataPackages(options: SignPackagesOptions): SignedDataPackage[] {
+  return options.signerKeys.map((key) =>
+    new DataPackage(
+      [new NumericDataPoint({ dataFeedId: options.feedId, value: options.price, decimals: options.feedDecimals })],
+      options.timestampSec * 1000,
+      options.feedId
+    ).sign(key)
+  );
+}
+
+/** Serialize signed packages into the payload `submitSettlementSample` reads from calldata */
+export function buildSamplePayload(packages: SignedDataPackage[], dataServiceId = DEFAULT_DATA_SERVICE_ID): string {
+  return RedstonePayload.prepare(packages, dataServiceId);
+}
+
+/** `submitSettlementSample(marketId)` calldata with the payload appended */
+export function encodeSampleCalldata(marketId: bigint, payload: string): string {
+  return coreInterface.encodeFunctionData("submitSettlementSample", [marketId]) + payload.replace(/^0x/, "");
+}
+
+// Hardhat default accounts #0-#2 (authorised by OracleModuleHarness on chainid 31337)
+export const HARDHAT_SIGNER_KEYS = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+];
@@ -0,0 +1,559 @@
+import hre from "hardhat";
+import fs from "fs";
+import path from "path";
+import { decodeBytes32String, toBeHex, zeroPadValue, type Provider, type Signer } from "ethers";
+import { SignedDataPackage, type SignedDataPackagePlainObj } from "@redstone-finance/protocol";
+import { getSignersForDataServiceId, requestDataPackages } from "@redstone-finance/sdk";
+import { OracleModule__factory, type SignalsCore } from "../../typechain-types";
+import { loadEnvironment } from "../utils/environment";
+import { formatRevert, revertName } from "../utils/revert";
+import {
+  buildSamplePayload,
+  DEFAULT_DATA_SERVICE_ID,
+  encodeSampleCalldata,
+  HISTORICAL_DENOMINATOR_MS,
+} from "./payload-source";
+import { createJsonLogger, type KeeperLogger } from "./settlement-keeper";
+import type { Environment } from "../types/environment";
+
+/**
+ * Redstone settlement sample relayer.
+ *
+ * Pulls signed packages around Tset from a package source, drops those the OracleModule or the
+ * Redstone consumer base would reject at the current block, and submits the closest few in
+ * `submitSettlementSample` calldata. Samples go out farthest first, so every transaction
+ * tightens the candidate under `_updateCandidate`'s rule (strictly closer to Tset, ties to the
+ * earlier sample) and a candidate lands early even when a later transaction fails.
+ *
+ * Under a median / time-weighted settlement rule (`setSettlementRule`) the core keeps the K
+ * samples closest to Tset instead, so a sample is worth sending while it is not stored yet and
+ * either a slot is free or it beats a stored one; the relay then defaults to K samples.
+ */
+
+// RedstoneDefaultsLib.validateTimestamp, checked against block.timestamp
+export const REDSTONE_MAX_DELAY_SEC = 180n;
+export const REDSTONE_MAX_AHEAD_SEC = 60n;
+
+const oracleInterface = OracleModule__factory.createInterface();
+const CANDIDATE_UPDATED = oracleInterface.getEvent("SettlementCandidateUpdated").topicHash;
+
+export interface PackageWindow {
+  /** Redstone feed id as a string (e.g. "BTC") */
+  feedId: string;
+  settlementTimestamp: bigint;
+  /** Inclusive bounds on the package timestamp (seconds) */
+  fromSec: bigint;
+  toSec: bigint;
+}
+
+/** Source of signed Redstone packages; may return packages outside the window or for other feeds */
+export interface PackageSource {
+  readonly name: string;
+  getPackages(window: PackageWindow): Promise<SignedDataPackage[]>;
+}
+
+export interface GatewayPackageSourceOptions {
+  dataServiceId?: string;
+  uniqueSignersCount?: number;
+  /** Historical timestamps requested per relay, closest to Tset first */
+  maxTimestamps?: number;
+}
+
+/** Historical packages from the Redstone gateways, on their 10s boundaries nearest Tset */
+export function createGatewayPackageSource(options: GatewayPackageSourceOptions = {}): PackageSource {
+  const dataServiceId = options.dataServiceId ?? DEFAULT_DATA_SERVICE_ID;
+  const uniqueSignersCount = options.uniqueSignersCount ?? 3;
+  const maxTimestamps = options.maxTimestamps ?? 4;
+  const step = BigInt(HISTORICAL_DENOMINATOR_MS / 1000);
+  return {
+    name: `gateway:${dataServiceId}`,
+    async getPackages({ feedId, settlementTimestamp, fromSec, toSec }) {
+      const boundaries: bigint[] = [];
+      for (let ts = fromSec + ((step - (fromSec % step)) % step); ts <= toSec; ts += step) boundaries.push(ts);
+      boundaries.sort((a, b) => (isCloser(a, b, settlementTimestamp) ? -1 : 1));
+
+      const packages: SignedDataPackage[] = [];
+      let lastError: unknown;
+      for (const ts of boundaries.slice(0, maxTimestamps)) {
+        try {
+          const response = await requestDataPackages({
+            dataServiceId,
+            dataPackagesIds: [feedId],
+            uniqueSignersCount,
+            authorizedSigners: getSignersForDataServiceId(dataServiceId as "redstone-primary-prod"),
+            historicalTimestamp: Number(ts) * 1000,
+          });
+          packages.push(...(response[feedId] ?? []));
+        } catch (err) {
+          lastError = err;
+        }
+      }
+      if (packages.length === 0 && lastError !== undefined) throw lastError;
+      return packages;
+    },
+  };
+}
+
+/**
+ * Packages from a JSON fixture: a local file, or an http(s) URL (e.g. a stand-in server).
+ * The JSON is an array of `SignedDataPackage.toObj()` objects, see `toPackageFixture`.
+ */
+export function createFixturePackageSource(location: string): PackageSource {
+  const remote = /^https?:\/\//.test(location);
+  return {
+    name: `fixture:${location}`,
+    async getPackages() {
+      let objects: SignedDataPackagePlainObj[];
+      if (remote) {
+        const res = await fetch(location);
+        if (!res.ok) throw new Error(`Fixture request failed: ${res.status} ${res.statusText}`);
+        objects = (await res.json()) as SignedDataPackagePlainObj[];
+      } else {
+        objects = JSON.parse(fs.readFileSync(path.resolve(location), "utf8")) as SignedDataPackagePlainObj[];
+      }
+      if (!Array.isArray(objects)) throw new Error(`Fixture ${location} must be a JSON array of signed packages`);
+      return objects.map((obj) => SignedDataPackage.fromObj(obj));
+    },
+  };
+}
+
+export function toPackageFixture(packages: SignedDataPackage[]): SignedDataPackagePlainObj[] {
+  return packages.map((pkg) => pkg.toObj());
+}
+
+// ============================================================
+// Sample selection
+// ============================================================
+
+export function sampleDistance(timestampSec: bigint, settlementTimestamp: bigint): bigint {
+  return timestampSec >= settlementTimestamp ? timestampSec - settlementTimestamp : settlementTimestamp - timestampSec;
+}
+
+/** `_updateCandidate` replaces `than` with `timestampSec`: strictly closer, or as close and earlier */
+export function isCloser(timestampSec: bigint, than: bigint, settlementTimestamp: bigint): boolean {
+  const distance = sampleDistance(timestampSec, settlementTimestamp);
+  const existing = sampleDistance(than, settlementTimestamp);
+  return distance < existing || (distance === existing && timestampSec < than);
+}
+
+export interface SampleContext {
+  settlementTimestamp: bigint;
+  /** Latest block timestamp */
+  now: bigint;
+  /** Δmax; 0 disables the check */
+  maxSampleDistance: bigint;
+  /** δfuture */
+  futureTolerance: bigint;
+  /** Timestamp of the current candidate, if any */
+  candidateTimestamp?: bigint;
+  /** Multi-sample rule in force: K and the stored sample timestamps (replaces the candidate check) */
+  storedSamples?: { maxSamples: number; timestamps: bigint[] };
+  /** Expected delay until inclusion, charged against the Redstone staleness limit */
+  inclusionMarginSec: bigint;
+}
+
+export type SampleRejection =
+  | "too-far-from-tset"
+  | "in-future"
+  | "too-old-for-redstone"
+  | "too-far-ahead-for-redstone"
+  | "not-closer-than-candidate"
+  | "already-stored"
+  | "not-closer-than-stored-samples";
+
+/** Why `submitSettlementSample` would reject or ignore a sample taken at `timestampSec` */
+export function checkSampleTimestamp(timestampSec: bigint, ctx: SampleContext): SampleRejection | undefined {
+  const distance = sampleDistance(timestampSec, ctx.settlementTimestamp);
+  if (ctx.maxSampleDistance !== 0n && distance > ctx.maxSampleDistance) return "too-far-from-tset";
+  if (timestampSec > ctx.now + ctx.futureTolerance) return "in-future";
+  if (timestampSec > ctx.now + REDSTONE_MAX_AHEAD_SEC) return "too-far-ahead-for-redstone";
+  if (timestampSec + REDSTONE_MAX_DELAY_SEC < ctx.now + ctx.inclusionMarginSec) return "too-old-for-redstone";
+  return checkImprovement(timestampSec, ctx);
+}
+
+/** Whether a sample would change what settlement uses: the candidate, or the stored samples */
+function checkImprovement(timestampSec: bigint, ctx: SampleContext): SampleRejection | undefined {
+  if (ctx.storedSamples) {
+    const { maxSamples, timestamps } = ctx.storedSamples;
+    if (timestamps.includes(timestampSec)) return "already-stored";
+    // Beating any stored sample means beating the one `_recordSample` would evict
+    if (
+      timestamps.length >= maxSamples &&
+      !timestamps.some((t) => isCloser(timestampSec, t, ctx.settlementTimestamp))
+    ) {
+      return "not-closer-than-stored-samples";
+    }
+    return undefined;
+  }
+  if (
+    ctx.candidateTimestamp !== undefined &&
+    !isCloser(timestampSec, ctx.candidateTimestamp, ctx.settlementTimestamp)
+  ) {
+    return "not-closer-than-candidate";
+  }
+  return undefined;
+}
+
+export interface SampleGroup {
+  timestampSec: bigint;
+  distance: bigint;
+  packages: SignedDataPackage[];
+  /** Distinct recovered signers */
+  signers: string[];
+}
+
+/**
+ * Group packages for `feedId` by timestamp, one package per signer. Groups with fewer than
+ * `uniqueSignersCount` signers are dropped: the consumer base would revert on them.
+ */
+export function groupPackages(
+  packages: SignedDataPackage[],
+  feedId: string,
+  settlementTimestamp: bigint,
+  uniqueSignersCount: number
+): SampleGroup[] {
+  const byTimestamp = new Map<number, Map<string, SignedDataPackage>>();
+  for (const pkg of packages) {
+    const { dataPackageId, dataPoints, timestampMilliseconds } = pkg.dataPackage;
+    if (dataPackageId !== feedId && !dataPoints.some((p) => p.dataFeedId === feedId)) continue;
+    if (timestampMilliseconds % 1000 !== 0) continue;
+    const signers = byTimestamp.get(timestampMilliseconds) ?? new Map<string, SignedDataPackage>();
+    signers.set(pkg.recoverSignerAddress().toLowerCase(), pkg);
+    byTimestamp.set(timestampMilliseconds, signers);
+  }
+  const groups: SampleGroup[] = [];
+  for (const [timestampMs, signers] of byTimestamp) {
+    if (signers.size < uniqueSignersCount) continue;
+    const timestampSec = BigInt(timestampMs / 1000);
+    groups.push({
+      timestampSec,
+      distance: sampleDistance(timestampSec, settlementTimestamp),
+      packages: [...signers.values()],
+      signers: [...signers.keys()],
+    });
+  }
+  return groups.sort((a, b) => (isCloser(a.timestampSec, b.timestampSec, settlementTimestamp) ? -1 : 1));
+}
+
+/**
+ * The `maxSamples` closest groups that pass `checkSampleTimestamp`, in submission order
+ * (farthest first), plus the reason every other group was left out.
+ */
+export function selectSamples(
+  groups: SampleGroup[],
+  ctx: SampleContext,
+  maxSamples: number
+): { selected: SampleGroup[]; rejected: { timestampSec: bigint; reason: SampleRejection | "beyond-max-samples" }[] } {
+  const passing: SampleGroup[] = [];
+  const rejected: { timestampSec: bigint; reason: SampleRejection | "beyond-max-samples" }[] = [];
+  for (const group of groups) {
+    const reason = checkSampleTimestamp(group.timestampSec, ctx);
+    if (reason !== undefined) rejected.push({ timestampSec: group.timestampSec, reason });
+    else if (passing.length < maxSamples) passing.push(group);
+    else rejected.push({ timestampSec: group.timestampSec, reason: "beyond-max-samples" });
+  }
+  return { selected: passing.reverse(), rejected };
+}
+
+// ============================================================
+// Relay
+// ============================================================
+
+export interface CandidateUpdate {
+  marketId: bigint;
+  settlementValue: bigint;
+  settlementTick: bigint;
+  priceTimestamp: bigint;
+  distance: bigint;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface RelaySubmission {
+  priceTimestamp: bigint;
+  distance: bigint;
+  signers: number;
+  to: string;
+  /** Calldata with the payload appended; send it from any account in dry runs */
+  data: string;
+  txHash?: string;
+  /** SettlementCandidateUpdated from this transaction; absent when the sample did not win */
+  candidateUpdate?: CandidateUpdate;
+  /** Skipped because the on-chain candidate (or stored samples) already made it redundant */
+  superseded?: boolean;
+  error?: string;
+}
+
+export interface RelayResult {
+  marketId: bigint;
+  settlementTimestamp: bigint;
+  submissions: RelaySubmission[];
+  rejected: { timestampSec: bigint; reason: string }[];
+  /** Candidate after the relay, from chain state */
+  candidate?: { settlementValue: bigint; priceTimestamp: bigint };
+  /** Every SettlementCandidateUpdated for the market since the relay started, including others' */
+  candidateUpdates: CandidateUpdate[];
+}
+
+export interface RelayOptions {
+  source: PackageSource;
+  dataServiceId?: string;
+  uniqueSignersCount?: number;
+  /** Samples to send; defaults to K under a multi-sample rule, otherwise 3 */
+  maxSamples?: number;
+  inclusionMarginSec?: number;
+  /** Build calldata without sending */
+  dryRun?: boolean;
+  log?: KeeperLogger;
+}
+
+function decodeCandidateUpdate(log: {
+  topics: readonly string[];
+  data: string;
+  transactionHash: string;
+  blockNumber: number;
+}) {
+  const { args } = oracleInterface.parseLog(log)!;
+  return {
+    marketId: args.marketId as bigint,
+    settlementValue: args.settlementValue as bigint,
+    settlementTick: args.settlementTick as bigint,
+    priceTimestamp: args.priceTimestamp as bigint,
+    distance: args.distance as bigint,
+    txHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+  };
+}
+
+/** SettlementCandidateUpdated logs for a market, emitted at the core address */
+export async function fetchCandidateUpdates(
+  provider: Provider,
+  core: SignalsCore,
+  marketId: bigint,
+  fromBlock: number
+): Promise<CandidateUpdate[]> {
+  const logs = await provider.getLogs({
+    address: await core.getAddress(),
+    topics: [CANDIDATE_UPDATED, zeroPadValue(toBeHex(marketId), 32)],
+    fromBlock,
+  });
+  return logs.map(decodeCandidateUpdate);
+}
+
+async function currentCandidate(core: SignalsCore, marketId: bigint) {
+  try {
+    const [settlementValue, priceTimestamp] = await core.getSettlementPrice.staticCall(marketId);
+    return { settlementValue, priceTimestamp };
+  } catch (err) {
+    if (revertName(err) === "SettlementOracleCandidateMissing") return undefined;
+    throw err;
+  }
+}
+
+/** K and the stored sample timestamps when a median / time-weighted rule is in force */
+async function currentStoredSamples(core: SignalsCore, marketId: bigint) {
+  const [mode, maxSamples] = await core.getSettlementRule();
+  if (mode === 0n) return undefined;
+  const [, timestamps] = await core.getSettlementSamples.staticCall(marketId);
+  return { maxSamples: Number(maxSamples), timestamps: [...timestamps] };
+}
+
+/** Submit the best available samples for one market in its SettlementOpen window */
+export async function relaySettlementSamples(
+  core: SignalsCore,
+  signer: Signer,
+  marketId: bigint,
+  options: RelayOptions
+): Promise<RelayResult> {
+  const provider = signer.provider;
+  if (!provider) throw new Error("Signer has no provider");
+  const log = options.log ?? (() => {});
+  const dataServiceId = options.dataServiceId ?? DEFAULT_DATA_SERVICE_ID;
+  const uniqueSignersCount = options.uniqueSignersCount ?? 3;
+  const id = marketId.toString();
+
+  const market = await core.markets(marketId);
+  if (market.numBins === 0n) throw new Error(`Market ${marketId} not found`);
+  if (market.settled || market.failed) throw new Error(`Market ${marketId} is already settled or failed`);
+  const [tSet, settleEnd] = await core.getSettlementWindows.staticCall(marketId);
+  const block = await provider.getBlock("latest");
+  if (!block) throw new Error("Latest block unavailable");
+  const now = BigInt(block.timestamp);
+  if (now < tSet || now >= settleEnd) {
+    throw new Error(`Market ${marketId} is not in SettlementOpen: now=${now}, window=[${tSet}, ${settleEnd})`);
+  }
+
+  const oracle = await core.getMarketOracleConfig.staticCall(marketId);
+  const feedId = decodeBytes32String(oracle.feedId);
+  const ctx: SampleContext = {
+    settlementTimestamp: tSet,
+    now,
+    maxSampleDistance: oracle.maxSampleDistance,
+    futureTolerance: oracle.futureTolerance,
+    candidateTimestamp: (await currentCandidate(core, marketId))?.priceTimestamp,
+    storedSamples: await currentStoredSamples(core, marketId),
+    inclusionMarginSec: BigInt(options.inclusionMarginSec ?? 30),
+  };
+  const maxSamples = options.maxSamples ?? ctx.storedSamples?.maxSamples ?? 3;
+
+  // Only fetch what could pass the checks at this block
+  const aheadLimit = ctx.futureTolerance < REDSTONE_MAX_AHEAD_SEC ? ctx.futureTolerance : REDSTONE_MAX_AHEAD_SEC;
+  let fromSec = now + ctx.inclusionMarginSec - REDSTONE_MAX_DELAY_SEC;
+  let toSec = now + aheadLimit;
+  if (ctx.maxSampleDistance !== 0n) {
+    if (tSet - ctx.maxSampleDistance > fromSec) fromSec = tSet - ctx.maxSampleDistance;
+    if (tSet + ctx.maxSampleDistance < toSec) toSec = tSet + ctx.maxSampleDistance;
+  }
+  const packages =
+    fromSec > toSec ? [] : await options.source.getPackages({ feedId, settlementTimestamp: tSet, fromSec, toSec });
+  const groups = groupPackages(packages, feedId, tSet, uniqueSignersCount);
+  const { selected, rejected } = selectSamples(groups, ctx, maxSamples);
+  log({
+    level: selected.length === 0 ? "warn" : "info",
+    event: "samples-selected",
+    marketId: id,
+    source: options.source.name,
+    packages: packages.length,
+    selected: selected.map((g) => g.timestampSec.toString()),
+    rejected: rejected.map((r) => `${r.timestampSec}:${r.reason}`),
+  });
+
+  const startBlock = block.number + 1;
+  const to = await core.getAddress();
+  const submissions: RelaySubmission[] = [];
+  for (const group of selected) {
+    const submission: RelaySubmission = {
+      priceTimestamp: group.timestampSec,
+      distance: group.distance,
+      signers: group.signers.length,
+      to,
+      data: encodeSampleCalldata(marketId, buildSamplePayload(group.packages, dataServiceId)),
+    };
+    submissions.push(submission);
+    if (options.dryRun) continue;
+
+    // Someone else may have landed a closer sample since selection
+    const onChain: SampleContext = {
+      ...ctx,
+      candidateTimestamp: (await currentCandidate(core, marketId))?.priceTimestamp,
+      storedSamples: ctx.storedSamples && (await currentStoredSamples(core, marketId)),
+    };
+    if (checkImprovement(group.timestampSec, onChain) !== undefined) {
+      submission.superseded = true;
+      log({ level: "info", event: "sample-superseded", marketId: id, priceTimestamp: group.timestampSec.toString() });
+      continue;
+    }
+    try {
+      const tx = await signer.sendTransaction({ to, data: submission.data });
+      const receipt = await tx.wait();
+      submission.txHash = tx.hash;
+      const update = receipt?.logs.find((l) => l.topics[0] === CANDIDATE_UPDATED);
+      if (update) submission.candidateUpdate = decodeCandidateUpdate(update);
+      log({
+        level: "info",
+        event: "sample-submitted",
+        marketId: id,
+        priceTimestamp: group.timestampSec.toString(),
+        distance: group.distance.toString(),
+        txHash: tx.hash,
+        candidateUpdated: update !== undefined,
+      });
+    } catch (err) {
+      submission.error = formatRevert(err);
+      log({
+        level: "error",
+        event: "sample-failed",
+        marketId: id,
+        priceTimestamp: group.timestampSec.toString(),
+        error: submission.error,
+      });
+    }
+  }
+
+  return {
+    marketId,
+    settlementTimestamp: tSet,
+    submissions,
+    rejected,
+    candidate: await currentCandidate(core, marketId),
+    candidateUpdates: options.dryRun ? [] : await fetchCandidateUpdates(provider, core, marketId, startBlock),
+  };
+}
+
+function resolvePackageSource(): PackageSource {
+  const source = process.env.RELAY_SOURCE ?? "gateway";
+  if (source === "gateway") {
+    return createGatewayPackageSource({
+      dataServiceId: process.env.RELAY_DATA_SERVICE_ID,
+      uniqueSignersCount: Number(process.env.RELAY_UNIQUE_SIGNERS ?? "3"),
+    });
+  }
+  if (source !== "fixture") throw new Error(`RELAY_SOURCE must be "gateway" or "fixture" (got ${source})`);
+  if (!process.env.RELAY_FIXTURE) throw new Error("RELAY_SOURCE=fixture needs RELAY_FIXTURE (path or http(s) URL)");
+  return createFixturePackageSource(process.env.RELAY_FIXTURE);
+}
+
+export async function relaySettlementAction(env: Environment) {
+  const { ethers, network } = hre;
+  const envData = loadEnvironment(env);
+  const coreAddress = envData.contracts.SignalsCoreProxy;
+  if (!coreAddress) throw new Error("Missing SignalsCoreProxy in environment file");
+  const marketId = BigInt(process.env.MARKET_ID ?? "0");
+  if (marketId <= 0n) throw new Error(`Invalid market id: ${process.env.MARKET_ID}`);
+
+  const [signer] = await ethers.getSigners();
+  const core = await ethers.getContractAt("SignalsCore", coreAddress);
+  const log = createJsonLogger("redstone-relayer");
+  const source = resolvePackageSource();
+  const dryRun = process.env.RELAY_DRY_RUN === "1";
+  log({
+    level: "info",
+    event: "start",
+    environment: env,
+    network: network.name,
+    marketId: marketId.toString(),
+    source: source.name,
+    dryRun,
+  });
+
+  const result = await relaySettlementSamples(core, signer, marketId, {
+    source,
+    dataServiceId: process.env.RELAY_DATA_SERVICE_ID,
+    uniqueSignersCount: Number(process.env.RELAY_UNIQUE_SIGNERS ?? "3"),
+    maxSamples: process.env.RELAY_MAX_SAMPLES ? Number(process.env.RELAY_MAX_SAMPLES) : undefined,
+    inclusionMarginSec: Number(process.env.RELAY_INCLUSION_MARGIN_SEC ?? "30"),
+    dryRun,
+    log,
+  });
+
+  if (dryRun && process.env.RELAY_OUT) {
+    const outPath = path.resolve(process.env.RELAY_OUT);
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    const txs = result.submissions.map((s) => ({
+      to: s.to,
+      data: s.data,
+      priceTimestamp: s.priceTimestamp.toString(),
+    }));
+    fs.writeFileSync(outPath, JSON.stringify(txs, null, 2));
+    log({ level: "info", event: "calldata-written", path: outPath, transactions: txs.length });
+  }
+  for (const update of result.candidateUpdates) {
+    log({
+      level: "info",
+      event: "candidate-updated",
+      marketId: marketId.toString(),
+      settlementValue: update.settlementValue.toString(),
+      settlementTick: update.settlementTick.toString(),
+      priceTimestamp: update.priceTimestamp.toString(),
+      distance: update.distance.toString(),
+      txHash: update.txHash,
+    });
+  }
+  log({
+    level: result.candidate ? "info" : "warn",
+    event: "done",
+    marketId: marketId.toString(),
+    submitted: result.submissions.filter((s) => s.txHash).length,
+    candidateTimestamp: result.candidate?.priceTimestamp.toString(),
+  });
+}
@@ -0,0 +1,381 @@
+import hre from "hardhat";
+import type { Signer } from "ethers";
+import { loadEnvironment } from "../utils/environment";
+import { formatRevert, revertName } from "../utils/revert";
+import {
+  createMockPayloadSource,
+  createRedstonePayloadSource,
+  HARDHAT_SIGNER_KEYS,
+  encodeSampleCalldata,
+  type PayloadSource,
+} from "./payload-source";
+import type { Environment } from "../types/environment";
+import type { SignalsCore } from "../../typechain-types";
+
+const BATCH_SECONDS = 86400n;
+
+/** getMarketState values (OracleModule) */
+export const MarketState = {
+  Trading: 0,
+  SettlementOpen: 1,
+  PendingOps: 2,
+  FinalizedPrimary: 3,
+  FinalizedSecondary: 4,
+  FailedPendingManual: 5,
+} as const;
+
+export type KeeperStep =
+  | "submitSettlementSample"
+  | "finalizePrimarySettlement"
+  | "markSettlementFailed"
+  | "requestSettlementChunks"
+  | "processDailyBatch"
+  | "processEmptyBatch";
+
+export interface KeeperLogEntry {
+  level: "debug" | "info" | "warn" | "error";
+  event: string;
+  marketId?: string;
+  batchId?: string;
+  [field: string]: unknown;
+}
+
+export type KeeperLogger = (entry: KeeperLogEntry) => void;
+
+export interface KeeperAction {
+  step: KeeperStep;
+  marketId?: bigint;
+  batchId?: bigint;
+  txHash: string;
+}
+
+export interface KeeperOptions {
+  payloadSource: PayloadSource;
+  log?: KeeperLogger;
+  maxChunksPerTx?: number;
+  /** Upper bound on requestSettlementChunks calls per market per tick */
+  maxChunkCallsPerTick?: number;
+  /** Extra attempts per step after the first failure */
+  retries?: number;
+  retryDelayMs?: number;
+  /** Advance over ended batches without markets via processEmptyBatch (owner-only) */
+  processEmptyBatches?: boolean;
+  /** Seconds after a batch ends before it is treated as empty, leaving room to add a late market */
+  emptyBatchGraceSec?: number;
+}
+
+export interface Keeper {
+  core: SignalsCore;
+  signer: Signer;
+  payloadSource: PayloadSource;
+  log: KeeperLogger;
+  maxChunksPerTx: number;
+  maxChunkCallsPerTick: number;
+  retries: number;
+  retryDelayMs: number;
+  processEmptyBatches: boolean;
+  emptyBatchGraceSec: bigint;
+  /** Markets settled, snapshotted and batch-processed; skipped on later ticks */
+  finished: Set<bigint>;
+  /** Markets already reported as waiting for manual secondary settlement */
+  manualReported: Set<bigint>;
+}
+
+/** JSON-lines logger tagged with `component` */
+export function createJsonLogger(component: string): KeeperLogger {
+  return (entry) => {
+    const line = JSON.stringify({ ts: new Date().toISOString(), component, ...entry });
+    if (entry.level === "error") console.error(line);
+    else if (entry.level === "warn") console.warn(line);
+    else console.log(line);
+  };
+}
+
+export const jsonLogger = createJsonLogger("settlement-keeper");
+
+export function createKeeper(core: SignalsCore, signer: Signer, options: KeeperOptions): Keeper {
+  return {
+    core: core.connect(signer) as SignalsCore,
+    signer,
+    payloadSource: options.payloadSource,
+    log: options.log ?? jsonLogger,
+    maxChunksPerTx: options.maxChunksPerTx ?? 25,
+    maxChunkCallsPerTick: options.maxChunkCallsPerTick ?? 20,
+    retries: options.retries ?? 3,
+    retryDelayMs: options.retryDelayMs ?? 2000,
+    processEmptyBatches: options.processEmptyBatches ?? false,
+    emptyBatchGraceSec: BigInt(options.emptyBatchGraceSec ?? 3600),
+    finished: new Set(),
+    manualReported: new Set(),
+  };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function withRetries<T>(
+  keeper: Keeper,
+  step: KeeperStep,
+  fields: Partial<KeeperLogEntry>,
+  fn: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt > keeper.retries) throw err;
+      keeper.log({ level: "warn", event: "retry", step, attempt, error: formatRevert(err), ...fields });
+      await sleep(keeper.retryDelayMs * attempt);
+    }
+  }
+}
+
+async function send(
+  keeper: Keeper,
+  actions: KeeperAction[],
+  action: Omit<KeeperAction, "txHash">,
+  fn: () => Promise<{ hash: string; wait: () => Promise<unknown> }>
+) {
+  const fields = {
+    marketId: action.marketId?.toString(),
+    batchId: action.batchId?.toString(),
+  };
+  const txHash = await withRetries(keeper, action.step, fields, async () => {
+    const tx = await fn();
+    await tx.wait();
+    return tx.hash;
+  });
+  actions.push({ ...action, txHash });
+  keeper.log({ level: "info", event: action.step, txHash, ...fields });
+}
+
+async function latestTimestamp(): Promise<bigint> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  return BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+}
+
+async function hasCandidate(core: SignalsCore, marketId: bigint): Promise<boolean> {
+  try {
+    await core.getSettlementPrice.staticCall(marketId);
+    return true;
+  } catch (err) {
+    if (revertName(err) === "SettlementOracleCandidateMissing") return false;
+    throw err;
+  }
+}
+
+async function submitSample(keeper: Keeper, actions: KeeperAction[], marketId: bigint, tSet: bigint) {
+  const { core } = keeper;
+  // Per-market feed when set, the global Redstone config otherwise
+  const oracle = await core.getMarketOracleConfig.staticCall(marketId);
+  const feedId = hre.ethers.decodeBytes32String(oracle.feedId);
+  const feedDecimals = Number(oracle.feedDecimals);
+  const to = await core.getAddress();
+  // Payload fetch is retried together with the send (gateway hiccups are the common failure)
+  await send(keeper, actions, { step: "submitSettlementSample", marketId }, async () => {
+    const payload = await keeper.payloadSource.getPayload({
+      marketId,
+      settlementTimestamp: tSet,
+      feedId,
+      feedDecimals,
+    });
+    return keeper.signer.sendTransaction({ to, data: encodeSampleCalldata(marketId, payload) });
+  });
+}
+
+/**
+ * Advance one market as far as the current block allows.
+ * Every decision is re-derived from chain state, so a restarted keeper resumes where it stopped.
+ */
+async function driveMarket(keeper: Keeper, actions: KeeperAction[], marketId: bigint) {
+  const { core } = keeper;
+  const id = marketId.toString();
+  let market = await core.markets(marketId);
+  const state = Number(await core.getMarketState.staticCall(marketId));
+
+  if (state === MarketState.SettlementOpen) {
+    if (!(await hasCandidate(core, marketId))) {
+      await submitSample(keeper, actions, marketId, market.settlementTimestamp);
+    }
+    return;
+  }
+
+  if (state === MarketState.FailedPendingManual) {
+    if (!keeper.manualReported.has(marketId)) {
+      keeper.manualReported.add(marketId);
+      keeper.log({ level: "warn", event: "manual-settlement-required", marketId: id });
+    }
+    return;
+  }
+
+  if (state === MarketState.FinalizedPrimary && !market.settled) {
+    // Past PendingOps: finalize with the candidate, or route to manual settlement without one
+    if (await hasCandidate(core, marketId)) {
+      await send(keeper, actions, { step: "finalizePrimarySettlement", marketId }, () =>
+        core.finalizePrimarySettlement(marketId)
+      );
+    } else {
+      keeper.log({ level: "warn", event: "candidate-missing", marketId: id });
+      await send(keeper, actions, { step: "markSettlementFailed", marketId }, () =>
+        core.markSettlementFailed(marketId)
+      );
+      return;
+    }
+    market = await core.markets(marketId);
+  }
+
+  if (!market.settled) return;
+
+  for (let calls = 0; !market.snapshotChunksDone && calls < keeper.maxChunkCallsPerTick; calls++) {
+    await send(keeper, actions, { step: "requestSettlementChunks", marketId }, () =>
+      core.requestSettlementChunks(marketId, keeper.maxChunksPerTx)
+    );
+    market = await core.markets(marketId);
+  }
+  if (!market.snapshotChunksDone) return;
+
+  const batchId = market.settlementTimestamp / BATCH_SECONDS;
+  if (batchId <= (await core.getCurrentBatchId())) {
+    keeper.finished.add(marketId);
+    keeper.log({ level: "debug", event: "market-finished", marketId: id, batchId: batchId.toString() });
+  }
+}
+
+/**
+ * Process daily batches in order while the next one has ended and all its markets are resolved.
+ * A batch without markets stalls the vault unless empty-batch processing is enabled, in which
+ * case it is advanced once the grace period after its end has passed.
+ */
+async function driveBatches(keeper: Keeper, actions: KeeperAction[]) {
+  const { core } = keeper;
+  if (!(await core.isVaultSeeded())) return;
+
+  for (;;) {
+    const batchId = (await core.getCurrentBatchId()) + 1n;
+    const batchEnd = (batchId + 1n) * BATCH_SECONDS;
+    const now = await latestTimestamp();
+    if (now < batchEnd) return;
+
+    const [total, resolved] = await core.getBatchMarketState(batchId);
+    if (total === 0n) {
+      if (!keeper.processEmptyBatches || now < batchEnd + keeper.emptyBatchGraceSec) {
+        keeper.log({ level: "warn", event: "batch-without-markets", batchId: batchId.toString() });
+        return;
+      }
+      await send(keeper, actions, { step: "processEmptyBatch", batchId }, () => core.processEmptyBatch(batchId));
+      continue;
+    }
+    if (resolved !== total) {
+      keeper.log({
+        level: "debug",
+        event: "batch-waiting",
+        batchId: batchId.toString(),
+        resolved: resolved.toString(),
+        total: total.toString(),
+      });
+      return;
+    }
+    await send(keeper, actions, { step: "processDailyBatch", batchId }, () => core.processDailyBatch(batchId));
+  }
+}
+
+/**
+ * One keeper pass over every unfinished market, then over pending daily batches.
+ * A failing market is logged and skipped so it cannot block the others.
+ */
+export async function runKeeperTick(keeper: Keeper): Promise<KeeperAction[]> {
+  const actions: KeeperAction[] = [];
+  const lastMarketId = await keeper.core.nextMarketId();
+  for (let marketId = 1n; marketId <= lastMarketId; marketId++) {
+    if (keeper.finished.has(marketId)) continue;
+    try {
+      await driveMarket(keeper, actions, marketId);
+    } catch (err) {
+      keeper.log({
+        level: "error",
+        event: "market-failed",
+        marketId: marketId.toString(),
+        error: formatRevert(err),
+      });
+    }
+  }
+  try {
+    await driveBatches(keeper, actions);
+  } catch (err) {
+    keeper.log({ level: "error", event: "batch-failed", error: formatRevert(err) });
+  }
+  return actions;
+}
+
+async function resolvePayloadSource(): Promise<PayloadSource> {
+  const source = process.env.KEEPER_PAYLOAD_SOURCE ?? "redstone";
+  if (source === "redstone") return createRedstonePayloadSource();
+  if (source !== "mock") {
+    throw new Error(`KEEPER_PAYLOAD_SOURCE must be "redstone" or "mock" (got ${source})`);
+  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  if (chainId !== 31337n) {
+    throw new Error("KEEPER_PAYLOAD_SOURCE=mock is only accepted on a local hardhat node (chainid 31337)");
+  }
+  const price = Number(process.env.KEEPER_MOCK_PRICE ?? "85000");
+  return createMockPayloadSource({
+    signerKeys: HARDHAT_SIGNER_KEYS,
+    price: () => price,
+  });
+}
+
+export async function settlementKeeperAction(env: Environment) {
+  const { ethers, network } = hre;
+  const envData = loadEnvironment(env);
+  const coreAddress = envData.contracts.SignalsCoreProxy;
+  if (!coreAddress) throw new Error("Missing SignalsCoreProxy in environment file");
+
+  const [signer] = await ethers.getSigners();
+  const core = await ethers.getContractAt("SignalsCore", coreAddress);
+  const keeper = createKeeper(core, signer, {
+    payloadSource: await resolvePayloadSource(),
+    maxChunksPerTx: Number(process.env.KEEPER_MAX_CHUNKS_PER_TX ?? "25"),
+    retries: Number(process.env.KEEPER_RETRIES ?? "3"),
+    processEmptyBatches: process.env.KEEPER_PROCESS_EMPTY_BATCHES === "1",
+    emptyBatchGraceSec: Number(process.env.KEEPER_EMPTY_BATCH_GRACE_SEC ?? "3600"),
+  });
+  const intervalMs = Number(process.env.KEEPER_INTERVAL_SEC ?? "30") * 1000;
+  const once = process.env.KEEPER_ONCE === "1";
+
+  keeper.log({
+    level: "info",
+    event: "start",
+    environment: env,
+    network: network.name,
+    core: coreAddress,
+    signer: signer.address,
+    payloadSource: keeper.payloadSource.name,
+    intervalMs,
+    once,
+    processEmptyBatches: keeper.processEmptyBatches,
+  });
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  while (!stopping) {
+    const actions = await runKeeperTick(keeper);
+    keeper.log({ level: "info", event: "tick", actions: actions.length, finished: keeper.finished.size });
+    if (once) break;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, intervalMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+  keeper.log({ level: "info", event: "stop" });
+}
@@ -0,0 +1,255 @@
+/**
+ * Bit-exact TypeScript port of contracts/lib/ClmsrMath.sol.
+ *
+ * Quotes read the tree without mutating it, exactly like the library's view functions,
+ * including the chunked path for quantities above `maxSafeChunkQuantity` and its
+ * `_computeSafeChunk` overflow fallback.
+ */
+import { mathRevert } from "./math-error";
+import {
+  MAX_EXP_INPUT_WAD,
+  MAX_UINT256,
+  WAD,
+  add,
+  div,
+  sub,
+  wDiv,
+  wDivUp,
+  wExp,
+  wLn,
+  wMul,
+  wMulNearest,
+} from "./fixed-point-math";
+import { getRangeSum, totalSum, type SegmentTree } from "./lazy-mul-segment-tree";
+
+export const MAX_CHUNKS_PER_TX = 100n;
+export const OVERFLOW_GUARD_MULTIPLIER = 50n * WAD;
+/** ln(MAX_FACTOR) = ln(100) in WAD */
+export const LN_MAX_FACTOR_WAD = 4_605_170_185_988_091_368n;
+
+// ============================================================
+// Core CLMSR Math
+// ============================================================
+
+/** exp(numerator / alpha) with overflow protection */
+export function safeExp(numeratorWad: bigint, alpha: bigint): bigint {
+  if (alpha === 0n) mathRevert("InvalidLiquidityParameter");
+  const inputWad = wDiv(numeratorWad, alpha);
+  if (inputWad > MAX_EXP_INPUT_WAD) mathRevert("FP_Overflow");
+  return wExp(inputWad);
+}
+
+/** Buy cost from the actual sum change (execute-first model) */
+export function computeBuyCostFromSumChange(alpha: bigint, sumBefore: bigint, sumAfter: bigint): bigint {
+  if (sumAfter <= sumBefore) return 0n;
+  return wMul(alpha, wLn(wDivUp(sumAfter, sumBefore)));
+}
+
+/** Sell proceeds from the actual sum change (execute-first model, floor ratio) */
+export function computeSellProceedsFromSumChange(alpha: bigint, sumBefore: bigint, sumAfter: bigint): bigint {
+  if (sumAfter >= sumBefore) return 0n;
+  return wMul(alpha, wLn(wDiv(sumBefore, sumAfter)));
+}
+
+/** min(α · ln(MAX_FACTOR), α · MAX_EXP_INPUT): largest quantity one tree update can absorb */
+export function maxSafeChunkQuantity(alpha: bigint): bigint {
+  if (alpha === 0n) return 0n;
+  const treeLimit = wMul(alpha, LN_MAX_FACTOR_WAD);
+  const expLimit = wMul(alpha, MAX_EXP_INPUT_WAD);
+  return treeLimit < expLimit ? treeLimit : expLimit;
+}
+
+export function calculateTradeCost(
+  tree: SegmentTree,
+  alpha: bigint,
+  loBin: number,
+  hiBin: number,
+  quantityWad: bigint
+): bigint {
+  const maxSafeQuantityPerChunk = maxSafeChunkQuantity(alpha);
+
+  if (quantityWad === 0n) return 0n;
+  if (quantityWad <= maxSafeQuantityPerChunk) {
+    return calculateSingleTradeCost(tree, alpha, loBin, hiBin, quantityWad);
+  }
+
+  const sumBefore = totalSum(tree);
+  const affectedSum = getRangeSum(tree, loBin, hiBin);
+  if (sumBefore === 0n) mathRevert("TreeNotInitialized");
+  requireChunkBudget(quantityWad, maxSafeQuantityPerChunk);
+
+  let cumulativeCostWad = 0n;
+  let remainingQuantity = quantityWad;
+  let currentSumBefore = sumBefore;
+  let currentAffectedSum = affectedSum;
+  let chunkCount = 0n;
+
+  while (remainingQuantity > 0n && chunkCount < MAX_CHUNKS_PER_TX) {
+    let chunkQuantity = remainingQuantity > maxSafeQuantityPerChunk ? maxSafeQuantityPerChunk : remainingQuantity;
+    let factor = wExp(wDiv(chunkQuantity, alpha));
+
+    if (currentAffectedSum > MAX_UINT256 / factor) {
+      chunkQuantity = computeSafeChunk(currentAffectedSum, alpha, remainingQuantity, MAX_CHUNKS_PER_TX - chunkCount);
+      if (chunkQuantity > remainingQuantity) chunkQuantity = remainingQuantity;
+      factor = wExp(wDiv(chunkQuantity, alpha));
+    }
+
+    if (currentAffectedSum !== 0n && factor > MAX_UINT256 / currentAffectedSum) mathRevert("MathMulOverflow");
+
+    const newAffectedSum = wMulNearest(currentAffectedSum, factor);
+    const sumAfter = add(sub(currentSumBefore, currentAffectedSum), newAffectedSum);
+    if (sumAfter <= currentSumBefore) mathRevert("NonIncreasingSum", currentSumBefore, sumAfter);
+
+    cumulativeCostWad = add(cumulativeCostWad, wMul(alpha, wLn(wDivUp(sumAfter, currentSumBefore))));
+
+    if (chunkQuantity === 0n) mathRevert("NoChunkProgress");
+
+    currentSumBefore = sumAfter;
+    currentAffectedSum = newAffectedSum;
+    remainingQuantity -= chunkQuantity;
+    chunkCount++;
+  }
+
+  if (remainingQuantity !== 0n) mathRevert("ResidualQuantity", remainingQuantity);
+  return cumulativeCostWad;
+}
+
+function calculateSingleTradeCost(
+  tree: SegmentTree,
+  alpha: bigint,
+  loBin: number,
+  hiBin: number,
+  quantityWad: bigint
+): bigint {
+  const sumBefore = totalSum(tree);
+  if (sumBefore === 0n) mathRevert("TreeNotInitialized");
+  const factor = wExp(wDiv(quantityWad, alpha));
+  const affectedSum = getRangeSum(tree, loBin, hiBin);
+  if (affectedSum === 0n) mathRevert("AffectedSumZero");
+  if (affectedSum > MAX_UINT256 / factor) {
+    return calculateTradeCost(tree, alpha, loBin, hiBin, quantityWad);
+  }
+  const sumAfter = add(sumBefore - affectedSum, wMulNearest(affectedSum, factor));
+  if (sumAfter <= sumBefore) return 0n;
+  return wMul(alpha, wLn(wDivUp(sumAfter, sumBefore)));
+}
+
+export function calculateSellProceeds(
+  tree: SegmentTree,
+  alpha: bigint,
+  loBin: number,
+  hiBin: number,
+  quantityWad: bigint
+): bigint {
+  const maxSafeQuantityPerChunk = maxSafeChunkQuantity(alpha);
+  if (quantityWad === 0n) return 0n;
+  if (quantityWad <= maxSafeQuantityPerChunk) {
+    return calculateSingleSellProceeds(tree, alpha, loBin, hiBin, quantityWad);
+  }
+
+  const sumBefore = totalSum(tree);
+  const affectedSum = getRangeSum(tree, loBin, hiBin);
+  if (sumBefore === 0n) mathRevert("TreeNotInitialized");
+  requireChunkBudget(quantityWad, maxSafeQuantityPerChunk);
+
+  let cumulativeProceeds = 0n;
+  let remainingQuantity = quantityWad;
+  let currentSumBefore = sumBefore;
+  let currentAffectedSum = affectedSum;
+  let chunkCount = 0n;
+
+  while (remainingQuantity > 0n && chunkCount < MAX_CHUNKS_PER_TX) {
+    let chunkQuantity = remainingQuantity > maxSafeQuantityPerChunk ? maxSafeQuantityPerChunk : remainingQuantity;
+    let inverseFactor = wDivUp(WAD, wExp(wDiv(chunkQuantity, alpha)));
+
+    if (currentAffectedSum > MAX_UINT256 / inverseFactor) {
+      chunkQuantity = computeSafeChunk(currentAffectedSum, alpha, remainingQuantity, MAX_CHUNKS_PER_TX - chunkCount);
+      if (chunkQuantity > remainingQuantity) chunkQuantity = remainingQuantity;
+      inverseFactor = wDivUp(WAD, wExp(wDiv(chunkQuantity, alpha)));
+    }
+
+    if (currentAffectedSum !== 0n && inverseFactor > MAX_UINT256 / currentAffectedSum) mathRevert("MathMulOverflow");
+
+    const newAffectedSum = wMulNearest(currentAffectedSum, inverseFactor);
+    const sumAfter = add(sub(currentSumBefore, currentAffectedSum), newAffectedSum);
+    if (sumAfter === 0n) mathRevert("SumAfterZero");
+    // Compared against the pre-trade sum, as in the contract
+    if (sumBefore <= sumAfter) return 0n;
+
+    cumulativeProceeds = add(cumulativeProceeds, wMul(alpha, wLn(wDivUp(currentSumBefore, sumAfter))));
+
+    if (chunkQuantity === 0n) mathRevert("NoChunkProgress");
+
+    currentSumBefore = sumAfter;
+    currentAffectedSum = newAffectedSum;
+    remainingQuantity -= chunkQuantity;
+    chunkCount++;
+  }
+
+  if (remainingQuantity !== 0n) mathRevert("ResidualQuantity", remainingQuantity);
+  return cumulativeProceeds;
+}
+
+function calculateSingleSellProceeds(
+  tree: SegmentTree,
+  alpha: bigint,
+  loBin: number,
+  hiBin: number,
+  quantityWad: bigint
+): bigint {
+  const sumBefore = totalSum(tree);
+  if (sumBefore === 0n) mathRevert("TreeNotInitialized");
+
+  const inverseFactor = wDivUp(WAD, wExp(wDiv(quantityWad, alpha)));
+
+  const affectedSum = getRangeSum(tree, loBin, hiBin);
+  if (affectedSum === 0n) mathRevert("AffectedSumZero");
+  if (affectedSum > MAX_UINT256 / inverseFactor) {
+    return calculateSellProceeds(tree, alpha, loBin, hiBin, quantityWad);
+  }
+
+  const sumAfter = add(sumBefore - affectedSum, wMulNearest(affectedSum, inverseFactor));
+  if (sumAfter === 0n) mathRevert("SumAfterZero");
+  if (sumBefore <= sumAfter) return 0n;
+
+  return wMul(alpha, wLn(wDivUp(sumBefore, sumAfter)));
+}
+
+export function calculateQuantityFromCost(
+  tree: SegmentTree,
+  alpha: bigint,
+  loBin: number,
+  hiBin: number,
+  costWad: bigint
+): bigint {
+  const sumBefore = totalSum(tree);
+  const affectedSum = getRangeSum(tree, loBin, hiBin);
+  if (sumBefore === 0n) mathRevert("TreeNotInitialized");
+  if (affectedSum === 0n) mathRevert("AffectedSumZero");
+
+  const targetSumAfter = wMul(sumBefore, safeExp(costWad, alpha));
+  const requiredAffectedSum = sub(targetSumAfter, sumBefore - affectedSum);
+  const factor = wDiv(requiredAffectedSum, affectedSum);
+  return wMul(alpha, wLn(factor));
+}
+
+function requireChunkBudget(totalQuantity: bigint, maxSafeQuantityPerChunk: bigint) {
+  const requiredChunks = div(totalQuantity + maxSafeQuantityPerChunk - 1n, maxSafeQuantityPerChunk);
+  if (requiredChunks > MAX_CHUNKS_PER_TX) mathRevert("ChunkLimitExceeded", requiredChunks, MAX_CHUNKS_PER_TX);
+}
+
+function computeSafeChunk(currentSum: bigint, alpha: bigint, remainingQty: bigint, chunksLeft: bigint): bigint {
+  if (chunksLeft === 0n) return remainingQty;
+
+  let minProgress = (remainingQty + chunksLeft - 1n) / chunksLeft;
+  if (minProgress === 0n) minProgress = 1n;
+
+  let maxSafeQuantity = wMul(alpha, MAX_EXP_INPUT_WAD);
+  if (currentSum > wMul(alpha, OVERFLOW_GUARD_MULTIPLIER)) {
+    maxSafeQuantity = alpha / 10n;
+  }
+
+  let safeChunk = minProgress < maxSafeQuantity ? minProgress : maxSafeQuantity;
+  if (safeChunk > remainingQty) safeChunk = remainingQty;
+  return safeChunk;
+}
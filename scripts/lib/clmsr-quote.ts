@@ -0,0 +1,208 @@
+/**
+ * Off-chain CLMSR quote engine.
+ *
+ * Reproduces TradeModule's quote views (`calculateOpenCost`, `calculateIncreaseCost`,
+ * `calculateDecreaseProceeds`, `calculateCloseProceeds`, `calculateQuantityFromBudget`) and its
+ * execute-first tree update, so a front-end holding a market's tree can quote every keystroke
+ * without an eth_call and simulate a sequence of trades with the same 6-decimal amounts the
+ * contracts charge.
+ */
+import { mathRevert } from "./math-error";
+import {
+  MAX_EXP_INPUT_WAD,
+  MAX_UINT256,
+  WAD,
+  fromWad,
+  fromWadRoundUp,
+  toWad,
+  wDiv,
+  wDivUp,
+  wLn,
+  wMul,
+} from "./fixed-point-math";
+import {
+  MAX_CHUNKS_PER_TX,
+  calculateQuantityFromCost,
+  calculateSellProceeds,
+  calculateTradeCost,
+  computeBuyCostFromSumChange,
+  computeSellProceedsFromSumChange,
+  maxSafeChunkQuantity,
+  safeExp,
+} from "./clmsr-math";
+import { applyRangeFactor, getRangeSum, totalSum, type SegmentTree } from "./lazy-mul-segment-tree";
+
+/** Market fields the quotes depend on; `core.markets(id)` results can be passed as-is. */
+export interface QuoteMarket {
+  minTick: bigint;
+  maxTick: bigint;
+  tickSpacing: bigint;
+  numBins: bigint;
+  liquidityParameter: bigint;
+}
+
+export type Tick = bigint | number;
+
+/**
+ * Overlay fee on a buy, as the market's fee policy quotes it for the trader
+ * (e.g. `(base) => (base * bps) / 10_000n` for a fixed-percent policy).
+ */
+export type BuyFeeQuote = (baseAmount: bigint, quantity: bigint) => bigint;
+
+export interface BudgetQuote {
+  /** Largest quantity affordable; 0 when the budget does not cover one unit */
+  quantity: bigint;
+  /** quoteOpenCost(quantity), 0 when quantity is 0 */
+  cost: bigint;
+  fee: bigint;
+}
+
+export interface TradeExecution {
+  /** Factors applied to [loBin, hiBin], one per chunk */
+  factors: bigint[];
+  sumBefore: bigint;
+  sumAfter: bigint;
+  /** Exact cost (buy) or proceeds (sell) in WAD, from the actual sum change */
+  amountWad: bigint;
+  /** 6-decimal amount charged (rounded up) or paid out (rounded down) before fees */
+  amount: bigint;
+}
+
+/** TickBinLib.ticksToBins: [lowerTick, upperTick) → inclusive [loBin, hiBin] */
+export function ticksToBins(market: QuoteMarket, lowerTick: Tick, upperTick: Tick): { loBin: number; hiBin: number } {
+  const lower = BigInt(lowerTick);
+  const upper = BigInt(upperTick);
+  const { minTick, maxTick, tickSpacing, numBins } = market;
+
+  if (lower >= upper) mathRevert("InvalidTickRange", lower, upper);
+  if (lower < minTick) mathRevert("InvalidTick", lower, minTick, maxTick);
+  if (upper > maxTick + tickSpacing) mathRevert("InvalidTick", upper, minTick, maxTick);
+  if ((lower - minTick) % tickSpacing !== 0n) mathRevert("InvalidTickSpacing", lower, tickSpacing);
+  if ((upper - minTick) % tickSpacing !== 0n) mathRevert("InvalidTickSpacing", upper, tickSpacing);
+
+  const loBin = (lower - minTick) / tickSpacing;
+  const hiBin = (upper - minTick) / tickSpacing - 1n;
+  if (loBin > hiBin) mathRevert("InvalidRangeBins", loBin, hiBin);
+  if (hiBin >= numBins) mathRevert("RangeBinsOutOfBounds", loBin, hiBin, numBins);
+  return { loBin: Number(loBin), hiBin: Number(hiBin) };
+}
+
+/** Base cost (6 decimals, before fees) of buying `quantity` over [lowerTick, upperTick) */
+export function quoteOpenCost(
+  market: QuoteMarket,
+  tree: SegmentTree,
+  lowerTick: Tick,
+  upperTick: Tick,
+  quantity: bigint
+): bigint {
+  if (quantity === 0n) mathRevert("InvalidQuantity", quantity);
+  const { loBin, hiBin } = ticksToBins(market, lowerTick, upperTick);
+  return fromWadRoundUp(calculateTradeCost(tree, market.liquidityParameter, loBin, hiBin, toWad(quantity)));
+}
+
+/**
+ * TradeModule.calculateQuantityFromBudget: the largest quantity whose cost plus fee fits in
+ * `budget` (6 decimals). Searches below the fee-free inverse, the MAX_CHUNKS_PER_TX limit and
+ * the range-sum overflow cap with the same bisection as the contract, so the result matches it exactly.
+ */
+export function quoteQuantityFromBudget(
+  market: QuoteMarket,
+  tree: SegmentTree,
+  lowerTick: Tick,
+  upperTick: Tick,
+  budget: bigint,
+  quoteFee: BuyFeeQuote = () => 0n
+): BudgetQuote {
+  if (budget === 0n) mathRevert("ZeroAmount");
+  const { loBin, hiBin } = ticksToBins(market, lowerTick, upperTick);
+  const alpha = market.liquidityParameter;
+
+  let hi = fromWad(maxSafeChunkQuantity(alpha) * MAX_CHUNKS_PER_TX);
+  // Forward quotes overflow once rangeSum * exp(q / alpha) exceeds uint256 (factors are WAD-scaled)
+  const affectedSum = getRangeSum(tree, loBin, hiBin);
+  if (affectedSum === 0n) mathRevert("AffectedSumZero");
+  const headroom = MAX_UINT256 / affectedSum;
+  const overflowCap = headroom > WAD ? fromWad(wMul(alpha, wLn(headroom))) : 0n;
+  if (overflowCap < hi) hi = overflowCap;
+  const budgetWad = toWad(budget);
+  if (wDiv(budgetWad, alpha) <= MAX_EXP_INPUT_WAD) {
+    const inverse = fromWad(calculateQuantityFromCost(tree, alpha, loBin, hiBin, budgetWad)) + 1n;
+    if (inverse < hi) hi = inverse;
+  }
+  const maxUint128 = (1n << 128n) - 1n;
+  if (hi > maxUint128) hi = maxUint128;
+
+  const result: BudgetQuote = { quantity: 0n, cost: 0n, fee: 0n };
+  let lo = 0n;
+  while (lo < hi) {
+    const mid = (lo + hi + 1n) / 2n;
+    const cost = fromWadRoundUp(calculateTradeCost(tree, alpha, loBin, hiBin, toWad(mid)));
+    const fee = quoteFee(cost, mid);
+    if (fee > cost) mathRevert("FeeExceedsBase", fee, cost);
+    if (cost + fee <= budget) {
+      lo = mid;
+      Object.assign(result, { cost, fee });
+    } else {
+      hi = mid - 1n;
+    }
+  }
+  result.quantity = lo;
+  return result;
+}
+
+/** Base proceeds (6 decimals, before fees) of selling `quantity` over [lowerTick, upperTick) */
+export function quoteDecreaseProceeds(
+  market: QuoteMarket,
+  tree: SegmentTree,
+  lowerTick: Tick,
+  upperTick: Tick,
+  quantity: bigint
+): bigint {
+  if (quantity === 0n) mathRevert("InvalidQuantity", quantity);
+  const { loBin, hiBin } = ticksToBins(market, lowerTick, upperTick);
+  return fromWad(calculateSellProceeds(tree, market.liquidityParameter, loBin, hiBin, toWad(quantity)));
+}
+
+/**
+ * Apply a trade to `tree` the way TradeModule executes it (chunked factors, then cost or
+ * proceeds from the actual sum change). Mutates the tree, partially if it throws;
+ * clone it first to preview.
+ */
+export function applyTrade(
+  market: QuoteMarket,
+  tree: SegmentTree,
+  lowerTick: Tick,
+  upperTick: Tick,
+  quantity: bigint,
+  isBuy: boolean
+): TradeExecution {
+  if (quantity === 0n) mathRevert("InvalidQuantity", quantity);
+  const { loBin, hiBin } = ticksToBins(market, lowerTick, upperTick);
+  const alpha = market.liquidityParameter;
+  const maxSafeQty = maxSafeChunkQuantity(alpha);
+  const sumBefore = totalSum(tree);
+  const factors: bigint[] = [];
+
+  let remaining = toWad(quantity);
+  while (remaining > 0n && factors.length < Number(MAX_CHUNKS_PER_TX)) {
+    const chunkQty = remaining > maxSafeQty ? maxSafeQty : remaining;
+    let factor = safeExp(chunkQty, alpha);
+    if (!isBuy) factor = wDivUp(WAD, factor);
+    applyRangeFactor(tree, loBin, hiBin, factor);
+    factors.push(factor);
+    remaining -= chunkQty;
+  }
+  if (remaining !== 0n) mathRevert("ResidualQuantity", remaining);
+
+  const sumAfter = totalSum(tree);
+  const amountWad = isBuy
+    ? computeBuyCostFromSumChange(alpha, sumBefore, sumAfter)
+    : computeSellProceedsFromSumChange(alpha, sumBefore, sumAfter);
+  return {
+    factors,
+    sumBefore,
+    sumAfter,
+    amountWad,
+    amount: isBuy ? fromWadRoundUp(amountWad) : fromWad(amountWad),
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Bit-exact TypeScript port of contracts/lib/FeeWaterfallLib.sol (whitepaper sections 4.3-4.6).
+ *
+ * Reverts surface as `MathRevertError` with the SignalsErrors name the library uses, so
+ * forecasts can tell a batch that would revert from one that settles.
+ */
+import { mathRevert } from "./math-error";
+import { WAD, wMul, wMulUp } from "./fixed-point-math";
+
+export interface FeeWaterfallParams {
+  Lt: bigint; // P&L (signed)
+  Ftot: bigint; // Total gross fees
+  Nprev: bigint; // Previous NAV
+  Bprev: bigint; // Previous Backstop NAV
+  Tprev: bigint; // Previous Treasury NAV
+  deltaEt: bigint; // Available backstop support
+  pdd: bigint; // Drawdown floor (negative, WAD)
+  rhoBS: bigint; // Backstop coverage ratio (WAD)
+  phiLP: bigint; // LP fee share (WAD)
+  phiBS: bigint; // Backstop fee share (WAD)
+  phiTR: bigint; // Treasury fee share (WAD)
+}
+
+export interface FeeWaterfallResult {
+  // Intermediate values
+  Floss: bigint;
+  Fpool: bigint;
+  Nraw: bigint;
+  Gt: bigint;
+  Ffill: bigint;
+  Fdust: bigint;
+
+  // Output values
+  Ft: bigint;
+  Npre: bigint;
+  Bnext: bigint;
+  Tnext: bigint;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+export function calculateFeeWaterfall(p: FeeWaterfallParams): FeeWaterfallResult {
+  // pdd must be in range (-WAD, 0)
+  if (p.pdd >= 0n || p.pdd < -WAD) mathRevert("InvalidDrawdownFloor", p.pdd);
+
+  const phiSum = p.phiLP + p.phiBS + p.phiTR;
+  if (phiSum !== WAD) mathRevert("InvalidPhiSum", phiSum);
+
+  // ========================================
+  // Step 1: Loss Compensation
+  // ========================================
+  const Lneg = p.Lt < 0n ? -p.Lt : 0n;
+  const Floss = min(p.Ftot, Lneg);
+  const Fpool = p.Ftot - Floss;
+
+  // Nraw = Nprev + Lt + Floss
+  let Nraw: bigint;
+  if (p.Lt >= 0n) {
+    Nraw = p.Nprev + p.Lt + Floss;
+  } else {
+    const loss = -p.Lt;
+    const navPlusFloss = p.Nprev + Floss;
+    if (navPlusFloss < loss) mathRevert("CatastrophicLoss", loss, navPlusFloss);
+    Nraw = navPlusFloss - loss;
+  }
+
+  // ========================================
+  // Step 2: Drawdown Floor & Grant
+  // ========================================
+  // G^need_t := max{0, ⌈G^min_t⌉}: Nfloor uses wMulUp so the grant is never under-estimated
+  let Nfloor = 0n;
+  if (p.Nprev > 0n) {
+    const wadPlusPdd = WAD + p.pdd;
+    Nfloor = wadPlusPdd > 0n ? wMulUp(p.Nprev, wadPlusPdd) : 0n;
+  }
+
+  const grantNeed = Nfloor > Nraw ? Nfloor - Nraw : 0n;
+  if (grantNeed > p.deltaEt) mathRevert("GrantExceedsTailBudget", grantNeed, p.deltaEt);
+
+  // Gt = grantNeed (no capping - either we can afford it or we revert)
+  const Gt = grantNeed;
+  if (Gt > p.Bprev) mathRevert("InsufficientBackstopForGrant", Gt, p.Bprev);
+
+  const Ngrant = Nraw + Gt;
+  const Bgrant = p.Bprev - Gt;
+
+  // ========================================
+  // Step 3: Backstop Coverage Target
+  // ========================================
+  const Btarget = wMul(Ngrant, p.rhoBS);
+  const dBneed = Btarget > Bgrant ? Btarget - Bgrant : 0n;
+  const Ffill = min(dBneed, Fpool);
+  const Fremain = Fpool - Ffill;
+
+  // ========================================
+  // Step 4: Residual Split
+  // ========================================
+  const FcoreLP = wMul(Fremain, p.phiLP);
+  const FcoreBS = wMul(Fremain, p.phiBS);
+  const FcoreTR = wMul(Fremain, p.phiTR);
+  const Fdust = Fremain - FcoreLP - FcoreBS - FcoreTR;
+
+  // ========================================
+  // Step 5: Final Output Values
+  // ========================================
+  return {
+    Floss,
+    Fpool,
+    Nraw,
+    Gt,
+    Ffill,
+    Fdust,
+    Ft: Floss + FcoreLP + Fdust,
+    // Dust goes to LP, so it is part of Npre as well as Ft
+    Npre: Ngrant + FcoreLP + Fdust,
+    Bnext: Bgrant + Ffill + FcoreBS,
+    Tnext: p.Tprev + FcoreTR,
+  };
+}
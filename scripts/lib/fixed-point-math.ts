@@ -0,0 +1,187 @@
+/**
+ * Bit-exact TypeScript port of contracts/lib/FixedPointMathU.sol (WAD = 1e18).
+ *
+ * exp/ln reproduce the PRBMath UD60x18 algorithms the library wraps (binary fraction exp2,
+ * iterative log2), so results match the contracts to the wei rather than approximately.
+ */
+import { mathRevert } from "./math-error";
+
+export const WAD = 10n ** 18n;
+export const HALF_WAD = 5n * 10n ** 17n;
+export const SCALE_DIFF = 10n ** 12n; // 6-dec → 18-dec
+export const HALF_SCALE = SCALE_DIFF / 2n;
+export const MAX_UINT256 = (1n << 256n) - 1n;
+
+/** PRBMath exp input upper bound: exp(133.084...) overflows UD60x18 */
+export const MAX_EXP_INPUT_WAD = 133_084258667509499440n;
+
+const PANIC_UNDER_OVERFLOW = 0x11n;
+const PANIC_DIVISION_BY_ZERO = 0x12n;
+
+const LOG2_E = 1_442695040888963407n;
+const EXP2_MAX_INPUT = 192n * WAD - 1n;
+
+// √(2^(2^-i)) in 64.64 fixed point for bits 63 → 0 of the fractional part (PRBMath Common.exp2)
+const EXP2_FACTORS = [
+  0x16a09e667f3bcc909n, 0x1306fe0a31b7152dfn, 0x1172b83c7d517adcen, 0x10b5586cf9890f62an,
+  0x1059b0d31585743aen, 0x102c9a3e778060ee7n, 0x10163da9fb33356d8n, 0x100b1afa5abcbed61n,
+  0x10058c86da1c09ea2n, 0x1002c605e2e8cec50n, 0x100162f3904051fa1n, 0x1000b175effdc76ban,
+  0x100058ba01fb9f96dn, 0x10002c5cc37da9492n, 0x1000162e525ee0547n, 0x10000b17255775c04n,
+  0x1000058b91b5bc9aen, 0x100002c5c89d5ec6dn, 0x10000162e43f4f831n, 0x100000b1721bcfc9an,
+  0x10000058b90cf1e6en, 0x1000002c5c863b73fn, 0x100000162e430e5a2n, 0x1000000b172183551n,
+  0x100000058b90c0b49n, 0x10000002c5c8601ccn, 0x1000000162e42fff0n, 0x10000000b17217fbbn,
+  0x1000000058b90bfcen, 0x100000002c5c85fe3n, 0x10000000162e42ff1n, 0x100000000b17217f8n,
+  0x10000000058b90bfcn, 0x1000000002c5c85fen, 0x100000000162e42ffn, 0x1000000000b17217fn,
+  0x100000000058b90c0n, 0x10000000002c5c860n, 0x1000000000162e430n, 0x10000000000b17218n,
+  0x1000000000058b90cn, 0x100000000002c5c86n, 0x10000000000162e43n, 0x100000000000b1721n,
+  0x10000000000058b91n, 0x1000000000002c5c8n, 0x100000000000162e4n, 0x1000000000000b172n,
+  0x100000000000058b9n, 0x10000000000002c5dn, 0x1000000000000162en, 0x10000000000000b17n,
+  0x1000000000000058cn, 0x100000000000002c6n, 0x10000000000000163n, 0x100000000000000b1n,
+  0x10000000000000059n, 0x1000000000000002cn, 0x10000000000000016n, 0x1000000000000000bn,
+  0x10000000000000006n, 0x10000000000000003n, 0x10000000000000001n, 0x10000000000000001n,
+];
+
+// ============================================================
+// uint256 helpers
+// ============================================================
+
+/** Checked uint256 addition (Solidity 0.8 default arithmetic) */
+export function add(x: bigint, y: bigint): bigint {
+  const result = x + y;
+  if (result > MAX_UINT256) mathRevert("Panic", PANIC_UNDER_OVERFLOW);
+  return result;
+}
+
+/** Checked uint256 subtraction (Solidity 0.8 default arithmetic) */
+export function sub(x: bigint, y: bigint): bigint {
+  if (y > x) mathRevert("Panic", PANIC_UNDER_OVERFLOW);
+  return x - y;
+}
+
+/** Checked uint256 division (reverts on zero denominator) */
+export function div(x: bigint, y: bigint): bigint {
+  if (y === 0n) mathRevert("Panic", PANIC_DIVISION_BY_ZERO);
+  return x / y;
+}
+
+/** OpenZeppelin Math.mulDiv: floor(x * y / denominator) with a full-precision intermediate */
+export function mulDiv(x: bigint, y: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) mathRevert("Panic", PANIC_DIVISION_BY_ZERO);
+  const result = (x * y) / denominator;
+  if (result > MAX_UINT256) mathRevert("Panic", PANIC_UNDER_OVERFLOW);
+  return result;
+}
+
+// ============================================================
+// Decimal Conversion (6-dec ↔ 18-dec)
+// ============================================================
+
+export function toWad(x: bigint): bigint {
+  if (x > MAX_UINT256 / SCALE_DIFF) mathRevert("FP_Overflow");
+  return x * SCALE_DIFF;
+}
+
+/** 18-decimal → 6-decimal (floor) */
+export function fromWad(x: bigint): bigint {
+  return x / SCALE_DIFF;
+}
+
+/** 18-decimal → 6-decimal (ceil); non-zero WAD never rounds to a zero debit */
+export function fromWadRoundUp(x: bigint): bigint {
+  if (x === 0n) return 0n;
+  return (x - 1n) / SCALE_DIFF + 1n;
+}
+
+/** 18-decimal → 6-decimal nearest (ties up) */
+export function fromWadNearest(x: bigint): bigint {
+  return x / SCALE_DIFF + (x % SCALE_DIFF >= HALF_SCALE ? 1n : 0n);
+}
+
+export function fromWadNearestMin1(x: bigint): bigint {
+  if (x === 0n) return 0n;
+  const res = fromWadNearest(x);
+  return res === 0n ? 1n : res;
+}
+
+// ============================================================
+// WAD Multiplication / Division
+// ============================================================
+
+export function wMul(x: bigint, y: bigint): bigint {
+  return mulDiv(x, y, WAD);
+}
+
+export function wMulUp(x: bigint, y: bigint): bigint {
+  return mulDiv(x, y, WAD) + ((x * y) % WAD > 0n ? 1n : 0n);
+}
+
+export function wMulNearest(x: bigint, y: bigint): bigint {
+  return mulDiv(x, y, WAD) + ((x * y) % WAD >= HALF_WAD ? 1n : 0n);
+}
+
+export function wDiv(x: bigint, y: bigint): bigint {
+  if (y === 0n) mathRevert("FP_DivisionByZero");
+  return mulDiv(x, WAD, y);
+}
+
+export function wDivUp(x: bigint, y: bigint): bigint {
+  if (y === 0n) mathRevert("FP_DivisionByZero");
+  return mulDiv(x, WAD, y) + ((x * WAD) % y > 0n ? 1n : 0n);
+}
+
+export function wDivNearest(x: bigint, y: bigint): bigint {
+  if (y === 0n) mathRevert("FP_DivisionByZero");
+  return mulDiv(x, WAD, y) + ((x * WAD) % y >= (y >> 1n) + (y & 1n) ? 1n : 0n);
+}
+
+// ============================================================
+// Exponential & Logarithm (PRBMath UD60x18)
+// ============================================================
+
+function exp2(x: bigint): bigint {
+  if (x > EXP2_MAX_INPUT) mathRevert("PRBMath_UD60x18_Exp2_InputTooBig", x);
+  // 192.64-bit fixed point, starting from 0.5
+  const x192x64 = (x << 64n) / WAD;
+  let result = 1n << 191n;
+  for (let bit = 63; bit >= 0; bit--) {
+    if ((x192x64 >> BigInt(bit)) & 1n) {
+      result = (result * EXP2_FACTORS[63 - bit]) >> 64n;
+    }
+  }
+  return (result * WAD) >> (191n - (x192x64 >> 64n));
+}
+
+function log2(x: bigint): bigint {
+  if (x < WAD) mathRevert("PRBMath_UD60x18_Log_InputTooSmall", x);
+  const n = BigInt((x / WAD).toString(2).length - 1);
+  let result = n * WAD;
+  let y = x >> n;
+  if (y === WAD) return result;
+  for (let delta = HALF_WAD; delta > 0n; delta >>= 1n) {
+    y = (y * y) / WAD;
+    if (y >= 2n * WAD) {
+      result += delta;
+      y >>= 1n;
+    }
+  }
+  return result;
+}
+
+export function wExp(xWad: bigint): bigint {
+  if (xWad === 0n) return WAD;
+  if (xWad > MAX_EXP_INPUT_WAD) mathRevert("FP_Overflow");
+  return exp2((xWad * LOG2_E) / WAD);
+}
+
+/** ln(x) for x ≥ WAD */
+export function wLn(xWad: bigint): bigint {
+  if (xWad < WAD) mathRevert("FP_InvalidInput");
+  if (xWad === WAD) return 0n;
+  return (log2(xWad) * WAD) / LOG2_E;
+}
+
+/** ln(n) in WAD rounded up by 1 wei (conservative α bound) */
+export function lnWadUp(n: bigint): bigint {
+  if (n <= 1n) return 0n;
+  return (log2(n * WAD) * WAD) / LOG2_E + 1n;
+}
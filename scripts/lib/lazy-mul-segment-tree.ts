@@ -0,0 +1,276 @@
+/**
+ * Bit-exact TypeScript port of contracts/lib/LazyMulSegmentTree.sol.
+ *
+ * Mirrors the dense 1-based layout, the lazy ONE_WAD sentinel, the flush thresholds and
+ * child rebalancing, so a tree seeded and mutated with the same inputs holds exactly the
+ * node values the contract stores.
+ */
+import { mathRevert } from "./math-error";
+import { add, wMulNearest } from "./fixed-point-math";
+
+export const ONE_WAD = 10n ** 18n;
+export const MIN_FACTOR = 10n ** 16n; // 0.01e18
+export const MAX_FACTOR = 100n * ONE_WAD;
+export const FLUSH_THRESHOLD = 10n ** 21n;
+export const UNDERFLOW_FLUSH_THRESHOLD = 10n ** 15n;
+
+const MAX_BINS = 512;
+const ROOT = 1;
+const MAX_UINT192 = (1n << 192n) - 1n;
+
+export interface SegmentTree {
+  /** Node sums (1-based) */
+  sum: bigint[];
+  /** Pending factors (1-based, 0 = ONE_WAD sentinel) */
+  lazy: bigint[];
+  /** Number of leaves (bins) */
+  size: number;
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+export function initTree(treeSize: number): SegmentTree {
+  if (treeSize === 0) mathRevert("TreeSizeZero");
+  if (treeSize > MAX_BINS) mathRevert("TreeSizeTooLarge");
+  const length = 4 * treeSize + 5;
+  return { sum: new Array<bigint>(length).fill(0n), lazy: new Array<bigint>(length).fill(0n), size: treeSize };
+}
+
+export function seedWithFactors(tree: SegmentTree, factors: readonly bigint[]): void {
+  requireInitialized(tree);
+  if (factors.length !== tree.size) mathRevert("ArrayLengthMismatch");
+  buildFromArray(tree, ROOT, 0, tree.size - 1, factors);
+}
+
+/** init + seedWithFactors, as done by market creation */
+export function createTree(factors: readonly bigint[]): SegmentTree {
+  const tree = initTree(factors.length);
+  seedWithFactors(tree, factors);
+  return tree;
+}
+
+export function cloneTree(tree: SegmentTree): SegmentTree {
+  return { sum: [...tree.sum], lazy: [...tree.lazy], size: tree.size };
+}
+
+/** Apply multiplicative factor to range [lo, hi] */
+export function applyRangeFactor(tree: SegmentTree, lo: number, hi: number, factor: bigint): void {
+  requireRange(tree, lo, hi);
+  if (factor < MIN_FACTOR || factor > MAX_FACTOR) mathRevert("InvalidFactor", factor);
+  applyFactorRecursive(tree, ROOT, 0, tree.size - 1, lo, hi, factor);
+}
+
+/** Sum of range [lo, hi] (no state change) */
+export function getRangeSum(tree: SegmentTree, lo: number, hi: number): bigint {
+  requireRange(tree, lo, hi);
+  return sumRangeWithAccFactor(tree, ROOT, 0, tree.size - 1, lo, hi, ONE_WAD);
+}
+
+/** Push lazy values along [lo, hi] and return the range sum (state-changing) */
+export function propagateLazy(tree: SegmentTree, lo: number, hi: number): bigint {
+  requireRange(tree, lo, hi);
+  return queryRecursive(tree, ROOT, 0, tree.size - 1, lo, hi);
+}
+
+/** Total sum of all leaves (Z value for CLMSR) */
+export function totalSum(tree: SegmentTree): bigint {
+  requireInitialized(tree);
+  return tree.sum[ROOT];
+}
+
+// ============================================================
+// Internal Helpers
+// ============================================================
+
+function requireInitialized(tree: SegmentTree) {
+  if (tree.size === 0) mathRevert("TreeNotInitialized");
+}
+
+function requireRange(tree: SegmentTree, lo: number, hi: number) {
+  requireInitialized(tree);
+  if (lo > hi) mathRevert("InvalidRange", BigInt(lo), BigInt(hi));
+  if (hi >= tree.size) mathRevert("IndexOutOfBounds", BigInt(hi), BigInt(tree.size));
+}
+
+function lazyVal(tree: SegmentTree, i: number): bigint {
+  const v = tree.lazy[i];
+  return v === 0n ? ONE_WAD : v;
+}
+
+function storeLazy(tree: SegmentTree, i: number, val: bigint) {
+  tree.lazy[i] = val === ONE_WAD ? 0n : val;
+}
+
+function mulWithCompensation(value: bigint, factor: bigint): bigint {
+  if (value === 0n || factor === ONE_WAD) return value;
+  return wMulNearest(value, factor);
+}
+
+function combineFactors(lhs: bigint, rhs: bigint): bigint {
+  if (rhs === ONE_WAD) return lhs;
+  if (lhs === ONE_WAD) return rhs;
+  return wMulNearest(lhs, rhs);
+}
+
+function rebalanceChildren(tree: SegmentTree, left: number, right: number, target: bigint) {
+  const combined = add(tree.sum[left], tree.sum[right]);
+  if (combined === target) return;
+
+  if (combined < target) {
+    tree.sum[right] = add(tree.sum[right], target - combined);
+    return;
+  }
+
+  const surplus = combined - target;
+  const rightSum = tree.sum[right];
+  if (surplus <= rightSum) {
+    tree.sum[right] = rightSum - surplus;
+    return;
+  }
+
+  const remaining = surplus - rightSum;
+  tree.sum[right] = 0n;
+  const leftSum = tree.sum[left];
+  if (remaining > leftSum) mathRevert("MathMulOverflow");
+  tree.sum[left] = leftSum - remaining;
+}
+
+/**
+ * Complete-cover update shared by the apply path and the push path:
+ * flush the node first if combining would leave the pending factor out of range
+ * (or collapse it to exactly ONE), then accumulate or push immediately.
+ */
+function applyFactorToCoveredNode(tree: SegmentTree, i: number, l: number, r: number, factor: bigint) {
+  // Leaf node: NEVER store lazy, just update sum
+  if (l === r) {
+    tree.sum[i] = mulWithCompensation(tree.sum[i], factor);
+    return;
+  }
+
+  let priorPending = lazyVal(tree, i);
+  const combinedPending = combineFactors(priorPending, factor);
+  if (
+    priorPending !== ONE_WAD &&
+    (combinedPending < UNDERFLOW_FLUSH_THRESHOLD || combinedPending > FLUSH_THRESHOLD || combinedPending === ONE_WAD)
+  ) {
+    pushPendingFactor(tree, i, l, r);
+    priorPending = ONE_WAD;
+  }
+
+  tree.sum[i] = mulWithCompensation(tree.sum[i], factor);
+  const newPending = combineFactors(priorPending, factor);
+
+  if (newPending < UNDERFLOW_FLUSH_THRESHOLD || newPending > FLUSH_THRESHOLD) {
+    storeLazy(tree, i, factor);
+    pushPendingFactor(tree, i, l, r);
+  } else {
+    if (newPending > MAX_UINT192) mathRevert("LazyFactorOverflow");
+    storeLazy(tree, i, newPending);
+  }
+}
+
+function pushPendingFactor(tree: SegmentTree, i: number, l: number, r: number) {
+  const pending = lazyVal(tree, i);
+  if (pending === ONE_WAD) return;
+
+  if (l === r) {
+    storeLazy(tree, i, ONE_WAD);
+    return;
+  }
+
+  const leftChild = i << 1;
+  const rightChild = (i << 1) | 1;
+  const mid = l + Math.floor((r - l) / 2);
+
+  applyFactorToCoveredNode(tree, leftChild, l, mid, pending);
+  applyFactorToCoveredNode(tree, rightChild, mid + 1, r, pending);
+  rebalanceChildren(tree, leftChild, rightChild, tree.sum[i]);
+
+  storeLazy(tree, i, ONE_WAD);
+}
+
+function applyFactorRecursive(
+  tree: SegmentTree,
+  i: number,
+  l: number,
+  r: number,
+  lo: number,
+  hi: number,
+  factor: bigint
+) {
+  if (r < lo || l > hi) return;
+
+  if (l >= lo && r <= hi) {
+    applyFactorToCoveredNode(tree, i, l, r, factor);
+    return;
+  }
+
+  // Partial overlap: push and recurse
+  pushPendingFactor(tree, i, l, r);
+
+  const mid = l + Math.floor((r - l) / 2);
+  const leftChild = i << 1;
+  const rightChild = (i << 1) | 1;
+
+  if (lo <= mid) applyFactorRecursive(tree, leftChild, l, mid, lo, hi, factor);
+  if (hi > mid) applyFactorRecursive(tree, rightChild, mid + 1, r, lo, hi, factor);
+
+  tree.sum[i] = add(tree.sum[leftChild], tree.sum[rightChild]);
+}
+
+function sumRangeWithAccFactor(
+  tree: SegmentTree,
+  i: number,
+  l: number,
+  r: number,
+  lo: number,
+  hi: number,
+  accFactor: bigint
+): bigint {
+  if (r < lo || l > hi) return 0n;
+
+  if (l >= lo && r <= hi) {
+    return mulWithCompensation(tree.sum[i], accFactor);
+  }
+
+  const newAccFactor = combineFactors(accFactor, lazyVal(tree, i));
+  const mid = l + Math.floor((r - l) / 2);
+
+  const leftSum = sumRangeWithAccFactor(tree, i << 1, l, mid, lo, hi, newAccFactor);
+  const rightSum = sumRangeWithAccFactor(tree, (i << 1) | 1, mid + 1, r, lo, hi, newAccFactor);
+  return add(leftSum, rightSum);
+}
+
+function queryRecursive(tree: SegmentTree, i: number, l: number, r: number, lo: number, hi: number): bigint {
+  if (r < lo || l > hi) return 0n;
+
+  if (l >= lo && r <= hi) {
+    return tree.sum[i];
+  }
+
+  pushPendingFactor(tree, i, l, r);
+  const mid = l + Math.floor((r - l) / 2);
+
+  const leftSum = queryRecursive(tree, i << 1, l, mid, lo, hi);
+  const rightSum = queryRecursive(tree, (i << 1) | 1, mid + 1, r, lo, hi);
+  return add(leftSum, rightSum);
+}
+
+function buildFromArray(tree: SegmentTree, i: number, l: number, r: number, factors: readonly bigint[]): bigint {
+  tree.lazy[i] = 0n;
+
+  if (l === r) {
+    tree.sum[i] = factors[l];
+    return factors[l];
+  }
+
+  const mid = l + Math.floor((r - l) / 2);
+  const total = add(
+    buildFromArray(tree, i << 1, l, mid, factors),
+    buildFromArray(tree, (i << 1) | 1, mid + 1, r, factors)
+  );
+  tree.sum[i] = total;
+  return total;
+}
@@ -0,0 +1,20 @@
+/**
+ * Off-chain counterpart of a Solidity revert raised by the math libraries.
+ * `errorName` matches the SignalsErrors (or Panic) name the contracts revert with,
+ * so callers can branch on it the same way they would on a decoded eth_call revert.
+ */
+export class MathRevertError extends Error {
+  readonly errorName: string;
+  readonly args: readonly bigint[];
+
+  constructor(errorName: string, ...args: bigint[]) {
+    super(`${errorName}(${args.map((arg) => arg.toString()).join(", ")})`);
+    this.name = "MathRevertError";
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+export function mathRevert(errorName: string, ...args: bigint[]): never {
+  throw new MathRevertError(errorName, ...args);
+}
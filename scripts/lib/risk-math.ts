@@ -0,0 +1,49 @@
+/**
+ * Bit-exact TypeScript port of contracts/lib/RiskMath.sol: tail budget ΔEₜ from a prior and
+ * the αbase/αlimit sizing the createMarket risk gate enforces.
+ */
+import { mathRevert } from "./math-error";
+import { MAX_UINT256, WAD, lnWadUp, wDiv, wDivUp, wLn, wMul, wMulUp } from "./fixed-point-math";
+
+/** ΔEₜ = α · ln(rootSum / (n · minFactor)), rounded up; 0 for a uniform prior */
+export function calculateDeltaEt(alpha: bigint, numBins: bigint | number, rootSum: bigint, minFactor: bigint): bigint {
+  const uniformSum = BigInt(numBins) * minFactor;
+  if (rootSum <= uniformSum) return 0n;
+  const lnRatio = wLn(wDivUp(rootSum, uniformSum)) + 1n;
+  return wMulUp(alpha, lnRatio);
+}
+
+/** ΔEₜ straight from the base factors a market is created with */
+export function calculateDeltaEtFromFactors(alpha: bigint, numBins: bigint | number, baseFactors: readonly bigint[]): bigint {
+  if (baseFactors.length !== Number(numBins) || baseFactors.length === 0) return 0n;
+  let minFactor = MAX_UINT256;
+  let rootSum = 0n;
+  for (const factor of baseFactors) {
+    if (factor === 0n) return 0n;
+    if (factor < minFactor) minFactor = factor;
+    rootSum += factor;
+  }
+  return calculateDeltaEt(alpha, numBins, rootSum, minFactor);
+}
+
+/** αbase = λ · E_t / ln(n), with ln(n) rounded up */
+export function calculateAlphaBase(Et: bigint, numBins: bigint | number, lambda: bigint): bigint {
+  const n = BigInt(numBins);
+  if (n <= 1n) mathRevert("InvalidNumBins", n);
+  const lnN = lnWadUp(n);
+  if (lnN === 0n) return MAX_UINT256;
+  return wDiv(wMul(lambda, Et), lnN);
+}
+
+/** αlimit = max{0, αbase · (1 - k · DD)} */
+export function calculateAlphaLimit(alphaBase: bigint, drawdown: bigint, k: bigint): bigint {
+  const kDD = wMul(k, drawdown);
+  if (kDD >= WAD) return 0n;
+  return wMul(alphaBase, WAD - kDD);
+}
+
+/** DD = 1 - P / P_peak as the risk gate computes it (can differ from VaultAccountingLib by 1 wei) */
+export function calculateDrawdown(price: bigint, pricePeak: bigint): bigint {
+  if (pricePeak === 0n || price >= pricePeak) return 0n;
+  return WAD - wDiv(price, pricePeak);
+}
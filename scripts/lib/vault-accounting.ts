@@ -0,0 +1,290 @@
+/**
+ * Bit-exact TypeScript port of contracts/lib/VaultAccountingLib.sol, plus `processBatch`,
+ * which replays LPVaultModule.processDailyBatch step by step (fee waterfall, pre-batch price,
+ * withdrawals, then deposits, then peak/drawdown) so LP outcomes can be forecast off-chain.
+ */
+import { mathRevert } from "./math-error";
+import { WAD, fromWad, wDiv, wMul } from "./fixed-point-math";
+import { calculateFeeWaterfall, type FeeWaterfallResult } from "./fee-waterfall";
+
+/** LPVaultModule.MIN_DEAD_SHARES */
+export const MIN_DEAD_SHARES = 1000n;
+
+export interface PreBatchInputs {
+  navPrev: bigint;
+  sharesPrev: bigint;
+  pnl: bigint;
+  fees: bigint;
+  grant: bigint;
+}
+
+export interface PreBatchResult {
+  navPre: bigint;
+  batchPrice: bigint;
+}
+
+export interface PostBatchState {
+  nav: bigint;
+  shares: bigint;
+  price: bigint;
+  pricePeak: bigint;
+  drawdown: bigint;
+}
+
+/** Vault and capital stack storage that processDailyBatch reads and rewrites */
+export interface VaultBatchState {
+  nav: bigint;
+  shares: bigint;
+  price: bigint;
+  pricePeak: bigint;
+  backstopNav: bigint;
+  treasuryNav: bigint;
+}
+
+/** `getPendingBatchTotals(batchId)`: deposits in WAD assets, withdraws in WAD shares */
+export interface PendingBatchTotals {
+  deposits: bigint;
+  withdraws: bigint;
+}
+
+/** Snapshot inputs recorded at settlement before the batch runs */
+export interface BatchPnlInput {
+  Lt: bigint;
+  Ftot: bigint;
+  DeltaEtSum: bigint;
+}
+
+/** processEmptyBatch runs the same pipeline over an all-zero snapshot */
+export const EMPTY_BATCH_PNL: BatchPnlInput = { Lt: 0n, Ftot: 0n, DeltaEtSum: 0n };
+
+/** `getFeeWaterfallConfig()` result */
+export interface FeeWaterfallConfig {
+  pdd: bigint;
+  rhoBS: bigint;
+  phiLP: bigint;
+  phiBS: bigint;
+  phiTR: bigint;
+}
+
+/** DailyPnlSnapshot fields as processDailyBatch leaves them */
+export interface DailyPnlSnapshot extends BatchPnlInput {
+  Floss: bigint;
+  Fpool: bigint;
+  Nraw: bigint;
+  Gt: bigint;
+  Ffill: bigint;
+  Fdust: bigint;
+  Ft: bigint;
+  Npre: bigint;
+  Pe: bigint;
+  processed: boolean;
+}
+
+export interface BatchAggregation {
+  totalDepositAssets: bigint;
+  totalWithdrawShares: bigint;
+  batchPrice: bigint;
+  processed: boolean;
+}
+
+export interface BatchOutcome {
+  state: VaultBatchState;
+  drawdown: bigint;
+  snapshot: DailyPnlSnapshot;
+  aggregation: BatchAggregation;
+  waterfall: FeeWaterfallResult;
+  /** Assets owed to withdrawers (WAD) */
+  withdrawAssets: bigint;
+  mintedShares: bigint;
+  /** Deposit rounding residual left in pending deposits for claims to release (WAD) */
+  depositRefund: bigint;
+  /** Added to the 6-decimal withdrawal reserve */
+  reservedWithdrawals6: bigint;
+  /** Released from the 6-decimal pending deposit balance */
+  releasedDeposits6: bigint;
+}
+
+// ============================================================
+// Pre-batch Calculation
+// ============================================================
+
+function applyPnl(navPrev: bigint, pi: bigint): bigint {
+  if (pi >= 0n) return navPrev + pi;
+  const loss = -pi;
+  if (loss > navPrev) mathRevert("NAVUnderflow", navPrev, loss);
+  return navPrev - loss;
+}
+
+/** Npre from the waterfall, checked against Nprev + Lt + Ft + Gt; Pe = Npre / S_{t-1} */
+export function applyPreBatchFromWaterfall(
+  navPrev: bigint,
+  sharesPrev: bigint,
+  lt: bigint,
+  wf: FeeWaterfallResult
+): PreBatchResult {
+  if (sharesPrev === 0n) mathRevert("ZeroSharesNotAllowed");
+  const expected = applyPnl(navPrev, lt + wf.Ft + wf.Gt);
+  if (wf.Npre !== expected) mathRevert("PreBatchNavMismatch", expected, wf.Npre);
+  return { navPre: wf.Npre, batchPrice: wDiv(wf.Npre, sharesPrev) };
+}
+
+export function computePreBatch(inputs: PreBatchInputs): PreBatchResult {
+  const navPre = applyPnl(inputs.navPrev, inputs.pnl + inputs.fees + inputs.grant);
+  if (inputs.sharesPrev === 0n) mathRevert("ZeroSharesNotAllowed");
+  return { navPre, batchPrice: wDiv(navPre, inputs.sharesPrev) };
+}
+
+/** Seeding: price is always 1.0 */
+export function computePreBatchForSeed(navPrev: bigint, pnl: bigint, fees: bigint, grant: bigint): PreBatchResult {
+  return { navPre: applyPnl(navPrev, pnl + fees + grant), batchPrice: WAD };
+}
+
+// ============================================================
+// Deposit / Withdraw
+// ============================================================
+
+/** S_mint = floor(A / P), A_used = S_mint · P; the residual is refunded */
+export function applyDeposit(nav: bigint, shares: bigint, price: bigint, depositAmount: bigint) {
+  if (price === 0n) mathRevert("ZeroPriceNotAllowed");
+  const mintedShares = wDiv(depositAmount, price);
+  const amountUsed = wMul(mintedShares, price);
+  return {
+    newNav: nav + amountUsed,
+    newShares: shares + mintedShares,
+    mintedShares,
+    refundAmount: depositAmount - amountUsed,
+  };
+}
+
+/** (N'', S'') = (N - x·P, S - x), payout rounded down */
+export function applyWithdraw(nav: bigint, shares: bigint, price: bigint, withdrawShares: bigint) {
+  if (withdrawShares > shares) mathRevert("InsufficientShares", withdrawShares, shares);
+  const withdrawAmount = wMul(withdrawShares, price);
+  if (withdrawAmount > nav) mathRevert("InsufficientNAV", withdrawAmount, nav);
+  return { newNav: nav - withdrawAmount, newShares: shares - withdrawShares, withdrawAmount };
+}
+
+// ============================================================
+// Peak & Drawdown
+// ============================================================
+
+export function updatePeak(currentPeak: bigint, newPrice: bigint): bigint {
+  return newPrice > currentPeak ? newPrice : currentPeak;
+}
+
+/** DD = 1 - P / P_peak, 0 when there is no peak or the price is at or above it */
+export function computeDrawdown(price: bigint, peak: bigint): bigint {
+  if (peak === 0n || price >= peak) return 0n;
+  return wDiv(peak - price, peak);
+}
+
+export function computePrice(nav: bigint, shares: bigint): bigint {
+  return shares === 0n ? WAD : wDiv(nav, shares);
+}
+
+/** Empty vault keeps the previous peak, prices at 1.0 and reports no drawdown */
+export function computePostBatchState(nav: bigint, shares: bigint, previousPeak: bigint): PostBatchState {
+  if (shares === 0n) return { nav, shares, price: WAD, pricePeak: previousPeak, drawdown: 0n };
+  const price = computePrice(nav, shares);
+  const pricePeak = updatePeak(previousPeak, price);
+  return { nav, shares, price, pricePeak, drawdown: computeDrawdown(price, pricePeak) };
+}
+
+// ============================================================
+// Daily Batch Pipeline
+// ============================================================
+
+/**
+ * Replay processDailyBatch for one batch. Readiness checks (seeded vault, batch order,
+ * batch end time, resolved markets) depend on chain state and are left to the caller;
+ * every math revert the module can raise is reproduced as a `MathRevertError`.
+ */
+export function processBatch(
+  state: VaultBatchState,
+  pendingTotals: PendingBatchTotals,
+  snapshot: BatchPnlInput,
+  config: FeeWaterfallConfig
+): BatchOutcome {
+  const wf = calculateFeeWaterfall({
+    Lt: snapshot.Lt,
+    Ftot: snapshot.Ftot,
+    Nprev: state.nav,
+    Bprev: state.backstopNav,
+    Tprev: state.treasuryNav,
+    deltaEt: snapshot.DeltaEtSum,
+    pdd: config.pdd,
+    rhoBS: config.rhoBS,
+    phiLP: config.phiLP,
+    phiBS: config.phiBS,
+    phiTR: config.phiTR,
+  });
+
+  const { navPre, batchPrice } = applyPreBatchFromWaterfall(state.nav, state.shares, snapshot.Lt, wf);
+
+  // Withdrawals first, then deposits, both at the batch price
+  let nav = navPre;
+  let shares = state.shares;
+  let withdrawAssets = 0n;
+  let reservedWithdrawals6 = 0n;
+  if (pendingTotals.withdraws > 0n) {
+    const withdrawal = applyWithdraw(nav, shares, batchPrice, pendingTotals.withdraws);
+    nav = withdrawal.newNav;
+    shares = withdrawal.newShares;
+    withdrawAssets = withdrawal.withdrawAmount;
+    if (shares < MIN_DEAD_SHARES) mathRevert("WithdrawalWouldBrickVault", shares, MIN_DEAD_SHARES);
+    reservedWithdrawals6 = fromWad(withdrawAssets);
+  }
+
+  let mintedShares = 0n;
+  let depositRefund = 0n;
+  let releasedDeposits6 = 0n;
+  if (pendingTotals.deposits > 0n) {
+    const deposit = applyDeposit(nav, shares, batchPrice, pendingTotals.deposits);
+    nav = deposit.newNav;
+    shares = deposit.newShares;
+    mintedShares = deposit.mintedShares;
+    depositRefund = deposit.refundAmount;
+    releasedDeposits6 = fromWad(pendingTotals.deposits - depositRefund);
+  }
+
+  const post = computePostBatchState(nav, shares, state.pricePeak);
+
+  return {
+    state: {
+      nav: post.nav,
+      shares: post.shares,
+      price: post.price,
+      pricePeak: post.pricePeak,
+      backstopNav: wf.Bnext,
+      treasuryNav: wf.Tnext,
+    },
+    drawdown: post.drawdown,
+    snapshot: {
+      Lt: snapshot.Lt,
+      Ftot: snapshot.Ftot,
+      DeltaEtSum: snapshot.DeltaEtSum,
+      Floss: wf.Floss,
+      Fpool: wf.Fpool,
+      Nraw: wf.Nraw,
+      Gt: wf.Gt,
+      Ffill: wf.Ffill,
+      Fdust: wf.Fdust,
+      Ft: wf.Ft,
+      Npre: navPre,
+      Pe: batchPrice,
+      processed: true,
+    },
+    aggregation: {
+      totalDepositAssets: pendingTotals.deposits,
+      totalWithdrawShares: pendingTotals.withdraws,
+      batchPrice,
+      processed: true,
+    },
+    waterfall: wf,
+    withdrawAssets,
+    mintedShares,
+    depositRefund,
+    reservedWithdrawals6,
+    releasedDeposits6,
+  };
+}
@@ -1,6 +1,14 @@
 import hre from "hardhat";
-import { loadEnvironment, normalizeEnvironment } from "../utils/environment";
+import { loadEnvironment, recordDeployment, recordMarket } from "../utils/environment";
 import type { Environment } from "../types/environment";
+import { formatRevert } from "../utils/revert";
+import {
+  buildSettlementEvidence,
+  deriveSecondarySettlement,
+  writeSettlementEvidence,
+  type SettlementDerivation,
+} from "./settlement-evidence";
+import type { SignalsCore } from "../../typechain-types";
 
 type SettlementMode = "secondary" | "primary";
 type TimingMode = "auto" | "manual" | "skip";
@@ -11,6 +19,7 @@ interface CloseMarketConfig {
   settlement: {
     valueUsd: string;
     tick: string;
+    evidence: string;
   };
   timing: {
     mode: TimingMode;
@@ -41,9 +50,10 @@ const CONFIG: CloseMarketConfig = {
   settlement: {
     valueUsd: "85000", // 6 decimals, used when settlement.tick is empty
     tick: "", // if set, overrides valueUsd (settlementValue = tick * 1e6)
+    evidence: "", // evidence rule file; if set, derives the value and overrides tick/valueUsd
   },
   timing: {
-    mode: "auto", // "auto" | "manual" | "skip"
+    mode: "skip", // "auto" | "manual" | "skip"; auto/manual rewrite the market timing (localhost only)
     auto: {
       daysBack: 2, // move settlement into a past batch so processDailyBatch can run
       durationSec: 3600,
@@ -72,6 +82,38 @@ function usd6(value: string): bigint {
   return hre.ethers.parseUnits(value, USD_DECIMALS);
 }
 
+// Env overrides so the dispatcher action can close any market without editing CONFIG
+function applyEnvOverrides(env: Environment) {
+  if (process.env.MARKET_ID) CONFIG.marketId = Number(process.env.MARKET_ID);
+  const timingMode = process.env.TIMING_MODE;
+  if (timingMode) {
+    if (timingMode !== "auto" && timingMode !== "manual" && timingMode !== "skip") {
+      throw new Error(`TIMING_MODE must be "auto", "manual" or "skip" (got ${timingMode})`);
+    }
+    CONFIG.timing.mode = timingMode;
+  }
+  // updateMarketTiming moves a live market's settlement; only test markets may be rewound
+  if (CONFIG.timing.mode !== "skip" && env !== "localhost") {
+    throw new Error(`TIMING_MODE=${CONFIG.timing.mode} is only allowed on localhost (env=${env})`);
+  }
+  const mode = process.env.SETTLEMENT_MODE;
+  if (mode) {
+    if (mode !== "primary" && mode !== "secondary") {
+      throw new Error(`SETTLEMENT_MODE must be "primary" or "secondary" (got ${mode})`);
+    }
+    CONFIG.mode = mode;
+  }
+  if (process.env.SETTLEMENT_TICK) CONFIG.settlement.tick = process.env.SETTLEMENT_TICK;
+  if (process.env.SETTLEMENT_VALUE_USD) CONFIG.settlement.valueUsd = process.env.SETTLEMENT_VALUE_USD;
+  if (process.env.SETTLEMENT_EVIDENCE) CONFIG.settlement.evidence = process.env.SETTLEMENT_EVIDENCE;
+  if (CONFIG.settlement.evidence && CONFIG.mode === "primary") {
+    throw new Error("SETTLEMENT_EVIDENCE only applies to secondary settlement");
+  }
+  if (!Number.isSafeInteger(CONFIG.marketId) || CONFIG.marketId <= 0) {
+    throw new Error(`Invalid market id: ${process.env.MARKET_ID}`);
+  }
+}
+
 function resolveSettlementValue(): bigint {
   if (CONFIG.settlement.tick) {
     return BigInt(CONFIG.settlement.tick) * 1_000_000n;
@@ -89,10 +131,15 @@ function computeAutoTiming(now: number) {
   return { startTimestamp, endTimestamp, settlementTimestamp };
 }
 
-async function main() {
+export async function closeMarketAction(env: Environment) {
   const { ethers, network } = hre;
-  const env = normalizeEnvironment(network.name) as Environment;
   console.log(`[close-market] environment=${env} network=${network.name}`);
+  applyEnvOverrides(env);
+  const [operator] = await ethers.getSigners();
+  const txHashes: string[] = [];
+  let settlementValue: bigint | undefined;
+  let evidencePath: string | undefined;
+  let batchProcessed = false;
 
   const envData = loadEnvironment(env);
   const coreAddress = envData.contracts.SignalsCoreProxy;
@@ -122,22 +169,66 @@ async function main() {
     console.log(
       `[close-market] updateMarketTiming start=${timing.startTimestamp} end=${timing.endTimestamp} settle=${timing.settlementTimestamp}`
     );
-    await (await core.updateMarketTiming(marketId, timing.startTimestamp, timing.endTimestamp, timing.settlementTimestamp)).wait();
+    const timingTx = await core.updateMarketTiming(
+      marketId,
+      timing.startTimestamp,
+      timing.endTimestamp,
+      timing.settlementTimestamp
+    );
+    await timingTx.wait();
+    txHashes.push(timingTx.hash);
     market = await core.markets(marketId);
   }
 
   if (!market.settled) {
     if (CONFIG.mode === "primary") {
       console.log("[close-market] finalizePrimarySettlement");
-      await (await core.finalizePrimarySettlement(marketId)).wait();
+      const finalizeTx = await core.finalizePrimarySettlement(marketId);
+      await finalizeTx.wait();
+      txHashes.push(finalizeTx.hash);
+      // A multi-sample settlement rule fails the market instead when its samples diverge
+      if ((await core.markets(marketId)).failed) {
+        throw new Error(
+          `Market ${marketId} was marked failed at finalization (samples diverged); rerun with SETTLEMENT_MODE=secondary`
+        );
+      }
     } else {
+      // Derive before marking failed, so a rule that cannot be applied leaves the market untouched
+      let derivation: SettlementDerivation | undefined;
+      if (CONFIG.settlement.evidence) {
+        derivation = deriveSecondarySettlement(CONFIG.settlement.evidence, {
+          settlementTimestamp: Number(market.settlementTimestamp),
+          feedDecimals: Number((await core.getMarketOracleConfig.staticCall(marketId)).feedDecimals),
+          market,
+        });
+        logDerivation(derivation);
+      }
       if (!market.failed) {
         console.log("[close-market] markSettlementFailed");
-        await (await core.markSettlementFailed(marketId)).wait();
+        const failTx = await core.markSettlementFailed(marketId);
+        await failTx.wait();
+        txHashes.push(failTx.hash);
       }
-      const settlementValue = resolveSettlementValue();
+      settlementValue = derivation?.settlementValue ?? resolveSettlementValue();
       console.log(`[close-market] finalizeSecondarySettlement value=${settlementValue.toString()}`);
-      await (await core.finalizeSecondarySettlement(marketId, settlementValue)).wait();
+      const finalizeTx = await core.finalizeSecondarySettlement(marketId, settlementValue);
+      await finalizeTx.wait();
+      txHashes.push(finalizeTx.hash);
+      if (derivation) {
+        const { chainId } = await ethers.provider.getNetwork();
+        evidencePath = writeSettlementEvidence(
+          buildSettlementEvidence(derivation, {
+            environment: env,
+            network: network.name,
+            chainId,
+            core: coreAddress,
+            marketId: BigInt(marketId),
+            market,
+            txHash: finalizeTx.hash,
+          })
+        );
+        console.log(`[close-market] evidence written to ${evidencePath}`);
+      }
     }
     market = await core.markets(marketId);
   } else {
@@ -148,7 +239,9 @@ async function main() {
     let calls = 0;
     while (!market.snapshotChunksDone && calls < CONFIG.chunks.maxCalls) {
       console.log(`[close-market] requestSettlementChunks call=${calls + 1}`);
-      await (await core.requestSettlementChunks(marketId, CONFIG.chunks.maxPerTx)).wait();
+      const chunkTx = await core.requestSettlementChunks(marketId, CONFIG.chunks.maxPerTx);
+      await chunkTx.wait();
+      txHashes.push(chunkTx.hash);
       market = await core.markets(marketId);
       calls += 1;
     }
@@ -160,29 +253,78 @@ async function main() {
   }
 
   if (CONFIG.batch.run) {
-    const batchId = BigInt(market.settlementTimestamp) / BATCH_SECONDS;
-    const [total, resolved] = await core.getBatchMarketState(batchId);
-    if (total === 0n) {
-      console.warn(`[close-market] skip batch ${batchId.toString()} (no markets assigned)`);
-      return;
-    }
-    if (resolved !== total) {
-      console.warn(
-        `[close-market] skip batch ${batchId.toString()} (resolved ${resolved.toString()}/${total.toString()})`
-      );
-      return;
-    }
-    try {
-      console.log(`[close-market] processDailyBatch batchId=${batchId.toString()}`);
-      await (await core.processDailyBatch(batchId)).wait();
-    } catch (err) {
-      console.warn("[close-market] processDailyBatch failed (batch not ready or not ended yet)");
-      console.warn(err);
-    }
+    batchProcessed = await runDailyBatch(core, BigInt(market.settlementTimestamp) / BATCH_SECONDS, txHashes);
   }
+
+  const closedAt = Math.floor(Date.now() / 1000);
+  const existing = loadEnvironment(env).markets?.[marketId.toString()];
+  recordMarket(env, {
+    marketId: marketId.toString(),
+    status: "closed",
+    alphaWad: existing?.alphaWad ?? market.liquidityParameter.toString(),
+    batchId: (BigInt(market.settlementTimestamp) / BATCH_SECONDS).toString(),
+    feePolicy: existing?.feePolicy ?? market.feePolicy,
+    txHash: existing?.txHash,
+    spec: existing?.spec,
+    createdAt: existing?.createdAt ?? closedAt,
+    close: {
+      mode: CONFIG.mode,
+      settlementValue: (settlementValue ?? market.settlementValue).toString(),
+      txHashes,
+      batchProcessed,
+      closedAt,
+      evidence: evidencePath,
+    },
+  });
+  const { record } = recordDeployment(env, {
+    action: "close-market",
+    deployer: operator.address,
+    meta: { marketId: marketId.toString(), txHashes, batchProcessed },
+  });
+  console.log(`[close-market] completed marketId=${marketId} (version=${record.version})`);
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+function logDerivation(derivation: SettlementDerivation) {
+  const { rule } = derivation;
+  console.log(
+    `[close-market] evidence rule=${rule.method} maxDistanceSec=${rule.maxDistanceSec} minSources=${rule.minSources} ` +
+      `Tset=${derivation.settlementTimestamp} feedDecimals=${derivation.feedDecimals}`
+  );
+  for (const input of derivation.inputs) {
+    const obs = input.observation ? `price=${input.observation.price} at ${input.observation.timestamp}` : "no data";
+    const status = input.included ? `distance=${input.distanceSec}s` : `excluded (${input.reason})`;
+    console.log(`[close-market]   ${input.name}: ${obs} ${status}`);
+  }
+  console.log(
+    `[close-market] evidence median=${derivation.medianFeedUnits} value=${derivation.settlementValue} ` +
+      `tick=${derivation.settlementTick} bin=${derivation.bin} [${derivation.binLowerTick}, ${derivation.binUpperTick})`
+  );
+}
+
+async function runDailyBatch(
+  core: SignalsCore,
+  batchId: bigint,
+  txHashes: string[]
+): Promise<boolean> {
+  const [total, resolved] = await core.getBatchMarketState(batchId);
+  if (total === 0n) {
+    console.warn(`[close-market] skip batch ${batchId.toString()} (no markets assigned)`);
+    return false;
+  }
+  if (resolved !== total) {
+    console.warn(
+      `[close-market] skip batch ${batchId.toString()} (resolved ${resolved.toString()}/${total.toString()})`
+    );
+    return false;
+  }
+  try {
+    console.log(`[close-market] processDailyBatch batchId=${batchId.toString()}`);
+    const batchTx = await core.processDailyBatch(batchId);
+    await batchTx.wait();
+    txHashes.push(batchTx.hash);
+    return true;
+  } catch (err) {
+    console.warn(`[close-market] processDailyBatch failed: ${formatRevert(err)}`);
+    return false;
+  }
+}
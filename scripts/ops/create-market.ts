@@ -1,116 +1,18 @@
+import path from "path";
 import hre from "hardhat";
-import { loadEnvironment, normalizeEnvironment, updateConfig } from "../utils/environment";
+import { loadEnvironment, recordDeployment, recordMarket } from "../utils/environment";
 import type { Environment } from "../types/environment";
-
-type LiquidityMode = "auto" | "manual";
-type BaseFactorsMode = "uniform" | "custom";
-
-interface CreateMarketConfig {
-  skipStaticCall: boolean;
-  feePolicyAddress: string;
-  vault: {
-    minSeedAmountUsd: string;
-    seedAmountUsd: string;
-    withdrawalLagBatches: number;
-  };
-  risk: {
-    lambda: string;
-    kDrawdown: string;
-    enforceAlpha: boolean;
-  };
-  feeWaterfall: {
-    rhoBS: string;
-    phiLP: string;
-    phiBS: string;
-    phiTR: string;
-  };
-  capitalStack: {
-    backstopNavUsd: string;
-    treasuryNavUsd: string;
-  };
-  settlement: {
-    submitWindowSec: number;
-    pendingOpsWindowSec: number;
-    claimDelaySec: number;
-  };
-  redstone: {
-    feedId: string;
-    feedDecimals: number;
-    maxSampleDistanceSec: number;
-    futureToleranceSec: number;
-  };
-  market: {
-    minTick: number;
-    maxTick: number;
-    tickSpacing: number;
-    startDelaySec: number;
-    durationSec: number;
-    settlementDelaySec: number;
-    liquidity: {
-      mode: LiquidityMode;
-      safetyFactor: string;
-      manualAlphaWad: string;
-    };
-    baseFactors: {
-      mode: BaseFactorsMode;
-      customWad: string[];
-    };
-  };
-}
-
-// === Editable config (top-level) ============================================
-const CONFIG: CreateMarketConfig = {
-  skipStaticCall: true,
-  feePolicyAddress: "", // leave empty to use env FeePolicy100bps
-  vault: {
-    minSeedAmountUsd: "100", // 6 decimals
-    seedAmountUsd: "100000", // 6 decimals
-    withdrawalLagBatches: 0,
-  },
-  risk: {
-    lambda: "0.3", // WAD
-    kDrawdown: "1.0", // WAD
-    enforceAlpha: true,
-  },
-  feeWaterfall: {
-    rhoBS: "0.2", // WAD
-    phiLP: "0.7", // WAD
-    phiBS: "0.2", // WAD
-    phiTR: "0.1", // WAD
-  },
-  capitalStack: {
-    backstopNavUsd: "100000", // WAD (USD value)
-    treasuryNavUsd: "0", // WAD (USD value)
-  },
-  settlement: {
-    submitWindowSec: 600,
-    pendingOpsWindowSec: 600,
-    claimDelaySec: 900,
-  },
-  redstone: {
-    feedId: "BTC",
-    feedDecimals: 8,
-    maxSampleDistanceSec: 600,
-    futureToleranceSec: 60,
-  },
-  market: {
-    minTick: 70000,
-    maxTick: 90000,
-    tickSpacing: 200,
-    startDelaySec: 7 * 24 * 3600,
-    durationSec: 24 * 3600,
-    settlementDelaySec: 0,
-    liquidity: {
-      mode: "manual", // "auto" | "manual"
-      safetyFactor: "0.8", // applies only for auto
-      manualAlphaWad: "1000000000000000000000", // set when mode=manual
-    },
-    baseFactors: {
-      mode: "uniform", // "uniform" | "custom"
-      customWad: [] as string[], // only used if mode=custom
-    },
-  },
-};
+import {
+  createSafeBatch,
+  isSafeExportMode,
+  resolveSafeAddress,
+  sendOrQueue,
+  updateConfigOrQueue,
+  writeSafeBatch,
+} from "../utils/safe";
+import { formatRevert } from "../utils/revert";
+import { loadMarketSpec, resolveMarketSpecPath, SETTLEMENT_RULE_MODE_IDS, type MarketSpec } from "./market-spec";
+import { designPrior, reportPrior, type PriorShape } from "./prior-designer";
 
 // === Helpers ================================================================
 const USD_DECIMALS = 6;
@@ -130,7 +32,7 @@ function toWadFromUsd6(value6: bigint): bigint {
   return value6 * 10n ** 12n;
 }
 
-function computeNumBins(minTick: number, maxTick: number, tickSpacing: number): number {
+export function computeNumBins(minTick: number, maxTick: number, tickSpacing: number): number {
   const range = maxTick - minTick;
   if (tickSpacing <= 0 || range <= 0 || range % tickSpacing !== 0) {
     throw new Error("Invalid ticks: (maxTick - minTick) must be divisible by tickSpacing");
@@ -138,31 +40,45 @@ function computeNumBins(minTick: number, maxTick: number, tickSpacing: number):
   return range / tickSpacing;
 }
 
-async function decodeRevert(err: unknown) {
-  const data =
-    (err as { data?: string })?.data ??
-    (err as { error?: { data?: string } })?.error?.data ??
-    (err as { error?: { error?: { data?: string } } })?.error?.error?.data;
-  if (!data) {
-    console.error(err);
-    return;
-  }
-
-  try {
-    const artifact = await hre.artifacts.readArtifact("SignalsErrors");
-    const iface = new hre.ethers.Interface(artifact.abi);
-    const parsed = iface.parseError(data);
-    console.error(`[create-market] reverted with ${parsed?.name}`);
-    if (parsed?.args?.length) {
-      console.error(parsed.args);
-    }
-  } catch (parseErr) {
-    console.error("[create-market] revert data (unparsed)", data);
-    console.error(parseErr);
+/** baseFactors for the spec's prior; `horizonSec` is the lognormal default (time until settlement) */
+export function resolveBaseFactors(market: MarketSpec["market"], horizonSec: number): bigint[] {
+  const numBins = computeNumBins(market.minTick, market.maxTick, market.tickSpacing);
+  const { mode, customWad, lognormal, studentT, histogram, floorRatio } = market.baseFactors;
+  let shape: PriorShape;
+  switch (mode) {
+    case "uniform":
+      return Array.from({ length: numBins }, () => WAD);
+    case "custom":
+      return (customWad ?? []).map((value) => BigInt(value));
+    case "lognormal":
+      shape = {
+        kind: "lognormal",
+        spot: Number(lognormal!.spot),
+        vol: Number(lognormal!.vol),
+        horizonSec: lognormal!.horizonSec ?? horizonSec,
+      };
+      break;
+    case "studentT":
+      shape = {
+        kind: "studentT",
+        center: Number(studentT!.center),
+        scale: Number(studentT!.scale),
+        dof: Number(studentT!.dof),
+      };
+      break;
+    case "histogram":
+      shape = {
+        kind: "histogram",
+        samples: histogram!.samples.map(Number),
+        pseudoCount: histogram!.pseudoCount === undefined ? undefined : Number(histogram!.pseudoCount),
+      };
+      break;
   }
+  const grid = { minTick: market.minTick, maxTick: market.maxTick, tickSpacing: market.tickSpacing };
+  return designPrior(grid, shape, { floorRatio: floorRatio === undefined ? undefined : Number(floorRatio) }).factors;
 }
 
-async function resolveAlphaWad(params: {
+export async function resolveAlphaWad(liquidity: MarketSpec["market"]["liquidity"], params: {
   navWad: bigint;
   drawdownWad: bigint;
   lambdaWad: bigint;
@@ -171,11 +87,11 @@ async function resolveAlphaWad(params: {
   enforceAlpha: boolean;
   riskModuleAddress: string;
 }): Promise<bigint> {
-  if (CONFIG.market.liquidity.mode === "manual") {
-    if (!CONFIG.market.liquidity.manualAlphaWad) {
+  if (liquidity.mode === "manual") {
+    if (!liquidity.manualAlphaWad) {
       throw new Error("manualAlphaWad is required when liquidity.mode is manual");
     }
-    return BigInt(CONFIG.market.liquidity.manualAlphaWad);
+    return BigInt(liquidity.manualAlphaWad);
   }
 
   const riskModule = await hre.ethers.getContractAt("RiskModule", params.riskModuleAddress);
@@ -193,7 +109,7 @@ async function resolveAlphaWad(params: {
     alphaLimit = (alphaBaseDiv * factor) / WAD;
   }
 
-  const safetyFactorWad = hre.ethers.parseUnits(CONFIG.market.liquidity.safetyFactor, WAD_DECIMALS);
+  const safetyFactorWad = hre.ethers.parseUnits(liquidity.safetyFactor ?? "1", WAD_DECIMALS);
   const alphaSafe = (alphaLimit * safetyFactorWad) / WAD;
   console.log(
     `[create-market] alphaBase=${alphaBaseDiv.toString()} alphaLimit=${alphaLimit.toString()} drawdown=${params.drawdownWad.toString()}`
@@ -204,23 +120,48 @@ async function resolveAlphaWad(params: {
   return alphaSafe;
 }
 
-async function main() {
+export function resolveFeePolicy(feePolicy: string | undefined, contracts: Record<string, string | undefined>): string {
+  if (feePolicy?.startsWith("0x")) return feePolicy;
+  if (feePolicy) {
+    const address = contracts[feePolicy];
+    if (!address) {
+      throw new Error(`Fee policy "${feePolicy}" not found in environment contracts`);
+    }
+    return address;
+  }
+  const fallback = contracts.FeePolicy100bps ?? contracts.FeePolicy;
+  if (!fallback) {
+    throw new Error("Fee policy address not set (spec feePolicy or env FeePolicy100bps)");
+  }
+  return fallback;
+}
+
+/** `createMarketWithOracle` config for a spec `market.oracle`; undefined keeps the global feed */
+export function resolveMarketOracle(oracle: MarketSpec["market"]["oracle"]) {
+  if (!oracle) return undefined;
+  return {
+    feedId: hre.ethers.encodeBytes32String(oracle.feedId),
+    feedDecimals: oracle.feedDecimals,
+    maxSampleDistance: oracle.maxSampleDistanceSec,
+    futureTolerance: oracle.futureToleranceSec,
+  };
+}
+
+export async function createMarketAction(env: Environment) {
   const { ethers, network } = hre;
-  const env = normalizeEnvironment(network.name) as Environment;
   console.log(`[create-market] environment=${env} network=${network.name}`);
 
+  const specPath = resolveMarketSpecPath();
+  const spec = loadMarketSpec(specPath);
+  console.log(`[create-market] spec=${specPath}`);
+
   const envData = loadEnvironment(env);
   const coreAddress = envData.contracts.SignalsCoreProxy;
   const paymentTokenAddress = envData.contracts.SignalsUSDToken ?? envData.contracts.PaymentToken;
   if (!coreAddress) throw new Error("Missing SignalsCoreProxy in environment file");
   if (!paymentTokenAddress) throw new Error("Missing SignalsUSDToken in environment file");
 
-  const feePolicyAddress =
-    CONFIG.feePolicyAddress || envData.contracts.FeePolicy100bps || envData.contracts.FeePolicy;
-  if (!feePolicyAddress) {
-    throw new Error("Fee policy address not set (feePolicyAddress or env FeePolicy100bps)");
-  }
-
+  const feePolicyAddress = resolveFeePolicy(spec.feePolicy, envData.contracts);
   const [deployer] = await ethers.getSigners();
   const core = await ethers.getContractAt("SignalsCore", coreAddress);
   const payment = await ethers.getContractAt("SignalsUSDToken", paymentTokenAddress);
@@ -255,48 +196,110 @@ async function main() {
     );
   }
 
-  const minSeedAmount6 = usd6(CONFIG.vault.minSeedAmountUsd);
-  const seedAmount6 = usd6(CONFIG.vault.seedAmountUsd);
-  const lambdaWad = wad(CONFIG.risk.lambda);
-  const kDrawdownWad = wad(CONFIG.risk.kDrawdown);
-  const rhoBS = wad(CONFIG.feeWaterfall.rhoBS);
-  const phiLP = wad(CONFIG.feeWaterfall.phiLP);
-  const phiBS = wad(CONFIG.feeWaterfall.phiBS);
-  const phiTR = wad(CONFIG.feeWaterfall.phiTR);
-  const backstopNavWad = wad(CONFIG.capitalStack.backstopNavUsd);
-  const treasuryNavWad = wad(CONFIG.capitalStack.treasuryNavUsd);
-
   console.log(`[create-market] core=${coreAddress} deployer=${deployer.address}`);
 
-  await (await core.setMinSeedAmount(minSeedAmount6)).wait();
-  await (await core.setWithdrawalLagBatches(CONFIG.vault.withdrawalLagBatches)).wait();
-  await (await core.setRiskConfig(lambdaWad, kDrawdownWad, CONFIG.risk.enforceAlpha)).wait();
-  await (await core.setFeeWaterfallConfig(rhoBS, phiLP, phiBS, phiTR)).wait();
-  await (await core.setCapitalStack(backstopNavWad, treasuryNavWad)).wait();
-  await (await core.setSettlementTimeline(
-    CONFIG.settlement.submitWindowSec,
-    CONFIG.settlement.pendingOpsWindowSec,
-    CONFIG.settlement.claimDelaySec
-  )).wait();
-  await (await core.setRedstoneConfig(
-    ethers.encodeBytes32String(CONFIG.redstone.feedId),
-    CONFIG.redstone.feedDecimals,
-    CONFIG.redstone.maxSampleDistanceSec,
-    CONFIG.redstone.futureToleranceSec
-  )).wait();
-
-  updateConfig(env, {
-    settlementSubmitWindow: CONFIG.settlement.submitWindowSec.toString(),
-    pendingOpsWindow: CONFIG.settlement.pendingOpsWindowSec.toString(),
-    settlementFinalizeDeadline: CONFIG.settlement.claimDelaySec.toString(),
-    redstoneFeedId: CONFIG.redstone.feedId,
-    redstoneFeedDecimals: CONFIG.redstone.feedDecimals,
-    redstoneMaxSampleDistance: CONFIG.redstone.maxSampleDistanceSec.toString(),
-    redstoneFutureTolerance: CONFIG.redstone.futureToleranceSec.toString(),
-  });
+  // SAFE_EXPORT=1: owner calls go into a Safe batch instead of being sent from the deployer key
+  const safeBatch = isSafeExportMode()
+    ? createSafeBatch(
+        `create-market-${path.basename(specPath).replace(/\.[^.]+$/, "")}`,
+        (await ethers.provider.getNetwork()).chainId,
+        resolveSafeAddress(owner)
+      )
+    : undefined;
+
+  if (spec.vault) {
+    await sendOrQueue(safeBatch, core, "setMinSeedAmount", [usd6(spec.vault.minSeedAmountUsd)]);
+    await sendOrQueue(safeBatch, core, "setWithdrawalLagBatches", [spec.vault.withdrawalLagBatches]);
+    updateConfigOrQueue(env, safeBatch, {
+      minSeedAmount: usd6(spec.vault.minSeedAmountUsd).toString(),
+      withdrawalLagBatches: spec.vault.withdrawalLagBatches.toString(),
+    });
+  }
+  if (spec.risk) {
+    await sendOrQueue(safeBatch, core, "setRiskConfig", [
+      wad(spec.risk.lambda),
+      wad(spec.risk.kDrawdown),
+      spec.risk.enforceAlpha,
+    ]);
+    updateConfigOrQueue(env, safeBatch, {
+      risk: {
+        lambda: wad(spec.risk.lambda).toString(),
+        kDrawdown: wad(spec.risk.kDrawdown).toString(),
+        enforceAlpha: spec.risk.enforceAlpha,
+      },
+    });
+  }
+  if (spec.feeWaterfall) {
+    await sendOrQueue(safeBatch, core, "setFeeWaterfallConfig", [
+      wad(spec.feeWaterfall.rhoBS),
+      wad(spec.feeWaterfall.phiLP),
+      wad(spec.feeWaterfall.phiBS),
+      wad(spec.feeWaterfall.phiTR),
+    ]);
+    updateConfigOrQueue(env, safeBatch, {
+      feeWaterfall: {
+        rhoBS: wad(spec.feeWaterfall.rhoBS).toString(),
+        phiLP: wad(spec.feeWaterfall.phiLP).toString(),
+        phiBS: wad(spec.feeWaterfall.phiBS).toString(),
+        phiTR: wad(spec.feeWaterfall.phiTR).toString(),
+      },
+    });
+  }
+  if (spec.capitalStack) {
+    await sendOrQueue(safeBatch, core, "setCapitalStack", [
+      wad(spec.capitalStack.backstopNavUsd),
+      wad(spec.capitalStack.treasuryNavUsd),
+    ]);
+    updateConfigOrQueue(env, safeBatch, {
+      capitalStack: {
+        backstopNav: wad(spec.capitalStack.backstopNavUsd).toString(),
+        treasuryNav: wad(spec.capitalStack.treasuryNavUsd).toString(),
+      },
+    });
+  }
+  if (spec.settlement) {
+    await sendOrQueue(safeBatch, core, "setSettlementTimeline", [
+      spec.settlement.submitWindowSec,
+      spec.settlement.pendingOpsWindowSec,
+      spec.settlement.claimDelaySec,
+    ]);
+    updateConfigOrQueue(env, safeBatch, {
+      settlementSubmitWindow: spec.settlement.submitWindowSec.toString(),
+      pendingOpsWindow: spec.settlement.pendingOpsWindowSec.toString(),
+      settlementFinalizeDeadline: spec.settlement.claimDelaySec.toString(),
+    });
+  }
+  if (spec.redstone) {
+    await sendOrQueue(safeBatch, core, "setRedstoneConfig", [
+      ethers.encodeBytes32String(spec.redstone.feedId),
+      spec.redstone.feedDecimals,
+      spec.redstone.maxSampleDistanceSec,
+      spec.redstone.futureToleranceSec,
+    ]);
+    updateConfigOrQueue(env, safeBatch, {
+      redstoneFeedId: spec.redstone.feedId,
+      redstoneFeedDecimals: spec.redstone.feedDecimals,
+      redstoneMaxSampleDistance: spec.redstone.maxSampleDistanceSec.toString(),
+      redstoneFutureTolerance: spec.redstone.futureToleranceSec.toString(),
+    });
+  }
+
+  if (spec.settlementRule) {
+    const rule = {
+      mode: SETTLEMENT_RULE_MODE_IDS[spec.settlementRule.mode],
+      maxSamples: spec.settlementRule.maxSamples ?? 0,
+      maxDeviationBps: spec.settlementRule.maxDeviationBps ?? 0,
+    };
+    await sendOrQueue(safeBatch, core, "setSettlementRule", [rule.mode, rule.maxSamples, rule.maxDeviationBps]);
+    updateConfigOrQueue(env, safeBatch, { settlementRule: rule });
+  }
 
   const seeded = await core.isVaultSeeded();
+  const seedAmount6 = spec.vault ? usd6(spec.vault.seedAmountUsd) : 0n;
   if (!seeded) {
+    if (seedAmount6 === 0n) {
+      throw new Error("Vault is not seeded; spec.vault.seedAmountUsd is required");
+    }
     const allowance = await payment.allowance(deployer.address, coreAddress);
     if (allowance < seedAmount6) {
       await (await payment.approve(coreAddress, seedAmount6)).wait();
@@ -306,11 +309,9 @@ async function main() {
     console.log("[create-market] vault already seeded (skip seed)");
   }
 
-  const numBins = computeNumBins(CONFIG.market.minTick, CONFIG.market.maxTick, CONFIG.market.tickSpacing);
-  const baseFactors =
-    CONFIG.market.baseFactors.mode === "custom"
-      ? CONFIG.market.baseFactors.customWad.map((value) => BigInt(value))
-      : Array.from({ length: numBins }, () => WAD);
+  const numBins = computeNumBins(spec.market.minTick, spec.market.maxTick, spec.market.tickSpacing);
+  const { startDelaySec, durationSec, settlementDelaySec } = spec.market;
+  const baseFactors = resolveBaseFactors(spec.market, startDelaySec + durationSec + settlementDelaySec);
 
   if (baseFactors.length !== numBins) {
     throw new Error(`baseFactors length mismatch: expected ${numBins}, got ${baseFactors.length}`);
@@ -319,31 +320,34 @@ async function main() {
   const navWad = await core.getVaultNav();
   const navForAlpha = navWad > 0n ? navWad : toWadFromUsd6(seedAmount6);
   const drawdownWad = await core.getVaultDrawdown();
-  const [lambdaOnChain, kDrawdownOnChain, enforceAlpha] = await core.getRiskConfig();
+  const [lambdaOnChain, kDrawdownOnChain, enforceAlphaOnChain] = await core.getRiskConfig();
   const riskModuleAddress = await core.riskModule();
-  const alphaWad = await resolveAlphaWad({
+  // Spec risk overrides may still be queued in a Safe batch, so prefer them over on-chain values
+  const alphaWad = await resolveAlphaWad(spec.market.liquidity, {
     navWad: navForAlpha,
     drawdownWad,
-    lambdaWad: lambdaOnChain,
-    kDrawdownWad: kDrawdownOnChain,
+    lambdaWad: spec.risk ? wad(spec.risk.lambda) : lambdaOnChain,
+    kDrawdownWad: spec.risk ? wad(spec.risk.kDrawdown) : kDrawdownOnChain,
     numBins,
-    enforceAlpha,
+    enforceAlpha: spec.risk ? spec.risk.enforceAlpha : enforceAlphaOnChain,
     riskModuleAddress,
   });
 
   const latestBlock = await ethers.provider.getBlock("latest");
   const now = latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
   const blockGasLimit = latestBlock?.gasLimit ?? 0n;
-  let startTimestamp = now + CONFIG.market.startDelaySec;
-  let endTimestamp = startTimestamp + CONFIG.market.durationSec;
-  let settlementTimestamp = endTimestamp + CONFIG.market.settlementDelaySec;
+  let startTimestamp = now + spec.market.startDelaySec;
+  let endTimestamp = startTimestamp + spec.market.durationSec;
+  let settlementTimestamp = endTimestamp + spec.market.settlementDelaySec;
   const existingBatches = new Set<number>();
+  const committedDeltaEt = new Map<number, bigint>();
   if (nextMarketId > 0n) {
     for (let i = 1n; i <= nextMarketId; i++) {
       const market = await core.markets(i);
       if (market.numBins === 0n) continue;
       const batchId = Math.floor(Number(market.settlementTimestamp) / BATCH_SECONDS);
       existingBatches.add(batchId);
+      committedDeltaEt.set(batchId, (committedDeltaEt.get(batchId) ?? 0n) + market.deltaEt);
       console.log(
         `[create-market] existing marketId=${i.toString()} batchId=${batchId} settled=${market.settled}`
       );
@@ -361,33 +365,26 @@ async function main() {
     `[create-market] numBins=${numBins} alphaWad=${alphaWad.toString()} batchId=${targetBatchId}`
   );
 
-  const beforeMarketId = await core.nextMarketId();
-  let marketId = beforeMarketId + 1n;
-  if (!CONFIG.skipStaticCall) {
-    try {
-      marketId = await core.createMarket.staticCall(
-        CONFIG.market.minTick,
-        CONFIG.market.maxTick,
-        CONFIG.market.tickSpacing,
-        startTimestamp,
-        endTimestamp,
-        settlementTimestamp,
-        numBins,
-        alphaWad,
-        feePolicyAddress,
-        baseFactors
-      );
-    } catch (err) {
-      await decodeRevert(err);
-      throw err;
-    }
+  // The risk gate rejects a prior whose ΔEₜ exceeds the backstop, and settlement rejects a batch whose
+  // ΔEₜ sum does; check against what the batch's other markets leave before sending anything
+  const backstopForPrior = spec.capitalStack ? wad(spec.capitalStack.backstopNavUsd) : backstopNow;
+  const prior = reportPrior(baseFactors, alphaWad, backstopForPrior, committedDeltaEt.get(targetBatchId) ?? 0n);
+  console.log(
+    `[create-market] prior=${spec.market.baseFactors.mode} deltaEt=${prior.deltaEt.toString()} backstop=${prior.backstopNav.toString()} ` +
+      `committed=${prior.committedDeltaEt.toString()} headroom=${prior.headroom.toString()} ` +
+      `factors=[${prior.minFactor.toString()}, ${prior.maxFactor.toString()}]`
+  );
+  if (!prior.admissible) {
+    throw new Error(
+      `Prior not admissible: deltaEt=${prior.deltaEt} plus committed=${prior.committedDeltaEt} exceeds ` +
+        `backstop=${prior.backstopNav}; use alpha <= ${prior.maxAdmissibleAlpha}, a flatter prior or a larger backstop`
+    );
   }
 
-  const overrides = blockGasLimit > 0n ? { gasLimit: blockGasLimit - 100000n } : {};
-  const txRequest = await core.createMarket.populateTransaction(
-    CONFIG.market.minTick,
-    CONFIG.market.maxTick,
-    CONFIG.market.tickSpacing,
+  const createArgs = [
+    spec.market.minTick,
+    spec.market.maxTick,
+    spec.market.tickSpacing,
     startTimestamp,
     endTimestamp,
     settlementTimestamp,
@@ -395,20 +392,99 @@ async function main() {
     alphaWad,
     feePolicyAddress,
     baseFactors,
-    overrides
-  );
+  ] as const;
+  const oracle = resolveMarketOracle(spec.market.oracle);
+  if (spec.market.oracle) {
+    const { feedId, feedDecimals, maxSampleDistanceSec, futureToleranceSec } = spec.market.oracle;
+    console.log(
+      `[create-market] oracle feedId=${feedId} decimals=${feedDecimals} maxSampleDistance=${maxSampleDistanceSec} futureTolerance=${futureToleranceSec}`
+    );
+  }
+
+  const beforeMarketId = await core.nextMarketId();
+  let marketId = beforeMarketId + 1n;
+  if (safeBatch) {
+    console.log("[create-market] SAFE_EXPORT: skipping createMarket static call (queued config not applied yet)");
+  } else if (!spec.skipStaticCall) {
+    try {
+      marketId = oracle
+        ? await core.createMarketWithOracle.staticCall(...createArgs, oracle)
+        : await core.createMarket.staticCall(...createArgs);
+    } catch (err) {
+      console.error(`[create-market] createMarket reverted: ${formatRevert(err)}`);
+      throw err;
+    }
+  }
+
+  if (safeBatch) {
+    if (oracle) {
+      await sendOrQueue(safeBatch, core, "createMarketWithOracle", [...createArgs, oracle]);
+    } else {
+      await sendOrQueue(safeBatch, core, "createMarket", createArgs);
+    }
+    const safeBatchPath = writeSafeBatch(env, safeBatch);
+    recordMarket(env, {
+      marketId: marketId.toString(),
+      status: "queued",
+      alphaWad: alphaWad.toString(),
+      batchId: targetBatchId.toString(),
+      feePolicy: feePolicyAddress,
+      oracle: spec.market.oracle,
+      spec: specPath,
+      createdAt: Math.floor(Date.now() / 1000),
+    });
+    recordDeployment(env, {
+      action: "create-market",
+      deployer: deployer.address,
+      meta: {
+        marketId: marketId.toString(),
+        safeBatch: safeBatchPath,
+        pendingEnv: { ...safeBatch.pendingEnv, markets: [marketId.toString()] },
+      },
+    });
+    console.log(`[create-market] expected marketId=${marketId.toString()} (after Safe execution)`);
+    console.log(`[create-market] start=${startTimestamp} end=${endTimestamp} settlement=${settlementTimestamp}`);
+    return;
+  }
+
+  const overrides = blockGasLimit > 0n ? { gasLimit: blockGasLimit - 100000n } : {};
+  const txRequest = oracle
+    ? await core.createMarketWithOracle.populateTransaction(...createArgs, oracle, overrides)
+    : await core.createMarket.populateTransaction(...createArgs, overrides);
   if (overrides.gasLimit) {
     txRequest.gasLimit = overrides.gasLimit;
   }
   console.log(`[create-market] txDataLen=${txRequest.data?.length ?? 0}`);
   const tx = await deployer.sendTransaction(txRequest);
-  await tx.wait();
+  const receipt = await tx.wait();
+
+  // Prefer the emitted id over the static-call / nextMarketId guess
+  const lifecycleIface = new ethers.Interface(lifecycleArtifact.abi);
+  for (const log of receipt?.logs ?? []) {
+    const parsed = lifecycleIface.parseLog(log);
+    if (parsed?.name === "MarketCreated") {
+      marketId = parsed.args.marketId as bigint;
+      break;
+    }
+  }
 
-  console.log(`[create-market] marketId=${marketId.toString()}`);
+  recordMarket(env, {
+    marketId: marketId.toString(),
+    status: "created",
+    alphaWad: alphaWad.toString(),
+    batchId: targetBatchId.toString(),
+    feePolicy: feePolicyAddress,
+    oracle: spec.market.oracle,
+    txHash: tx.hash,
+    spec: specPath,
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+  const { record } = recordDeployment(env, {
+    action: "create-market",
+    deployer: deployer.address,
+    meta: { marketId: marketId.toString(), txHash: tx.hash },
+  });
+
+  console.log(`[create-market] marketId=${marketId.toString()} (version=${record.version})`);
   console.log(`[create-market] start=${startTimestamp} end=${endTimestamp} settlement=${settlementTimestamp}`);
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
@@ -0,0 +1,519 @@
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+
+export type LiquidityMode = "auto" | "manual";
+export type BaseFactorsMode = "uniform" | "custom" | "lognormal" | "studentT" | "histogram";
+export type SettlementRuleMode = "closest" | "median" | "timeWeighted";
+
+/** `setSettlementRule` mode ids (SignalsCoreStorage SETTLEMENT_RULE_*) */
+export const SETTLEMENT_RULE_MODE_IDS: Record<SettlementRuleMode, number> = { closest: 0, median: 1, timeWeighted: 2 };
+
+/**
+ * Declarative market spec consumed by `scripts/ops/create-market.ts`.
+ *
+ * Only `market` is required. Every other section is an optional override of
+ * on-chain config; omitted sections are left untouched on the core.
+ * WAD / USD amounts are decimal strings so they survive JSON and YAML unchanged.
+ */
+export interface MarketSpec {
+  skipStaticCall: boolean;
+  /** Env contract key (e.g. "FeePolicy100bps") or a raw address; defaults to env FeePolicy100bps */
+  feePolicy?: string;
+  vault?: {
+    minSeedAmountUsd: string;
+    seedAmountUsd: string;
+    withdrawalLagBatches: number;
+  };
+  risk?: {
+    lambda: string;
+    kDrawdown: string;
+    enforceAlpha: boolean;
+  };
+  feeWaterfall?: {
+    rhoBS: string;
+    phiLP: string;
+    phiBS: string;
+    phiTR: string;
+  };
+  capitalStack?: {
+    backstopNavUsd: string;
+    treasuryNavUsd: string;
+  };
+  settlement?: {
+    submitWindowSec: number;
+    pendingOpsWindowSec: number;
+    claimDelaySec: number;
+  };
+  redstone?: {
+    feedId: string;
+    feedDecimals: number;
+    maxSampleDistanceSec: number;
+    futureToleranceSec: number;
+  };
+  settlementRule?: {
+    mode: SettlementRuleMode;
+    maxSamples?: number;
+    maxDeviationBps?: number;
+  };
+  market: {
+    minTick: number;
+    maxTick: number;
+    tickSpacing: number;
+    startDelaySec: number;
+    durationSec: number;
+    settlementDelaySec: number;
+    liquidity: {
+      mode: LiquidityMode;
+      safetyFactor?: string;
+      manualAlphaWad?: string;
+    };
+    baseFactors: {
+      mode: BaseFactorsMode;
+      customWad?: string[];
+      /** Prices in tick units; horizonSec defaults to the time until settlement */
+      lognormal?: { spot: string; vol: string; horizonSec?: number };
+      studentT?: { center: string; scale: string; dof: string };
+      /** Past settlement prices, binned on the market grid */
+      histogram?: { samples: string[]; pseudoCount?: string };
+      /** Smallest bin weight relative to the largest (see scripts/ops/prior-designer.ts) */
+      floorRatio?: string;
+    };
+    /** Own Redstone feed for this market (e.g. ETH); omitted: the global `redstone` config applies */
+    oracle?: {
+      feedId: string;
+      feedDecimals: number;
+      maxSampleDistanceSec: number;
+      futureToleranceSec: number;
+    };
+  };
+}
+
+// Mirrors on-chain limits (MarketLifecycleModule / LazyMulSegmentTree)
+const MAX_BIN_COUNT = 256;
+const MIN_FACTOR_WAD = 10n ** 16n;
+const MAX_FACTOR_WAD = 100n * 10n ** 18n;
+const MAX_FACTOR_RATIO = Number(MAX_FACTOR_WAD / MIN_FACTOR_WAD);
+const MAX_SETTLEMENT_SAMPLES = 16;
+const WAD_DECIMALS = 18;
+const USD_DECIMALS = 6;
+
+type Shape = Record<string, FieldRule>;
+
+interface FieldRule {
+  kind: "boolean" | "int" | "decimal" | "uint" | "string" | "object" | "stringArray" | "decimalArray";
+  optional?: boolean;
+  oneOf?: readonly string[];
+  min?: number;
+  /** Max fraction digits of a "decimal": USD_DECIMALS for 6-decimal amounts, WAD_DECIMALS for WAD values */
+  decimals?: number;
+  shape?: Shape;
+}
+
+const SPEC_SHAPE: Shape = {
+  skipStaticCall: { kind: "boolean", optional: true },
+  feePolicy: { kind: "string", optional: true },
+  vault: {
+    kind: "object",
+    optional: true,
+    shape: {
+      minSeedAmountUsd: { kind: "decimal", decimals: USD_DECIMALS },
+      seedAmountUsd: { kind: "decimal", decimals: USD_DECIMALS },
+      withdrawalLagBatches: { kind: "int", min: 0 },
+    },
+  },
+  risk: {
+    kind: "object",
+    optional: true,
+    shape: {
+      lambda: { kind: "decimal", decimals: WAD_DECIMALS },
+      kDrawdown: { kind: "decimal", decimals: WAD_DECIMALS },
+      enforceAlpha: { kind: "boolean" },
+    },
+  },
+  feeWaterfall: {
+    kind: "object",
+    optional: true,
+    shape: {
+      rhoBS: { kind: "decimal", decimals: WAD_DECIMALS },
+      phiLP: { kind: "decimal", decimals: WAD_DECIMALS },
+      phiBS: { kind: "decimal", decimals: WAD_DECIMALS },
+      phiTR: { kind: "decimal", decimals: WAD_DECIMALS },
+    },
+  },
+  capitalStack: {
+    kind: "object",
+    optional: true,
+    shape: {
+      backstopNavUsd: { kind: "decimal", decimals: WAD_DECIMALS },
+      treasuryNavUsd: { kind: "decimal", decimals: WAD_DECIMALS },
+    },
+  },
+  settlement: {
+    kind: "object",
+    optional: true,
+    shape: {
+      submitWindowSec: { kind: "int", min: 0 },
+      pendingOpsWindowSec: { kind: "int", min: 0 },
+      claimDelaySec: { kind: "int", min: 0 },
+    },
+  },
+  redstone: {
+    kind: "object",
+    optional: true,
+    shape: {
+      feedId: { kind: "string" },
+      feedDecimals: { kind: "int", min: 0 },
+      maxSampleDistanceSec: { kind: "int", min: 0 },
+      futureToleranceSec: { kind: "int", min: 0 },
+    },
+  },
+  settlementRule: {
+    kind: "object",
+    optional: true,
+    shape: {
+      mode: { kind: "string", oneOf: ["closest", "median", "timeWeighted"] },
+      maxSamples: { kind: "int", optional: true, min: 0 },
+      maxDeviationBps: { kind: "int", optional: true, min: 0 },
+    },
+  },
+  market: {
+    kind: "object",
+    shape: {
+      minTick: { kind: "int" },
+      maxTick: { kind: "int" },
+      tickSpacing: { kind: "int", min: 1 },
+      startDelaySec: { kind: "int", min: 0 },
+      durationSec: { kind: "int", min: 1 },
+      settlementDelaySec: { kind: "int", min: 0 },
+      liquidity: {
+        kind: "object",
+        shape: {
+          mode: { kind: "string", oneOf: ["auto", "manual"] },
+          safetyFactor: { kind: "decimal", optional: true, decimals: WAD_DECIMALS },
+          manualAlphaWad: { kind: "uint", optional: true },
+        },
+      },
+      baseFactors: {
+        kind: "object",
+        shape: {
+          mode: { kind: "string", oneOf: ["uniform", "custom", "lognormal", "studentT", "histogram"] },
+          customWad: { kind: "stringArray", optional: true },
+          lognormal: {
+            kind: "object",
+            optional: true,
+            shape: {
+              spot: { kind: "decimal" },
+              vol: { kind: "decimal" },
+              horizonSec: { kind: "int", min: 1, optional: true },
+            },
+          },
+          studentT: {
+            kind: "object",
+            optional: true,
+            shape: {
+              center: { kind: "decimal" },
+              scale: { kind: "decimal" },
+              dof: { kind: "decimal" },
+            },
+          },
+          histogram: {
+            kind: "object",
+            optional: true,
+            shape: {
+              samples: { kind: "decimalArray" },
+              pseudoCount: { kind: "decimal", optional: true },
+            },
+          },
+          floorRatio: { kind: "decimal", optional: true },
+        },
+      },
+      oracle: {
+        kind: "object",
+        optional: true,
+        shape: {
+          feedId: { kind: "string" },
+          feedDecimals: { kind: "int", min: 0 },
+          maxSampleDistanceSec: { kind: "int", min: 0 },
+          futureToleranceSec: { kind: "int", min: 0 },
+        },
+      },
+    },
+  },
+};
+
+const DECIMAL_RE = /^\d+(\.\d+)?$/;
+const UINT_RE = /^\d+$/;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function checkShape(value: unknown, shape: Shape, at: string, errors: string[]) {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${at || "<root>"}: expected object, got ${describe(value)}`);
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (!(key in shape)) {
+      errors.push(`${at ? `${at}.` : ""}${key}: unknown field`);
+    }
+  }
+  for (const [key, rule] of Object.entries(shape)) {
+    const fieldPath = at ? `${at}.${key}` : key;
+    const fieldValue = record[key];
+    if (fieldValue === undefined) {
+      if (!rule.optional) errors.push(`${fieldPath}: required`);
+      continue;
+    }
+    checkField(fieldValue, rule, fieldPath, errors);
+  }
+}
+
+function checkField(value: unknown, rule: FieldRule, at: string, errors: string[]) {
+  switch (rule.kind) {
+    case "boolean":
+      if (typeof value !== "boolean") errors.push(`${at}: expected boolean, got ${describe(value)}`);
+      return;
+    case "int":
+      if (typeof value !== "number" || !Number.isSafeInteger(value)) {
+        errors.push(`${at}: expected integer, got ${JSON.stringify(value)}`);
+      } else if (rule.min !== undefined && value < rule.min) {
+        errors.push(`${at}: must be >= ${rule.min}, got ${value}`);
+      }
+      return;
+    case "decimal":
+      if (typeof value !== "string" || !DECIMAL_RE.test(value)) {
+        errors.push(`${at}: expected non-negative decimal string (e.g. "0.3"), got ${JSON.stringify(value)}`);
+      } else if (rule.decimals !== undefined && (value.split(".")[1] ?? "").length > rule.decimals) {
+        errors.push(`${at}: at most ${rule.decimals} decimals, got ${JSON.stringify(value)}`);
+      }
+      return;
+    case "uint":
+      if (typeof value !== "string" || !UINT_RE.test(value)) {
+        errors.push(`${at}: expected unsigned integer string, got ${JSON.stringify(value)}`);
+      }
+      return;
+    case "string":
+      if (typeof value !== "string" || value.length === 0) {
+        errors.push(`${at}: expected non-empty string, got ${JSON.stringify(value)}`);
+      } else if (rule.oneOf && !rule.oneOf.includes(value)) {
+        errors.push(`${at}: must be one of ${rule.oneOf.map((v) => `"${v}"`).join(" | ")}, got "${value}"`);
+      }
+      return;
+    case "stringArray":
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected array, got ${describe(value)}`);
+        return;
+      }
+      value.forEach((item, i) => {
+        if (typeof item !== "string" || !UINT_RE.test(item)) {
+          errors.push(`${at}[${i}]: expected unsigned integer string, got ${JSON.stringify(item)}`);
+        }
+      });
+      return;
+    case "decimalArray":
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected array, got ${describe(value)}`);
+        return;
+      }
+      value.forEach((item, i) => {
+        if (typeof item !== "string" || !DECIMAL_RE.test(item)) {
+          errors.push(`${at}[${i}]: expected non-negative decimal string, got ${JSON.stringify(item)}`);
+        }
+      });
+      return;
+    case "object":
+      checkShape(value, rule.shape ?? {}, at, errors);
+      return;
+  }
+}
+
+/** Only for fields checkField already bounded to WAD_DECIMALS */
+function toWad(value: string): bigint {
+  const [whole, frac = ""] = value.split(".");
+  return BigInt(whole) * 10n ** 18n + BigInt(frac.padEnd(WAD_DECIMALS, "0") || "0");
+}
+
+/**
+ * Cross-field rules that mirror on-chain reverts, so a bad spec fails before
+ * any transaction is sent. Runs only on a spec whose fields all passed checkShape.
+ */
+function checkSemantics(spec: MarketSpec, errors: string[]) {
+  const { market } = spec;
+  const range = market.maxTick - market.minTick;
+  if (range <= 0) {
+    errors.push(`market.maxTick: must be greater than minTick (${market.minTick})`);
+  } else if (range % market.tickSpacing !== 0) {
+    errors.push(`market.tickSpacing: (maxTick - minTick)=${range} is not divisible by ${market.tickSpacing}`);
+  } else {
+    const numBins = range / market.tickSpacing;
+    if (numBins > MAX_BIN_COUNT) {
+      errors.push(`market: numBins=${numBins} exceeds MAX_BIN_COUNT=${MAX_BIN_COUNT}`);
+    }
+    if (market.baseFactors.mode === "custom") {
+      const factors = market.baseFactors.customWad ?? [];
+      if (factors.length !== numBins) {
+        errors.push(`market.baseFactors.customWad: expected ${numBins} entries, got ${factors.length}`);
+      }
+    }
+  }
+
+  if (market.baseFactors.mode === "custom") {
+    (market.baseFactors.customWad ?? []).forEach((raw, i) => {
+      const factor = BigInt(raw);
+      if (factor < MIN_FACTOR_WAD || factor > MAX_FACTOR_WAD) {
+        errors.push(`market.baseFactors.customWad[${i}]: ${raw} outside [MIN_FACTOR, MAX_FACTOR]`);
+      }
+    });
+  } else if (market.baseFactors.customWad?.length) {
+    errors.push(`market.baseFactors.customWad: only allowed when mode is "custom"`);
+  }
+  for (const shape of ["lognormal", "studentT", "histogram"] as const) {
+    const present = market.baseFactors[shape] !== undefined;
+    if (market.baseFactors.mode === shape && !present) {
+      errors.push(`market.baseFactors.${shape}: required when mode is "${shape}"`);
+    } else if (market.baseFactors.mode !== shape && present) {
+      errors.push(`market.baseFactors.${shape}: only allowed when mode is "${shape}"`);
+    }
+  }
+  const { lognormal, studentT, histogram, floorRatio } = market.baseFactors;
+  if (lognormal) {
+    if (Number(lognormal.spot) <= 0) errors.push(`market.baseFactors.lognormal.spot: must be > 0`);
+    if (Number(lognormal.vol) <= 0) errors.push(`market.baseFactors.lognormal.vol: must be > 0`);
+  }
+  if (studentT) {
+    if (Number(studentT.scale) <= 0) errors.push(`market.baseFactors.studentT.scale: must be > 0`);
+    if (Number(studentT.dof) <= 0) errors.push(`market.baseFactors.studentT.dof: must be > 0`);
+  }
+  if (histogram && histogram.samples.length === 0) {
+    errors.push(`market.baseFactors.histogram.samples: at least one sample required`);
+  }
+  if (floorRatio !== undefined) {
+    const ratio = Number(floorRatio);
+    if (ratio < 1 / MAX_FACTOR_RATIO || ratio > 1) {
+      errors.push(`market.baseFactors.floorRatio: must be within [1/${MAX_FACTOR_RATIO}, 1], got ${floorRatio}`);
+    }
+    if (market.baseFactors.mode === "custom") {
+      errors.push(`market.baseFactors.floorRatio: not used when mode is "custom"`);
+    }
+  }
+
+  if (market.liquidity.mode === "manual") {
+    if (!market.liquidity.manualAlphaWad || market.liquidity.manualAlphaWad === "0") {
+      errors.push(`market.liquidity.manualAlphaWad: required (non-zero) when mode is "manual"`);
+    }
+  } else {
+    const safety = market.liquidity.safetyFactor;
+    if (!safety) {
+      errors.push(`market.liquidity.safetyFactor: required when mode is "auto"`);
+    } else {
+      const safetyWad = toWad(safety);
+      if (safetyWad === 0n || safetyWad > 10n ** 18n) {
+        errors.push(`market.liquidity.safetyFactor: must be in (0, 1], got ${safety}`);
+      }
+    }
+  }
+
+  if (spec.risk) {
+    const lambda = toWad(spec.risk.lambda);
+    if (lambda === 0n || lambda >= 10n ** 18n) {
+      errors.push(`risk.lambda: must be in (0, 1), got ${spec.risk.lambda}`);
+    }
+  }
+
+  if (spec.feeWaterfall) {
+    const { phiLP, phiBS, phiTR } = spec.feeWaterfall;
+    const sum = toWad(phiLP) + toWad(phiBS) + toWad(phiTR);
+    if (sum !== 10n ** 18n) {
+      errors.push(`feeWaterfall: phiLP + phiBS + phiTR must equal 1, got ${phiLP} + ${phiBS} + ${phiTR}`);
+    }
+  }
+
+  if (spec.redstone && Buffer.byteLength(spec.redstone.feedId, "utf8") > 31) {
+    errors.push(`redstone.feedId: must fit in bytes32 (max 31 bytes)`);
+  }
+  if (market.oracle && Buffer.byteLength(market.oracle.feedId, "utf8") > 31) {
+    errors.push(`market.oracle.feedId: must fit in bytes32 (max 31 bytes)`);
+  }
+
+  if (spec.settlementRule) {
+    const { mode, maxSamples, maxDeviationBps } = spec.settlementRule;
+    if (mode === "closest") {
+      if (maxSamples || maxDeviationBps) {
+        errors.push(
+          `settlementRule: maxSamples and maxDeviationBps are only used when mode is "median" or "timeWeighted"`
+        );
+      }
+    } else {
+      if (maxSamples === undefined || maxSamples < 2 || maxSamples > MAX_SETTLEMENT_SAMPLES) {
+        errors.push(`settlementRule.maxSamples: must be within [2, ${MAX_SETTLEMENT_SAMPLES}] when mode is "${mode}"`);
+      }
+      if (maxDeviationBps !== undefined && maxDeviationBps > 10_000) {
+        errors.push(`settlementRule.maxDeviationBps: must be <= 10000, got ${maxDeviationBps}`);
+      }
+    }
+  }
+
+  if (spec.feePolicy !== undefined && spec.feePolicy.startsWith("0x") && !/^0x[0-9a-fA-F]{40}$/.test(spec.feePolicy)) {
+    errors.push(`feePolicy: invalid address ${spec.feePolicy}`);
+  }
+}
+
+/**
+ * Validate a parsed spec object. Collects every problem before throwing so ops
+ * can fix the file in one pass.
+ */
+export function validateMarketSpec(raw: unknown, source = "<inline>"): MarketSpec {
+  const errors: string[] = [];
+  checkShape(raw, SPEC_SHAPE, "", errors);
+  if (errors.length === 0) {
+    checkSemantics(raw as MarketSpec, errors);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid market spec ${source}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  const spec = raw as MarketSpec;
+  return { ...spec, skipStaticCall: spec.skipStaticCall ?? false };
+}
+
+/**
+ * Load a market spec from a `.json`, `.yaml` or `.yml` file.
+ */
+export function loadMarketSpec(specPath: string): MarketSpec {
+  const resolved = path.resolve(specPath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Market spec not found: ${resolved}`);
+  }
+  const text = fs.readFileSync(resolved, "utf8");
+  const ext = path.extname(resolved).toLowerCase();
+  let raw: unknown;
+  try {
+    if (ext === ".json") {
+      raw = JSON.parse(text);
+    } else if (ext === ".yaml" || ext === ".yml") {
+      raw = parseYaml(text);
+    } else {
+      throw new Error(`unsupported extension "${ext}" (use .json, .yaml or .yml)`);
+    }
+  } catch (err) {
+    throw new Error(`Failed to parse market spec ${resolved}: ${(err as Error).message}`);
+  }
+  return validateMarketSpec(raw, resolved);
+}
+
+/**
+ * Resolve the spec path from MARKET_SPEC or the first positional `.json/.yaml/.yml` argument.
+ */
+export function resolveMarketSpecPath(argv: string[] = process.argv.slice(2)): string {
+  const fromEnv = process.env.MARKET_SPEC;
+  if (fromEnv) return fromEnv;
+  const fromArgs = argv.find((arg) => /\.(json|ya?ml)$/i.test(arg));
+  if (fromArgs) return fromArgs;
+  throw new Error(
+    "Market spec path required: set MARKET_SPEC=<path> (or pass a .json/.yaml path as argument)"
+  );
+}
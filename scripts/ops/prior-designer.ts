@@ -0,0 +1,281 @@
+import { MAX_UINT256, WAD, wDiv } from "../lib/fixed-point-math";
+import { MAX_FACTOR, MIN_FACTOR } from "../lib/lazy-mul-segment-tree";
+import { calculateDeltaEtFromFactors } from "../lib/risk-math";
+
+/**
+ * Prior designer for `createMarket` baseFactors.
+ *
+ * A parametric or historical distribution over the settlement price is binned on the
+ * market's tick grid. Mass outside [minTick, maxTick) goes to the edge bins, because
+ * settlement clamps the tick into range. Each factor is proportional to its bin's
+ * probability, within LazyMulSegmentTree's [MIN_FACTOR, MAX_FACTOR]. `reportPrior` computes
+ * the ΔEₜ that createMarket derives from the factors (RiskMath, bit-exact). The risk gate
+ * requires that ΔEₜ to be covered by the backstop.
+ *
+ * Prices are in tick units (settlement value / 1e6).
+ */
+
+const SECONDS_PER_YEAR = 365 * 86400;
+/** Largest max/min factor ratio the tree accepts */
+export const MAX_FACTOR_RATIO = Number(MAX_FACTOR / MIN_FACTOR);
+
+export type PriorShape =
+  | { kind: "uniform" }
+  /** Driftless lognormal: median spot·exp(−σ²T/2), σ annualised over `horizonSec` */
+  | { kind: "lognormal"; spot: number; vol: number; horizonSec: number }
+  | { kind: "studentT"; center: number; scale: number; dof: number }
+  /** Empirical distribution of past outcomes; `pseudoCount` is added to every bin */
+  | { kind: "histogram"; samples: number[]; pseudoCount?: number };
+
+export interface PriorGrid {
+  minTick: number;
+  maxTick: number;
+  tickSpacing: number;
+}
+
+export interface PriorOptions {
+  /** Smallest bin weight relative to the largest (default and minimum 1/MAX_FACTOR_RATIO) */
+  floorRatio?: number;
+}
+
+export interface DesignedPrior {
+  factors: bigint[];
+  /** Target probability per bin, before flooring and rounding */
+  target: number[];
+  /** Probability the factors encode (factor / Σ factors) */
+  encoded: number[];
+  /** Bins raised to the floor */
+  flooredBins: number;
+}
+
+export interface PriorReport {
+  numBins: number;
+  alpha: bigint;
+  minFactor: bigint;
+  maxFactor: bigint;
+  rootSum: bigint;
+  /** Tail budget createMarket stores for this prior (WAD) */
+  deltaEt: bigint;
+  /** Backstop the risk gate compares ΔEₜ against (WAD) */
+  backstopNav: bigint;
+  /** ΔEₜ of the other markets settling in the same batch (WAD) */
+  committedDeltaEt: bigint;
+  /** ΔEₜ fits the backstop left after the committed batch exposure */
+  admissible: boolean;
+  /** backstopNav − committed − ΔEₜ, negative when inadmissible */
+  headroom: bigint;
+  /** Largest α whose ΔEₜ still fits that remaining backstop; MaxUint256 for a uniform prior */
+  maxAdmissibleAlpha: bigint;
+}
+
+// ============================================================
+// Distributions
+// ============================================================
+
+const ERFC_COEFFS = [
+  -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398, 1.48851587, -0.82215223,
+  0.17087277,
+];
+
+/** erfc with fractional error below 1.2e-7 (Numerical Recipes, Chebyshev fit) */
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const poly = ERFC_COEFFS.reduceRight((acc, coeff) => coeff + t * acc, 0);
+  const r = t * Math.exp(-z * z + poly);
+  return x >= 0 ? r : 2 - r;
+}
+
+function normalCdf(z: number): number {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+function lnGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9)
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  const y = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < 9; i++) sum += c[i] / (y + i);
+  const t = y + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (y + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** Continued fraction for the regularized incomplete beta (modified Lentz) */
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return h;
+}
+
+function incompleteBeta(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+function studentTCdf(t: number, dof: number): number {
+  const tail = 0.5 * incompleteBeta(dof / 2, 0.5, dof / (dof + t * t));
+  return t >= 0 ? 1 - tail : tail;
+}
+
+function shapeCdf(shape: Exclude<PriorShape, { kind: "uniform" | "histogram" }>): (price: number) => number {
+  switch (shape.kind) {
+    case "lognormal": {
+      if (!(shape.spot > 0) || !(shape.vol > 0) || !(shape.horizonSec > 0)) {
+        throw new Error("lognormal prior needs spot, vol and horizonSec > 0");
+      }
+      const s = shape.vol * Math.sqrt(shape.horizonSec / SECONDS_PER_YEAR);
+      const mu = Math.log(shape.spot) - (s * s) / 2;
+      return (price) => (price <= 0 ? 0 : normalCdf((Math.log(price) - mu) / s));
+    }
+    case "studentT": {
+      if (!(shape.scale > 0) || !(shape.dof > 0)) throw new Error("studentT prior needs scale and dof > 0");
+      return (price) => studentTCdf((price - shape.center) / shape.scale, shape.dof);
+    }
+  }
+}
+
+// ============================================================
+// Binning and factors
+// ============================================================
+
+function gridBins(grid: PriorGrid): number {
+  const range = grid.maxTick - grid.minTick;
+  if (grid.tickSpacing <= 0 || range <= 0 || range % grid.tickSpacing !== 0) {
+    throw new Error("Invalid ticks: (maxTick - minTick) must be divisible by tickSpacing");
+  }
+  return range / grid.tickSpacing;
+}
+
+/** Probability of each bin; tails are folded into the first and last bin */
+export function binProbabilities(grid: PriorGrid, shape: PriorShape): number[] {
+  const numBins = gridBins(grid);
+  let weights: number[];
+  if (shape.kind === "uniform") {
+    weights = Array.from({ length: numBins }, () => 1);
+  } else if (shape.kind === "histogram") {
+    if (shape.samples.length === 0) throw new Error("histogram prior needs at least one sample");
+    weights = Array.from({ length: numBins }, () => shape.pseudoCount ?? 0);
+    for (const sample of shape.samples) {
+      const bin = Math.floor((sample - grid.minTick) / grid.tickSpacing);
+      weights[Math.min(numBins - 1, Math.max(0, bin))] += 1;
+    }
+  } else {
+    const cdf = shapeCdf(shape);
+    weights = Array.from({ length: numBins }, (_, i) => {
+      const lower = i === 0 ? 0 : cdf(grid.minTick + i * grid.tickSpacing);
+      const upper = i === numBins - 1 ? 1 : cdf(grid.minTick + (i + 1) * grid.tickSpacing);
+      return Math.max(0, upper - lower);
+    });
+  }
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (!(total > 0)) throw new Error(`${shape.kind} prior puts no mass on the grid`);
+  return weights.map((w) => w / total);
+}
+
+/**
+ * WAD factors proportional to `probabilities`, floored at `floorRatio` of the largest.
+ * The smallest factor is 1 WAD when the spread allows, so a uniform prior is all-WAD;
+ * wider spreads are anchored at MAX_FACTOR instead.
+ */
+export function factorsFromProbabilities(
+  probabilities: number[],
+  options: PriorOptions = {}
+): { factors: bigint[]; flooredBins: number } {
+  const floorRatio = options.floorRatio ?? 1 / MAX_FACTOR_RATIO;
+  if (!(floorRatio >= 1 / MAX_FACTOR_RATIO && floorRatio <= 1)) {
+    throw new Error(`floorRatio must be within [1/${MAX_FACTOR_RATIO}, 1]`);
+  }
+  const peak = Math.max(...probabilities);
+  if (!(peak > 0)) throw new Error("Prior has no mass");
+  const floor = peak * floorRatio;
+  const weights = probabilities.map((p) => Math.max(p, floor));
+  const flooredBins = probabilities.filter((p) => p < floor).length;
+
+  const lowest = Math.min(...weights);
+  const [anchor, anchorFactor] = peak / lowest <= Number(MAX_FACTOR / WAD) ? [lowest, WAD] : [peak, MAX_FACTOR];
+  const factors = weights.map((w) => {
+    // 12 significant digits survive the float ratio; the rest is padding
+    const factor = (BigInt(Math.round((w / anchor) * 1e12)) * anchorFactor) / 10n ** 12n;
+    return factor < MIN_FACTOR ? MIN_FACTOR : factor > MAX_FACTOR ? MAX_FACTOR : factor;
+  });
+  return { factors, flooredBins };
+}
+
+export function designPrior(grid: PriorGrid, shape: PriorShape, options: PriorOptions = {}): DesignedPrior {
+  const target = binProbabilities(grid, shape);
+  const { factors, flooredBins } = factorsFromProbabilities(target, options);
+  const rootSum = factors.reduce((sum, f) => sum + f, 0n);
+  const encoded = factors.map((f) => Number(wDiv(f, rootSum)) / Number(WAD));
+  return { factors, target, encoded, flooredBins };
+}
+
+/**
+ * ΔEₜ of `factors` at `alpha` against the backstop. RiskModule.gateCreateMarket checks the market
+ * alone; settlement (`_recordPnlToBatch`) also requires the batch's ΔEₜ sum to fit, so pass the
+ * ΔEₜ other markets of the batch already carry as `committedDeltaEt`.
+ */
+export function reportPrior(
+  factors: bigint[],
+  alpha: bigint,
+  backstopNav: bigint,
+  committedDeltaEt: bigint = 0n
+): PriorReport {
+  if (factors.length === 0) throw new Error("Prior has no bins");
+  for (const [i, f] of factors.entries()) {
+    if (f < MIN_FACTOR || f > MAX_FACTOR) throw new Error(`Factor ${i} = ${f} outside [MIN_FACTOR, MAX_FACTOR]`);
+  }
+  const minFactor = factors.reduce((min, f) => (f < min ? f : min), MAX_UINT256);
+  const maxFactor = factors.reduce((max, f) => (f > max ? f : max), 0n);
+  const rootSum = factors.reduce((sum, f) => sum + f, 0n);
+  const deltaEt = calculateDeltaEtFromFactors(alpha, factors.length, factors);
+
+  // ΔEₜ = ⌈α · L⌉ with L = calculateDeltaEt at α = 1, so it fits exactly while α ≤ B / L
+  const lnRatio = calculateDeltaEtFromFactors(WAD, factors.length, factors);
+  const available = backstopNav > committedDeltaEt ? backstopNav - committedDeltaEt : 0n;
+  const maxAdmissibleAlpha = lnRatio === 0n ? MAX_UINT256 : (available * WAD) / lnRatio;
+
+  return {
+    numBins: factors.length,
+    alpha,
+    minFactor,
+    maxFactor,
+    rootSum,
+    deltaEt,
+    backstopNav,
+    committedDeltaEt,
+    admissible: committedDeltaEt + deltaEt <= backstopNav,
+    headroom: backstopNav - committedDeltaEt - deltaEt,
+    maxAdmissibleAlpha,
+  };
+}
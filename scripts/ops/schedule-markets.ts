@@ -0,0 +1,311 @@
+import hre from "hardhat";
+import { loadEnvironment, recordDeployment, recordMarket } from "../utils/environment";
+import { createSafeBatch, isSafeExportMode, resolveSafeAddress, sendOrQueue, writeSafeBatch } from "../utils/safe";
+import { formatRevert } from "../utils/revert";
+import type { Environment, MarketRecord } from "../types/environment";
+import type { SignalsCore } from "../../typechain-types";
+import {
+  computeNumBins,
+  resolveAlphaWad,
+  resolveBaseFactors,
+  resolveFeePolicy,
+  resolveMarketOracle,
+} from "./create-market";
+import { reportPrior } from "./prior-designer";
+import { loadMarketSpec, resolveMarketSpecPath, type MarketSpec } from "./market-spec";
+
+const BATCH_SECONDS = 86400;
+const MAX_SCHEDULE_DAYS = 60;
+
+interface ScheduledMarket {
+  batchId: number;
+  startTimestamp: number;
+  endTimestamp: number;
+  settlementTimestamp: number;
+}
+
+/**
+ * Recentre the template range on the reference price, keeping its width and tick spacing.
+ * Ticks are prices, so a range that would reach below zero starts at zero instead.
+ */
+export function centreTicks(
+  market: Pick<MarketSpec["market"], "minTick" | "maxTick" | "tickSpacing">,
+  referencePrice: number
+): { minTick: number; maxTick: number } {
+  const width = market.maxTick - market.minTick;
+  const centred = Math.floor((referencePrice - width / 2) / market.tickSpacing) * market.tickSpacing;
+  const minTick = Math.max(centred, 0);
+  return { minTick, maxTick: minTick + width };
+}
+
+/**
+ * Template market recentred on the reference price: the tick range (see centreTicks) and the centre
+ * of a lognormal (`spot`) or studentT (`center`) prior. Custom and histogram priors are kept as is.
+ */
+export function recentreMarket(market: MarketSpec["market"], referencePrice: number): MarketSpec["market"] {
+  const { lognormal, studentT } = market.baseFactors;
+  const price = referencePrice.toString();
+  return {
+    ...market,
+    ...centreTicks(market, referencePrice),
+    baseFactors: {
+      ...market.baseFactors,
+      ...(lognormal ? { lognormal: { ...lognormal, spot: price } } : {}),
+      ...(studentT ? { studentT: { ...studentT, center: price } } : {}),
+    },
+  };
+}
+
+/**
+ * Settlement lands exactly on the batch boundary (batchId = settlement / BATCH_SECONDS);
+ * trading ends `settlementDelaySec` before it and lasts `durationSec`, starting no earlier than `now`.
+ */
+export function scheduleForBatch(market: MarketSpec["market"], batchId: number, now = 0): ScheduledMarket {
+  const settlementTimestamp = batchId * BATCH_SECONDS;
+  const endTimestamp = settlementTimestamp - market.settlementDelaySec;
+  return {
+    batchId,
+    startTimestamp: Math.max(endTimestamp - market.durationSec, now),
+    endTimestamp,
+    settlementTimestamp,
+  };
+}
+
+/**
+ * Markets to create for `days` batches from `firstBatchId`. Batches already covered are skipped,
+ * and so are batches whose trading would have ended by `now` (a late run near the batch boundary).
+ */
+export function planSchedule(
+  market: MarketSpec["market"],
+  firstBatchId: number,
+  days: number,
+  now: number,
+  covered: Map<number, string>
+): { markets: ScheduledMarket[]; skipped: { batchId: number; reason: string }[] } {
+  const markets: ScheduledMarket[] = [];
+  const skipped: { batchId: number; reason: string }[] = [];
+  for (let batchId = firstBatchId; batchId < firstBatchId + days; batchId++) {
+    const existing = covered.get(batchId);
+    const timing = scheduleForBatch(market, batchId, now);
+    if (existing) {
+      skipped.push({ batchId, reason: `already covered by ${existing}` });
+    } else if (timing.endTimestamp <= now) {
+      skipped.push({ batchId, reason: `trading would end at ${timing.endTimestamp}, not after now=${now}` });
+    } else {
+      markets.push(timing);
+    }
+  }
+  return { markets, skipped };
+}
+
+/**
+ * Scan existing markets for batches of this series that are already covered, and for the ΔEₜ each
+ * batch has committed.
+ *
+ * Batches are one-to-many; a batch only counts as covered by a market of the same series
+ * (same settlement timestamp, spacing and bin count) or by one still queued in a Safe batch.
+ * Every market of a batch adds its ΔEₜ to the batch sum the backstop must cover at settlement.
+ */
+export async function findCoveredBatches(
+  core: SignalsCore,
+  market: MarketSpec["market"],
+  numBins: number,
+  specPath: string,
+  records: Record<string, MarketRecord> = {}
+): Promise<{ covered: Map<number, string>; committedDeltaEt: Map<number, bigint>; lastMarketId: bigint }> {
+  const covered = new Map<number, string>();
+  const committedDeltaEt = new Map<number, bigint>();
+  const lastMarketId = await core.nextMarketId();
+  for (let id = 1n; id <= lastMarketId; id++) {
+    const existing = await core.markets(id);
+    if (existing.numBins === 0n) continue;
+    const batchId = Number(existing.settlementTimestamp / BigInt(BATCH_SECONDS));
+    committedDeltaEt.set(batchId, (committedDeltaEt.get(batchId) ?? 0n) + existing.deltaEt);
+    const sameSeries =
+      existing.tickSpacing === BigInt(market.tickSpacing) &&
+      existing.numBins === BigInt(numBins) &&
+      Number(existing.settlementTimestamp) === scheduleForBatch(market, batchId).settlementTimestamp;
+    if (sameSeries) covered.set(batchId, `market ${id.toString()}`);
+  }
+  for (const record of Object.values(records)) {
+    if (record.status === "queued" && record.spec === specPath) {
+      covered.set(Number(record.batchId), `queued market ${record.marketId}`);
+    }
+  }
+  return { covered, committedDeltaEt, lastMarketId };
+}
+
+function parseScheduleEnv(): { days: number; referencePrice: number } {
+  const days = Number(process.env.SCHEDULE_DAYS ?? "7");
+  if (!Number.isInteger(days) || days <= 0 || days > MAX_SCHEDULE_DAYS) {
+    throw new Error(`SCHEDULE_DAYS must be an integer in [1, ${MAX_SCHEDULE_DAYS}] (got ${process.env.SCHEDULE_DAYS})`);
+  }
+  const rawPrice = process.env.REFERENCE_PRICE;
+  if (!rawPrice) {
+    throw new Error("REFERENCE_PRICE is required (USD price the tick range is centred on, e.g. 85000)");
+  }
+  const referencePrice = Number(rawPrice);
+  if (!Number.isFinite(referencePrice) || referencePrice <= 0) {
+    throw new Error(`Invalid REFERENCE_PRICE: ${rawPrice}`);
+  }
+  return { days, referencePrice };
+}
+
+export async function scheduleMarketsAction(env: Environment) {
+  const { ethers, network } = hre;
+  console.log(`[schedule-markets] environment=${env} network=${network.name}`);
+
+  const specPath = resolveMarketSpecPath();
+  const spec = loadMarketSpec(specPath);
+  const { days, referencePrice } = parseScheduleEnv();
+  console.log(`[schedule-markets] template=${specPath} days=${days} referencePrice=${referencePrice}`);
+  const ignored = (
+    ["vault", "risk", "feeWaterfall", "capitalStack", "settlement", "redstone", "settlementRule"] as const
+  ).filter((section) => spec[section]);
+  if (ignored.length) {
+    console.warn(`[schedule-markets] template sections ignored (use create-market to apply): ${ignored.join(", ")}`);
+  }
+
+  const envData = loadEnvironment(env);
+  const coreAddress = envData.contracts.SignalsCoreProxy;
+  if (!coreAddress) throw new Error("Missing SignalsCoreProxy in environment file");
+  const feePolicyAddress = resolveFeePolicy(spec.feePolicy, envData.contracts);
+  const oracle = resolveMarketOracle(spec.market.oracle);
+
+  const [deployer] = await ethers.getSigners();
+  const core = await ethers.getContractAt("SignalsCore", coreAddress);
+  if (!(await core.isVaultSeeded())) {
+    throw new Error("Vault is not seeded; run create-market with spec.vault first");
+  }
+
+  const market = recentreMarket(spec.market, referencePrice);
+  const { minTick, maxTick } = market;
+  if (minTick === 0 && referencePrice < (maxTick - minTick) / 2) {
+    console.warn(`[schedule-markets] range clamped at tick 0; REFERENCE_PRICE is below half the range width`);
+  }
+  if (spec.market.baseFactors.mode === "histogram") {
+    console.warn("[schedule-markets] histogram prior samples are absolute prices and are not recentred");
+  }
+  const numBins = computeNumBins(minTick, maxTick, spec.market.tickSpacing);
+  console.log(`[schedule-markets] range=[${minTick}, ${maxTick}) spacing=${spec.market.tickSpacing} bins=${numBins}`);
+
+  // NAV / drawdown do not move between creations (no batch runs in between), so alpha is sized once
+  const [lambdaWad, kDrawdownWad, enforceAlpha] = await core.getRiskConfig();
+  const alphaWad = await resolveAlphaWad(spec.market.liquidity, {
+    navWad: await core.getVaultNav(),
+    drawdownWad: await core.getVaultDrawdown(),
+    lambdaWad,
+    kDrawdownWad,
+    numBins,
+    enforceAlpha,
+    riskModuleAddress: await core.riskModule(),
+  });
+  console.log(`[schedule-markets] alphaWad=${alphaWad.toString()}`);
+
+  const { covered, committedDeltaEt, lastMarketId } = await findCoveredBatches(
+    core,
+    spec.market,
+    numBins,
+    specPath,
+    envData.markets
+  );
+
+  const latestBlock = await ethers.provider.getBlock("latest");
+  const now = latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
+  const firstBatchId = Math.floor(now / BATCH_SECONDS) + 1;
+  const plan = planSchedule(spec.market, firstBatchId, days, now, covered);
+  for (const { batchId, reason } of plan.skipped) {
+    console.log(`[schedule-markets] batchId=${batchId} ${reason} (skip)`);
+  }
+
+  const safeBatch = isSafeExportMode()
+    ? createSafeBatch(
+        `schedule-markets-${firstBatchId}-${firstBatchId + days - 1}`,
+        (await ethers.provider.getNetwork()).chainId,
+        resolveSafeAddress(await core.owner())
+      )
+    : undefined;
+
+  const [backstopNav] = await core.getCapitalStack();
+  const created: string[] = [];
+  let marketId = lastMarketId;
+  for (const timing of plan.markets) {
+    const { batchId } = timing;
+    // Parametric priors are binned on the recentred range, with the horizon to this market's settlement
+    const baseFactors = resolveBaseFactors(market, timing.settlementTimestamp - now);
+    const prior = reportPrior(baseFactors, alphaWad, backstopNav, committedDeltaEt.get(batchId) ?? 0n);
+    if (!prior.admissible) {
+      throw new Error(
+        `Prior for batchId=${batchId} not admissible: deltaEt=${prior.deltaEt} plus committed=${prior.committedDeltaEt} ` +
+          `exceeds backstop=${backstopNav}; use alpha <= ${prior.maxAdmissibleAlpha}, a flatter prior or a larger backstop`
+      );
+    }
+    const args = [
+      minTick,
+      maxTick,
+      spec.market.tickSpacing,
+      timing.startTimestamp,
+      timing.endTimestamp,
+      timing.settlementTimestamp,
+      numBins,
+      alphaWad,
+      feePolicyAddress,
+      baseFactors,
+    ] as const;
+    marketId += 1n;
+
+    let txHash: string | undefined;
+    if (safeBatch) {
+      if (oracle) {
+        await sendOrQueue(safeBatch, core, "createMarketWithOracle", [...args, oracle]);
+      } else {
+        await sendOrQueue(safeBatch, core, "createMarket", args);
+      }
+    } else {
+      try {
+        marketId = oracle
+          ? await core.createMarketWithOracle.staticCall(...args, oracle)
+          : await core.createMarket.staticCall(...args);
+      } catch (err) {
+        console.error(`[schedule-markets] createMarket reverted: ${formatRevert(err)}`);
+        throw err;
+      }
+      const tx = oracle ? await core.createMarketWithOracle(...args, oracle) : await core.createMarket(...args);
+      await tx.wait();
+      txHash = tx.hash;
+    }
+
+    recordMarket(env, {
+      marketId: marketId.toString(),
+      status: safeBatch ? "queued" : "created",
+      alphaWad: alphaWad.toString(),
+      batchId: batchId.toString(),
+      feePolicy: feePolicyAddress,
+      oracle: spec.market.oracle,
+      txHash,
+      spec: specPath,
+      createdAt: Math.floor(Date.now() / 1000),
+    });
+    created.push(marketId.toString());
+    console.log(
+      `[schedule-markets] batchId=${batchId} marketId=${marketId.toString()} start=${timing.startTimestamp} end=${timing.endTimestamp} settlement=${timing.settlementTimestamp}${safeBatch ? " (queued)" : ""}`
+    );
+  }
+
+  if (created.length === 0) {
+    console.log("[schedule-markets] nothing to create");
+    return;
+  }
+  const safeBatchPath = safeBatch ? writeSafeBatch(env, safeBatch) : undefined;
+  const { record } = recordDeployment(env, {
+    action: "schedule-markets",
+    deployer: deployer.address,
+    meta: {
+      marketIds: created,
+      skippedBatches: plan.skipped.map(({ batchId }) => batchId),
+      referencePrice,
+      ...(safeBatchPath ? { safeBatch: safeBatchPath, pendingEnv: { markets: created } } : {}),
+    },
+  });
+  console.log(`[schedule-markets] created ${created.length} market(s) (version=${record.version})`);
+}
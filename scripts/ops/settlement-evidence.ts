@@ -0,0 +1,346 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { parseUnits } from "ethers";
+import type { Environment } from "../types/environment";
+
+/**
+ * Secondary settlement evidence.
+ *
+ * A failed market is settled by hand through `finalizeSecondarySettlement`. Instead of a typed-in
+ * number, the value comes from a rule announced before Tset: every source's observation closest to
+ * Tset (ties to the earlier one, as `_updateCandidate` breaks them), sources farther than
+ * `maxDistanceSec` dropped, then the median in feed units (Redstone's pickMedian, even counts
+ * average down). The median is scaled to 6 decimals like `_convertPriceToSettlementValue`, and the
+ * tick is clamped and aligned like `_toSettlementTick`. Inputs (with file hashes), the rule, the
+ * result and the transaction hash are written to `releases/<env>/settlements/`.
+ */
+
+export interface EvidenceSource {
+  name: string;
+  /** CSV (header row) or JSON (array of objects); relative paths resolve from the rule file */
+  file: string;
+  timestampColumn?: string;
+  priceColumn?: string;
+  /** Unit of numeric timestamps (default "s"); ISO 8601 strings are also accepted */
+  timestampUnit?: "s" | "ms";
+}
+
+export interface EvidenceRule {
+  method: "median";
+  /** Largest |observation − Tset| a source may contribute (seconds) */
+  maxDistanceSec: number;
+  /** Fewest sources that must contribute */
+  minSources: number;
+  sources: EvidenceSource[];
+}
+
+export interface PriceObservation {
+  timestamp: number;
+  /** Decimal string as read from the source */
+  price: string;
+}
+
+export interface EvidenceInput {
+  name: string;
+  file: string;
+  sha256: string;
+  rows: number;
+  /** Observation closest to Tset, if the source has any */
+  observation?: PriceObservation;
+  distanceSec?: number;
+  /** Price in feed units (feedDecimals) */
+  priceFeedUnits?: string;
+  included: boolean;
+  reason?: string;
+}
+
+export interface SettlementMarket {
+  minTick: bigint;
+  maxTick: bigint;
+  tickSpacing: bigint;
+}
+
+export interface SettlementDerivation {
+  settlementTimestamp: number;
+  feedDecimals: number;
+  rule: EvidenceRule;
+  ruleFile: string;
+  ruleSha256: string;
+  inputs: EvidenceInput[];
+  medianFeedUnits: bigint;
+  settlementValue: bigint;
+  settlementTick: bigint;
+  bin: bigint;
+  binLowerTick: bigint;
+  binUpperTick: bigint;
+}
+
+export interface SettlementEvidence {
+  version: 1;
+  environment: Environment;
+  network: string;
+  chainId: string;
+  core: string;
+  marketId: string;
+  settlementTimestamp: number;
+  market: { minTick: string; maxTick: string; tickSpacing: string };
+  rule: EvidenceRule;
+  ruleFile: string;
+  ruleSha256: string;
+  feedDecimals: number;
+  inputs: EvidenceInput[];
+  result: {
+    medianFeedUnits: string;
+    settlementValue: string;
+    settlementTick: string;
+    bin: string;
+    binLowerTick: string;
+    binUpperTick: string;
+  };
+  txHash?: string;
+  createdAt: number;
+}
+
+// ============================================================
+// On-chain conversions
+// ============================================================
+
+/** `_convertPriceToSettlementValue`: feed units to 6 decimals, truncating when the feed has more */
+export function toSettlementValue(priceFeedUnits: bigint, feedDecimals: number): bigint {
+  return feedDecimals <= 6
+    ? priceFeedUnits * 10n ** BigInt(6 - feedDecimals)
+    : priceFeedUnits / 10n ** BigInt(feedDecimals - 6);
+}
+
+/** `_toSettlementTick`: value / 1e6, clamped to [minTick, maxTick − tickSpacing] and aligned down */
+export function toSettlementTick(market: SettlementMarket, settlementValue: bigint): bigint {
+  let tick = settlementValue / 1_000_000n;
+  const lastValidTick = market.maxTick - market.tickSpacing;
+  if (tick < market.minTick) tick = market.minTick;
+  if (tick > lastValidTick) tick = lastValidTick;
+  return market.minTick + ((tick - market.minTick) / market.tickSpacing) * market.tickSpacing;
+}
+
+/** NumericArrayLib.pickMedian: middle value, or the floored mean of the two middle values */
+export function pickMedian(values: bigint[]): bigint {
+  if (values.length === 0) throw new Error("Cannot pick the median of no values");
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2n : sorted[mid];
+}
+
+// ============================================================
+// Sources
+// ============================================================
+
+function sha256(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function toFeedUnits(price: string, feedDecimals: number): bigint {
+  if (!/^\d+(\.\d+)?$/.test(price)) throw new Error(`Invalid price "${price}"`);
+  const [whole, fraction = ""] = price.split(".");
+  // Digits past the feed's precision are dropped, as a Redstone node would
+  return parseUnits(`${whole}.${fraction.slice(0, feedDecimals) || "0"}`, feedDecimals);
+}
+
+function parseTimestamp(raw: unknown, unit: "s" | "ms"): number {
+  const text = String(raw).trim();
+  if (/^\d+$/.test(text)) return unit === "ms" ? Math.floor(Number(text) / 1000) : Number(text);
+  const ms = Date.parse(text);
+  if (Number.isNaN(ms)) throw new Error(`Invalid timestamp "${text}"`);
+  return Math.floor(ms / 1000);
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+}
+
+/** Observations from a CSV or JSON file */
+export function readPriceSeries(content: string, source: EvidenceSource): PriceObservation[] {
+  const timestampColumn = source.timestampColumn ?? "timestamp";
+  const priceColumn = source.priceColumn ?? "price";
+  const unit = source.timestampUnit ?? "s";
+  let rows: Record<string, unknown>[];
+  if (source.file.toLowerCase().endsWith(".json")) {
+    rows = JSON.parse(content) as Record<string, unknown>[];
+    if (!Array.isArray(rows)) throw new Error(`${source.name}: JSON source must be an array of objects`);
+  } else {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+    if (lines.length === 0) return [];
+    const header = splitCsvLine(lines[0]);
+    rows = lines.slice(1).map((line) => {
+      const cells = splitCsvLine(line);
+      return Object.fromEntries(header.map((column, i) => [column, cells[i]]));
+    });
+  }
+  return rows.map((row, i) => {
+    if (row[timestampColumn] === undefined || row[priceColumn] === undefined) {
+      throw new Error(`${source.name}: row ${i + 1} lacks "${timestampColumn}" or "${priceColumn}"`);
+    }
+    return { timestamp: parseTimestamp(row[timestampColumn], unit), price: String(row[priceColumn]).trim() };
+  });
+}
+
+/** Closest observation to Tset; ties go to the earlier one */
+export function closestObservation(series: PriceObservation[], settlementTimestamp: number) {
+  let best: PriceObservation | undefined;
+  for (const obs of series) {
+    if (!best) {
+      best = obs;
+      continue;
+    }
+    const distance = Math.abs(obs.timestamp - settlementTimestamp);
+    const bestDistance = Math.abs(best.timestamp - settlementTimestamp);
+    if (distance < bestDistance || (distance === bestDistance && obs.timestamp < best.timestamp)) best = obs;
+  }
+  return best;
+}
+
+// ============================================================
+// Rule
+// ============================================================
+
+export function validateEvidenceRule(raw: unknown): EvidenceRule {
+  const rule = raw as Partial<EvidenceRule>;
+  const errors: string[] = [];
+  if (rule?.method !== "median") errors.push(`method: must be "median"`);
+  if (!Number.isSafeInteger(rule?.maxDistanceSec) || (rule.maxDistanceSec as number) < 0) {
+    errors.push("maxDistanceSec: must be a non-negative integer");
+  }
+  if (!Number.isSafeInteger(rule?.minSources) || (rule.minSources as number) < 1) {
+    errors.push("minSources: must be a positive integer");
+  }
+  if (!Array.isArray(rule?.sources) || rule.sources.length === 0) {
+    errors.push("sources: must be a non-empty array");
+  } else {
+    const names = new Set<string>();
+    rule.sources.forEach((source, i) => {
+      if (!source?.name) errors.push(`sources[${i}].name: required`);
+      else if (names.has(source.name)) errors.push(`sources[${i}].name: duplicate "${source.name}"`);
+      else names.add(source.name);
+      if (!source?.file) errors.push(`sources[${i}].file: required`);
+      if (source?.timestampUnit !== undefined && source.timestampUnit !== "s" && source.timestampUnit !== "ms") {
+        errors.push(`sources[${i}].timestampUnit: must be "s" or "ms"`);
+      }
+    });
+    if (Number.isSafeInteger(rule.minSources) && (rule.minSources as number) > rule.sources.length) {
+      errors.push(`minSources: exceeds the ${rule.sources.length} configured sources`);
+    }
+  }
+  if (errors.length > 0) throw new Error(`Invalid settlement evidence rule:\n  - ${errors.join("\n  - ")}`);
+  return rule as EvidenceRule;
+}
+
+/** Apply the rule in `ruleFile` at Tset and convert the result the way the contracts do */
+export function deriveSecondarySettlement(
+  ruleFile: string,
+  context: { settlementTimestamp: number; feedDecimals: number; market: SettlementMarket }
+): SettlementDerivation {
+  const { settlementTimestamp, feedDecimals, market } = context;
+  const ruleContent = fs.readFileSync(ruleFile, "utf8");
+  const rule = validateEvidenceRule(JSON.parse(ruleContent));
+  const baseDir = path.dirname(path.resolve(ruleFile));
+
+  const inputs: EvidenceInput[] = rule.sources.map((source) => {
+    const content = fs.readFileSync(path.resolve(baseDir, source.file));
+    const series = readPriceSeries(content.toString("utf8"), source);
+    const input: EvidenceInput = {
+      name: source.name,
+      file: source.file,
+      sha256: sha256(content),
+      rows: series.length,
+      included: false,
+    };
+    const observation = closestObservation(series, settlementTimestamp);
+    if (!observation) return { ...input, reason: "no observations" };
+    const distanceSec = Math.abs(observation.timestamp - settlementTimestamp);
+    const priceFeedUnits = toFeedUnits(observation.price, feedDecimals).toString();
+    if (distanceSec > rule.maxDistanceSec) {
+      return { ...input, observation, distanceSec, priceFeedUnits, reason: `beyond maxDistanceSec` };
+    }
+    return { ...input, observation, distanceSec, priceFeedUnits, included: true };
+  });
+
+  const included = inputs.filter((input) => input.included);
+  if (included.length < rule.minSources) {
+    throw new Error(
+      `Only ${included.length} of ${rule.sources.length} sources are within ${rule.maxDistanceSec}s of Tset ` +
+        `(minSources ${rule.minSources})`
+    );
+  }
+  const medianFeedUnits = pickMedian(included.map((input) => BigInt(input.priceFeedUnits!)));
+  const settlementValue = toSettlementValue(medianFeedUnits, feedDecimals);
+  const settlementTick = toSettlementTick(market, settlementValue);
+  const bin = (settlementTick - market.minTick) / market.tickSpacing;
+  return {
+    settlementTimestamp,
+    feedDecimals,
+    rule,
+    ruleFile,
+    ruleSha256: sha256(ruleContent),
+    inputs,
+    medianFeedUnits,
+    settlementValue,
+    settlementTick,
+    bin,
+    binLowerTick: settlementTick,
+    binUpperTick: settlementTick + market.tickSpacing,
+  };
+}
+
+export function buildSettlementEvidence(
+  derivation: SettlementDerivation,
+  meta: {
+    environment: Environment;
+    network: string;
+    chainId: bigint;
+    core: string;
+    marketId: bigint;
+    market: SettlementMarket;
+    txHash?: string;
+  }
+): SettlementEvidence {
+  const { market } = meta;
+  return {
+    version: 1,
+    environment: meta.environment,
+    network: meta.network,
+    chainId: meta.chainId.toString(),
+    core: meta.core,
+    marketId: meta.marketId.toString(),
+    settlementTimestamp: derivation.settlementTimestamp,
+    market: {
+      minTick: market.minTick.toString(),
+      maxTick: market.maxTick.toString(),
+      tickSpacing: market.tickSpacing.toString(),
+    },
+    rule: derivation.rule,
+    ruleFile: derivation.ruleFile,
+    ruleSha256: derivation.ruleSha256,
+    feedDecimals: derivation.feedDecimals,
+    inputs: derivation.inputs,
+    result: {
+      medianFeedUnits: derivation.medianFeedUnits.toString(),
+      settlementValue: derivation.settlementValue.toString(),
+      settlementTick: derivation.settlementTick.toString(),
+      bin: derivation.bin.toString(),
+      binLowerTick: derivation.binLowerTick.toString(),
+      binUpperTick: derivation.binUpperTick.toString(),
+    },
+    txHash: meta.txHash,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Write the evidence to `releases/<env>/settlements/` and return the file path.
+ */
+export function writeSettlementEvidence(evidence: SettlementEvidence): string {
+  const dir = path.join("releases", evidence.environment, "settlements");
+  fs.mkdirSync(dir, { recursive: true });
+  const filepath = path.join(dir, `market-${evidence.marketId}-${evidence.createdAt}.json`);
+  fs.writeFileSync(filepath, JSON.stringify(evidence, null, 2));
+  return filepath;
+}
@@ -0,0 +1,329 @@
+import hre from "hardhat";
+import { formatUnits, parseUnits } from "ethers";
+import type { SignalsCore } from "../../typechain-types";
+import { loadEnvironment } from "../utils/environment";
+import { revertName } from "../utils/revert";
+import { MathRevertError } from "../lib/math-error";
+import { processBatch, type BatchOutcome, type BatchPnlInput } from "../lib/vault-accounting";
+import type { Environment } from "../types/environment";
+
+/**
+ * Settlement dry run.
+ *
+ * Before `finalizePrimarySettlement` / `finalizeSecondarySettlement`, shows what settling a market
+ * at a candidate value records (`previewSettlement`: tick, lt, ftot, payout reserve, ΔEₜ) and what
+ * `processDailyBatch` would then emit for the market's batch. Every other unsettled market of the
+ * batch is previewed at the value its own finalization would use (candidate, or the aggregate of
+ * stored samples under a multi-sample rule), added to the P&L already recorded for the batch, and
+ * replayed through scripts/lib/vault-accounting against the current vault and capital stack.
+ */
+
+const BATCH_SECONDS = 86400n;
+const USD_DECIMALS = 6;
+const BPS_DENOMINATOR = 10_000n;
+
+/** SignalsCoreStorage SETTLEMENT_RULE_* */
+const SETTLEMENT_RULE_MEDIAN = 1n;
+const SETTLEMENT_RULE_TIME_WEIGHTED = 2n;
+
+export type PreviewValueSource = "override" | "candidate" | "median" | "timeWeighted";
+
+export interface MarketSettlementPreview {
+  marketId: bigint;
+  /**
+   * settled: already recorded in the batch snapshot; previewed: would be settled at `settlementValue`;
+   * wouldFail: its samples diverge beyond maxDeviationBps; missing: failed or without a sample
+   */
+  status: "settled" | "previewed" | "wouldFail" | "missing";
+  valueSource?: PreviewValueSource;
+  settlementValue?: bigint;
+  settlementTick?: bigint;
+  lt?: bigint;
+  ftot?: bigint;
+  payoutReserve?: bigint;
+  deltaEt?: bigint;
+  /** Largest sample deviation from the aggregate (multi-sample rule only) */
+  deviationBps?: bigint;
+}
+
+/** DailyBatchProcessed arguments */
+export interface DailyBatchProjection {
+  lt: bigint;
+  ftot: bigint;
+  ft: bigint;
+  gt: bigint;
+  navPre: bigint;
+  batchPrice: bigint;
+  navPost: bigint;
+  pricePost: bigint;
+  drawdown: bigint;
+}
+
+export interface SettlementPreviewReport {
+  marketId: bigint;
+  batchId: bigint;
+  markets: MarketSettlementPreview[];
+  /** Snapshot inputs already recorded by settled markets */
+  recorded: BatchPnlInput;
+  /** Recorded inputs plus every previewed market */
+  projected: BatchPnlInput;
+  /** Replay of processDailyBatch; absent when the replay reverts */
+  dailyBatch?: DailyBatchProjection;
+  outcome?: BatchOutcome;
+  /** Error the batch would revert with (e.g. CatastrophicLoss, GrantExceedsTailBudget) */
+  revert?: string;
+  /** Conditions under which the projection differs from the eventual batch */
+  warnings: string[];
+}
+
+/** Median as SettlementSampleLib.median: an even count averages the middle two, toward zero */
+export function medianOf(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2n;
+}
+
+/** SettlementSampleLib.timeWeightedAverage: trapezoids over the sampled price path */
+export function timeWeightedAverageOf(values: bigint[], timestamps: bigint[]): bigint {
+  const samples = values.map((value, i) => ({ value, ts: timestamps[i] })).sort((a, b) => (a.ts < b.ts ? -1 : 1));
+  const span = samples[samples.length - 1].ts - samples[0].ts;
+  if (span === 0n) return samples[0].value;
+  let area = 0n;
+  for (let i = 1; i < samples.length; i++) {
+    area += (samples[i - 1].value + samples[i].value) * (samples[i].ts - samples[i - 1].ts);
+  }
+  return area / (2n * span);
+}
+
+/** SettlementSampleLib.maxDeviationBps, rounded up */
+export function maxDeviationBpsOf(values: bigint[], aggregate: bigint): bigint {
+  const abs = (x: bigint) => (x < 0n ? -x : x);
+  const base = abs(aggregate);
+  let deviation = 0n;
+  for (const value of values) {
+    const diff = abs(value - aggregate);
+    if (diff === 0n) continue;
+    if (base === 0n) return 2n ** 256n - 1n;
+    const bps = (diff * BPS_DENOMINATOR + base - 1n) / base;
+    if (bps > deviation) deviation = bps;
+  }
+  return deviation;
+}
+
+/** Value finalizePrimarySettlement would settle at, or why it would not */
+async function resolveFinalizeValue(
+  core: SignalsCore,
+  marketId: bigint
+): Promise<{ value?: bigint; source?: PreviewValueSource; deviationBps?: bigint; wouldFail?: boolean }> {
+  let candidate: bigint;
+  try {
+    [candidate] = await core.getSettlementPrice.staticCall(marketId);
+  } catch (err) {
+    if (revertName(err) === "SettlementOracleCandidateMissing") return {};
+    throw err;
+  }
+  const [mode, , maxDeviationBps] = await core.getSettlementRule();
+  const [values, timestamps] = await core.getSettlementSamples.staticCall(marketId);
+  if ((mode === SETTLEMENT_RULE_MEDIAN || mode === SETTLEMENT_RULE_TIME_WEIGHTED) && values.length > 0) {
+    const median = mode === SETTLEMENT_RULE_MEDIAN;
+    const aggregate = median ? medianOf(values) : timeWeightedAverageOf(values, timestamps);
+    const deviationBps = maxDeviationBpsOf(values, aggregate);
+    return {
+      value: aggregate,
+      source: median ? "median" : "timeWeighted",
+      deviationBps,
+      wouldFail: maxDeviationBps !== 0n && deviationBps > maxDeviationBps,
+    };
+  }
+  return { value: candidate, source: "candidate" };
+}
+
+/**
+ * Preview settling `marketId` (at `settlementValue`, or at the value finalization would use) and
+ * project the DailyBatchProcessed values of its batch.
+ */
+export async function previewSettlement(
+  core: SignalsCore,
+  marketId: bigint,
+  settlementValue?: bigint
+): Promise<SettlementPreviewReport> {
+  const target = await core.markets(marketId);
+  if (target.numBins === 0n) throw new Error(`Market not found: ${marketId}`);
+  if (target.settled) throw new Error(`Market ${marketId} is already settled`);
+  if (target.settlementTimestamp === 0n) throw new Error(`Market ${marketId} has no settlement timestamp`);
+  const batchId = target.settlementTimestamp / BATCH_SECONDS;
+
+  const snapshot = await core.getDailyPnlSnapshot(batchId);
+  if (snapshot.processed) throw new Error(`Batch ${batchId} is already processed`);
+  const recorded: BatchPnlInput = { Lt: snapshot.Lt, Ftot: snapshot.Ftot, DeltaEtSum: snapshot.DeltaEtSum };
+  const projected: BatchPnlInput = { ...recorded };
+  const warnings: string[] = [];
+
+  const markets: MarketSettlementPreview[] = [];
+  const lastMarketId = await core.nextMarketId();
+  for (let id = 1n; id <= lastMarketId; id++) {
+    const market = id === marketId ? target : await core.markets(id);
+    if (market.numBins === 0n || market.settlementTimestamp / BATCH_SECONDS !== batchId) continue;
+    if (market.settled) {
+      markets.push({
+        marketId: id,
+        status: "settled",
+        settlementValue: market.settlementValue,
+        settlementTick: market.settlementTick,
+      });
+      continue;
+    }
+
+    let resolved: Awaited<ReturnType<typeof resolveFinalizeValue>> = {};
+    if (id === marketId && settlementValue !== undefined) {
+      resolved = { value: settlementValue, source: "override" };
+    } else if (!market.failed) {
+      resolved = await resolveFinalizeValue(core, id);
+    }
+    if (resolved.value === undefined || resolved.wouldFail) {
+      const status = resolved.wouldFail ? "wouldFail" : "missing";
+      markets.push({ marketId: id, status, valueSource: resolved.source, deviationBps: resolved.deviationBps });
+      warnings.push(
+        resolved.wouldFail
+          ? `market ${id}: samples deviate ${resolved.deviationBps} bps; finalization marks it failed`
+          : `market ${id}: no settlement value (${market.failed ? "failed, pending secondary" : "no sample"})`
+      );
+      continue;
+    }
+
+    const [settlementTick, lt, ftot, payoutReserve, deltaEt] = await core.previewSettlement.staticCall(
+      id,
+      resolved.value
+    );
+    markets.push({
+      marketId: id,
+      status: "previewed",
+      valueSource: resolved.source,
+      settlementValue: resolved.value,
+      settlementTick,
+      lt,
+      ftot,
+      payoutReserve,
+      deltaEt,
+      deviationBps: resolved.deviationBps,
+    });
+    projected.Lt += lt;
+    projected.Ftot += ftot;
+    projected.DeltaEtSum += deltaEt;
+  }
+  if (markets.some((m) => m.status === "wouldFail" || m.status === "missing")) {
+    warnings.push("markets without a value are left out of the projection");
+  }
+
+  const [backstopNav, treasuryNav] = await core.getCapitalStack();
+  if (projected.DeltaEtSum > backstopNav) {
+    warnings.push(`ΔEₜ sum ${projected.DeltaEtSum} exceeds backstop ${backstopNav}; settlement reverts`);
+  }
+  const currentBatchId = await core.getCurrentBatchId();
+  if (batchId !== currentBatchId + 1n) {
+    warnings.push(
+      `batch ${currentBatchId + 1n} is processed first; vault state is taken as of batch ${currentBatchId}`
+    );
+  }
+
+  const [rhoBS, pdd, phiLP, phiBS, phiTR] = await core.getFeeWaterfallConfig();
+  const [deposits, withdraws] = await core.getPendingBatchTotals(batchId);
+  const state = {
+    nav: await core.getVaultNav(),
+    shares: await core.getVaultShares(),
+    price: await core.getVaultPrice(),
+    pricePeak: await core.getVaultPricePeak(),
+    backstopNav,
+    treasuryNav,
+  };
+
+  const report: SettlementPreviewReport = { marketId, batchId, markets, recorded, projected, warnings };
+  try {
+    const outcome = processBatch(state, { deposits, withdraws }, projected, { pdd, rhoBS, phiLP, phiBS, phiTR });
+    report.outcome = outcome;
+    report.dailyBatch = {
+      lt: projected.Lt,
+      ftot: projected.Ftot,
+      ft: outcome.waterfall.Ft,
+      gt: outcome.waterfall.Gt,
+      navPre: outcome.snapshot.Npre,
+      batchPrice: outcome.snapshot.Pe,
+      navPost: outcome.state.nav,
+      pricePost: outcome.state.price,
+      drawdown: outcome.drawdown,
+    };
+  } catch (err) {
+    if (!(err instanceof MathRevertError)) throw err;
+    report.revert = err.message;
+  }
+  return report;
+}
+
+function resolveOverride(): bigint | undefined {
+  if (process.env.SETTLEMENT_TICK) return BigInt(process.env.SETTLEMENT_TICK) * 1_000_000n;
+  if (process.env.SETTLEMENT_VALUE_USD) return parseUnits(process.env.SETTLEMENT_VALUE_USD, USD_DECIMALS);
+  return undefined;
+}
+
+function logReport(report: SettlementPreviewReport) {
+  const wad = (value: bigint) => formatUnits(value, 18);
+  const usd = (value: bigint) => formatUnits(value, USD_DECIMALS);
+  console.log(`[preview-settlement] marketId=${report.marketId} batchId=${report.batchId}`);
+  for (const m of report.markets) {
+    if (m.status !== "previewed") {
+      const value = m.settlementValue === undefined ? "" : ` value=${usd(m.settlementValue)} tick=${m.settlementTick}`;
+      const deviation = m.deviationBps === undefined ? "" : ` deviationBps=${m.deviationBps}`;
+      console.log(`[preview-settlement]   market ${m.marketId}: ${m.status}${value}${deviation}`);
+      continue;
+    }
+    console.log(
+      `[preview-settlement]   market ${m.marketId}: ${m.valueSource} value=${usd(m.settlementValue!)} ` +
+        `tick=${m.settlementTick} lt=${wad(m.lt!)} ftot=${wad(m.ftot!)} payoutReserve=${usd(m.payoutReserve!)} ` +
+        `deltaEt=${wad(m.deltaEt!)}`
+    );
+  }
+  const { recorded, projected } = report;
+  console.log(
+    `[preview-settlement] recorded lt=${wad(recorded.Lt)} ftot=${wad(recorded.Ftot)} deltaEtSum=${wad(
+      recorded.DeltaEtSum
+    )}`
+  );
+  console.log(
+    `[preview-settlement] projected lt=${wad(projected.Lt)} ftot=${wad(projected.Ftot)} deltaEtSum=${wad(
+      projected.DeltaEtSum
+    )}`
+  );
+  if (report.dailyBatch) {
+    const b = report.dailyBatch;
+    console.log(
+      `[preview-settlement] DailyBatchProcessed ft=${wad(b.ft)} gt=${wad(b.gt)} navPre=${wad(b.navPre)} ` +
+        `batchPrice=${wad(b.batchPrice)} navPost=${wad(b.navPost)} pricePost=${wad(b.pricePost)} drawdown=${wad(
+          b.drawdown
+        )}`
+    );
+    const { waterfall, state } = report.outcome!;
+    console.log(
+      `[preview-settlement] waterfall floss=${wad(waterfall.Floss)} ffill=${wad(waterfall.Ffill)} ` +
+        `fdust=${wad(waterfall.Fdust)} backstopNav=${wad(state.backstopNav)} treasuryNav=${wad(state.treasuryNav)}`
+    );
+  } else {
+    console.warn(`[preview-settlement] processDailyBatch would revert: ${report.revert}`);
+  }
+  for (const warning of report.warnings) console.warn(`[preview-settlement] warning: ${warning}`);
+}
+
+export async function previewSettlementAction(env: Environment) {
+  const { ethers, network } = hre;
+  console.log(`[preview-settlement] environment=${env} network=${network.name}`);
+  const marketId = Number(process.env.MARKET_ID);
+  if (!Number.isSafeInteger(marketId) || marketId <= 0) {
+    throw new Error(`MARKET_ID required (got ${process.env.MARKET_ID})`);
+  }
+
+  const envData = loadEnvironment(env);
+  const coreAddress = envData.contracts.SignalsCoreProxy;
+  if (!coreAddress) throw new Error("Missing SignalsCoreProxy in environment file");
+  const core = await ethers.getContractAt("SignalsCore", coreAddress);
+
+  logReport(await previewSettlement(core, BigInt(marketId), resolveOverride()));
+}
@@ -0,0 +1,145 @@
+import type { BlockTag } from "ethers";
+import type { SignalsCore } from "../../typechain-types";
+import { WAD, wDiv } from "../lib/fixed-point-math";
+import { getRangeSum, totalSum, type SegmentTree } from "../lib/lazy-mul-segment-tree";
+import type { QuoteMarket } from "../lib/clmsr-quote";
+
+/**
+ * Market-implied settlement distribution.
+ *
+ * Each bin's probability is its share of the CLMSR tree sum (`getBinProbabilities`), in WAD.
+ * Within a bin the density is taken as uniform, so the PDF is piecewise constant, the CDF
+ * piecewise linear, and the expectation uses bin midpoints. Prices are in tick units; the
+ * settlement value (6 decimals) of tick t is t * 1e6.
+ */
+
+/** Bins per getBinProbabilities call; a 256-bin market takes four calls */
+export const DEFAULT_BINS_PER_CALL = 64;
+
+export interface DistributionBin {
+  bin: number;
+  lowerTick: bigint;
+  /** Exclusive */
+  upperTick: bigint;
+  /** WAD, rounded down on-chain */
+  probability: bigint;
+  /** Cumulative probability through upperTick (WAD) */
+  cdf: bigint;
+  /** Probability per tick of price: probability / tickSpacing */
+  density: number;
+}
+
+export interface ImpliedDistribution {
+  minTick: bigint;
+  maxTick: bigint;
+  tickSpacing: bigint;
+  bins: DistributionBin[];
+  /** Sum of bin probabilities; slightly below 1 WAD from rounding */
+  total: bigint;
+}
+
+export interface FetchDistributionOptions {
+  binsPerCall?: number;
+  /** Defaults to the block number at call time */
+  blockTag?: BlockTag;
+}
+
+type DistributionMarket = Pick<QuoteMarket, "minTick" | "maxTick" | "tickSpacing" | "numBins">;
+
+/** Distribution from per-bin probabilities (WAD), bin 0 first */
+export function buildDistribution(market: DistributionMarket, probabilities: bigint[]): ImpliedDistribution {
+  const { minTick, maxTick, tickSpacing, numBins } = market;
+  if (BigInt(probabilities.length) !== numBins) {
+    throw new Error(`Expected ${numBins} bin probabilities, got ${probabilities.length}`);
+  }
+  let cdf = 0n;
+  const bins = probabilities.map((probability, bin) => {
+    cdf += probability;
+    const lowerTick = minTick + BigInt(bin) * tickSpacing;
+    return {
+      bin,
+      lowerTick,
+      upperTick: lowerTick + tickSpacing,
+      probability,
+      cdf,
+      density: Number(probability) / Number(WAD) / Number(tickSpacing),
+    };
+  });
+  return { minTick, maxTick, tickSpacing, bins, total: cdf };
+}
+
+/** Read every bin through getBinProbabilities, `binsPerCall` bins at a time */
+export async function fetchImpliedDistribution(
+  core: SignalsCore,
+  marketId: bigint,
+  options: FetchDistributionOptions = {}
+): Promise<ImpliedDistribution> {
+  const binsPerCall = options.binsPerCall ?? DEFAULT_BINS_PER_CALL;
+  if (!Number.isInteger(binsPerCall) || binsPerCall <= 0) throw new Error("binsPerCall must be a positive integer");
+  // Pin every read to one block so a trade landing between pages cannot mix two states
+  let blockTag = options.blockTag;
+  if (blockTag === undefined) {
+    const provider = core.runner?.provider;
+    if (!provider) throw new Error("Core contract must be connected to a provider");
+    blockTag = await provider.getBlockNumber();
+  }
+  const overrides = { blockTag };
+  const market = await core.markets(marketId, overrides);
+  if (market.numBins === 0n) throw new Error(`Market ${marketId} not found`);
+
+  const probabilities: bigint[] = [];
+  for (let fromBin = 0; fromBin < Number(market.numBins); fromBin += binsPerCall) {
+    const [, page] = await core.getBinProbabilities.staticCall(marketId, fromBin, binsPerCall, overrides);
+    probabilities.push(...page);
+  }
+  return buildDistribution(market, probabilities);
+}
+
+/** Same figures from an off-chain tree replica (e.g. the market indexer's), bit-exact with the view */
+export function distributionFromTree(market: DistributionMarket, tree: SegmentTree): ImpliedDistribution {
+  const total = totalSum(tree);
+  const probabilities = Array.from({ length: Number(market.numBins) }, (_, bin) =>
+    wDiv(getRangeSum(tree, bin, bin), total)
+  );
+  return buildDistribution(market, probabilities);
+}
+
+/**
+ * Probability (WAD) that settlement lands in [lowerTick, upperTick). Bins cut by the range count
+ * in proportion to the ticks they share with it (uniform density within a bin, as for quantile).
+ */
+export function rangeProbability(dist: ImpliedDistribution, lowerTick: bigint, upperTick: bigint): bigint {
+  const { minTick, maxTick, tickSpacing } = dist;
+  if (lowerTick >= upperTick || lowerTick < minTick || upperTick > maxTick) {
+    throw new Error(`Range [${lowerTick}, ${upperTick}) outside [${minTick}, ${maxTick})`);
+  }
+  return dist.bins.reduce((sum, b) => {
+    const overlap =
+      (b.upperTick < upperTick ? b.upperTick : upperTick) - (b.lowerTick > lowerTick ? b.lowerTick : lowerTick);
+    return overlap > 0n ? sum + (b.probability * overlap) / tickSpacing : sum;
+  }, 0n);
+}
+
+/** Expected settlement price in ticks, from bin midpoints */
+export function expectedSettlementPrice(dist: ImpliedDistribution): number {
+  const total = Number(dist.total);
+  return dist.bins.reduce(
+    (sum, b) => sum + (Number(b.probability) / total) * (Number(b.lowerTick) + Number(dist.tickSpacing) / 2),
+    0
+  );
+}
+
+/** Price at which the CDF reaches `p` (0 < p < 1), interpolated linearly within the bin */
+export function quantile(dist: ImpliedDistribution, p: number): number {
+  if (!(p > 0 && p < 1)) throw new Error("Quantile must be within (0, 1)");
+  const total = Number(dist.total);
+  let below = 0;
+  for (const b of dist.bins) {
+    const mass = Number(b.probability) / total;
+    if (mass > 0 && below + mass >= p) {
+      return Number(b.lowerTick) + ((p - below) / mass) * Number(dist.tickSpacing);
+    }
+    below += mass;
+  }
+  return Number(dist.maxTick);
+}
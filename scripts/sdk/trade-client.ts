@@ -0,0 +1,315 @@
+import { MaxUint256, ZeroAddress, ZeroHash, type ContractTransaction, type Signer } from "ethers";
+import {
+  IFeePolicy__factory,
+  ISignalsPosition__factory,
+  SignalsUSDToken__factory,
+  TradeModule__factory,
+} from "../../typechain-types";
+import type { SignalsCore } from "../../typechain-types";
+
+/**
+ * Slippage-aware trade client for the TradeModule entry points.
+ *
+ * A quote is the `calculate*` base amount plus the overlay fee from the market's fee policy
+ * (or the core default), exactly as the module charges it against the current state. The
+ * `maxCost` / `minProceeds` bound sent with the trade is that net amount widened by
+ * `slippageBps`. Amounts are in payment-token units (6 decimals).
+ */
+
+export const BPS = 10_000n;
+export const DEFAULT_SLIPPAGE_BPS = 50n;
+
+export type TradeKind = "open" | "increase" | "decrease" | "close";
+
+export interface OpenParams {
+  marketId: bigint;
+  lowerTick: bigint;
+  upperTick: bigint;
+  quantity: bigint;
+}
+
+export interface BudgetParams {
+  marketId: bigint;
+  lowerTick: bigint;
+  upperTick: bigint;
+  /** Most the trader will pay, fee included, before slippage */
+  budget: bigint;
+}
+
+export interface TradeQuote {
+  kind: TradeKind;
+  isBuy: boolean;
+  marketId: bigint;
+  /** Undefined for opens */
+  positionId?: bigint;
+  lowerTick: bigint;
+  upperTick: bigint;
+  quantity: bigint;
+  /** CLMSR cost (buys) or proceeds (sells) before the fee */
+  baseAmount: bigint;
+  fee: bigint;
+  /** ZeroAddress when the market has no fee policy */
+  feePolicy: string;
+  /** Paid (base + fee) or received (base − fee) if nothing trades before this one */
+  net: bigint;
+  slippageBps: bigint;
+  /** maxCost for buys, minProceeds for sells */
+  limit: bigint;
+}
+
+export interface PreparedTrade {
+  quote: TradeQuote;
+  /** ERC20 approval the trade needs first; undefined when the allowance already covers `limit` */
+  approval?: ContractTransaction;
+  tx: ContractTransaction;
+}
+
+export interface TradeResult {
+  kind: TradeKind;
+  txHash: string;
+  blockNumber: number;
+  positionId: bigint;
+  marketId: bigint;
+  /** Quantity traded in this call */
+  quantity: bigint;
+  /** Position size after the trade (0 once closed) */
+  newQuantity: bigint;
+  /** From PositionOpened/Increased/Decreased/Closed */
+  baseAmount: bigint;
+  /** From TradeFeeCharged */
+  fee: bigint;
+  feePolicy: string;
+  net: bigint;
+  quote: TradeQuote;
+}
+
+export interface TradeClientOptions {
+  /** Default tolerance for every quote (default 50 = 0.5%) */
+  slippageBps?: bigint;
+  /** "exact" approves `limit`, "unlimited" approves MaxUint256 (default "exact") */
+  approval?: "exact" | "unlimited";
+}
+
+export interface QuoteOptions {
+  slippageBps?: bigint;
+}
+
+export interface TradeClient {
+  readonly core: SignalsCore;
+  readonly signer: Signer;
+  readonly slippageBps: bigint;
+  quoteOpen(params: OpenParams, options?: QuoteOptions): Promise<TradeQuote>;
+  /** Open quote for the largest quantity whose net fits in `budget`; `limit` still adds the slippage */
+  quoteOpenFromBudget(params: BudgetParams, options?: QuoteOptions): Promise<TradeQuote>;
+  quoteIncrease(positionId: bigint, quantity: bigint, options?: QuoteOptions): Promise<TradeQuote>;
+  quoteDecrease(positionId: bigint, quantity: bigint, options?: QuoteOptions): Promise<TradeQuote>;
+  quoteClose(positionId: bigint, options?: QuoteOptions): Promise<TradeQuote>;
+  /** Populated trade transaction, plus the approval it needs for buys */
+  prepare(quote: TradeQuote): Promise<PreparedTrade>;
+  /** Send the approval (if needed) and the trade, then decode the trade events */
+  execute(quote: TradeQuote): Promise<TradeResult>;
+}
+
+const tradeInterface = TradeModule__factory.createInterface();
+
+/** maxCost rounds up, minProceeds rounds down, so the bound never tightens the quote */
+export function applySlippage(net: bigint, slippageBps: bigint, isBuy: boolean): bigint {
+  if (slippageBps < 0n || slippageBps > BPS) throw new Error(`slippageBps must be within [0, ${BPS}]`);
+  return isBuy ? (net * (BPS + slippageBps) + BPS - 1n) / BPS : (net * (BPS - slippageBps)) / BPS;
+}
+
+export function createTradeClient(core: SignalsCore, signer: Signer, options: TradeClientOptions = {}): TradeClient {
+  const defaultSlippage = options.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+  applySlippage(0n, defaultSlippage, true);
+  const approvalMode = options.approval ?? "exact";
+
+  async function feePolicyFor(marketId: bigint): Promise<string> {
+    const market = await core.markets(marketId);
+    return market.feePolicy !== ZeroAddress ? market.feePolicy : await core.defaultFeePolicy();
+  }
+
+  async function buildQuote(
+    kind: TradeKind,
+    position: { marketId: bigint; lowerTick: bigint; upperTick: bigint; positionId?: bigint },
+    quantity: bigint,
+    baseAmount: bigint,
+    quoteOptions: QuoteOptions
+  ): Promise<TradeQuote> {
+    const isBuy = kind === "open" || kind === "increase";
+    const feePolicy = await feePolicyFor(position.marketId);
+    // Mirrors TradeModule._quoteFeeWithPolicy: the trader is msg.sender, no context
+    const fee =
+      feePolicy === ZeroAddress
+        ? 0n
+        : await IFeePolicy__factory.connect(feePolicy, core.runner).quoteFee({
+            trader: await signer.getAddress(),
+            marketId: position.marketId,
+            lowerTick: position.lowerTick,
+            upperTick: position.upperTick,
+            quantity,
+            baseAmount,
+            isBuy,
+            context: ZeroHash,
+          });
+    if (fee > baseAmount) throw new Error(`Fee ${fee} exceeds base amount ${baseAmount}`);
+    const net = isBuy ? baseAmount + fee : baseAmount - fee;
+    const slippageBps = quoteOptions.slippageBps ?? defaultSlippage;
+    return {
+      kind,
+      isBuy,
+      ...position,
+      quantity,
+      baseAmount,
+      fee,
+      feePolicy,
+      net,
+      slippageBps,
+      limit: applySlippage(net, slippageBps, isBuy),
+    };
+  }
+
+  async function loadPosition(positionId: bigint) {
+    const positions = ISignalsPosition__factory.connect(await core.positionContract(), core.runner);
+    const { marketId, lowerTick, upperTick, quantity } = await positions.getPosition(positionId);
+    return { positionId, marketId, lowerTick, upperTick, quantity };
+  }
+
+  async function prepare(quote: TradeQuote): Promise<PreparedTrade> {
+    const trader = core.connect(signer);
+    let tx: ContractTransaction;
+    switch (quote.kind) {
+      case "open":
+        tx = await trader.openPosition.populateTransaction(
+          quote.marketId,
+          quote.lowerTick,
+          quote.upperTick,
+          quote.quantity,
+          quote.limit
+        );
+        break;
+      case "increase":
+        tx = await trader.increasePosition.populateTransaction(quote.positionId!, quote.quantity, quote.limit);
+        break;
+      case "decrease":
+        tx = await trader.decreasePosition.populateTransaction(quote.positionId!, quote.quantity, quote.limit);
+        break;
+      case "close":
+        tx = await trader.closePosition.populateTransaction(quote.positionId!, quote.limit);
+        break;
+    }
+
+    if (!quote.isBuy) return { quote, tx };
+    const coreAddress = await core.getAddress();
+    const token = SignalsUSDToken__factory.connect(await core.paymentToken(), signer);
+    const allowance = await token.allowance(await signer.getAddress(), coreAddress);
+    if (allowance >= quote.limit) return { quote, tx };
+    const approval = await token.approve.populateTransaction(
+      coreAddress,
+      approvalMode === "unlimited" ? MaxUint256 : quote.limit
+    );
+    return { quote, approval, tx };
+  }
+
+  async function execute(quote: TradeQuote): Promise<TradeResult> {
+    const { approval, tx } = await prepare(quote);
+    if (approval) await (await signer.sendTransaction(approval)).wait();
+    const receipt = await (await signer.sendTransaction(tx)).wait();
+    if (!receipt) throw new Error(`Trade transaction ${quote.kind} was not mined`);
+
+    const coreAddress = (await core.getAddress()).toLowerCase();
+    let trade: Omit<TradeResult, "kind" | "txHash" | "blockNumber" | "fee" | "feePolicy" | "net" | "quote"> | undefined;
+    let feeCharged: { fee: bigint; feePolicy: string } | undefined;
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== coreAddress) continue;
+      const parsed = tradeInterface.parseLog(log);
+      if (!parsed) continue;
+      const { args } = parsed;
+      switch (parsed.name) {
+        case "PositionOpened":
+          trade = {
+            positionId: args.positionId,
+            marketId: args.marketId,
+            quantity: args.quantity,
+            newQuantity: args.quantity,
+            baseAmount: args.cost,
+          };
+          break;
+        case "PositionIncreased":
+        case "PositionDecreased":
+          trade = {
+            positionId: args.positionId,
+            marketId: quote.marketId,
+            quantity: args.deltaQuantity,
+            newQuantity: args.newQuantity,
+            baseAmount: parsed.name === "PositionIncreased" ? args.cost : args.proceeds,
+          };
+          break;
+        case "PositionClosed":
+          trade = {
+            positionId: args.positionId,
+            marketId: quote.marketId,
+            quantity: quote.quantity,
+            newQuantity: 0n,
+            baseAmount: args.proceeds,
+          };
+          break;
+        case "TradeFeeCharged":
+          feeCharged = { fee: args.feeAmount, feePolicy: args.policy };
+          break;
+      }
+    }
+    if (!trade || !feeCharged) throw new Error(`Trade events missing from ${receipt.hash}`);
+
+    return {
+      kind: quote.kind,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      ...trade,
+      ...feeCharged,
+      net: quote.isBuy ? trade.baseAmount + feeCharged.fee : trade.baseAmount - feeCharged.fee,
+      quote,
+    };
+  }
+
+  return {
+    core,
+    signer,
+    slippageBps: defaultSlippage,
+    async quoteOpen(params, quoteOptions = {}) {
+      const cost = await core.calculateOpenCost.staticCall(
+        params.marketId,
+        params.lowerTick,
+        params.upperTick,
+        params.quantity
+      );
+      const { quantity, ...position } = params;
+      return buildQuote("open", position, quantity, cost, quoteOptions);
+    },
+    async quoteOpenFromBudget(params, quoteOptions = {}) {
+      const { budget, ...position } = params;
+      // The fee is quoted for msg.sender, so ask as the trader
+      const [quantity, cost] = await core
+        .connect(signer)
+        .calculateQuantityFromBudget.staticCall(position.marketId, position.lowerTick, position.upperTick, budget);
+      if (quantity === 0n) throw new Error(`Budget ${budget} does not cover the smallest quantity`);
+      return buildQuote("open", position, quantity, cost, quoteOptions);
+    },
+    async quoteIncrease(positionId, quantity, quoteOptions = {}) {
+      const { quantity: _held, ...position } = await loadPosition(positionId);
+      const cost = await core.calculateIncreaseCost.staticCall(positionId, quantity);
+      return buildQuote("increase", position, quantity, cost, quoteOptions);
+    },
+    async quoteDecrease(positionId, quantity, quoteOptions = {}) {
+      const { quantity: _held, ...position } = await loadPosition(positionId);
+      const proceeds = await core.calculateDecreaseProceeds.staticCall(positionId, quantity);
+      return buildQuote("decrease", position, quantity, proceeds, quoteOptions);
+    },
+    async quoteClose(positionId, quoteOptions = {}) {
+      const { quantity, ...position } = await loadPosition(positionId);
+      const proceeds = await core.calculateCloseProceeds.staticCall(positionId);
+      return buildQuote("close", position, quantity, proceeds, quoteOptions);
+    },
+    prepare,
+    execute,
+  };
+}
@@ -0,0 +1,198 @@
+import { ZeroAddress, zeroPadValue, type BlockTag } from "ethers";
+import { LPVaultModule__factory } from "../../typechain-types";
+import type { SignalsCore } from "../../typechain-types";
+import { fromWad, wMul } from "../lib/fixed-point-math";
+import { applyDeposit } from "../lib/vault-accounting";
+
+/**
+ * Read-only LP vault client: a user's deposit/withdraw requests with their status, the batch
+ * they settle in and a preview of the shares or assets they claim.
+ *
+ * Requests are discovered from the module's `DepositRequestCreated` / `WithdrawRequestCreated`
+ * events (emitted at the core address) and re-read from storage, so cancels and claims are
+ * always reflected. Amounts are WAD unless the field name ends in `6`.
+ */
+
+/** SignalsCoreStorage.BATCH_SECONDS */
+export const BATCH_SECONDS = 86400n;
+
+/** SignalsCoreStorage.RequestStatus */
+export const RequestStatus = {
+  Pending: 0,
+  Processed: 1,
+  Claimed: 2,
+  Cancelled: 3,
+} as const;
+
+/**
+ * pending: batch not processed yet (cancellable)
+ * claimable: batch processed, claim not made
+ */
+export type VaultRequestStatus = "pending" | "claimable" | "claimed" | "cancelled";
+
+export interface BatchInfo {
+  batchId: bigint;
+  processed: boolean;
+  /** Price claims settle at; 0 until processed */
+  batchPrice: bigint;
+  /** Earliest processDailyBatch time: the batch end (markets must also be resolved) */
+  endsAt: bigint;
+}
+
+interface RequestInfoBase {
+  requestId: bigint;
+  owner: string;
+  eligibleBatchId: bigint;
+  status: VaultRequestStatus;
+  cancellable: boolean;
+  processed: boolean;
+  claimable: boolean;
+  /** When a still-pending request can be claimed at the earliest; undefined once processed */
+  expectedClaimTime?: bigint;
+  /** "batch" once processed, otherwise an estimate at the current vault price */
+  priceSource: "batch" | "current";
+  price: bigint;
+  /** Block of the creation event when the request came from listVaultRequests */
+  blockNumber?: number;
+}
+
+export interface DepositRequestInfo extends RequestInfoBase {
+  kind: "deposit";
+  amount: bigint;
+  amount6: bigint;
+  previewShares: bigint;
+  /** Residual refunded on claim (6 decimals) */
+  previewRefund6: bigint;
+}
+
+export interface WithdrawRequestInfo extends RequestInfoBase {
+  kind: "withdraw";
+  shares: bigint;
+  previewAssets: bigint;
+  /** Paid out on claim (6 decimals, dust stays in the vault) */
+  previewAssets6: bigint;
+}
+
+export type VaultRequestInfo = DepositRequestInfo | WithdrawRequestInfo;
+
+export interface ListRequestsOptions {
+  fromBlock?: BlockTag;
+  toBlock?: BlockTag;
+  /** Drop claimed and cancelled requests */
+  openOnly?: boolean;
+}
+
+const vaultInterface = LPVaultModule__factory.createInterface();
+
+export async function getBatchInfo(core: SignalsCore, batchId: bigint): Promise<BatchInfo> {
+  const [, , batchPrice, processed] = await core.getBatchAggregation(batchId);
+  return { batchId, processed, batchPrice, endsAt: (batchId + 1n) * BATCH_SECONDS };
+}
+
+/** Batches a request made now would settle in (deposits next batch, withdrawals after the lag) */
+export async function nextEligibleBatches(core: SignalsCore): Promise<{ deposit: BatchInfo; withdraw: BatchInfo }> {
+  const currentBatchId = await core.getCurrentBatchId();
+  const lag = await core.getWithdrawalLagBatches();
+  return {
+    deposit: await getBatchInfo(core, currentBatchId + 1n),
+    withdraw: await getBatchInfo(core, currentBatchId + lag + 1n),
+  };
+}
+
+async function resolveStatus(core: SignalsCore, onChainStatus: bigint, eligibleBatchId: bigint) {
+  const batch = await getBatchInfo(core, eligibleBatchId);
+  const status: VaultRequestStatus =
+    Number(onChainStatus) === RequestStatus.Claimed
+      ? "claimed"
+      : Number(onChainStatus) === RequestStatus.Cancelled
+        ? "cancelled"
+        : batch.processed
+          ? "claimable"
+          : "pending";
+  const price = batch.processed ? batch.batchPrice : await core.getVaultPrice();
+  return {
+    eligibleBatchId,
+    status,
+    cancellable: status === "pending",
+    processed: batch.processed,
+    claimable: status === "claimable",
+    expectedClaimTime: batch.processed ? undefined : batch.endsAt,
+    priceSource: batch.processed ? ("batch" as const) : ("current" as const),
+    price,
+  };
+}
+
+export async function getDepositRequestInfo(core: SignalsCore, requestId: bigint): Promise<DepositRequestInfo> {
+  const [, owner, amount, eligibleBatchId, status] = await core.getDepositRequest(requestId);
+  if (owner === ZeroAddress) {
+    throw new Error(`Deposit request ${requestId} not found`);
+  }
+  const resolved = await resolveStatus(core, status, eligibleBatchId);
+  // claimDeposit: shares = floor(amount / P), residual refunded
+  const { mintedShares, refundAmount } = applyDeposit(0n, 0n, resolved.price, amount);
+  return {
+    kind: "deposit",
+    requestId,
+    owner,
+    amount,
+    amount6: fromWad(amount),
+    previewShares: mintedShares,
+    previewRefund6: fromWad(refundAmount),
+    ...resolved,
+  };
+}
+
+export async function getWithdrawRequestInfo(core: SignalsCore, requestId: bigint): Promise<WithdrawRequestInfo> {
+  const [, owner, shares, eligibleBatchId, status] = await core.getWithdrawRequest(requestId);
+  if (owner === ZeroAddress) {
+    throw new Error(`Withdraw request ${requestId} not found`);
+  }
+  const resolved = await resolveStatus(core, status, eligibleBatchId);
+  // claimWithdraw: assets = shares · P, truncated to 6 decimals
+  const previewAssets = wMul(shares, resolved.price);
+  return {
+    kind: "withdraw",
+    requestId,
+    owner,
+    shares,
+    previewAssets,
+    previewAssets6: fromWad(previewAssets),
+    ...resolved,
+  };
+}
+
+/**
+ * Every deposit and withdraw request `owner` created, oldest first.
+ * Narrow `fromBlock` to the core deployment block on long-lived chains.
+ */
+export async function listVaultRequests(
+  core: SignalsCore,
+  owner: string,
+  options: ListRequestsOptions = {}
+): Promise<VaultRequestInfo[]> {
+  const provider = core.runner?.provider;
+  if (!provider) throw new Error("Core contract must be connected to a provider");
+  const address = await core.getAddress();
+  const ownerTopic = zeroPadValue(owner, 32);
+  const depositTopic = vaultInterface.getEvent("DepositRequestCreated").topicHash;
+  const withdrawTopic = vaultInterface.getEvent("WithdrawRequestCreated").topicHash;
+
+  const logs = await provider.getLogs({
+    address,
+    topics: [[depositTopic, withdrawTopic], null, ownerTopic],
+    fromBlock: options.fromBlock ?? 0,
+    toBlock: options.toBlock ?? "latest",
+  });
+
+  const requests: VaultRequestInfo[] = [];
+  for (const log of logs) {
+    const { name, args } = vaultInterface.parseLog(log)!;
+    const info =
+      name === "DepositRequestCreated"
+        ? await getDepositRequestInfo(core, args.requestId)
+        : await getWithdrawRequestInfo(core, args.requestId);
+    if (options.openOnly && (info.status === "claimed" || info.status === "cancelled")) continue;
+    requests.push({ ...info, blockNumber: log.blockNumber });
+  }
+  return requests;
+}
@@ -0,0 +1,58 @@
+import path from "path";
+import { loadSimConfig, simulateVault, writeSimulationOutputs, type VaultSimConfig } from "./vault-simulator";
+
+/**
+ * Offline: no network or deployment is touched.
+ *
+ *   SIM_CONFIG=scripts/sim/specs/example-vault-sim.json SIM_RUNS=200 yarn simulate-vault
+ *
+ * SIM_CONFIG is a partial VaultSimConfig merged over the defaults; SIM_RUNS / SIM_DAYS /
+ * SIM_SEED override it. Outputs land in SIM_OUT (default out/vault-sim).
+ */
+function parseIntEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer (got ${raw})`);
+  }
+  return value;
+}
+
+function resolveConfig(): VaultSimConfig {
+  const config = loadSimConfig(process.env.SIM_CONFIG);
+  return {
+    ...config,
+    runs: parseIntEnv("SIM_RUNS") ?? config.runs,
+    days: parseIntEnv("SIM_DAYS") ?? config.days,
+    seed: parseIntEnv("SIM_SEED") ?? config.seed,
+  };
+}
+
+async function main() {
+  const config = resolveConfig();
+  const outDir = path.resolve(process.env.SIM_OUT ?? "out/vault-sim");
+  console.log(
+    `[simulate-vault] runs=${config.runs} days=${config.days} seed=${config.seed} λ=${config.risk.lambda} k=${config.risk.kDrawdown} bins=${config.market.numBins}`
+  );
+
+  const result = simulateVault(config);
+  const { csvPath, jsonPath } = writeSimulationOutputs(result, outDir);
+  const { summary } = result;
+
+  console.log(`[simulate-vault] maxDrawdown p50=${summary.maxDrawdown.p50.toFixed(4)} p99=${summary.maxDrawdown.p99.toFixed(4)}`);
+  console.log(`[simulate-vault] finalPrice p50=${summary.finalPrice.p50.toFixed(4)} mean=${summary.finalPrice.mean.toFixed(4)}`);
+  console.log(
+    `[simulate-vault] grant days=${(summary.grantDayShare * 100).toFixed(2)}% max Gt/ΔEt=${summary.maxGrantUsage.toFixed(4)}`
+  );
+  console.log(
+    `[simulate-vault] backstop depletion=${(summary.backstopDepletionProbability * 100).toFixed(2)}% halted=${(summary.haltProbability * 100).toFixed(2)}% ${JSON.stringify(summary.haltReasons)}`
+  );
+  console.log(`[simulate-vault] wrote ${csvPath}`);
+  console.log(`[simulate-vault] wrote ${jsonPath}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
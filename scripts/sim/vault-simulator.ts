@@ -0,0 +1,607 @@
+import fs from "fs";
+import path from "path";
+import { formatUnits, parseUnits } from "ethers";
+import { MathRevertError } from "../lib/math-error";
+import { WAD, toWad, wLn, wMul } from "../lib/fixed-point-math";
+import { createTree, totalSum, MAX_FACTOR, MIN_FACTOR } from "../lib/lazy-mul-segment-tree";
+import { applyTrade, type QuoteMarket } from "../lib/clmsr-quote";
+import { calculateAlphaBase, calculateAlphaLimit, calculateDeltaEtFromFactors, calculateDrawdown } from "../lib/risk-math";
+import { MIN_DEAD_SHARES, processBatch, type VaultBatchState } from "../lib/vault-accounting";
+
+/**
+ * Offline vault economics simulator.
+ *
+ * Every day sizes α with the createMarket risk gate (αbase · (1 - k·DD) · safetyFactor),
+ * opens one market under the configured prior, runs random trader flow through the bit-exact
+ * CLMSR engine, settles it the way MarketLifecycleModule records P&L, queues LP deposits and
+ * withdrawals, then replays processDailyBatch. A run halts when no admissible market can be
+ * created for the day or the batch reverts.
+ *
+ * WAD / USD amounts in the config are decimal strings so they survive JSON unchanged.
+ */
+export interface VaultSimConfig {
+  runs: number;
+  days: number;
+  seed: number;
+  vault: {
+    seedNavUsd: string;
+    backstopNavUsd: string;
+    treasuryNavUsd: string;
+  };
+  risk: {
+    lambda: string;
+    kDrawdown: string;
+  };
+  feeWaterfall: {
+    rhoBS: string;
+    phiLP: string;
+    phiBS: string;
+    phiTR: string;
+  };
+  market: {
+    numBins: number;
+    /** Fraction of αlimit each market is created with */
+    alphaSafetyFactor: string;
+    prior: {
+      shape: "uniform" | "bell";
+      /** Bell peak factor relative to the tails (≤ 100) */
+      peakFactor?: string;
+      widthBins?: number;
+    };
+    /** Std-dev of the settlement bin around the prior centre, in bins */
+    outcomeStdBins: number;
+  };
+  flow: {
+    tradesPerDay: number;
+    /** Mean position size in USD paid out if it wins */
+    meanTradeUsd: string;
+    maxRangeBins: number;
+    feeBps: number;
+    /** Share of buys placed around the eventual outcome; the rest pick a bin uniformly */
+    informedShare: number;
+    /** Chance a step sells part of an open position instead of buying */
+    sellProbability: number;
+  };
+  lp: {
+    depositProbability: number;
+    meanDepositUsd: string;
+    withdrawProbability: number;
+    /** Max fraction of withdrawable shares requested on a withdraw day */
+    maxWithdrawFraction: number;
+  };
+}
+
+export const DEFAULT_VAULT_SIM_CONFIG: VaultSimConfig = {
+  runs: 20,
+  days: 365,
+  seed: 1,
+  vault: { seedNavUsd: "100000", backstopNavUsd: "20000", treasuryNavUsd: "0" },
+  risk: { lambda: "0.3", kDrawdown: "1" },
+  feeWaterfall: { rhoBS: "0.2", phiLP: "0.7", phiBS: "0.2", phiTR: "0.1" },
+  market: {
+    numBins: 100,
+    alphaSafetyFactor: "1",
+    prior: { shape: "uniform" },
+    outcomeStdBins: 10,
+  },
+  flow: {
+    tradesPerDay: 40,
+    meanTradeUsd: "200",
+    maxRangeBins: 10,
+    feeBps: 100,
+    informedShare: 0.01,
+    sellProbability: 0.2,
+  },
+  lp: { depositProbability: 0.2, meanDepositUsd: "2000", withdrawProbability: 0.1, maxWithdrawFraction: 0.05 },
+};
+
+export type DayStatus = "processed" | "halted";
+
+export interface SimDay {
+  run: number;
+  day: number;
+  status: DayStatus;
+  /** SignalsErrors name of the revert that halted the run */
+  haltReason?: string;
+  alphaLimit: bigint;
+  alpha: bigint;
+  deltaEt: bigint;
+  outcomeBin: number;
+  trades: number;
+  rejectedTrades: number;
+  /** Base cost + proceeds traded, 6 decimals */
+  volume: bigint;
+  Lt: bigint;
+  Ftot: bigint;
+  Ft: bigint;
+  Gt: bigint;
+  Ffill: bigint;
+  deposits: bigint;
+  withdrawShares: bigint;
+  nav: bigint;
+  shares: bigint;
+  price: bigint;
+  pricePeak: bigint;
+  drawdown: bigint;
+  backstopNav: bigint;
+  treasuryNav: bigint;
+}
+
+export interface RunStats {
+  run: number;
+  daysProcessed: number;
+  haltReason?: string;
+  maxDrawdown: number;
+  finalPrice: number;
+  finalNavUsd: number;
+  minBackstopUsd: number;
+  grantDays: number;
+  totalGrantUsd: number;
+  /** max Gt / ΔEₜ over the run */
+  maxGrantUsage: number;
+  backstopDepleted: boolean;
+}
+
+export interface Distribution {
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface SimSummary {
+  runs: number;
+  days: number;
+  maxDrawdown: Distribution;
+  finalPrice: Distribution;
+  minBackstopUsd: Distribution;
+  grantDayShare: number;
+  maxGrantUsage: number;
+  /** Runs where the backstop hit zero or a grant could not be funded */
+  backstopDepletionProbability: number;
+  haltProbability: number;
+  haltReasons: Record<string, number>;
+}
+
+export interface SimResult {
+  config: VaultSimConfig;
+  days: SimDay[];
+  runs: RunStats[];
+  summary: SimSummary;
+}
+
+// ============================================================
+// Randomness
+// ============================================================
+
+/** mulberry32: small, fast and reproducible across platforms */
+export function createRng(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int(maxExclusive: number) {
+      return Math.floor(next() * maxExclusive);
+    },
+    normal() {
+      const u = Math.max(next(), Number.EPSILON);
+      return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * next());
+    },
+    exponential(mean: number) {
+      return -Math.log(Math.max(next(), Number.EPSILON)) * mean;
+    },
+  };
+}
+
+type Rng = ReturnType<typeof createRng>;
+
+// ============================================================
+// Market model
+// ============================================================
+
+const USD_DECIMALS = 6;
+const BPS = 10_000n;
+
+function wad(value: string): bigint {
+  return parseUnits(value, 18);
+}
+
+function usd6(value: string): bigint {
+  return parseUnits(value, USD_DECIMALS);
+}
+
+function toNumber(valueWad: bigint): number {
+  return Number(formatUnits(valueWad, 18));
+}
+
+function clampBin(bin: number, numBins: number): number {
+  return Math.min(numBins - 1, Math.max(0, Math.round(bin)));
+}
+
+/** Base factors for the configured prior, centred on the middle bin */
+export function priorFactors(prior: VaultSimConfig["market"]["prior"], numBins: number): bigint[] {
+  if (prior.shape === "uniform") return Array.from({ length: numBins }, () => WAD);
+  const peak = wad(prior.peakFactor ?? "5");
+  const width = prior.widthBins ?? Math.max(1, Math.floor(numBins / 10));
+  const centre = (numBins - 1) / 2;
+  return Array.from({ length: numBins }, (_, bin) => {
+    const weight = Math.exp(-(((bin - centre) / width) ** 2) / 2);
+    const factor = WAD + (BigInt(Math.round(weight * 1e9)) * (peak - WAD)) / 1_000_000_000n;
+    return factor < MIN_FACTOR ? MIN_FACTOR : factor > MAX_FACTOR ? MAX_FACTOR : factor;
+  });
+}
+
+/**
+ * MarketLifecycleModule._calculateMarketPnlWithPayout:
+ * L_t = α · (ln Z_end - ln Z_start) - payout (payout in 6 decimals)
+ */
+export function settlementPnl(alpha: bigint, zStart: bigint, zEnd: bigint, payout6: bigint): bigint {
+  const lnEnd = wLn(zEnd);
+  const lnStart = wLn(zStart);
+  const deltaC = lnEnd >= lnStart ? wMul(alpha, lnEnd - lnStart) : -wMul(alpha, lnStart - lnEnd);
+  return deltaC - toWad(payout6);
+}
+
+interface Position {
+  loBin: number;
+  hiBin: number;
+  quantity: bigint;
+}
+
+interface MarketDay {
+  outcomeBin: number;
+  trades: number;
+  rejectedTrades: number;
+  volume: bigint;
+  Lt: bigint;
+  Ftot: bigint;
+}
+
+function simulateMarket(config: VaultSimConfig, rng: Rng, alpha: bigint, factors: bigint[]): MarketDay {
+  const { numBins, outcomeStdBins } = config.market;
+  const { flow } = config;
+  const market: QuoteMarket = {
+    minTick: 0n,
+    maxTick: BigInt(numBins),
+    tickSpacing: 1n,
+    numBins: BigInt(numBins),
+    liquidityParameter: alpha,
+  };
+  const tree = createTree(factors);
+  const zStart = totalSum(tree);
+  const centre = (numBins - 1) / 2;
+  const outcomeBin = clampBin(centre + rng.normal() * outcomeStdBins, numBins);
+  const meanTrade = Number(usd6(flow.meanTradeUsd));
+
+  const positions: Position[] = [];
+  const exposure = new Array<bigint>(numBins).fill(0n);
+  let trades = 0;
+  let rejectedTrades = 0;
+  let volume = 0n;
+  let fees6 = 0n;
+
+  for (let step = 0; step < flow.tradesPerDay; step++) {
+    const sell = positions.length > 0 && rng.next() < flow.sellProbability;
+    let position: Position;
+    let quantity: bigint;
+    if (sell) {
+      position = positions[rng.int(positions.length)];
+      quantity = (position.quantity * BigInt(1 + rng.int(100))) / 100n;
+      if (quantity === 0n) continue;
+    } else {
+      const width = 1 + rng.int(flow.maxRangeBins);
+      const target = rng.next() < flow.informedShare ? outcomeBin : rng.int(numBins);
+      const loBin = clampBin(target - width / 2, numBins);
+      position = { loBin, hiBin: Math.min(numBins - 1, loBin + width - 1), quantity: 0n };
+      quantity = BigInt(Math.max(1, Math.round(rng.exponential(meanTrade))));
+    }
+
+    try {
+      const { amount } = applyTrade(market, tree, position.loBin, position.hiBin + 1, quantity, !sell);
+      fees6 += (amount * BigInt(flow.feeBps)) / BPS;
+      volume += amount;
+    } catch (err) {
+      if (!(err instanceof MathRevertError)) throw err;
+      rejectedTrades++;
+      continue;
+    }
+    trades++;
+
+    const delta = sell ? -quantity : quantity;
+    for (let bin = position.loBin; bin <= position.hiBin; bin++) exposure[bin] += delta;
+    if (sell) {
+      position.quantity -= quantity;
+      if (position.quantity === 0n) positions.splice(positions.indexOf(position), 1);
+    } else {
+      position.quantity = quantity;
+      positions.push(position);
+    }
+  }
+
+  return {
+    outcomeBin,
+    trades,
+    rejectedTrades,
+    volume,
+    Lt: settlementPnl(alpha, zStart, totalSum(tree), exposure[outcomeBin]),
+    Ftot: toWad(fees6),
+  };
+}
+
+// ============================================================
+// Simulation
+// ============================================================
+
+function haltedDay(run: number, day: number, state: VaultBatchState, reason: string, alphaLimit: bigint): SimDay {
+  return {
+    run,
+    day,
+    status: "halted",
+    haltReason: reason,
+    alphaLimit,
+    alpha: 0n,
+    deltaEt: 0n,
+    outcomeBin: -1,
+    trades: 0,
+    rejectedTrades: 0,
+    volume: 0n,
+    Lt: 0n,
+    Ftot: 0n,
+    Ft: 0n,
+    Gt: 0n,
+    Ffill: 0n,
+    deposits: 0n,
+    withdrawShares: 0n,
+    ...state,
+    drawdown: calculateDrawdown(state.price, state.pricePeak),
+  };
+}
+
+function simulateRun(config: VaultSimConfig, run: number): { days: SimDay[]; stats: RunStats } {
+  const rng = createRng(config.seed + run * 0x9e3779b1);
+  const seedNav = toWad(usd6(config.vault.seedNavUsd));
+  const lambda = wad(config.risk.lambda);
+  const kDrawdown = wad(config.risk.kDrawdown);
+  const safetyFactor = wad(config.market.alphaSafetyFactor);
+  const waterfall = {
+    pdd: -lambda, // pdd := -λ, as setRiskConfig enforces
+    rhoBS: wad(config.feeWaterfall.rhoBS),
+    phiLP: wad(config.feeWaterfall.phiLP),
+    phiBS: wad(config.feeWaterfall.phiBS),
+    phiTR: wad(config.feeWaterfall.phiTR),
+  };
+  const meanDeposit = Number(usd6(config.lp.meanDepositUsd));
+  const numBins = config.market.numBins;
+
+  let state: VaultBatchState = {
+    nav: seedNav,
+    shares: seedNav,
+    price: WAD,
+    pricePeak: WAD,
+    backstopNav: toWad(usd6(config.vault.backstopNavUsd)),
+    treasuryNav: toWad(usd6(config.vault.treasuryNavUsd)),
+  };
+  const days: SimDay[] = [];
+  const stats: RunStats = {
+    run,
+    daysProcessed: 0,
+    maxDrawdown: 0,
+    finalPrice: 1,
+    finalNavUsd: 0,
+    minBackstopUsd: toNumber(state.backstopNav),
+    grantDays: 0,
+    totalGrantUsd: 0,
+    maxGrantUsage: 0,
+    backstopDepleted: false,
+  };
+
+  for (let day = 0; day < config.days; day++) {
+    // Risk gate: α ≤ αlimit and ΔEₜ ≤ backstop, with the NAV/drawdown left by the previous batch
+    const drawdown = calculateDrawdown(state.price, state.pricePeak);
+    const alphaLimit = calculateAlphaLimit(calculateAlphaBase(state.nav, numBins, lambda), drawdown, kDrawdown);
+    const alpha = wMul(alphaLimit, safetyFactor);
+    if (alpha === 0n) {
+      days.push(haltedDay(run, day, state, "AlphaExceedsLimit", alphaLimit));
+      stats.haltReason = "AlphaExceedsLimit";
+      break;
+    }
+    const factors = priorFactors(config.market.prior, numBins);
+    const deltaEt = calculateDeltaEtFromFactors(alpha, numBins, factors);
+    if (deltaEt > state.backstopNav) {
+      days.push(haltedDay(run, day, state, "PriorNotAdmissible", alphaLimit));
+      stats.haltReason = "PriorNotAdmissible";
+      break;
+    }
+
+    const market = simulateMarket(config, rng, alpha, factors);
+
+    const pending = { deposits: 0n, withdraws: 0n };
+    if (rng.next() < config.lp.depositProbability) {
+      pending.deposits = toWad(BigInt(Math.max(1, Math.round(rng.exponential(meanDeposit)))));
+    }
+    const withdrawable = state.shares > MIN_DEAD_SHARES * 2n ? state.shares - MIN_DEAD_SHARES * 2n : 0n;
+    if (withdrawable > 0n && rng.next() < config.lp.withdrawProbability) {
+      const fraction = BigInt(Math.floor(rng.next() * config.lp.maxWithdrawFraction * 1e9));
+      pending.withdraws = (withdrawable * fraction) / 1_000_000_000n;
+    }
+
+    let outcome;
+    try {
+      outcome = processBatch(state, pending, { Lt: market.Lt, Ftot: market.Ftot, DeltaEtSum: deltaEt }, waterfall);
+    } catch (err) {
+      if (!(err instanceof MathRevertError)) throw err;
+      days.push({ ...haltedDay(run, day, state, err.errorName, alphaLimit), alpha, deltaEt, ...market });
+      stats.haltReason = err.errorName;
+      if (err.errorName === "InsufficientBackstopForGrant") stats.backstopDepleted = true;
+      break;
+    }
+
+    state = outcome.state;
+    const { Gt } = outcome.snapshot;
+    days.push({
+      run,
+      day,
+      status: "processed",
+      alphaLimit,
+      alpha,
+      deltaEt,
+      ...market,
+      Ft: outcome.snapshot.Ft,
+      Gt,
+      Ffill: outcome.snapshot.Ffill,
+      deposits: pending.deposits,
+      withdrawShares: pending.withdraws,
+      ...state,
+      drawdown: outcome.drawdown,
+    });
+
+    stats.daysProcessed++;
+    stats.maxDrawdown = Math.max(stats.maxDrawdown, toNumber(outcome.drawdown));
+    stats.minBackstopUsd = Math.min(stats.minBackstopUsd, toNumber(state.backstopNav));
+    if (state.backstopNav === 0n) stats.backstopDepleted = true;
+    if (Gt > 0n) {
+      stats.grantDays++;
+      stats.totalGrantUsd += toNumber(Gt);
+      if (deltaEt > 0n) stats.maxGrantUsage = Math.max(stats.maxGrantUsage, Number(Gt) / Number(deltaEt));
+    }
+  }
+
+  stats.finalPrice = toNumber(state.price);
+  stats.finalNavUsd = toNumber(state.nav);
+  return { days, stats };
+}
+
+function distribution(values: number[]): Distribution {
+  if (values.length === 0) return { mean: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)];
+  return {
+    mean: sorted.reduce((acc, value) => acc + value, 0) / sorted.length,
+    p50: at(0.5),
+    p95: at(0.95),
+    p99: at(0.99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+export function validateSimConfig(config: VaultSimConfig) {
+  const phiSum = wad(config.feeWaterfall.phiLP) + wad(config.feeWaterfall.phiBS) + wad(config.feeWaterfall.phiTR);
+  if (phiSum !== WAD) throw new Error(`feeWaterfall phiLP + phiBS + phiTR must equal 1 (got ${formatUnits(phiSum, 18)})`);
+  const lambda = wad(config.risk.lambda);
+  if (lambda <= 0n || lambda >= WAD) throw new Error("risk.lambda must be in (0, 1)");
+  if (config.market.numBins < 2 || config.market.numBins > 256) throw new Error("market.numBins must be in [2, 256]");
+  if (config.runs < 1 || config.days < 1) throw new Error("runs and days must be positive");
+  if (toWad(usd6(config.vault.seedNavUsd)) <= MIN_DEAD_SHARES) throw new Error("vault.seedNavUsd is too small");
+}
+
+export function simulateVault(config: VaultSimConfig): SimResult {
+  validateSimConfig(config);
+  const days: SimDay[] = [];
+  const runs: RunStats[] = [];
+  for (let run = 0; run < config.runs; run++) {
+    const result = simulateRun(config, run);
+    days.push(...result.days);
+    runs.push(result.stats);
+  }
+
+  const haltReasons: Record<string, number> = {};
+  for (const { haltReason } of runs) {
+    if (haltReason) haltReasons[haltReason] = (haltReasons[haltReason] ?? 0) + 1;
+  }
+  const processedDays = runs.reduce((acc, run) => acc + run.daysProcessed, 0);
+  const grantDays = runs.reduce((acc, run) => acc + run.grantDays, 0);
+
+  return {
+    config,
+    days,
+    runs,
+    summary: {
+      runs: config.runs,
+      days: config.days,
+      maxDrawdown: distribution(runs.map((run) => run.maxDrawdown)),
+      finalPrice: distribution(runs.map((run) => run.finalPrice)),
+      minBackstopUsd: distribution(runs.map((run) => run.minBackstopUsd)),
+      grantDayShare: processedDays === 0 ? 0 : grantDays / processedDays,
+      maxGrantUsage: Math.max(0, ...runs.map((run) => run.maxGrantUsage)),
+      backstopDepletionProbability: runs.filter((run) => run.backstopDepleted).length / runs.length,
+      haltProbability: runs.filter((run) => run.haltReason).length / runs.length,
+      haltReasons,
+    },
+  };
+}
+
+// ============================================================
+// Output
+// ============================================================
+
+const WAD_COLUMNS = [
+  "alphaLimit",
+  "alpha",
+  "deltaEt",
+  "Lt",
+  "Ftot",
+  "Ft",
+  "Gt",
+  "Ffill",
+  "deposits",
+  "withdrawShares",
+  "nav",
+  "shares",
+  "price",
+  "pricePeak",
+  "drawdown",
+  "backstopNav",
+  "treasuryNav",
+] as const;
+
+/** One row per simulated day; WAD columns as decimals, volume in USD */
+export function toTimeSeriesCsv(days: SimDay[]): string {
+  const header = ["run", "day", "status", "haltReason", "outcomeBin", "trades", "rejectedTrades", "volume", ...WAD_COLUMNS];
+  const rows = days.map((day) =>
+    [
+      day.run,
+      day.day,
+      day.status,
+      day.haltReason ?? "",
+      day.outcomeBin,
+      day.trades,
+      day.rejectedTrades,
+      formatUnits(day.volume, USD_DECIMALS),
+      ...WAD_COLUMNS.map((column) => formatUnits(day[column], 18)),
+    ].join(",")
+  );
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
+
+export function writeSimulationOutputs(result: SimResult, outDir: string): { csvPath: string; jsonPath: string } {
+  fs.mkdirSync(outDir, { recursive: true });
+  const csvPath = path.join(outDir, "timeseries.csv");
+  const jsonPath = path.join(outDir, "summary.json");
+  fs.writeFileSync(csvPath, toTimeSeriesCsv(result.days));
+  fs.writeFileSync(
+    jsonPath,
+    JSON.stringify({ config: result.config, summary: result.summary, runs: result.runs }, null, 2) + "\n"
+  );
+  return { csvPath, jsonPath };
+}
+
+/** Deep-merge a partial JSON config over the defaults */
+export function loadSimConfig(configPath?: string): VaultSimConfig {
+  if (!configPath) return DEFAULT_VAULT_SIM_CONFIG;
+  const overrides = JSON.parse(fs.readFileSync(configPath, "utf8")) as Record<string, unknown>;
+  const merge = (base: unknown, patch: unknown): unknown => {
+    if (typeof base !== "object" || base === null || Array.isArray(base)) return patch ?? base;
+    if (typeof patch !== "object" || patch === null) return base;
+    const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(patch)) merged[key] = merge(merged[key], value);
+    return merged;
+  };
+  return merge(DEFAULT_VAULT_SIM_CONFIG, overrides) as VaultSimConfig;
+}
@@ -21,20 +21,79 @@ export interface EnvironmentConfig {
   redstoneFeedDecimals?: number;
   redstoneMaxSampleDistance?: string;
   redstoneFutureTolerance?: string;
+  /** On-chain `setSettlementRule` arguments (mode 0 closest, 1 median, 2 time-weighted) */
+  settlementRule?: {
+    mode: number;
+    maxSamples: number;
+    maxDeviationBps: number;
+  };
   lpShareTokenName?: string;
   lpShareTokenSymbol?: string;
+  /** Raw on-chain units: WAD strings unless noted */
+  risk?: {
+    lambda: string;
+    kDrawdown: string;
+    enforceAlpha: boolean;
+  };
+  feeWaterfall?: {
+    /** Derived on-chain as -lambda; checked against risk.lambda when omitted */
+    pdd?: string;
+    rhoBS: string;
+    phiLP: string;
+    phiBS: string;
+    phiTR: string;
+  };
+  capitalStack?: {
+    backstopNav: string;
+    treasuryNav: string;
+  };
+  /** Payment token units (6 decimals) */
+  minSeedAmount?: string;
+  withdrawalLagBatches?: string;
+  feeRecipient?: string;
+  defaultFeePolicy?: string;
   owners?: {
     core?: string;
     position?: string;
   };
 }
 
+export interface MarketRecord {
+  marketId: string;
+  /** "queued" while the createMarket call waits in a Safe batch */
+  status: "queued" | "created" | "closed";
+  alphaWad: string;
+  batchId: string;
+  feePolicy: string;
+  /** Own Redstone feed (spec `market.oracle`); absent: the global config applies */
+  oracle?: {
+    feedId: string;
+    feedDecimals: number;
+    maxSampleDistanceSec: number;
+    futureToleranceSec: number;
+  };
+  txHash?: string;
+  spec?: string;
+  createdAt: number;
+  close?: {
+    mode: string;
+    settlementValue?: string;
+    txHashes: string[];
+    batchProcessed: boolean;
+    closedAt: number;
+    /** Secondary settlement evidence file under releases/<env>/settlements/ */
+    evidence?: string;
+  };
+}
+
 export interface EnvironmentFile {
   network: Environment;
   version: number;
   contracts: EnvironmentContracts;
   config?: EnvironmentConfig;
   history: DeploymentRecord[];
+  /** Markets created/closed through the dispatcher, keyed by market id */
+  markets?: Record<string, MarketRecord>;
 }
 
 export const ENV_PATHS: Record<Environment, string> = {
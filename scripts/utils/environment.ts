@@ -7,6 +7,7 @@ import {
   ENV_PATHS,
   DeploymentRecord,
   EnvironmentContracts,
+  MarketRecord,
 } from "../types/environment";
 
 function ensureDir(filePath: string) {
@@ -16,11 +17,30 @@ function ensureDir(filePath: string) {
   }
 }
 
+// PLAN=1: env-file writes are kept in memory so an action can be simulated without touching disk.
+let planOverlay: Map<Environment, EnvironmentFile> | undefined;
+
+function cloneEnvironment(data: EnvironmentFile): EnvironmentFile {
+  return JSON.parse(JSON.stringify(data)) as EnvironmentFile;
+}
+
+export function beginEnvironmentPlan() {
+  planOverlay = new Map();
+}
+
+export function endEnvironmentPlan(env: Environment): EnvironmentFile | undefined {
+  const data = planOverlay?.get(env);
+  planOverlay = undefined;
+  return data;
+}
+
 export function getEnvironmentPath(env: Environment): string {
   return ENV_PATHS[env];
 }
 
 export function loadEnvironment(env: Environment): EnvironmentFile {
+  const planned = planOverlay?.get(env);
+  if (planned) return cloneEnvironment(planned);
   const envPath = getEnvironmentPath(env);
   if (!fs.existsSync(envPath)) {
     const initial: EnvironmentFile = {
@@ -30,6 +50,7 @@ export function loadEnvironment(env: Environment): EnvironmentFile {
       config: {},
       history: [],
     };
+    if (planOverlay) return initial;
     ensureDir(envPath);
     fs.writeFileSync(envPath, JSON.stringify(initial, null, 2));
     return initial;
@@ -41,6 +62,10 @@ export function loadEnvironment(env: Environment): EnvironmentFile {
 }
 
 export function saveEnvironment(env: Environment, data: EnvironmentFile) {
+  if (planOverlay) {
+    planOverlay.set(env, cloneEnvironment(data));
+    return;
+  }
   const envPath = getEnvironmentPath(env);
   ensureDir(envPath);
   fs.writeFileSync(envPath, JSON.stringify(data, null, 2));
@@ -70,6 +95,14 @@ export function updateConfig(env: Environment, config: Partial<EnvironmentConfig
   saveEnvironment(env, data);
 }
 
+export function recordMarket(env: Environment, record: MarketRecord) {
+  const data = loadEnvironment(env);
+  const markets = data.markets ?? {};
+  markets[record.marketId] = { ...markets[record.marketId], ...record };
+  data.markets = markets;
+  saveEnvironment(env, data);
+}
+
 export function recordDeployment(
   env: Environment,
   record: Omit<DeploymentRecord, "version" | "timestamp">
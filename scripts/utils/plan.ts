@@ -0,0 +1,162 @@
+import hre from "hardhat";
+import type { TransactionReceipt, TransactionResponse } from "ethers";
+import { beginEnvironmentPlan, endEnvironmentPlan, loadEnvironment } from "./environment";
+import type { Environment, EnvironmentFile } from "../types/environment";
+
+export interface PlannedTransaction {
+  index: number;
+  from: string;
+  to: string | null;
+  nonce: number;
+  method: string;
+  /** CREATE address derived from (from, nonce); set for contract deployments */
+  predictedAddress?: string;
+  /** Env contract key that ends up pointing at predictedAddress, if any */
+  label?: string;
+  gasUsed: bigint;
+}
+
+export interface PlanResult {
+  transactions: PlannedTransaction[];
+  totalGas: bigint;
+  envDiff: string[];
+}
+
+// Interfaces used to decode call data in the plan output
+const DECODE_ARTIFACTS = ["SignalsCore", "SignalsPosition", "SignalsUSDToken"];
+
+export function isPlanMode(): boolean {
+  return process.env.PLAN === "1";
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, string>) {
+  if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return;
+  }
+  out.set(prefix, JSON.stringify(value));
+}
+
+export function diffEnvironment(before: EnvironmentFile, after: EnvironmentFile): string[] {
+  const a = new Map<string, string>();
+  const b = new Map<string, string>();
+  flatten(before, "", a);
+  flatten(after, "", b);
+  const keys = Array.from(new Set([...a.keys(), ...b.keys()])).sort();
+  const lines: string[] = [];
+  for (const key of keys) {
+    const prev = a.get(key);
+    const next = b.get(key);
+    if (prev === next) continue;
+    if (prev === undefined) lines.push(`+ ${key}: ${next}`);
+    else if (next === undefined) lines.push(`- ${key}: ${prev}`);
+    else lines.push(`~ ${key}: ${prev} -> ${next}`);
+  }
+  return lines;
+}
+
+async function describeCall(tx: TransactionResponse): Promise<string> {
+  for (const name of DECODE_ARTIFACTS) {
+    const artifact = await hre.artifacts.readArtifact(name);
+    const parsed = new hre.ethers.Interface(artifact.abi).parseTransaction({ data: tx.data });
+    if (parsed) {
+      return `${parsed.name}(${parsed.args.map((arg) => String(arg)).join(", ")})`;
+    }
+  }
+  return tx.data.slice(0, 10);
+}
+
+async function collectTransactions(
+  fromBlock: number,
+  toBlock: number,
+  after: EnvironmentFile | undefined
+): Promise<PlannedTransaction[]> {
+  const { ethers } = hre;
+  const labels = new Map<string, string>();
+  for (const [key, address] of Object.entries(after?.contracts ?? {})) {
+    if (address) labels.set(address.toLowerCase(), key);
+  }
+
+  const planned: PlannedTransaction[] = [];
+  for (let n = fromBlock; n <= toBlock; n++) {
+    const block = await ethers.provider.getBlock(n, true);
+    for (const tx of block?.prefetchedTransactions ?? []) {
+      const receipt = (await ethers.provider.getTransactionReceipt(tx.hash)) as TransactionReceipt;
+      const isDeploy = tx.to === null;
+      const predictedAddress = isDeploy
+        ? ethers.getCreateAddress({ from: tx.from, nonce: tx.nonce })
+        : undefined;
+      planned.push({
+        index: planned.length,
+        from: tx.from,
+        to: tx.to,
+        nonce: tx.nonce,
+        method: isDeploy ? "deploy" : await describeCall(tx),
+        predictedAddress,
+        label: predictedAddress ? labels.get(predictedAddress.toLowerCase()) : labels.get(tx.to!.toLowerCase()),
+        gasUsed: receipt.gasUsed,
+      });
+    }
+  }
+  return planned;
+}
+
+/**
+ * Simulate an action against a local or forked dev node (hardhat node / anvil --fork-url).
+ * Chain state is reverted via evm_snapshot/evm_revert and env-file writes stay in memory.
+ */
+export async function runPlanned(env: Environment, action: () => Promise<void>): Promise<PlanResult> {
+  const { ethers } = hre;
+  let snapshotId: string;
+  try {
+    snapshotId = await ethers.provider.send("evm_snapshot", []);
+  } catch {
+    throw new Error(
+      "PLAN=1 requires a local or forked dev node (hardhat node / anvil --fork-url) supporting evm_snapshot"
+    );
+  }
+
+  beginEnvironmentPlan();
+  let result: PlanResult;
+  try {
+    const before = loadEnvironment(env);
+    const startBlock = await ethers.provider.getBlockNumber();
+    await action();
+    const after = endEnvironmentPlan(env);
+    const endBlock = await ethers.provider.getBlockNumber();
+
+    const transactions = await collectTransactions(startBlock + 1, endBlock, after);
+    result = {
+      transactions,
+      totalGas: transactions.reduce((sum, tx) => sum + tx.gasUsed, 0n),
+      envDiff: after ? diffEnvironment(before, after) : [],
+    };
+  } finally {
+    endEnvironmentPlan(env);
+    await ethers.provider.send("evm_revert", [snapshotId]);
+  }
+
+  printPlan(env, result);
+  return result;
+}
+
+function printPlan(env: Environment, result: PlanResult) {
+  console.log(`[plan] environment=${env} transactions=${result.transactions.length}`);
+  for (const tx of result.transactions) {
+    const target = tx.predictedAddress ? `-> ${tx.predictedAddress} (new)` : `-> ${tx.to}`;
+    const label = tx.label ? ` [${tx.label}]` : "";
+    console.log(
+      `[plan] #${tx.index} nonce=${tx.nonce} ${tx.method} ${target}${label} gas=${tx.gasUsed.toString()}`
+    );
+  }
+  console.log(`[plan] totalGas=${result.totalGas.toString()}`);
+  if (result.envDiff.length === 0) {
+    console.log("[plan] env file: no changes");
+  } else {
+    console.log(`[plan] env file diff (not written):`);
+    for (const line of result.envDiff) console.log(`[plan]   ${line}`);
+  }
+  console.log("[plan] chain state reverted; nothing written");
+}
@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
 import { execSync } from "child_process";
+import { isPlanMode } from "./plan";
 import type { Environment, EnvironmentFile } from "../types/environment";
 
 export interface ReleaseMeta extends Record<string, unknown> {
@@ -59,8 +60,6 @@ export function writeReleaseSnapshot(
   if (!meta && process.env.WRITE_RELEASE_SNAPSHOT !== "1") return undefined;
 
   const dir = path.join("releases", env);
-  fs.mkdirSync(dir, { recursive: true });
-
   const version = String(data.version).padStart(4, "0");
   const label = meta?.release ? sanitizeLabel(meta.release) : "";
   const filename = label ? `${version}-${label}.json` : `${version}.json`;
@@ -75,6 +74,11 @@ export function writeReleaseSnapshot(
   };
 
   const filepath = path.join(dir, filename);
+  if (isPlanMode()) {
+    console.log(`[plan] would write release snapshot ${filepath}`);
+    return filepath;
+  }
+  fs.mkdirSync(dir, { recursive: true });
   fs.writeFileSync(filepath, JSON.stringify(snapshot, null, 2));
   return filepath;
 }
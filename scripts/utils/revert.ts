@@ -0,0 +1,247 @@
+import {
+  AbiCoder,
+  Interface,
+  dataSlice,
+  isHexString,
+  type ErrorFragment,
+  type InterfaceAbi,
+  type ParamType,
+} from "ethers";
+import {
+  Address__factory,
+  CalldataExtractor__factory,
+  ECDSA__factory,
+  ERC1967Utils__factory,
+  Errors__factory,
+  IERC20Errors__factory,
+  IERC721Errors__factory,
+  Initializable__factory,
+  LPVaultModule__factory,
+  MarketLifecycleModule__factory,
+  NumericArrayLib__factory,
+  OracleModule__factory,
+  OwnableUpgradeable__factory,
+  PausableUpgradeable__factory,
+  RedstoneConsumerBase__factory,
+  RedstoneConsumerNumericBase__factory,
+  RedstoneDefaultsLib__factory,
+  ReentrancyGuardUpgradeable__factory,
+  RiskModule__factory,
+  SafeCast__factory,
+  SafeERC20__factory,
+  SignalsCore__factory,
+  SignalsErrors__factory,
+  SignalsLPShare__factory,
+  SignalsPosition__factory,
+  SignatureLib__factory,
+  Strings__factory,
+  TradeModule__factory,
+  UUPSUpgradeable__factory,
+} from "../../typechain-types";
+
+/**
+ * Revert decoding for any Signals call: SignalsErrors, OpenZeppelin and Redstone custom errors,
+ * errors only reachable through linked math libraries (PRBMath), Error(string) and panics.
+ *
+ * Scripts print `formatRevert(err)` so operators see
+ * `BatchMarketsNotResolved(batchId=3, resolved=1, total=2)` rather than raw revert data.
+ */
+
+export type RevertSource = "signals" | "openzeppelin" | "redstone" | "library";
+
+export interface RevertArg {
+  name: string;
+  type: string;
+  value: unknown;
+}
+
+export type DecodedRevert =
+  | {
+      kind: "custom";
+      source: RevertSource;
+      name: string;
+      signature: string;
+      selector: string;
+      args: RevertArg[];
+      message: string;
+    }
+  | { kind: "panic"; code: number; reason: string; message: string }
+  | { kind: "reason"; reason: string; message: string }
+  /** revert() / require(cond) without a reason */
+  | { kind: "empty"; message: string }
+  | { kind: "unknown"; selector: string; data: string; message: string };
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+const PANIC_REASONS: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array encoding",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to zero-initialized function",
+};
+
+// Earlier sources win on selector clashes; the contracts last pick up library errors
+// (PRBMath) that only appear in the ABIs of the contracts linking them.
+const ERROR_SOURCES: [RevertSource, InterfaceAbi[]][] = [
+  ["signals", [SignalsErrors__factory.abi]],
+  [
+    "openzeppelin",
+    [
+      OwnableUpgradeable__factory.abi,
+      PausableUpgradeable__factory.abi,
+      ReentrancyGuardUpgradeable__factory.abi,
+      Initializable__factory.abi,
+      UUPSUpgradeable__factory.abi,
+      ERC1967Utils__factory.abi,
+      IERC20Errors__factory.abi,
+      IERC721Errors__factory.abi,
+      SafeERC20__factory.abi,
+      SafeCast__factory.abi,
+      Address__factory.abi,
+      Errors__factory.abi,
+      ECDSA__factory.abi,
+      Strings__factory.abi,
+    ],
+  ],
+  [
+    "redstone",
+    [
+      RedstoneConsumerBase__factory.abi,
+      RedstoneConsumerNumericBase__factory.abi,
+      RedstoneDefaultsLib__factory.abi,
+      CalldataExtractor__factory.abi,
+      NumericArrayLib__factory.abi,
+      SignatureLib__factory.abi,
+    ],
+  ],
+  [
+    "library",
+    [
+      SignalsCore__factory.abi,
+      TradeModule__factory.abi,
+      MarketLifecycleModule__factory.abi,
+      LPVaultModule__factory.abi,
+      OracleModule__factory.abi,
+      RiskModule__factory.abi,
+      SignalsPosition__factory.abi,
+      SignalsLPShare__factory.abi,
+    ],
+  ],
+];
+
+interface KnownError {
+  source: RevertSource;
+  fragment: ErrorFragment;
+}
+
+let knownErrors: Map<string, KnownError> | undefined;
+
+function errorRegistry(): Map<string, KnownError> {
+  if (knownErrors) return knownErrors;
+  knownErrors = new Map();
+  for (const [source, abis] of ERROR_SOURCES) {
+    for (const abi of abis) {
+      new Interface(abi).forEachError((fragment) => {
+        if (!knownErrors!.has(fragment.selector)) knownErrors!.set(fragment.selector, { source, fragment });
+      });
+    }
+  }
+  return knownErrors;
+}
+
+function formatValue(value: unknown, param: ParamType): string {
+  if (param.isArray() || param.isTuple()) {
+    const items = Array.from(value as ArrayLike<unknown>);
+    const children = param.isArray() ? items.map(() => param.arrayChildren) : param.components;
+    return `[${items.map((item, i) => formatValue(item, children[i])).join(", ")}]`;
+  }
+  return String(value);
+}
+
+/** Decode raw revert data ("0x…") */
+export function decodeRevertData(data: string): DecodedRevert {
+  if (data === "0x") return { kind: "empty", message: "reverted without a reason" };
+  const selector = dataSlice(data, 0, 4);
+  const coder = AbiCoder.defaultAbiCoder();
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = coder.decode(["string"], dataSlice(data, 4));
+      return { kind: "reason", reason, message: `Error("${reason}")` };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(["uint256"], dataSlice(data, 4));
+      const reason = PANIC_REASONS[Number(code)] ?? "unknown panic";
+      return { kind: "panic", code: Number(code), reason, message: `Panic(0x${code.toString(16)}: ${reason})` };
+    }
+
+    const known = errorRegistry().get(selector);
+    if (known) {
+      const { fragment, source } = known;
+      const values = coder.decode(fragment.inputs, dataSlice(data, 4));
+      const args = fragment.inputs.map((input, i) => ({
+        name: input.name || `arg${i}`,
+        type: input.type,
+        value: values[i] as unknown,
+      }));
+      const rendered = args.map((arg, i) => `${arg.name}=${formatValue(arg.value, fragment.inputs[i])}`).join(", ");
+      return {
+        kind: "custom",
+        source,
+        name: fragment.name,
+        signature: fragment.format("sighash"),
+        selector,
+        args,
+        message: `${fragment.name}(${rendered})`,
+      };
+    }
+  } catch {
+    // Known selector with malformed arguments: fall through to the raw data
+  }
+  return { kind: "unknown", selector, data, message: `unknown revert ${selector} (data ${data})` };
+}
+
+/**
+ * Find revert data in an error thrown by ethers, hardhat or a JSON-RPC provider.
+ * The data sits at different depths depending on the stack (`data`, `error.data`,
+ * `error.error.data`, `info.error.data`, `cause`), so walk them all.
+ */
+export function extractRevertData(err: unknown, depth = 0): string | undefined {
+  if (depth > 6 || err === null || typeof err !== "object") return undefined;
+  const e = err as Record<string, unknown>;
+  if (typeof e.data === "string" && isHexString(e.data) && (e.data === "0x" || e.data.length >= 10)) {
+    return e.data;
+  }
+  for (const key of ["data", "error", "info", "cause"]) {
+    const found = extractRevertData(e[key], depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Decoded revert of a thrown error, or undefined when it did not carry revert data */
+export function decodeRevert(err: unknown): DecodedRevert | undefined {
+  const data = extractRevertData(err);
+  return data === undefined ? undefined : decodeRevertData(data);
+}
+
+/** Custom error name, for branching on an expected revert */
+export function revertName(err: unknown): string | undefined {
+  const decoded = decodeRevert(err);
+  return decoded?.kind === "custom" ? decoded.name : undefined;
+}
+
+/** One-line description for logs: the decoded revert, else the error's own message */
+export function formatRevert(err: unknown): string {
+  const decoded = decodeRevert(err);
+  if (decoded) return decoded.message;
+  const e = err as { shortMessage?: string; message?: string };
+  return e?.shortMessage ?? e?.message ?? String(err);
+}
@@ -0,0 +1,199 @@
+import fs from "fs";
+import path from "path";
+import type { BaseContract } from "ethers";
+import type { Environment, EnvironmentConfig, EnvironmentContracts } from "../types/environment";
+import type { ReleaseMeta } from "./release";
+import { updateConfig, updateContracts } from "./environment";
+import { isPlanMode } from "./plan";
+
+/**
+ * Safe Transaction Builder batch (JSON accepted by the Safe{Wallet} Transaction Builder app).
+ * Calls carry raw calldata; `contractMethod` / `contractInputsValues` stay null so the
+ * builder replays exactly what was encoded here.
+ */
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: null;
+  contractInputsValues: null;
+}
+
+export interface SafeBatchFile {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+/**
+ * Environment-file changes that only hold once the Safe has executed the batch. Stored in the
+ * exporting action's history entry (`meta.pendingEnv`) and applied by `reconcile-safe`.
+ */
+export interface PendingEnvUpdate {
+  config?: Partial<EnvironmentConfig>;
+  contracts?: EnvironmentContracts;
+  /** Market ids recorded with status "queued" */
+  markets?: string[];
+  /** Release snapshot written on reconcile */
+  release?: ReleaseMeta;
+}
+
+export interface SafeBatch {
+  name: string;
+  chainId: bigint;
+  safeAddress: string;
+  transactions: SafeBatchTransaction[];
+  /** Human-readable decoded call per transaction, same order as transactions */
+  summaries: string[];
+  pendingEnv: PendingEnvUpdate;
+}
+
+type EncodableContract = Pick<BaseContract, "interface" | "getAddress">;
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+export function isSafeExportMode(): boolean {
+  return process.env.SAFE_EXPORT === "1";
+}
+
+export function createSafeBatch(name: string, chainId: bigint, safeAddress: string): SafeBatch {
+  return { name, chainId, safeAddress, transactions: [], summaries: [], pendingEnv: {} };
+}
+
+function formatArg(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length > 8
+      ? `[${value.slice(0, 4).map(formatArg).join(", ")}, … (${value.length} items)]`
+      : `[${value.map(formatArg).join(", ")}]`;
+  }
+  return String(value);
+}
+
+/**
+ * Encode an owner call into the batch and return its decoded summary.
+ */
+export async function addSafeCall(
+  batch: SafeBatch,
+  contract: EncodableContract,
+  method: string,
+  args: readonly unknown[]
+): Promise<string> {
+  const to = await contract.getAddress();
+  const fragment = contract.interface.getFunction(method);
+  if (!fragment) {
+    throw new Error(`Unknown method ${method} on ${to}`);
+  }
+  const data = contract.interface.encodeFunctionData(fragment, args);
+  const params = fragment.inputs.map((input, i) => `${input.name || `arg${i}`}=${formatArg(args[i])}`);
+  const summary = `${fragment.name}(${params.join(", ")}) -> ${to}`;
+  batch.transactions.push({ to, value: "0", data, contractMethod: null, contractInputsValues: null });
+  batch.summaries.push(summary);
+  return summary;
+}
+
+/**
+ * Send an owner call from the connected signer, or queue it into the Safe batch when exporting.
+ */
+export async function sendOrQueue(
+  batch: SafeBatch | undefined,
+  contract: EncodableContract,
+  method: string,
+  args: readonly unknown[]
+) {
+  if (batch) {
+    const summary = await addSafeCall(batch, contract, method, args);
+    console.log(`[safe] queued #${batch.transactions.length - 1} ${summary}`);
+    return;
+  }
+  const send = (contract as unknown as BaseContract).getFunction(method);
+  await (await send(...args)).wait();
+}
+
+/**
+ * Record config in the environment file, or hold it in the batch until reconcile-safe when exporting.
+ */
+export function updateConfigOrQueue(
+  env: Environment,
+  batch: SafeBatch | undefined,
+  config: Partial<EnvironmentConfig>
+) {
+  if (batch) {
+    batch.pendingEnv.config = { ...batch.pendingEnv.config, ...config };
+    return;
+  }
+  updateConfig(env, config);
+}
+
+/**
+ * Record contract addresses in the environment file, or hold them in the batch when exporting.
+ */
+export function updateContractsOrQueue(
+  env: Environment,
+  batch: SafeBatch | undefined,
+  contracts: EnvironmentContracts
+) {
+  if (batch) {
+    batch.pendingEnv.contracts = { ...batch.pendingEnv.contracts, ...contracts };
+    return;
+  }
+  updateContracts(env, contracts);
+}
+
+/**
+ * Write the batch to `releases/<env>/safe/` and return the file path. Under PLAN=1 nothing is
+ * written and the path is only reported as planned.
+ */
+export function writeSafeBatch(env: Environment, batch: SafeBatch): string {
+  if (batch.transactions.length === 0) {
+    throw new Error(`Safe batch "${batch.name}" has no transactions`);
+  }
+  const createdAt = Date.now();
+  const file: SafeBatchFile = {
+    version: "1.0",
+    chainId: batch.chainId.toString(),
+    createdAt,
+    meta: {
+      name: batch.name,
+      description: batch.summaries.map((summary, i) => `#${i} ${summary}`).join("\n"),
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: batch.safeAddress,
+      createdFromOwnerAddress: "",
+    },
+    transactions: batch.transactions,
+  };
+
+  const dir = path.join("releases", env, "safe");
+  const label = batch.name.trim().replace(/[^a-zA-Z0-9._-]+/g, "-");
+  const filepath = path.join(dir, `${createdAt}-${label}.json`);
+  if (isPlanMode()) {
+    console.log(`[plan] would write ${batch.transactions.length} Safe transaction(s) to ${filepath}`);
+  } else {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(filepath, JSON.stringify(file, null, 2));
+    console.log(`[safe] wrote ${batch.transactions.length} transaction(s) to ${filepath}`);
+  }
+  for (const [i, summary] of batch.summaries.entries()) {
+    console.log(`[safe]   #${i} ${summary}`);
+  }
+  if (!isPlanMode()) console.log(`[safe] once executed, run reconcile-safe with SAFE_BATCH=${filepath}`);
+  return filepath;
+}
+
+/**
+ * Resolve the Safe that will execute the batch: SAFE_ADDRESS overrides the on-chain owner.
+ */
+export function resolveSafeAddress(currentOwner?: string): string {
+  const safeAddress = process.env.SAFE_ADDRESS || currentOwner;
+  if (!safeAddress) {
+    throw new Error("SAFE_EXPORT=1 requires SAFE_ADDRESS or a resolvable contract owner");
+  }
+  return safeAddress;
+}
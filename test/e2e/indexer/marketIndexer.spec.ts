@@ -0,0 +1,143 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { WAD, uniformFactors } from "../../helpers/constants";
+import { createPrng } from "../../helpers/utils";
+import { createMarketIndexer, type CrossCheckResult } from "../../../scripts/indexer/market-indexer";
+
+describe("E2E: market indexer", () => {
+  it("replays seeds and range factors into trees equal to on-chain sums, at head and in the past", async () => {
+    const { owner, users, core, payment } = await deployFullSystem();
+    const [alice, bob] = users;
+    const coreAddress = await core.getAddress();
+    const startBlock = await ethers.provider.getBlockNumber();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+    await payment.connect(owner).approve(coreAddress, 100_000_000_000n);
+    await core.connect(owner).seedVault(100_000_000_000n);
+    for (const trader of [alice, bob]) {
+      await payment.transfer(trader.address, 10_000_000_000n);
+      await payment.connect(trader).approve(coreAddress, ethers.MaxUint256);
+    }
+
+    const now = await time.latest();
+    await core.createMarket(
+      0,
+      120,
+      10,
+      now - 10,
+      now + 86400,
+      now + 86460,
+      12,
+      ethers.parseEther("2"),
+      ethers.ZeroAddress,
+      uniformFactors(12)
+    );
+    await core.createMarket(
+      100,
+      300,
+      20,
+      now - 10,
+      now + 86400,
+      now + 86460,
+      10,
+      WAD,
+      ethers.ZeroAddress,
+      uniformFactors(10)
+    );
+
+    const checks: CrossCheckResult[] = [];
+    const indexer = createMarketIndexer(core, {
+      fromBlock: startBlock,
+      blockBatchSize: 3,
+      crossCheckEvery: 2,
+      onCrossCheck: (result) => checks.push(result),
+    });
+    await indexer.sync();
+    expect(indexer.marketIds()).to.deep.equal([1n, 2n]);
+
+    const prng = createPrng(0x5be0cd19137e2179n);
+    const snapshots: { block: number; weights: bigint[] }[] = [];
+    for (let step = 0; step < 10; step++) {
+      const trader = step % 2 === 0 ? alice : bob;
+      const lo = prng.nextInt(11);
+      const hi = lo + 1 + prng.nextInt(12 - lo - 1);
+      // Up to ~10 WAD: several chunks (several RangeFactorApplied per trade) at α = 2
+      const quantity = prng.nextInRange(100_000n, 10_000_000n);
+      await core.connect(trader).openPosition(1, lo * 10, hi * 10, quantity, ethers.MaxUint256);
+      if (step % 3 === 2) {
+        await core.connect(trader).openPosition(2, 100 + lo * 20, 100 + Math.min(hi, 10) * 20, quantity, ethers.MaxUint256);
+      }
+      if (step === 6) {
+        await core.connect(alice).decreasePosition(1, 50_000n, 0);
+      }
+      const block = await indexer.sync();
+      snapshots.push({ block, weights: indexer.binWeights(1n).map((bin) => bin.weight) });
+    }
+
+    for (const marketId of [1n, 2n]) {
+      const result = await indexer.crossCheck(marketId);
+      expect(result.mismatches).to.deep.equal([]);
+      expect(result.checkedRanges).to.equal(marketId === 1n ? 13 : 11);
+    }
+    expect(checks.length).to.be.greaterThan(2);
+    expect(checks.every((check) => check.mismatches.length === 0)).to.equal(true);
+
+    // Implied probabilities cover the whole range
+    const weights = indexer.binWeights(1n);
+    const total = weights.reduce((acc, bin) => acc + bin.weight, 0n);
+    expect(indexer.rangeSum(1n, 0, 120)).to.be.closeTo(total, 12n);
+    const probabilitySum = weights.reduce((acc, bin) => acc + bin.probabilityWad, 0n);
+    expect(probabilitySum).to.be.lte(WAD);
+    expect(probabilitySum).to.be.gte(WAD - 12n);
+    expect(weights[0].lowerTick).to.equal(0n);
+    expect(weights[11].upperTick).to.equal(120n);
+
+    // Past curves are rebuilt from logs and match historical on-chain state
+    for (const snapshot of [snapshots[1], snapshots[5]]) {
+      const replayed = indexer.binWeights(1n, snapshot.block).map((bin) => bin.weight);
+      expect(replayed).to.deep.equal(snapshot.weights);
+      for (const bin of [0, 5, 11]) {
+        const onChain = await core.getRangeSum.staticCall(1, bin * 10, bin * 10 + 10, { blockTag: snapshot.block });
+        expect(replayed[bin]).to.equal(onChain);
+      }
+    }
+  });
+
+  it("only replays the requested markets", async () => {
+    const { core } = await deployFullSystem();
+    const now = await time.latest();
+    await core.createMarket(
+      0,
+      40,
+      10,
+      now - 10,
+      now + 3600,
+      now + 3660,
+      4,
+      WAD,
+      ethers.ZeroAddress,
+      uniformFactors(4)
+    );
+    await core.createMarket(
+      0,
+      40,
+      10,
+      now - 10,
+      now + 3600,
+      now + 3660,
+      4,
+      WAD,
+      ethers.ZeroAddress,
+      uniformFactors(4)
+    );
+
+    const indexer = createMarketIndexer(core, { marketIds: [2n], crossCheckEvery: 0 });
+    await indexer.sync();
+    expect(indexer.marketIds()).to.deep.equal([2n]);
+    expect(indexer.getReplica(2n)?.baseFactors).to.deep.equal(uniformFactors(4));
+    expect(() => indexer.binWeights(1n)).to.throw("Market 1 has not been replayed");
+  });
+});
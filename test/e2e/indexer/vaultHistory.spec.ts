@@ -0,0 +1,163 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { uniformFactors } from "../../helpers/constants";
+import { exportVaultHistory, readVaultHistory } from "../../../scripts/indexer/vault-history";
+
+const BATCH_SECONDS = 86400n;
+const wad = (value: bigint) => ethers.formatUnits(value, 18);
+
+describe("E2E: vault history export", () => {
+  const outDirs: string[] = [];
+  const tempDir = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vault-history-"));
+    outDirs.push(dir);
+    return dir;
+  };
+
+  after(() => {
+    for (const dir of outDirs) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("exports NAV, price and fee attribution per batch and resumes incrementally", async () => {
+    // Start in a fresh day so the market settles in the batch right after seeding
+    const day = BigInt(await time.latest()) / BATCH_SECONDS + 1n;
+    await time.increaseTo(day * BATCH_SECONDS + 3600n);
+
+    const { owner, users, core, payment, vaultModule } = await deployFullSystem({
+      submitWindow: 5,
+      opsWindow: 5,
+      claimDelay: 0,
+    });
+    const [trader] = users;
+    const coreAddress = await core.getAddress();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+    await core
+      .connect(owner)
+      .setFeeWaterfallConfig(
+        ethers.parseEther("0.2"),
+        ethers.parseEther("0.8"),
+        ethers.parseEther("0.1"),
+        ethers.parseEther("0.1")
+      );
+    await core.connect(owner).setCapitalStack(ethers.parseEther("100"), ethers.parseEther("10"));
+    await payment.connect(owner).approve(coreAddress, ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+    await payment.transfer(trader.address, 500_000_000n);
+    await payment.connect(trader).approve(coreAddress, ethers.MaxUint256);
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    // Day 1: a 5% fee market the trader loses, so there is P&L and fees left to attribute
+    const feePolicy = await (await ethers.getContractFactory("MockFeePolicy")).deploy(500);
+    const now = await time.latest();
+    const settlement = now + 60;
+    await core.createMarket(
+      0,
+      4,
+      1,
+      now - 5,
+      now + 50,
+      settlement,
+      4,
+      ethers.parseEther("10"),
+      await feePolicy.getAddress(),
+      uniformFactors(4)
+    );
+    const cost = await core.calculateOpenCost.staticCall(1, 1, 3, 5_000_000n);
+    await core.connect(trader).openPosition(1, 1, 3, 5_000_000n, cost * 2n);
+    await time.increaseTo(settlement + 10);
+    await core.connect(owner).markSettlementFailed(1);
+    await core.connect(owner).finalizeSecondarySettlement(1, 3_500_000n);
+    await core.connect(owner).requestSettlementChunks(1, 25);
+    await time.increaseTo((day + 1n) * BATCH_SECONDS);
+    const processed = await (await core.processDailyBatch(day)).wait();
+    const topic = vaultModule.interface.getEvent("DailyBatchProcessed").topicHash;
+    const event = vaultModule.interface.parseLog(processed!.logs.find((log) => log.topics[0] === topic)!)!;
+    const stackAfterDay = await core.getCapitalStack();
+
+    // Day 2: no market
+    await time.increaseTo((day + 2n) * BATCH_SECONDS);
+    await core.connect(owner).processEmptyBatch(day + 1n);
+
+    const outDir = tempDir();
+    const first = await exportVaultHistory(core, outDir, { fromBlock });
+    expect(first.added).to.equal(2);
+    const [row0, row1] = first.file.rows;
+    expect(row0).to.include({
+      batchId: day.toString(),
+      blockNumber: processed!.blockNumber,
+      txHash: processed!.hash,
+      lt: wad(event.args.lt),
+      ftot: wad(event.args.ftot),
+      ft: wad(event.args.ft),
+      navPre: wad(event.args.navPre),
+      batchPrice: wad(event.args.batchPrice),
+      navPost: wad(event.args.navPost),
+      pricePost: wad(event.args.pricePost),
+      backstopNav: wad(stackAfterDay[0]),
+      treasuryNav: wad(stackAfterDay[1]),
+    });
+
+    // Fee attribution closes: Ftot = Floss + Fpool = Ft + fees to backstop/treasury
+    const snapshot = await core.getDailyPnlSnapshot(day);
+    expect(snapshot.Ftot).to.be.gt(0n);
+    expect(row0).to.include({ floss: wad(snapshot.Floss), fpool: wad(snapshot.Fpool), ffill: wad(snapshot.Ffill) });
+    expect(snapshot.Floss + snapshot.Fpool).to.equal(snapshot.Ftot);
+    expect(row0.feesToCapitalStack).to.equal(wad(snapshot.Ftot - snapshot.Ft));
+    expect(ethers.parseEther(row0.feesToCapitalStack)).to.be.gt(0n);
+
+    // The empty day starts from the previous close and earns nothing
+    expect(row1).to.include({
+      batchId: (day + 1n).toString(),
+      navPrev: row0.navPost,
+      ftot: "0.0",
+      dailyReturn: "0.0000000000",
+    });
+    expect(Number(row0.dailyReturn)).to.be.closeTo(Number(row0.navPre) / Number(row0.navPrev) - 1, 1e-9);
+    expect(Number(row0.dailyApy)).to.be.closeTo(Math.pow(1 + Number(row0.dailyReturn), 365) - 1, 1e-6);
+    expect([row0.apy7d, row1.apy30d]).to.deep.equal(["", ""]);
+
+    const csv = fs.readFileSync(first.csvPath, "utf8").trim().split("\n");
+    expect(csv).to.have.length(3);
+    expect(csv[0].split(",")).to.include.members(["batchId", "navPost", "pricePost", "floss", "apy7d"]);
+
+    // Nothing new: resuming scans no logs and rewrites the same file
+    const unchanged = await exportVaultHistory(core, outDir);
+    expect(unchanged.added).to.equal(0);
+    expect(unchanged.file.rows).to.deep.equal(first.file.rows);
+
+    // A week of empty days later the trailing 7d window is available
+    for (let batchId = day + 2n; batchId <= day + 8n; batchId++) {
+      await time.increaseTo((batchId + 1n) * BATCH_SECONDS);
+      await core.connect(owner).processEmptyBatch(batchId);
+    }
+    const resumed = await exportVaultHistory(core, outDir);
+    expect(resumed.added).to.equal(7);
+    expect(resumed.file.rows.slice(0, 2)).to.deep.equal(first.file.rows);
+    expect(resumed.file.rows.map((r) => r.batchId)).to.deep.equal(
+      Array.from({ length: 9 }, (_, i) => (day + BigInt(i)).toString())
+    );
+    expect(resumed.file.rows[6].apy7d).to.equal("");
+    expect(resumed.file.rows[7].apy7d).to.equal("0.0000000000");
+
+    // A resumed export is identical to a full one
+    const fullDir = tempDir();
+    await exportVaultHistory(core, fullDir, { fromBlock });
+    expect(readVaultHistory(fullDir)).to.deep.equal(readVaultHistory(outDir));
+    expect(fs.readFileSync(path.join(fullDir, "vault-history.csv"), "utf8")).to.equal(
+      fs.readFileSync(resumed.csvPath, "utf8")
+    );
+
+    // An export from another deployment is never mixed in
+    const foreign = { ...readVaultHistory(outDir)!, core: ethers.ZeroAddress };
+    fs.writeFileSync(resumed.jsonPath, JSON.stringify(foreign));
+    const refused = await exportVaultHistory(core, outDir).catch((err: Error) => err.message);
+    expect(refused).to.match(/^Existing export in .* is for core 0x0{40}/);
+  });
+});
@@ -0,0 +1,197 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { uniformFactors } from "../../helpers/constants";
+import { DATA_FEED_ID, FEED_DECIMALS } from "../../helpers/redstone";
+import { formatRevert } from "../../../scripts/utils/revert";
+import {
+  buildSamplePayload,
+  encodeSampleCalldata,
+  HARDHAT_SIGNER_KEYS,
+  signDataPackages,
+} from "../../../scripts/keeper/payload-source";
+import {
+  checkSampleTimestamp,
+  createFixturePackageSource,
+  relaySettlementSamples,
+  toPackageFixture,
+  type SampleContext,
+} from "../../../scripts/keeper/redstone-relayer";
+
+describe("E2E: Redstone sample relayer", () => {
+  async function deployRelayerFixture() {
+    const system = await deployFullSystem({ submitWindow: 300 });
+    const { owner, core } = system;
+    await core.connect(owner).setMinSeedAmount(1);
+    const now = await time.latest();
+    const tSet = BigInt(now + 100);
+    await core.createMarket(
+      0,
+      200,
+      1,
+      now - 5,
+      now + 50,
+      tSet,
+      200,
+      ethers.parseEther("1"),
+      ethers.ZeroAddress,
+      uniformFactors(200)
+    );
+
+    const sign = (offset: number, price: number, keys = HARDHAT_SIGNER_KEYS, feedId = DATA_FEED_ID) =>
+      signDataPackages({
+        signerKeys: keys,
+        feedId,
+        feedDecimals: FEED_DECIMALS,
+        price,
+        timestampSec: Number(tSet) + offset,
+      });
+    const packages = [
+      ...sign(-30, 100),
+      ...sign(-10, 101),
+      ...sign(10, 102),
+      ...sign(40, 103),
+      ...sign(-250, 104), // older than Redstone's 3 minutes by the time it lands
+      ...sign(100, 105), // beyond futureTolerance (60s)
+      ...sign(5, 106, HARDHAT_SIGNER_KEYS.slice(0, 2)), // below the signer threshold
+      ...sign(0, 107, HARDHAT_SIGNER_KEYS, "ETH"),
+    ];
+    const fixturePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "relayer-")), "packages.json");
+    fs.writeFileSync(fixturePath, JSON.stringify(toPackageFixture(packages)));
+    return { ...system, tSet, sign, fixturePath };
+  }
+
+  it("pre-checks sample timestamps against Δmax, δfuture and Redstone staleness", () => {
+    const ctx: SampleContext = {
+      settlementTimestamp: 1000n,
+      now: 1020n,
+      maxSampleDistance: 600n,
+      futureTolerance: 30n,
+      inclusionMarginSec: 10n,
+    };
+    expect(checkSampleTimestamp(1000n, ctx)).to.equal(undefined);
+    expect(checkSampleTimestamp(399n, { ...ctx, now: 400n })).to.equal("too-far-from-tset");
+    expect(checkSampleTimestamp(1051n, ctx)).to.equal("in-future");
+    expect(checkSampleTimestamp(1081n, { ...ctx, futureTolerance: 120n })).to.equal("too-far-ahead-for-redstone");
+    // 180s staleness less the 10s inclusion margin
+    expect(checkSampleTimestamp(850n, ctx)).to.equal(undefined);
+    expect(checkSampleTimestamp(849n, ctx)).to.equal("too-old-for-redstone");
+    // Same distance: only the earlier sample replaces the candidate
+    expect(checkSampleTimestamp(990n, { ...ctx, candidateTimestamp: 1010n })).to.equal(undefined);
+    expect(checkSampleTimestamp(1010n, { ...ctx, candidateTimestamp: 990n })).to.equal("not-closer-than-candidate");
+    // Multi-sample rule: stored samples replace the candidate check
+    const stored = { ...ctx, candidateTimestamp: 1000n, storedSamples: { maxSamples: 3, timestamps: [1000n, 1010n] } };
+    expect(checkSampleTimestamp(1020n, stored)).to.equal(undefined);
+    expect(checkSampleTimestamp(1010n, stored)).to.equal("already-stored");
+    const full = { ...stored, storedSamples: { maxSamples: 2, timestamps: [1000n, 1010n] } };
+    expect(checkSampleTimestamp(990n, full)).to.equal(undefined);
+    expect(checkSampleTimestamp(1020n, full)).to.equal("not-closer-than-stored-samples");
+  });
+
+  it("builds calldata offline, then relays samples closest-last and decodes candidate updates", async () => {
+    const { core, owner, users, tSet, sign, fixturePath } = await deployRelayerFixture();
+    const source = createFixturePackageSource(fixturePath);
+
+    const early = await relaySettlementSamples(core, owner, 1n, { source }).catch((e: unknown) => e);
+    expect((early as Error).message).to.match(/^Market 1 is not in SettlementOpen/);
+
+    await time.increaseTo(tSet + 20n);
+    const dry = await relaySettlementSamples(core, owner, 1n, { source, dryRun: true });
+    expect(dry.submissions.map((s) => s.priceTimestamp - tSet)).to.deep.equal([-30n, 10n, -10n]);
+    expect(dry.submissions.every((s) => s.txHash === undefined && s.signers === 3)).to.equal(true);
+    expect(dry.rejected.map((r) => [r.timestampSec - tSet, r.reason])).to.deep.equal([
+      [40n, "beyond-max-samples"],
+      [100n, "in-future"],
+      [-250n, "too-old-for-redstone"],
+    ]);
+    await expect(core.getSettlementPrice.staticCall(1)).to.be.reverted;
+
+    // Offline calldata is valid from any account
+    await users[1].sendTransaction({ to: dry.submissions[0].to, data: dry.submissions[0].data });
+    expect((await core.getSettlementPrice.staticCall(1))[1]).to.equal(tSet - 30n);
+
+    const logs: string[] = [];
+    const result = await relaySettlementSamples(core, owner, 1n, {
+      source,
+      log: (entry) => logs.push(entry.event),
+    });
+    // The -30s sample is already the candidate; +40s is no closer
+    expect(result.rejected.map((r) => [r.timestampSec - tSet, r.reason])).to.deep.include.members([
+      [-30n, "not-closer-than-candidate"],
+      [40n, "not-closer-than-candidate"],
+    ]);
+    expect(result.submissions.map((s) => [s.priceTimestamp - tSet, s.candidateUpdate?.distance])).to.deep.equal([
+      [10n, 10n],
+      [-10n, 10n],
+    ]);
+    expect(
+      result.candidateUpdates.map((u) => [u.priceTimestamp - tSet, u.settlementValue, u.settlementTick])
+    ).to.deep.equal([
+      [10n, 102_000_000n, 102n],
+      [-10n, 101_000_000n, 101n],
+    ]);
+    expect(result.candidate).to.deep.equal({ settlementValue: 101_000_000n, priceTimestamp: tSet - 10n });
+    expect(logs).to.deep.equal(["samples-selected", "sample-submitted", "sample-submitted"]);
+
+    // Nothing closer is left
+    const again = await relaySettlementSamples(core, owner, 1n, { source });
+    expect(again.submissions).to.deep.equal([]);
+
+    // The pre-check matches the chain: a stale sample reverts in the consumer base
+    const stale = encodeSampleCalldata(1n, buildSamplePayload(sign(-250, 104)));
+    const err = await owner.sendTransaction({ to: await core.getAddress(), data: stale }).catch((e: unknown) => e);
+    expect(formatRevert(err)).to.match(/^TimestampIsTooOld\(/);
+  });
+
+  it("fills the K sample slots of a multi-sample settlement rule", async () => {
+    const { core, owner, tSet, fixturePath } = await deployRelayerFixture();
+    await core.connect(owner).setSettlementRule(1, 3, 0); // median of 3
+    const source = createFixturePackageSource(fixturePath);
+    await time.increaseTo(tSet + 20n);
+
+    // Samples that do not beat the candidate still take free slots
+    const result = await relaySettlementSamples(core, owner, 1n, { source });
+    expect(result.submissions.map((s) => [s.priceTimestamp - tSet, s.error])).to.deep.equal([
+      [-30n, undefined],
+      [10n, undefined],
+      [-10n, undefined],
+    ]);
+    const [, timestamps] = await core.getSettlementSamples.staticCall(1);
+    expect(timestamps.map((t) => t - tSet)).to.deep.equal([-30n, 10n, -10n]);
+
+    const again = await relaySettlementSamples(core, owner, 1n, { source });
+    expect(again.submissions).to.deep.equal([]);
+    expect(again.rejected.map((r) => [r.timestampSec - tSet, r.reason])).to.deep.include.members([
+      [-10n, "already-stored"],
+      [40n, "not-closer-than-stored-samples"],
+    ]);
+  });
+
+  it("reads packages from a stand-in server and records failed submissions", async () => {
+    const { core, owner, tSet, sign } = await deployRelayerFixture();
+    // The closest sample is signed by keys the consumer base does not authorise
+    const strangers = [1, 2, 3].map((i) => ethers.zeroPadValue(ethers.toBeHex(i), 32));
+    const body = JSON.stringify(toPackageFixture([...sign(-30, 100), ...sign(-5, 99, strangers)]));
+    const server = http.createServer((_, res) => res.end(body));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const source = createFixturePackageSource(`http://127.0.0.1:${port}/packages.json`);
+      await time.increaseTo(tSet + 20n);
+      const result = await relaySettlementSamples(core, owner, 1n, { source });
+      expect(result.submissions.map((s) => s.priceTimestamp - tSet)).to.deep.equal([-30n, -5n]);
+      expect(result.submissions[0].candidateUpdate?.settlementValue).to.equal(100_000_000n);
+      expect(result.submissions[1].txHash).to.equal(undefined);
+      expect(result.submissions[1].error).to.match(/^SignerNotAuthorised\(/);
+      expect(result.candidate?.priceTimestamp).to.equal(tSet - 30n);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,202 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { uniformFactors } from "../../helpers/constants";
+import { FEED_DECIMALS } from "../../helpers/redstone";
+import {
+  createKeeper,
+  runKeeperTick,
+  type KeeperLogEntry,
+} from "../../../scripts/keeper/settlement-keeper";
+import { createMockPayloadSource, HARDHAT_SIGNER_KEYS } from "../../../scripts/keeper/payload-source";
+
+const SUBMIT_WINDOW = 5;
+const OPS_WINDOW = 5;
+
+describe("E2E: settlement keeper", () => {
+  it("drives sample, finalize, chunks and daily batch idempotently", async () => {
+    // Start in a fresh day so both markets land in the batch right after seeding
+    const day = BigInt(await time.latest()) / 86400n + 1n;
+    await time.increaseTo(day * 86400n + 3600n);
+
+    const { owner, users, core, payment } = await deployFullSystem({
+      submitWindow: SUBMIT_WINDOW,
+      opsWindow: OPS_WINDOW,
+      claimDelay: 0,
+    });
+    const [trader] = users;
+    const coreAddress = await core.getAddress();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+    await core.connect(owner).setFeeWaterfallConfig(0, ethers.parseEther("1"), 0, 0);
+    await payment.connect(owner).approve(coreAddress, 20_000_000n);
+    await core.connect(owner).seedVault(20_000_000n);
+    await payment.transfer(trader.address, 50_000_000n);
+    await payment.connect(trader).approve(coreAddress, ethers.MaxUint256);
+
+    const now = await time.latest();
+    const settlement = now + 60;
+    const create = () =>
+      core.createMarket(
+        0,
+        4,
+        1,
+        now - 5,
+        now + 50,
+        settlement,
+        4,
+        ethers.parseEther("1"),
+        ethers.ZeroAddress,
+        uniformFactors(4)
+      );
+    await create(); // market 1: primary path, one open position
+    await create(); // market 2: oracle unavailable -> failed -> manual secondary
+    const cost = await core.calculateOpenCost.staticCall(1, 1, 3, 1_000n);
+    await core.connect(trader).openPosition(1, 1, 3, 1_000n, cost + 1_000_000n);
+
+    let payloadCalls = 0;
+    const logs: KeeperLogEntry[] = [];
+    const mock = createMockPayloadSource({
+      signerKeys: HARDHAT_SIGNER_KEYS,
+      feedDecimals: FEED_DECIMALS,
+      price: () => 2,
+    });
+    const keeper = createKeeper(core, owner, {
+      payloadSource: {
+        name: "flaky-mock",
+        async getPayload(request) {
+          payloadCalls++;
+          // First fetch fails to exercise retries; market 2 never gets a price
+          if (payloadCalls === 1 || request.marketId === 2n) throw new Error("gateway unavailable");
+          return mock.getPayload(request);
+        },
+      },
+      log: (entry) => logs.push(entry),
+      retries: 1,
+      retryDelayMs: 0,
+    });
+
+    // Trading: nothing to do
+    expect(await runKeeperTick(keeper)).to.deep.equal([]);
+
+    // SettlementOpen: sample submitted once, market 2 logged as failed step
+    await time.increaseTo(settlement);
+    let actions = await runKeeperTick(keeper);
+    expect(actions.map((a) => [a.step, a.marketId])).to.deep.equal([["submitSettlementSample", 1n]]);
+    expect(logs.some((l) => l.event === "retry" && l.marketId === "1")).to.equal(true);
+    expect(logs.some((l) => l.event === "market-failed" && l.marketId === "2")).to.equal(true);
+    const [price] = await core.getSettlementPrice.staticCall(1);
+    expect(price).to.equal(2_000_000n);
+
+    const callsAfterSubmit = payloadCalls;
+    actions = await runKeeperTick(keeper);
+    expect(actions.filter((a) => a.marketId === 1n)).to.deep.equal([]);
+    expect(payloadCalls).to.equal(callsAfterSubmit + 2); // only market 2 retried
+
+    // Past PendingOps: finalize + chunks for market 1, market 2 routed to manual
+    await time.increaseTo(settlement + SUBMIT_WINDOW + OPS_WINDOW);
+    actions = await runKeeperTick(keeper);
+    expect(actions.map((a) => [a.step, a.marketId])).to.deep.equal([
+      ["finalizePrimarySettlement", 1n],
+      ["requestSettlementChunks", 1n],
+      ["markSettlementFailed", 2n],
+    ]);
+    expect((await core.markets(1)).snapshotChunksDone).to.equal(true);
+    expect(await core.getMarketState.staticCall(2)).to.equal(5);
+
+    actions = await runKeeperTick(keeper);
+    expect(actions).to.deep.equal([]);
+    expect(logs.filter((l) => l.event === "manual-settlement-required")).to.have.length(1);
+
+    // Operator settles market 2 manually; the batch runs once the day has ended
+    await core.connect(owner).finalizeSecondarySettlement(2, 2_000_000n);
+    expect(await runKeeperTick(keeper)).to.deep.equal([]);
+    await time.increaseTo((day + 1n) * 86400n);
+    actions = await runKeeperTick(keeper);
+    expect(actions.map((a) => [a.step, a.batchId])).to.deep.equal([["processDailyBatch", day]]);
+    expect(await core.getCurrentBatchId()).to.equal(day);
+
+    // Everything resolved: later ticks are no-ops and skip finished markets
+    expect(await runKeeperTick(keeper)).to.deep.equal([]);
+    expect(Array.from(keeper.finished).sort()).to.deep.equal([1n, 2n]);
+  });
+
+  it("settles a batch mixing markets on different feeds", async () => {
+    const day = BigInt(await time.latest()) / 86400n + 1n;
+    await time.increaseTo(day * 86400n + 3600n);
+
+    const { owner, core, payment } = await deployFullSystem({
+      submitWindow: SUBMIT_WINDOW,
+      opsWindow: OPS_WINDOW,
+      claimDelay: 0,
+    });
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+    await core.connect(owner).setFeeWaterfallConfig(0, ethers.parseEther("1"), 0, 0);
+    await payment.connect(owner).approve(await core.getAddress(), 20_000_000n);
+    await core.connect(owner).seedVault(20_000_000n);
+
+    const now = await time.latest();
+    const settlement = now + 60;
+    const args = [
+      0,
+      4,
+      1,
+      now - 5,
+      now + 50,
+      settlement,
+      4,
+      ethers.parseEther("1"),
+      ethers.ZeroAddress,
+      uniformFactors(4),
+    ] as const;
+    await core.createMarket(...args); // market 1: global BTC feed (8 decimals)
+    await core.createMarketWithOracle(...args, {
+      feedId: ethers.encodeBytes32String("ETH"),
+      feedDecimals: 18,
+      maxSampleDistance: 600,
+      futureTolerance: 60,
+    });
+
+    // Each market is asked for its own feed; the mock signs with the requested decimals
+    const requests: [bigint, string, number][] = [];
+    const mock = createMockPayloadSource({
+      signerKeys: HARDHAT_SIGNER_KEYS,
+      price: ({ feedId }) => (feedId === "ETH" ? 3 : 1),
+    });
+    const keeper = createKeeper(core, owner, {
+      payloadSource: {
+        name: "recording-mock",
+        async getPayload(request) {
+          requests.push([request.marketId, request.feedId, request.feedDecimals]);
+          return mock.getPayload(request);
+        },
+      },
+      log: () => {},
+      retries: 0,
+      retryDelayMs: 0,
+    });
+
+    await time.increaseTo(settlement);
+    await runKeeperTick(keeper);
+    expect(requests).to.deep.equal([
+      [1n, "BTC", FEED_DECIMALS],
+      [2n, "ETH", 18],
+    ]);
+
+    await time.increaseTo(settlement + SUBMIT_WINDOW + OPS_WINDOW);
+    await runKeeperTick(keeper);
+    await time.increaseTo((day + 1n) * 86400n);
+    const actions = await runKeeperTick(keeper);
+    expect(actions.map((a) => [a.step, a.batchId])).to.deep.equal([["processDailyBatch", day]]);
+    const [btc, eth] = [await core.markets(1), await core.markets(2)];
+    expect([btc.settlementValue, btc.settlementTick, eth.settlementValue, eth.settlementTick]).to.deep.equal([
+      1_000_000n,
+      1n,
+      3_000_000n,
+      3n,
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { WAD, uniformFactors } from "../../helpers/constants";
+import { createTree } from "../../../scripts/lib/lazy-mul-segment-tree";
+import { applyTrade, type QuoteMarket } from "../../../scripts/lib/clmsr-quote";
+import { formatRevert } from "../../../scripts/utils/revert";
+import type { SignalsCore } from "../../../typechain-types";
+import {
+  distributionFromTree,
+  expectedSettlementPrice,
+  fetchImpliedDistribution,
+  quantile,
+  rangeProbability,
+} from "../../../scripts/sdk/implied-distribution";
+
+describe("E2E: implied distribution", () => {
+  async function deployDistributionFixture() {
+    const system = await deployFullSystem();
+    const { owner, users, core, payment } = system;
+    const coreAddress = await core.getAddress();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), WAD, false);
+    // The peaked prior's ΔEₜ needs backstop cover
+    await core.connect(owner).setCapitalStack(ethers.parseEther("100"), 0);
+    await payment.connect(owner).approve(coreAddress, ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+    await payment.transfer(users[0].address, 500_000_000n);
+    await payment.connect(users[0]).approve(coreAddress, ethers.MaxUint256);
+
+    // Market 1: 10 bins of 100 ticks over [1000, 2000) with a prior peaked on [1400, 1600)
+    const peaked = uniformFactors(10).map((f, bin) => (bin === 4 || bin === 5 ? f * 4n : f));
+    const now = await time.latest();
+    const alpha = ethers.parseEther("10");
+    await core.createMarket(1000, 2000, 100, now - 5, now + 3600, now + 3700, 10, alpha, ethers.ZeroAddress, peaked);
+    // Market 2: the 256-bin maximum, uniform
+    const uniform = uniformFactors(256);
+    await core.createMarket(0, 256, 1, now - 5, now + 3600, now + 3700, 256, WAD, ethers.ZeroAddress, uniform);
+    return { ...system, trader: users[0], peaked };
+  }
+
+  it("matches the tree replica and range sums, and moves with trades", async () => {
+    const { core, trader, peaked } = await loadFixture(deployDistributionFixture);
+    const market: QuoteMarket = await core.markets(1);
+    const tree = createTree(peaked);
+
+    const prior = await fetchImpliedDistribution(core, 1n, { binsPerCall: 3 });
+    expect(prior.bins.map((b) => [b.lowerTick, b.upperTick])).to.deep.equal(
+      Array.from({ length: 10 }, (_, i) => [1000n + 100n * BigInt(i), 1100n + 100n * BigInt(i)])
+    );
+    expect(prior).to.deep.equal(distributionFromTree(market, tree));
+    // 8 + 4 + 4 = 16 units of weight; the peak holds 8/16 of it
+    expect(prior.bins[4].probability).to.equal(WAD / 4n);
+    expect(rangeProbability(prior, 1400n, 1600n)).to.equal(WAD / 2n);
+    expect(prior.bins[9].cdf).to.equal(prior.total);
+    expect(WAD - prior.total).to.be.lte(10n);
+    expect(prior.bins[4].density).to.be.closeTo(0.25 / 100, 1e-12);
+
+    // Symmetric around 1500: mean and median sit at the centre
+    expect(expectedSettlementPrice(prior)).to.be.closeTo(1500, 1e-9);
+    expect(quantile(prior, 0.5)).to.be.closeTo(1500, 1e-9);
+    expect(quantile(prior, 0.25)).to.be.closeTo(1400, 1e-9);
+    expect(quantile(prior, 0.09375)).to.be.closeTo(1150, 1e-9);
+
+    await core.connect(trader).openPosition(1, 1700, 1900, 20_000_000n, 100_000_000n);
+    applyTrade(market, tree, 1700n, 1900n, 20_000_000n, true);
+    const after = await fetchImpliedDistribution(core, 1n);
+    expect(after).to.deep.equal(distributionFromTree(market, tree));
+    const total = await core.getRangeSum.staticCall(1, 1000, 2000);
+    const range = await core.getRangeSum.staticCall(1, 1700, 1900);
+    expect(rangeProbability(after, 1700n, 1900n)).to.be.closeTo((range * WAD) / total, 2n);
+    expect(rangeProbability(after, 1700n, 1900n)).to.be.gt(rangeProbability(prior, 1700n, 1900n));
+    expect(expectedSettlementPrice(after)).to.be.gt(1500);
+
+    // Off-edge ticks take the covered share of their bin
+    const [bin4, bin5] = [after.bins[4].probability, after.bins[5].probability];
+    expect(rangeProbability(after, 1450n, 1600n)).to.equal(bin4 / 2n + bin5);
+    expect(rangeProbability(after, 1410n, 1420n)).to.equal(bin4 / 10n);
+    expect(rangeProbability(after, 1000n, 2000n)).to.equal(after.total);
+    expect(() => rangeProbability(after, 950n, 1600n)).to.throw("Range [950, 1600) outside [1000, 2000)");
+    expect(() => quantile(after, 1)).to.throw("Quantile must be within (0, 1)");
+  });
+
+  it("reads every page at one block when a trade lands in between", async () => {
+    const { core, trader } = await loadFixture(deployDistributionFixture);
+    const pinned = await ethers.provider.getBlockNumber();
+    const prior = await fetchImpliedDistribution(core, 2n, { blockTag: pinned });
+
+    // The trade is mined after the first page has been read
+    let traded = false;
+    const interleaved = new Proxy(core, {
+      get(target, prop) {
+        if (prop !== "getBinProbabilities") return Reflect.get(target, prop);
+        return {
+          staticCall: async (...args: Parameters<SignalsCore["getBinProbabilities"]["staticCall"]>) => {
+            const page = await target.getBinProbabilities.staticCall(...args);
+            if (!traded) {
+              traded = true;
+              await core.connect(trader).openPosition(2, 200, 256, 50_000_000n, 100_000_000n);
+            }
+            return page;
+          },
+        };
+      },
+    });
+    const dist = await fetchImpliedDistribution(interleaved, 2n, { binsPerCall: 100 });
+    expect(traded).to.equal(true);
+    expect(dist).to.deep.equal(prior);
+
+    const after = await fetchImpliedDistribution(core, 2n, { binsPerCall: 100 });
+    expect(rangeProbability(after, 200n, 256n)).to.be.gt(rangeProbability(prior, 200n, 256n));
+    expect(WAD - after.total).to.be.lte(256n);
+  });
+
+  it("pages through a 256-bin market and bounds the view to the market", async () => {
+    const { core } = await loadFixture(deployDistributionFixture);
+    const dist = await fetchImpliedDistribution(core, 2n, { binsPerCall: 100 });
+    expect(dist.bins).to.have.length(256);
+    expect(new Set(dist.bins.map((b) => b.probability))).to.deep.equal(new Set([WAD / 256n]));
+    expect(dist.bins[255]).to.include({ lowerTick: 255n, upperTick: 256n });
+    expect(quantile(dist, 0.5)).to.be.closeTo(128, 1e-9);
+
+    // count past the end is clamped; fromBin past the end reverts
+    const [ticks, probabilities] = await core.getBinProbabilities.staticCall(2, 250, 100);
+    expect(ticks).to.deep.equal([250n, 251n, 252n, 253n, 254n, 255n]);
+    expect(probabilities).to.have.length(6);
+    const outOfRange = await core.getBinProbabilities.staticCall(2, 256, 1).catch((err: unknown) => err);
+    expect(formatRevert(outOfRange)).to.equal("IndexOutOfBounds(index=256, size=256)");
+    const missing = await core.getBinProbabilities.staticCall(9, 0, 1).catch((err: unknown) => err);
+    expect(formatRevert(missing)).to.equal("MarketNotFound(marketId=9)");
+  });
+});
@@ -0,0 +1,140 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { WAD, uniformFactors } from "../../helpers/constants";
+import { applySlippage, createTradeClient } from "../../../scripts/sdk/trade-client";
+import { formatRevert } from "../../../scripts/utils/revert";
+
+describe("E2E: trade client", () => {
+  async function deployTradeClientFixture() {
+    const system = await deployFullSystem();
+    const { owner, users, core, payment } = system;
+    const coreAddress = await core.getAddress();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), WAD, false);
+    await payment.connect(owner).approve(coreAddress, ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+    for (const user of users.slice(0, 2)) await payment.transfer(user.address, 500_000_000n);
+
+    // 1% overlay fee on both sides
+    const feePolicy = await (await ethers.getContractFactory("MockFeePolicy")).deploy(100);
+    const now = await time.latest();
+    await core.createMarket(
+      0,
+      4,
+      1,
+      now - 5,
+      now + 3600,
+      now + 3700,
+      4,
+      ethers.parseEther("10"),
+      await feePolicy.getAddress(),
+      uniformFactors(4)
+    );
+    return { ...system, trader: users[0], other: users[1], feePolicy, marketId: 1n };
+  }
+
+  it("rounds the bound away from the quote", () => {
+    expect(applySlippage(1_000_001n, 50n, true)).to.equal(1_005_002n);
+    expect(applySlippage(1_000_001n, 50n, false)).to.equal(995_000n);
+    expect(applySlippage(1_000n, 0n, true)).to.equal(1_000n);
+    expect(() => applySlippage(1n, 10_001n, false)).to.throw("slippageBps must be within [0, 10000]");
+  });
+
+  it("quotes base cost plus fee, approves and decodes every trade", async () => {
+    const { core, payment, trader, feePolicy, marketId } = await loadFixture(deployTradeClientFixture);
+    const client = createTradeClient(core, trader, { slippageBps: 100n });
+    const policy = await feePolicy.getAddress();
+
+    const open = await client.quoteOpen({ marketId, lowerTick: 1n, upperTick: 3n, quantity: 5_000_000n });
+    const cost = await core.calculateOpenCost.staticCall(marketId, 1, 3, 5_000_000n);
+    expect(open).to.include({ kind: "open", isBuy: true, baseAmount: cost, fee: cost / 100n, feePolicy: policy });
+    expect(open.net).to.equal(cost + cost / 100n);
+    expect(open.limit).to.equal(applySlippage(open.net, 100n, true));
+
+    // No allowance yet: the approval covers exactly the bound
+    const prepared = await client.prepare(open);
+    expect(prepared.approval).to.not.equal(undefined);
+    expect(prepared.tx.to).to.equal(await core.getAddress());
+
+    let balance = await payment.balanceOf(trader.address);
+    const opened = await client.execute(open);
+    expect(opened).to.include({ kind: "open", marketId, quantity: 5_000_000n, newQuantity: 5_000_000n });
+    expect([opened.baseAmount, opened.fee, opened.feePolicy, opened.net]).to.deep.equal([
+      open.baseAmount,
+      open.fee,
+      policy,
+      open.net,
+    ]);
+    expect(balance - (await payment.balanceOf(trader.address))).to.equal(opened.net);
+    const positionId = opened.positionId;
+
+    const increase = await client.quoteIncrease(positionId, 1_000_000n);
+    expect(increase).to.include({ positionId, lowerTick: 1n, upperTick: 3n });
+    expect((await client.execute(increase)).newQuantity).to.equal(6_000_000n);
+
+    const decrease = await client.quoteDecrease(positionId, 2_000_000n);
+    expect(decrease).to.include({ isBuy: false, fee: decrease.baseAmount / 100n });
+    expect(decrease.limit).to.equal(applySlippage(decrease.net, 100n, false));
+    expect((await client.prepare(decrease)).approval).to.equal(undefined);
+    balance = await payment.balanceOf(trader.address);
+    const decreased = await client.execute(decrease);
+    expect([decreased.quantity, decreased.newQuantity, decreased.net]).to.deep.equal([
+      2_000_000n,
+      4_000_000n,
+      decrease.net,
+    ]);
+    expect((await payment.balanceOf(trader.address)) - balance).to.equal(decreased.net);
+
+    const close = await client.quoteClose(positionId);
+    expect(close.quantity).to.equal(4_000_000n);
+    const closed = await client.execute(close);
+    expect([closed.kind, closed.quantity, closed.newQuantity, closed.baseAmount]).to.deep.equal([
+      "close",
+      4_000_000n,
+      0n,
+      close.baseAmount,
+    ]);
+  });
+
+  it("sizes an open from a budget that covers cost and fee", async () => {
+    const { core, payment, trader, marketId } = await loadFixture(deployTradeClientFixture);
+    const client = createTradeClient(core, trader, { slippageBps: 0n });
+    const budget = { marketId, lowerTick: 1n, upperTick: 3n, budget: 10_000_000n };
+
+    const quote = await client.quoteOpenFromBudget(budget);
+    expect(quote.net).to.be.lte(10_000_000n);
+    expect(quote.limit).to.equal(quote.net);
+    const bigger = await client.quoteOpen({ marketId, lowerTick: 1n, upperTick: 3n, quantity: quote.quantity + 1n });
+    expect(bigger.net).to.be.gt(10_000_000n);
+
+    const balance = await payment.balanceOf(trader.address);
+    const opened = await client.execute(quote);
+    expect(opened.quantity).to.equal(quote.quantity);
+    expect(balance - (await payment.balanceOf(trader.address))).to.equal(quote.net);
+  });
+
+  it("rejects a stale quote beyond the tolerance and fills within it", async () => {
+    const { core, trader, other, marketId } = await loadFixture(deployTradeClientFixture);
+    const client = createTradeClient(core, trader, { slippageBps: 0n, approval: "unlimited" });
+    const params = { marketId, lowerTick: 1n, upperTick: 3n, quantity: 5_000_000n };
+    const strict = await client.quoteOpen(params);
+    const loose = await client.quoteOpen(params, { slippageBps: 500n });
+    expect(loose.net).to.equal(strict.net);
+
+    // Someone buys the same range first and moves the price
+    const front = createTradeClient(core, other);
+    await front.execute(await front.quoteOpen({ ...params, quantity: 1_000_000n }));
+
+    const err = await client.execute(strict).catch((e: unknown) => e);
+    expect(formatRevert(err)).to.match(/^CostExceedsMaximum\(cost=\d+, maxAllowed=\d+\)$/);
+
+    // The unlimited approval sent before the failed trade stays in place
+    expect((await client.prepare(loose)).approval).to.equal(undefined);
+    const filled = await client.execute(loose);
+    expect(filled.net).to.be.gt(loose.net);
+    expect(filled.net).to.be.lte(loose.limit);
+  });
+});
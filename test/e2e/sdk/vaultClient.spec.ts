@@ -0,0 +1,130 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { WAD, uniformFactors } from "../../helpers/constants";
+import {
+  getDepositRequestInfo,
+  listVaultRequests,
+  nextEligibleBatches,
+  type VaultRequestInfo,
+} from "../../../scripts/sdk/vault-client";
+
+const SUBMIT_WINDOW = 5;
+const OPS_WINDOW = 5;
+
+function summary(requests: VaultRequestInfo[]) {
+  return requests.map((r) => [r.kind, r.requestId, r.status, r.eligibleBatchId, r.cancellable]);
+}
+
+describe("E2E: LP vault client", () => {
+  it("tracks request status, claim times and previews through batch processing and claims", async () => {
+    // Start in a fresh day so the market and first deposit share the batch right after seeding
+    const day = BigInt(await time.latest()) / 86400n + 1n;
+    await time.increaseTo(day * 86400n + 3600n);
+
+    const { owner, users, core, payment, lpShare } = await deployFullSystem({
+      submitWindow: SUBMIT_WINDOW,
+      opsWindow: OPS_WINDOW,
+      claimDelay: 0,
+    });
+    const [lp, trader, other] = users;
+    const coreAddress = await core.getAddress();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), WAD, false);
+    await core.connect(owner).setFeeWaterfallConfig(0, WAD, 0, 0);
+    await core.connect(owner).setWithdrawalLagBatches(1);
+    await payment.connect(owner).approve(coreAddress, ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+    await lpShare.connect(owner).transfer(lp.address, ethers.parseEther("100"));
+    for (const user of [lp, trader, other]) {
+      await payment.transfer(user.address, 500_000_000n);
+      await payment.connect(user).approve(coreAddress, ethers.MaxUint256);
+    }
+
+    const next = await nextEligibleBatches(core);
+    expect([next.deposit.batchId, next.withdraw.batchId]).to.deep.equal([day, day + 1n]);
+    expect(next.deposit.endsAt).to.equal((day + 1n) * 86400n);
+
+    await core.connect(lp).requestDeposit(50_000_001n); // deposit 0
+    await core.connect(lp).requestDeposit(10_000_000n); // deposit 1, cancelled below
+    await core.connect(other).requestDeposit(5_000_000n); // someone else's
+    await core.connect(lp).requestWithdraw(ethers.parseEther("40")); // withdraw 0
+    await core.connect(lp).cancelDeposit(1);
+
+    let requests = await listVaultRequests(core, lp.address);
+    expect(summary(requests)).to.deep.equal([
+      ["deposit", 0n, "pending", day, true],
+      ["deposit", 1n, "cancelled", day, false],
+      ["withdraw", 0n, "pending", day + 1n, true],
+    ]);
+    expect(requests[0]).to.include({ priceSource: "current", price: WAD, expectedClaimTime: (day + 1n) * 86400n });
+    expect(requests[0]).to.include({ previewShares: ethers.parseEther("50.000001"), previewRefund6: 0n });
+    expect(summary(await listVaultRequests(core, lp.address, { openOnly: true }))).to.deep.equal([
+      ["deposit", 0n, "pending", day, true],
+      ["withdraw", 0n, "pending", day + 1n, true],
+    ]);
+
+    // A winning trade makes the day's batch price differ from 1
+    const now = await time.latest();
+    const settlement = now + 60;
+    await core.createMarket(
+      0,
+      4,
+      1,
+      now - 5,
+      now + 50,
+      settlement,
+      4,
+      ethers.parseEther("10"),
+      ethers.ZeroAddress,
+      uniformFactors(4)
+    );
+    const cost = await core.calculateOpenCost.staticCall(1, 1, 3, 5_000_000n);
+    await core.connect(trader).openPosition(1, 1, 3, 5_000_000n, cost + 1_000_000n);
+    await time.increaseTo(settlement + SUBMIT_WINDOW + OPS_WINDOW);
+    await core.connect(owner).markSettlementFailed(1);
+    await core.connect(owner).finalizeSecondarySettlement(1, 2_000_000n);
+    await core.connect(owner).requestSettlementChunks(1, 25);
+    await time.increaseTo((day + 1n) * 86400n);
+    await core.processDailyBatch(day);
+
+    const [, , batchPrice] = await core.getBatchAggregation(day);
+    expect(batchPrice).to.not.equal(WAD);
+    requests = await listVaultRequests(core, lp.address, { openOnly: true });
+    expect(summary(requests)).to.deep.equal([
+      ["deposit", 0n, "claimable", day, false],
+      ["withdraw", 0n, "pending", day + 1n, true],
+    ]);
+    const [deposit, withdraw] = requests;
+    expect(deposit).to.include({ priceSource: "batch", price: batchPrice, expectedClaimTime: undefined });
+    expect(withdraw).to.include({ priceSource: "current", price: await core.getVaultPrice() });
+
+    // Preview matches the claim to the wei
+    if (deposit.kind !== "deposit") throw new Error("expected deposit");
+    const sharesBefore = await lpShare.balanceOf(lp.address);
+    const paymentBefore = await payment.balanceOf(lp.address);
+    await core.connect(lp).claimDeposit(0);
+    expect((await lpShare.balanceOf(lp.address)) - sharesBefore).to.equal(deposit.previewShares);
+    expect((await payment.balanceOf(lp.address)) - paymentBefore).to.equal(deposit.previewRefund6);
+    expect((await getDepositRequestInfo(core, 0n)).status).to.equal("claimed");
+
+    // No market on the next day: advance it and claim the withdrawal at its batch price
+    await time.increaseTo((day + 2n) * 86400n);
+    await core.connect(owner).processEmptyBatch(day + 1n);
+    const [claimable] = await listVaultRequests(core, lp.address, { openOnly: true });
+    if (claimable.kind !== "withdraw") throw new Error("expected withdraw");
+    expect(claimable).to.include({ status: "claimable", priceSource: "batch" });
+    const [, , withdrawPrice] = await core.getBatchAggregation(day + 1n);
+    expect(claimable.price).to.equal(withdrawPrice);
+    const assetsBefore = await payment.balanceOf(lp.address);
+    await core.connect(lp).claimWithdraw(0);
+    expect((await payment.balanceOf(lp.address)) - assetsBefore).to.equal(claimable.previewAssets6);
+
+    expect(await listVaultRequests(core, lp.address, { openOnly: true })).to.deep.equal([]);
+    expect(summary(await listVaultRequests(core, other.address))).to.deep.equal([["deposit", 2n, "claimable", day, false]]);
+    const missing = await getDepositRequestInfo(core, 99n).catch((err: Error) => err.message);
+    expect(missing).to.equal("Deposit request 99 not found");
+  });
+});
@@ -145,7 +145,8 @@ export function calculateFeeWaterfall(
   // Step 5: Final Output Values
   // ========================================
   const Ft = Floss + FcoreLP + Fdust;
-  const Npre = Ngrant + FcoreLP;
+  // Dust goes to LP: N^pre_t = N_{t-1} + L_t + F_t + G_t with F_t including Fdust
+  const Npre = Ngrant + FcoreLP + Fdust;
   const Bnext = Bgrant + Ffill + FcoreBS;
   const Tnext = p.Tprev + FcoreTR;
 
@@ -2,9 +2,9 @@ import { ethers } from "hardhat";
 import {
   DataPackage,
   NumericDataPoint,
-  RedstonePayload,
 } from "@redstone-finance/protocol";
 import type { Wallet } from "ethers";
+import { buildSamplePayload } from "../../scripts/keeper/payload-source";
 
 // Redstone configuration constants
 export const DATA_FEED_ID = "BTC";
@@ -60,7 +60,7 @@ export function buildRedstonePayload(
   const signedPackages = signers.map((signer) =>
     buildSignedDataPackage(valueWithDecimals, timestampSec, signer)
   );
-  return RedstonePayload.prepare(signedPackages, DATA_SERVICE_ID);
+  return buildSamplePayload(signedPackages, DATA_SERVICE_ID);
 }
 
 /**
@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { WAD, advancePastBatchEnd, uniformFactors } from "../../helpers/constants";
+import { TradeModule__factory } from "../../../typechain-types";
+import { decodeRevert, decodeRevertData, formatRevert, revertName } from "../../../scripts/utils/revert";
+
+const BATCH_SECONDS = 86400n;
+
+async function caught(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (err) {
+    return err;
+  }
+  throw new Error("expected a revert");
+}
+
+describe("Revert decoder (scripts/utils/revert)", () => {
+  async function deployDecoderFixture() {
+    const system = await deployFullSystem();
+    const { owner, core, payment } = system;
+    await core.connect(owner).setMinSeedAmount(1);
+    await payment.connect(owner).approve(await core.getAddress(), ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+    return { ...system, firstBatchId: (await core.getCurrentBatchId()) + 1n };
+  }
+
+  it("decodes SignalsErrors from a delegated call with parameter names", async () => {
+    const { core, firstBatchId } = await loadFixture(deployDecoderFixture);
+    const settlement = Number((firstBatchId + 1n) * BATCH_SECONDS) - 60;
+    const now = await time.latest();
+    await core.createMarket(0, 4, 1, now, settlement - 60, settlement, 4, WAD, ethers.ZeroAddress, uniformFactors(4));
+    await advancePastBatchEnd(firstBatchId);
+
+    const err = await caught(core.processDailyBatch(firstBatchId));
+    const decoded = decodeRevert(err);
+    expect(decoded).to.deep.include({ kind: "custom", source: "signals", name: "BatchMarketsNotResolved" });
+    if (decoded?.kind !== "custom") throw new Error("expected a custom error");
+    expect(decoded.signature).to.equal("BatchMarketsNotResolved(uint64,uint64,uint64)");
+    expect(decoded.args.map((a) => [a.name, a.type, a.value])).to.deep.equal([
+      ["batchId", "uint64", firstBatchId],
+      ["resolvedMarkets", "uint64", 0n],
+      ["totalMarkets", "uint64", 1n],
+    ]);
+    expect(formatRevert(err)).to.equal(
+      `BatchMarketsNotResolved(batchId=${firstBatchId}, resolvedMarkets=0, totalMarkets=1)`
+    );
+    expect(revertName(err)).to.equal("BatchMarketsNotResolved");
+  });
+
+  it("decodes OpenZeppelin errors from core and token calls", async () => {
+    const { core, payment, users } = await loadFixture(deployDecoderFixture);
+    const [stranger] = users;
+
+    const ownable = decodeRevert(await caught(core.connect(stranger).setMinSeedAmount(2)));
+    expect(ownable).to.deep.include({
+      kind: "custom",
+      source: "openzeppelin",
+      message: `OwnableUnauthorizedAccount(account=${stranger.address})`,
+    });
+
+    const balance = await payment.balanceOf(stranger.address);
+    const transfer = await caught(payment.connect(stranger).transfer(ethers.ZeroAddress, balance + 1n));
+    expect(formatRevert(transfer)).to.equal(`ERC20InvalidReceiver(receiver=${ethers.ZeroAddress})`);
+  });
+
+  it("decodes panics, reason strings, library errors and unknown data", () => {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const panic = "0x4e487b71" + coder.encode(["uint256"], [0x11]).slice(2);
+    expect(decodeRevertData(panic)).to.deep.equal({
+      kind: "panic",
+      code: 0x11,
+      reason: "arithmetic overflow or underflow",
+      message: "Panic(0x11: arithmetic overflow or underflow)",
+    });
+
+    const reason = "0x08c379a0" + coder.encode(["string"], ["boom"]).slice(2);
+    expect(decodeRevertData(reason)).to.deep.equal({ kind: "reason", reason: "boom", message: 'Error("boom")' });
+
+    // PRBMath only appears in the ABIs of the contracts that link it
+    const prb = TradeModule__factory.createInterface().encodeErrorResult("PRBMath_UD60x18_Exp_InputTooBig", [WAD]);
+    expect(decodeRevertData(prb)).to.deep.include({
+      source: "library",
+      message: `PRBMath_UD60x18_Exp_InputTooBig(x=${WAD})`,
+    });
+
+    expect(decodeRevertData("0x")).to.deep.equal({ kind: "empty", message: "reverted without a reason" });
+    expect(decodeRevertData("0xdeadbeef01")).to.deep.include({ kind: "unknown", selector: "0xdeadbeef" });
+  });
+
+  it("finds revert data in nested provider error shapes", () => {
+    const data = "0x4e487b71" + ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [0x12]).slice(2);
+    for (const err of [{ data }, { error: { data } }, { error: { error: { data } } }, { info: { error: { data } } }]) {
+      expect(formatRevert(err)).to.equal("Panic(0x12: division or modulo by zero)");
+    }
+    expect(decodeRevert(new Error("nonce too low"))).to.equal(undefined);
+    expect(formatRevert(new Error("nonce too low"))).to.equal("nonce too low");
+    expect(revertName({ data })).to.equal(undefined);
+  });
+});
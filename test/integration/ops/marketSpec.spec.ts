@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import { validateMarketSpec } from "../../../scripts/ops/market-spec";
+
+describe("Market spec validation", () => {
+  const market = {
+    minTick: 0,
+    maxTick: 200,
+    tickSpacing: 1,
+    startDelaySec: 0,
+    durationSec: 3600,
+    settlementDelaySec: 0,
+    liquidity: { mode: "auto", safetyFactor: "0.5" },
+    baseFactors: { mode: "uniform" },
+  };
+  const feeWaterfall = { rhoBS: "0.2", phiLP: "0.7", phiBS: "0.2", phiTR: "0.1" };
+
+  it("accepts USD amounts up to 6 decimals and WAD values up to 18", () => {
+    const spec = validateMarketSpec({
+      vault: { minSeedAmountUsd: "0.000001", seedAmountUsd: "100.5", withdrawalLagBatches: 0 },
+      risk: { lambda: "0.000000000000000001", kDrawdown: "1", enforceAlpha: true },
+      feeWaterfall: { ...feeWaterfall, phiLP: "0.699999999999999999", phiTR: "0.100000000000000001" },
+      capitalStack: { backstopNavUsd: "100000.123456789012345678", treasuryNavUsd: "0" },
+      market,
+    });
+    expect(spec.vault?.minSeedAmountUsd).to.equal("0.000001");
+  });
+
+  it("reports excess precision with the field path instead of failing in derived checks", () => {
+    const invalid = () =>
+      validateMarketSpec({
+        vault: { minSeedAmountUsd: "1.0000001", seedAmountUsd: "100", withdrawalLagBatches: 0 },
+        risk: { lambda: "0.3000000000000000001", kDrawdown: "1", enforceAlpha: true },
+        feeWaterfall: { ...feeWaterfall, phiLP: "0.7000000000000000000" },
+        market: { ...market, liquidity: { mode: "auto", safetyFactor: "0.5000000000000000001" } },
+      });
+    expect(invalid).to.throw(/vault.minSeedAmountUsd: at most 6 decimals, got "1.0000001"/);
+    expect(invalid).to.throw(/risk.lambda: at most 18 decimals, got "0.3000000000000000001"/);
+    expect(invalid).to.throw(/feeWaterfall.phiLP: at most 18 decimals, got "0.7000000000000000000"/);
+    expect(invalid).to.throw(/market.liquidity.safetyFactor: at most 18 decimals, got "0.5000000000000000001"/);
+    expect(invalid).not.to.throw(/too many decimals/);
+  });
+
+  it("leaves prior shape parameters unbounded", () => {
+    const lognormal = { spot: "85000.1234567890123456789", vol: "0.5" };
+    const spec = validateMarketSpec({ market: { ...market, baseFactors: { mode: "lognormal", lognormal } } });
+    expect(spec.market.baseFactors.lognormal).to.deep.equal(lognormal);
+  });
+});
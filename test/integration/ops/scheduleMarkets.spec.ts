@@ -0,0 +1,134 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { ONE_DAY, ONE_HOUR, WAD, uniformFactors } from "../../helpers/constants";
+import { centreTicks, findCoveredBatches, planSchedule, scheduleForBatch } from "../../../scripts/ops/schedule-markets";
+import type { MarketSpec } from "../../../scripts/ops/market-spec";
+import type { MarketRecord } from "../../../scripts/types/environment";
+
+const SPEC_PATH = "scripts/ops/specs/daily.yaml";
+
+// 4 bins of 1 tick; trading closes 10 minutes before the batch boundary after an hour
+const template: MarketSpec["market"] = {
+  minTick: 0,
+  maxTick: 4,
+  tickSpacing: 1,
+  startDelaySec: 0,
+  durationSec: ONE_HOUR,
+  settlementDelaySec: 600,
+  liquidity: { mode: "manual", manualAlphaWad: WAD.toString() },
+  baseFactors: { mode: "uniform" },
+};
+
+describe("Market scheduler (scripts/ops/schedule-markets)", () => {
+  async function deploySchedulerFixture() {
+    const system = await deployFullSystem();
+    const { owner, core, payment } = system;
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), WAD, false);
+    await payment.connect(owner).approve(await core.getAddress(), ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+    await core.connect(owner).setCapitalStack(10n * WAD, 0);
+    // An hour into a day, so the next batch still has its full trading window ahead
+    await time.increaseTo((Math.floor((await time.latest()) / ONE_DAY) + 1) * ONE_DAY + ONE_HOUR);
+    return system;
+  }
+
+  it("maps each batch to a market settling on its boundary", () => {
+    expect(scheduleForBatch(template, 20_000)).to.deep.equal({
+      batchId: 20_000,
+      startTimestamp: 20_000 * ONE_DAY - 600 - ONE_HOUR,
+      endTimestamp: 20_000 * ONE_DAY - 600,
+      settlementTimestamp: 20_000 * ONE_DAY,
+    });
+
+    const now = 19_999 * ONE_DAY + ONE_HOUR;
+    const plan = planSchedule(template, 20_000, 3, now, new Map([[20_001, "market 7"]]));
+    expect(plan.markets.map((m) => [m.batchId, m.settlementTimestamp])).to.deep.equal([
+      [20_000, 20_000 * ONE_DAY],
+      [20_002, 20_002 * ONE_DAY],
+    ]);
+    expect(plan.skipped).to.deep.equal([{ batchId: 20_001, reason: "already covered by market 7" }]);
+  });
+
+  it("recentres the range on the reference price without going below tick 0", () => {
+    const grid = { minTick: 70_000, maxTick: 90_000, tickSpacing: 200 };
+    expect(centreTicks(grid, 85_050)).to.deep.equal({ minTick: 75_000, maxTick: 95_000 });
+    // A low price with a wide range keeps the width and starts at 0
+    expect(centreTicks(grid, 4_000)).to.deep.equal({ minTick: 0, maxTick: 20_000 });
+  });
+
+  it("clamps a start in the past and skips batches whose trading has ended on a late run", () => {
+    // Ten minutes into the trading hour of batch 20_000: it still trades, from now
+    const now = 20_000 * ONE_DAY - 600 - ONE_HOUR + 600;
+    const late = planSchedule(template, 20_000, 2, now, new Map());
+    expect(late.markets[0]).to.deep.equal({
+      batchId: 20_000,
+      startTimestamp: now,
+      endTimestamp: 20_000 * ONE_DAY - 600,
+      settlementTimestamp: 20_000 * ONE_DAY,
+    });
+    expect(late.markets[1].startTimestamp).to.equal(20_001 * ONE_DAY - 600 - ONE_HOUR);
+
+    // Settlement two days after trading ends: the first batch's window is already over
+    const delayed = { ...template, settlementDelaySec: 2 * ONE_DAY };
+    const plan = planSchedule(delayed, 20_000, 3, 19_999 * ONE_DAY, new Map());
+    expect(plan.markets.map((m) => m.batchId)).to.deep.equal([20_002]);
+    expect(plan.skipped).to.deep.equal([
+      { batchId: 20_000, reason: `trading would end at ${19_998 * ONE_DAY}, not after now=${19_999 * ONE_DAY}` },
+      { batchId: 20_001, reason: `trading would end at ${19_999 * ONE_DAY}, not after now=${19_999 * ONE_DAY}` },
+    ]);
+  });
+
+  it("treats a batch as covered only by the same series or a queued market of the spec", async () => {
+    const { core, feePolicy } = await loadFixture(deploySchedulerFixture);
+    const now = await time.latest();
+    const batchId = Math.floor(now / ONE_DAY) + 1;
+    const create = (timing: ReturnType<typeof scheduleForBatch>, maxTick: number, factors: bigint[]) =>
+      core.createMarket(
+        0,
+        maxTick,
+        1,
+        timing.startTimestamp,
+        timing.endTimestamp,
+        timing.settlementTimestamp,
+        maxTick,
+        WAD,
+        feePolicy.target,
+        factors
+      );
+    const skewed = [WAD, 2n * WAD, 4n * WAD, WAD];
+    // Same series in batchId; an 8-bin market in batchId + 1 adds exposure but does not cover it
+    await create(scheduleForBatch(template, batchId, now), 4, skewed);
+    await create(scheduleForBatch(template, batchId + 1, now), 8, uniformFactors(8));
+    await create(scheduleForBatch(template, batchId + 1, now), 4, skewed);
+    const queued = (marketId: string, batch: number, spec: string): MarketRecord => ({
+      marketId,
+      status: "queued",
+      alphaWad: WAD.toString(),
+      batchId: batch.toString(),
+      feePolicy: feePolicy.target as string,
+      spec,
+      createdAt: now,
+    });
+    const records = { "4": queued("4", batchId + 2, SPEC_PATH), "5": queued("5", batchId + 3, "other.yaml") };
+
+    const { covered, committedDeltaEt, lastMarketId } = await findCoveredBatches(core, template, 4, SPEC_PATH, records);
+    expect(lastMarketId).to.equal(3n);
+    expect(Object.fromEntries(covered)).to.deep.equal({
+      [batchId]: "market 1",
+      [batchId + 1]: "market 3",
+      [batchId + 2]: "queued market 4",
+    });
+    const [m1, m2, m3] = await Promise.all([1, 2, 3].map((id) => core.markets(id)));
+    expect(m1.deltaEt).to.be.greaterThan(0n);
+    expect(committedDeltaEt.get(batchId)).to.equal(m1.deltaEt);
+    expect(committedDeltaEt.get(batchId + 1)).to.equal(m2.deltaEt + m3.deltaEt);
+
+    // The rerun only schedules what is left, from now
+    const plan = planSchedule(template, batchId, 4, now, covered);
+    expect(plan.markets.map((m) => m.batchId)).to.deep.equal([batchId + 3]);
+    expect(plan.skipped.map((s) => s.batchId)).to.deep.equal([batchId, batchId + 1, batchId + 2]);
+  });
+});
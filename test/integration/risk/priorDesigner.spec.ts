@@ -0,0 +1,170 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { WAD } from "../../helpers/constants";
+import { MAX_FACTOR, MIN_FACTOR } from "../../../scripts/lib/lazy-mul-segment-tree";
+import {
+  binProbabilities,
+  designPrior,
+  factorsFromProbabilities,
+  reportPrior,
+} from "../../../scripts/ops/prior-designer";
+import { validateMarketSpec } from "../../../scripts/ops/market-spec";
+import { resolveBaseFactors } from "../../../scripts/ops/create-market";
+import { recentreMarket } from "../../../scripts/ops/schedule-markets";
+import { formatRevert } from "../../../scripts/utils/revert";
+
+// 100 bins of 200 ticks around a spot of 80k
+const grid = { minTick: 70_000, maxTick: 90_000, tickSpacing: 200 };
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+describe("Prior designer (scripts/ops/prior-designer)", () => {
+  async function deployPriorFixture() {
+    const system = await deployFullSystem();
+    const { owner, core, payment } = system;
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), WAD, false);
+    await payment.connect(owner).approve(await core.getAddress(), ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+    return system;
+  }
+
+  it("bins parametric and historical distributions, folding tails into the edge bins", () => {
+    // Cauchy (t with 1 dof): P(X < center + scale) = 3/4 exactly
+    const cauchy = binProbabilities(grid, { kind: "studentT", center: 80_000, scale: 1_000, dof: 1 });
+    expect(sum(cauchy)).to.be.closeTo(1, 1e-12);
+    expect(sum(cauchy.slice(0, 55))).to.be.closeTo(0.75, 1e-9);
+    for (let i = 0; i < 50; i++) expect(cauchy[i]).to.be.closeTo(cauchy[99 - i], 1e-12);
+    // Everything below 70.2k lands in bin 0: atan tail of a Cauchy
+    expect(cauchy[0]).to.be.closeTo(0.5 + Math.atan(-9.8) / Math.PI, 1e-9);
+
+    // One day at 50% vol: σ√T ≈ 2.6%, so ±1σ is about ±2.1k around the median
+    const lognormal = binProbabilities(grid, { kind: "lognormal", spot: 80_000, vol: 0.5, horizonSec: 86_400 });
+    expect(sum(lognormal)).to.be.closeTo(1, 1e-12);
+    const s = 0.5 * Math.sqrt(1 / 365);
+    const median = 80_000 * Math.exp((-s * s) / 2);
+    const medianBin = Math.floor((median - grid.minTick) / grid.tickSpacing);
+    expect(sum(lognormal.slice(0, medianBin))).to.be.lt(0.5);
+    expect(sum(lognormal.slice(0, medianBin + 1))).to.be.gte(0.5);
+    expect(lognormal.indexOf(Math.max(...lognormal))).to.be.oneOf([medianBin - 1, medianBin]);
+
+    const histogram = binProbabilities(grid, {
+      kind: "histogram",
+      samples: [50_000, 70_100, 80_000, 80_199, 95_000],
+      pseudoCount: 0,
+    });
+    expect([histogram[0], histogram[50], histogram[99]]).to.deep.equal([0.4, 0.4, 0.2]);
+    expect(() => binProbabilities({ ...grid, tickSpacing: 300 }, { kind: "uniform" })).to.throw("Invalid ticks");
+  });
+
+  it("keeps factors inside [MIN_FACTOR, MAX_FACTOR] and reports ΔEₜ against the backstop", () => {
+    const uniform = designPrior(grid, { kind: "uniform" });
+    expect(new Set(uniform.factors)).to.deep.equal(new Set([WAD]));
+    expect(reportPrior(uniform.factors, WAD, 0n)).to.include({ deltaEt: 0n, admissible: true });
+
+    // Mild spread: the least likely bin is the 1 WAD anchor
+    const mild = designPrior(grid, { kind: "studentT", center: 80_000, scale: 5_000, dof: 30 });
+    expect(mild.flooredBins).to.equal(0);
+    expect(mild.factors.reduce((min, f) => (f < min ? f : min))).to.equal(WAD);
+    mild.encoded.forEach((p, i) => expect(p).to.be.closeTo(mild.target[i], 1e-9));
+
+    // Spike: anchored at MAX_FACTOR, tails floored at MIN_FACTOR
+    const spike = designPrior(grid, { kind: "lognormal", spot: 80_000, vol: 0.05, horizonSec: 3600 });
+    expect(spike.flooredBins).to.be.gt(80);
+    expect(spike.factors.reduce((max, f) => (f > max ? f : max))).to.equal(MAX_FACTOR);
+    expect(spike.factors.filter((f) => f === MIN_FACTOR)).to.have.length(spike.flooredBins);
+    const coarse = factorsFromProbabilities(spike.target, { floorRatio: 0.01 });
+    expect(coarse.factors.reduce((min, f) => (f < min ? f : min))).to.equal(WAD);
+    expect(() => factorsFromProbabilities(spike.target, { floorRatio: 1e-5 })).to.throw("floorRatio must be within");
+
+    const report = reportPrior(spike.factors, ethers.parseEther("10"), ethers.parseEther("30"));
+    expect(report.deltaEt).to.be.gt(0n);
+    expect(report.headroom).to.equal(report.backstopNav - report.deltaEt);
+    expect(reportPrior(spike.factors, report.maxAdmissibleAlpha, report.backstopNav).admissible).to.equal(true);
+    expect(reportPrior(spike.factors, report.maxAdmissibleAlpha + 1n, report.backstopNav).admissible).to.equal(false);
+
+    // ΔEₜ already committed to the batch shrinks what is left for this market
+    const committed = report.backstopNav / 2n;
+    const shared = reportPrior(spike.factors, report.alpha, report.backstopNav, committed);
+    expect(shared.headroom).to.equal(report.headroom - committed);
+    expect(shared.maxAdmissibleAlpha).to.be.lt(report.maxAdmissibleAlpha);
+    expect(reportPrior(spike.factors, shared.maxAdmissibleAlpha, report.backstopNav, committed).admissible).to.equal(
+      true
+    );
+    expect(
+      reportPrior(spike.factors, shared.maxAdmissibleAlpha + 1n, report.backstopNav, committed).admissible
+    ).to.equal(false);
+    expect(reportPrior(spike.factors, WAD, report.backstopNav, report.backstopNav + 1n).maxAdmissibleAlpha).to.equal(
+      0n
+    );
+  });
+
+  it("matches the ΔEₜ createMarket stores and the risk gate's admissibility", async () => {
+    const { owner, core } = await loadFixture(deployPriorFixture);
+    const { factors } = designPrior(grid, { kind: "lognormal", spot: 81_000, vol: 0.6, horizonSec: 86_400 });
+    const backstop = ethers.parseEther("100");
+    await core.connect(owner).setCapitalStack(backstop, 0);
+    const report = reportPrior(factors, ethers.parseEther("10"), backstop);
+    expect(report.admissible).to.equal(true);
+
+    const now = await time.latest();
+    const create = (alpha: bigint) =>
+      core.createMarket(70_000, 90_000, 200, now, now + 3600, now + 3700, 100, alpha, ethers.ZeroAddress, factors);
+    await create(report.alpha);
+    expect((await core.markets(1)).deltaEt).to.equal(report.deltaEt);
+
+    // The largest admissible α passes the gate, one wei more does not
+    const { maxAdmissibleAlpha } = report;
+    await create(maxAdmissibleAlpha);
+    expect((await core.markets(2)).deltaEt).to.be.lte(backstop);
+    const over = reportPrior(factors, maxAdmissibleAlpha + 1n, backstop);
+    expect(over.admissible).to.equal(false);
+    const err = await create(maxAdmissibleAlpha + 1n).catch((e: unknown) => e);
+    expect(formatRevert(err)).to.equal(`PriorNotAdmissible(deltaEt=${over.deltaEt}, effectiveBackstop=${backstop})`);
+  });
+
+  it("builds spec priors for create-market and validates their parameters", () => {
+    const market = {
+      ...grid,
+      startDelaySec: 0,
+      durationSec: 86_400,
+      settlementDelaySec: 0,
+      liquidity: { mode: "manual" as const, manualAlphaWad: WAD.toString() },
+      baseFactors: { mode: "lognormal" as const, lognormal: { spot: "80000", vol: "0.5" } },
+    };
+    const spec = validateMarketSpec({ market });
+    const expected = designPrior(grid, { kind: "lognormal", spot: 80_000, vol: 0.5, horizonSec: 86_400 }).factors;
+    expect(resolveBaseFactors(spec.market, 86_400)).to.deep.equal(expected);
+    expect(resolveBaseFactors({ ...spec.market, baseFactors: { mode: "uniform" } }, 1)).to.have.length(100);
+
+    // schedule-markets moves the prior's centre with the range; a stale spot would peak a quarter in
+    const peakBin = (factors: bigint[]) => factors.indexOf(factors.reduce((max, f) => (f > max ? f : max)));
+    const recentred = recentreMarket(spec.market, 85_000);
+    expect([recentred.minTick, recentred.maxTick]).to.deep.equal([75_000, 95_000]);
+    expect(recentred.baseFactors.lognormal).to.deep.equal({ spot: "85000", vol: "0.5" });
+    expect(peakBin(resolveBaseFactors(recentred, 86_400))).to.be.within(49, 50);
+    expect(peakBin(resolveBaseFactors({ ...recentred, baseFactors: spec.market.baseFactors }, 86_400))).to.be.within(
+      24,
+      25
+    );
+    const studentT = { mode: "studentT" as const, studentT: { center: "80000", scale: "500", dof: "3" } };
+    expect(recentreMarket({ ...spec.market, baseFactors: studentT }, 85_000).baseFactors.studentT).to.deep.equal({
+      center: "85000",
+      scale: "500",
+      dof: "3",
+    });
+
+    const invalid = () =>
+      validateMarketSpec({
+        market: {
+          ...market,
+          baseFactors: { mode: "studentT", lognormal: { spot: "0", vol: "0.5" }, floorRatio: "0.00001" },
+        },
+      });
+    expect(invalid).to.throw(/studentT: required when mode is "studentT"/);
+    expect(invalid).to.throw(/lognormal: only allowed when mode is "lognormal"/);
+    expect(invalid).to.throw(/lognormal.spot: must be > 0/);
+    expect(invalid).to.throw(/floorRatio: must be within \[1\/10000, 1\]/);
+  });
+});
@@ -0,0 +1,126 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { uniformFactors } from "../../helpers/constants";
+import { buildRedstonePayload, submitWithPayload, toSettlementValue } from "../../helpers/redstone";
+import { buildSamplePayload, HARDHAT_SIGNER_KEYS, signDataPackages } from "../../../scripts/keeper/payload-source";
+import { formatRevert } from "../../../scripts/utils/revert";
+import { validateMarketSpec } from "../../../scripts/ops/market-spec";
+import { resolveMarketOracle } from "../../../scripts/ops/create-market";
+
+const ETH_ORACLE = { feedId: "ETH", feedDecimals: 18, maxSampleDistanceSec: 30, futureToleranceSec: 10 };
+
+describe("Per-market oracle config", () => {
+  // Ticks 0..200 with spacing 1; market 1 follows the global BTC feed, market 2 settles on ETH
+  async function deployMarketOracleFixture() {
+    const system = await deployFullSystem({ submitWindow: 300 });
+    const { owner, core, oracleModule } = system;
+    await core.connect(owner).setMinSeedAmount(1);
+    const now = await time.latest();
+    const tSet = now + 100;
+    const createArgs = [
+      0,
+      200,
+      1,
+      now - 5,
+      now + 50,
+      tSet,
+      200,
+      ethers.parseEther("1"),
+      ethers.ZeroAddress,
+      uniformFactors(200),
+    ] as const;
+    await core.createMarket(...createArgs);
+
+    const oracleAtCore = oracleModule.attach(await core.getAddress()) as typeof oracleModule;
+    const ethConfig = resolveMarketOracle(ETH_ORACLE)!;
+    await expect(core.createMarketWithOracle(...createArgs, ethConfig))
+      .to.emit(oracleAtCore, "MarketOracleConfigSet")
+      .withArgs(2, ethers.encodeBytes32String("ETH"), 18, 30, 10);
+
+    const ethPayload = (price: number, timestampSec: number) =>
+      buildSamplePayload(
+        signDataPackages({ signerKeys: HARDHAT_SIGNER_KEYS, feedId: "ETH", feedDecimals: 18, price, timestampSec })
+      );
+    return { ...system, tSet, createArgs, ethConfig, ethPayload };
+  }
+
+  it("falls back to the global config and validates per-market configs", async () => {
+    const { core, owner, users, createArgs, ethConfig } = await deployMarketOracleFixture();
+    const btc = ethers.encodeBytes32String("BTC");
+    expect(await core.getMarketOracleConfig.staticCall(1)).to.deep.equal([btc, 8n, 600n, 60n]);
+    expect(await core.getMarketOracleConfig.staticCall(2)).to.deep.equal([
+      ethers.encodeBytes32String("ETH"),
+      18n,
+      30n,
+      10n,
+    ]);
+
+    // Markets without their own feed follow later global changes; market 2 does not
+    await core.connect(owner).setRedstoneConfig(btc, 6, 120, 5);
+    expect(await core.getMarketOracleConfig.staticCall(1)).to.deep.equal([btc, 6n, 120n, 5n]);
+    expect((await core.getMarketOracleConfig.staticCall(2)).feedDecimals).to.equal(18n);
+
+    const zeroFeed = { ...ethConfig, feedId: ethers.ZeroHash };
+    const err = await core
+      .connect(owner)
+      .createMarketWithOracle(...createArgs, zeroFeed)
+      .catch((e: unknown) => e);
+    expect(formatRevert(err)).to.equal("InvalidMarketOracleConfig(marketId=3)");
+    await expect(core.connect(users[0]).createMarketWithOracle(...createArgs, ethConfig)).to.be.reverted;
+    const missing = await core.getMarketOracleConfig.staticCall(3).catch((e: unknown) => e);
+    expect(formatRevert(missing)).to.equal("MarketNotFound(marketId=3)");
+  });
+
+  it("validates market.oracle in market specs", () => {
+    const market = {
+      minTick: 0,
+      maxTick: 200,
+      tickSpacing: 1,
+      startDelaySec: 0,
+      durationSec: 3600,
+      settlementDelaySec: 0,
+      liquidity: { mode: "manual", manualAlphaWad: "1000000000000000000" },
+      baseFactors: { mode: "uniform" },
+    };
+    expect(validateMarketSpec({ market: { ...market, oracle: ETH_ORACLE } }).market.oracle).to.deep.equal(ETH_ORACLE);
+    expect(() =>
+      validateMarketSpec({ market: { ...market, oracle: { ...ETH_ORACLE, feedId: "X".repeat(32) } } })
+    ).to.throw(/market.oracle.feedId: must fit in bytes32/);
+    expect(() => validateMarketSpec({ market: { ...market, oracle: { feedId: "ETH", feedDecimals: -1 } } })).to.throw(
+      /market.oracle.feedDecimals: must be >= 0[\s\S]*market.oracle.maxSampleDistanceSec: required/
+    );
+  });
+
+  it("verifies, bounds and scales samples with the market's own feed", async () => {
+    const { core, owner, tSet, ethPayload } = await deployMarketOracleFixture();
+    await time.increaseTo(tSet + 5);
+
+    // A BTC payload carries no ETH data points
+    const wrongFeed = await submitWithPayload(core, owner, 2, buildRedstonePayload(1234, tSet + 1)).catch(
+      (e: unknown) => e
+    );
+    expect(formatRevert(wrongFeed)).to.match(/^InsufficientNumberOfUniqueSigners\(/);
+
+    // Δmax is 30s for market 2 but 600s for the BTC market
+    const tooFar = await submitWithPayload(core, owner, 2, ethPayload(1234, tSet - 40)).catch((e: unknown) => e);
+    expect(formatRevert(tooFar)).to.match(/^OracleSampleTooFarFromTset\(/);
+    await submitWithPayload(core, owner, 1, buildRedstonePayload(100, tSet - 40));
+
+    // δfuture is 10s for market 2
+    const ahead = await submitWithPayload(core, owner, 2, ethPayload(1234, tSet + 25)).catch((e: unknown) => e);
+    expect(formatRevert(ahead)).to.match(/^OracleSampleInFuture\(/);
+
+    // 18-decimal feed scaled down to the 6-decimal settlement value
+    await submitWithPayload(core, owner, 2, ethPayload(1234.5, tSet - 3));
+    expect(await core.getSettlementPrice.staticCall(2)).to.deep.equal([1_234_500_000n, BigInt(tSet - 3)]);
+
+    await time.increaseTo(tSet + 305);
+    await core.connect(owner).finalizePrimarySettlement(1);
+    await core.connect(owner).finalizePrimarySettlement(2);
+    expect((await core.markets(1)).settlementValue).to.equal(toSettlementValue(100));
+    const eth = await core.markets(2);
+    expect([eth.settlementValue, eth.settlementTick]).to.deep.equal([1_234_500_000n, 199n]);
+  });
+});
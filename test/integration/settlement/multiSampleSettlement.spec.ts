@@ -0,0 +1,266 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { uniformFactors } from "../../helpers/constants";
+import { authorisedWallets, buildRedstonePayload, submitWithPayload, toSettlementValue } from "../../helpers/redstone";
+import { formatRevert } from "../../../scripts/utils/revert";
+import { validateMarketSpec } from "../../../scripts/ops/market-spec";
+
+const CLOSEST = 0;
+const MEDIAN = 1;
+const TIME_WEIGHTED = 2;
+
+describe("Multi-sample settlement rule", () => {
+  // Ticks 0..200 with spacing 1: the settlement tick is the whole-dollar price
+  async function deployMultiSampleFixture() {
+    const system = await deployFullSystem({ submitWindow: 300 });
+    const { owner, core, lifecycleModule, oracleModule } = system;
+    await core.connect(owner).setMinSeedAmount(1);
+    const now = await time.latest();
+    const tSet = now + 100;
+    const createMarket = () =>
+      core.createMarket(
+        0,
+        200,
+        1,
+        now - 5,
+        now + 50,
+        tSet,
+        200,
+        ethers.parseEther("1"),
+        ethers.ZeroAddress,
+        uniformFactors(200)
+      );
+    await createMarket();
+    await createMarket();
+
+    const coreAddress = await core.getAddress();
+    const lifecycleAtCore = lifecycleModule.attach(coreAddress) as typeof lifecycleModule;
+    const oracleAtCore = oracleModule.attach(coreAddress) as typeof oracleModule;
+    // Submit [offset from Tset, price] pairs in the given order, signed by the authorised wallets
+    const submit = async (marketId: number, samples: [number, number][]) => {
+      for (const [offset, price] of samples) {
+        await submitWithPayload(core, owner, marketId, buildRedstonePayload(price, tSet + offset));
+      }
+    };
+    const storedSamples = async (marketId: number) => {
+      const [values, timestamps] = await core.getSettlementSamples.staticCall(marketId);
+      return values
+        .map((value, i) => [Number(timestamps[i]) - tSet, value] as [number, bigint])
+        .sort((a, b) => a[0] - b[0]);
+    };
+    return { ...system, tSet, lifecycleAtCore, oracleAtCore, submit, storedSamples };
+  }
+
+  it("validates the rule and only lets the owner set it", async () => {
+    const { core, owner, users, oracleAtCore } = await deployMultiSampleFixture();
+    expect(await core.getSettlementRule()).to.deep.equal([0n, 0n, 0n]);
+
+    for (const [mode, maxSamples, maxDeviationBps] of [
+      [CLOSEST, 3, 0],
+      [CLOSEST, 0, 100],
+      [MEDIAN, 1, 0],
+      [MEDIAN, 17, 0],
+      [TIME_WEIGHTED, 4, 10_001],
+      [3, 4, 0],
+    ]) {
+      const err = await core
+        .connect(owner)
+        .setSettlementRule(mode, maxSamples, maxDeviationBps)
+        .catch((e: unknown) => e);
+      expect(formatRevert(err)).to.equal(
+        `InvalidSettlementRule(mode=${mode}, maxSamples=${maxSamples}, maxDeviationBps=${maxDeviationBps})`
+      );
+    }
+    await expect(core.connect(users[0]).setSettlementRule(MEDIAN, 3, 0)).to.be.reverted;
+
+    await expect(core.connect(owner).setSettlementRule(TIME_WEIGHTED, 16, 10_000))
+      .to.emit(oracleAtCore, "SettlementRuleUpdated")
+      .withArgs(TIME_WEIGHTED, 16, 10_000);
+    expect(await core.getSettlementRule()).to.deep.equal([2n, 16n, 10_000n]);
+    await core.connect(owner).setSettlementRule(CLOSEST, 0, 0);
+    expect(await core.getSettlementRule()).to.deep.equal([0n, 0n, 0n]);
+  });
+
+  it("validates settlementRule in market specs", () => {
+    const market = {
+      minTick: 0,
+      maxTick: 200,
+      tickSpacing: 1,
+      startDelaySec: 0,
+      durationSec: 3600,
+      settlementDelaySec: 0,
+      liquidity: { mode: "manual", manualAlphaWad: "1000000000000000000" },
+      baseFactors: { mode: "uniform" },
+    };
+    const rule = { mode: "median", maxSamples: 5, maxDeviationBps: 200 };
+    expect(validateMarketSpec({ settlementRule: rule, market }).settlementRule).to.deep.equal(rule);
+    expect(() => validateMarketSpec({ settlementRule: { mode: "closest", maxSamples: 3 }, market })).to.throw(
+      /settlementRule: maxSamples and maxDeviationBps are only used when mode is "median" or "timeWeighted"/
+    );
+    const invalid = () =>
+      validateMarketSpec({ settlementRule: { mode: "timeWeighted", maxDeviationBps: 20_000 }, market });
+    expect(invalid).to.throw(/settlementRule.maxSamples: must be within \[2, 16\] when mode is "timeWeighted"/);
+    expect(invalid).to.throw(/settlementRule.maxDeviationBps: must be <= 10000, got 20000/);
+    expect(() => validateMarketSpec({ settlementRule: { mode: "mean" }, market })).to.throw(
+      /settlementRule.mode: must be one of "closest" \| "median" \| "timeWeighted"/
+    );
+  });
+
+  it("keeps the K samples closest to Tset and settles on their median", async () => {
+    const { core, owner, tSet, oracleAtCore, lifecycleAtCore, submit, storedSamples } =
+      await deployMultiSampleFixture();
+    await core.connect(owner).setSettlementRule(MEDIAN, 3, 0);
+    await time.increaseTo(tSet + 20);
+
+    await submit(1, [
+      [-30, 100],
+      [-10, 101],
+      [10, 150],
+    ]);
+    expect(await storedSamples(1)).to.deep.equal([
+      [-30, toSettlementValue(100)],
+      [-10, toSettlementValue(101)],
+      [10, toSettlementValue(150)],
+    ]);
+
+    // Full: a closer sample evicts the farthest (-30s)
+    await expect(submitWithPayload(core, owner, 1, buildRedstonePayload(102, tSet + 5)))
+      .to.emit(oracleAtCore, "SettlementSampleRecorded")
+      .withArgs(1, toSettlementValue(102), tSet + 5, tSet - 30);
+    // Same distance as +10s and -10s: the later one (+10s, the outlier) goes
+    await submit(1, [[-5, 99]]);
+    // Farther than everything stored, or a timestamp already stored: ignored
+    await expect(submitWithPayload(core, owner, 1, buildRedstonePayload(97, tSet - 40))).not.to.emit(
+      oracleAtCore,
+      "SettlementSampleRecorded"
+    );
+    await submit(1, [[5, 180]]);
+    expect(await storedSamples(1)).to.deep.equal([
+      [-10, toSettlementValue(101)],
+      [-5, toSettlementValue(99)],
+      [5, toSettlementValue(102)],
+    ]);
+    // The closest-sample candidate is still tracked
+    expect(await core.getSettlementPrice.staticCall(1)).to.deep.equal([toSettlementValue(99), BigInt(tSet - 5)]);
+
+    // Even count: the two middle values are averaged
+    await submit(2, [
+      [-20, 100],
+      [3, 103],
+    ]);
+
+    await time.increaseTo(tSet + 305);
+    await expect(core.connect(owner).finalizePrimarySettlement(1))
+      .to.emit(lifecycleAtCore, "SettlementSamplesAggregated")
+      .withArgs(1, MEDIAN, 3, toSettlementValue(101), 199n); // |99 - 101| / 101, rounded up
+    const settled = await core.markets(1);
+    expect([settled.settled, settled.settlementValue, settled.settlementTick]).to.deep.equal([
+      true,
+      toSettlementValue(101),
+      101n,
+    ]);
+    expect(await storedSamples(1)).to.deep.equal([]);
+
+    await core.connect(owner).finalizePrimarySettlement(2);
+    expect((await core.markets(2)).settlementValue).to.equal(toSettlementValue(101.5));
+  });
+
+  it("settles on the time-weighted average of the sampled price path", async () => {
+    const { core, owner, tSet, lifecycleAtCore, submit } = await deployMultiSampleFixture();
+    await core.connect(owner).setSettlementRule(TIME_WEIGHTED, 4, 0);
+    await time.increaseTo(tSet + 50);
+
+    // Submitted out of order; each signer set signs its own price
+    await submit(1, [
+      [20, 100],
+      [-20, 100],
+      [40, 130],
+      [0, 110],
+    ]);
+    // A single sample is its own average
+    await submit(2, [[-7, 123.456789]]);
+
+    await time.increaseTo(tSet + 305);
+    // ((100 + 110)·20 + (110 + 100)·20 + (100 + 130)·20) / (2·60) = 108.333333
+    await expect(core.connect(owner).finalizePrimarySettlement(1))
+      .to.emit(lifecycleAtCore, "SettlementSamplesAggregated")
+      .withArgs(1, TIME_WEIGHTED, 4, 108_333_333n, 2001n);
+    expect((await core.markets(1)).settlementTick).to.equal(108n);
+
+    await core.connect(owner).finalizePrimarySettlement(2);
+    expect((await core.markets(2)).settlementValue).to.equal(toSettlementValue(123.456789));
+  });
+
+  it("marks the market failed when samples disagree beyond maxDeviationBps", async () => {
+    const { core, owner, tSet, lifecycleAtCore, submit, storedSamples } = await deployMultiSampleFixture();
+    await core.connect(owner).setSettlementRule(MEDIAN, 5, 500);
+    await time.increaseTo(tSet + 20);
+
+    // One outlier print: 120 is 18.8% away from the median of 101
+    await submit(1, [
+      [-10, 100],
+      [0, 120],
+      [10, 101],
+    ]);
+    // Within 5%: (104 - 101) / 101 = 2.97%
+    await submit(2, [
+      [-10, 100],
+      [0, 104],
+      [10, 101],
+    ]);
+    // Two of three signers are below the threshold and never reach the rule
+    const partial = buildRedstonePayload(160, tSet + 1, authorisedWallets.slice(0, 2));
+    const err = await submitWithPayload(core, owner, 2, partial).catch((e: unknown) => e);
+    expect(formatRevert(err)).to.match(/^InsufficientNumberOfUniqueSigners\(/);
+
+    await time.increaseTo(tSet + 305);
+    const tx = core.connect(owner).finalizePrimarySettlement(1);
+    await expect(tx)
+      .to.emit(lifecycleAtCore, "SettlementSamplesAggregated")
+      .withArgs(1, MEDIAN, 3, toSettlementValue(101), 1882n);
+    await expect(tx).to.emit(lifecycleAtCore, "MarketFailed").and.not.to.emit(lifecycleAtCore, "MarketSettled");
+
+    const failed = await core.markets(1);
+    expect([failed.failed, failed.settled, failed.isActive]).to.deep.equal([true, false, false]);
+    expect(await storedSamples(1)).to.deep.equal([]);
+    await expect(core.getSettlementPrice.staticCall(1)).to.be.reverted;
+    expect(await core.getMarketState.staticCall(1)).to.equal(5n); // FailedPendingManual
+
+    // Back on the manual path
+    await core.connect(owner).finalizeSecondarySettlement(1, toSettlementValue(101));
+    expect((await core.markets(1)).settled).to.equal(true);
+
+    await core.connect(owner).finalizePrimarySettlement(2);
+    expect((await core.markets(2)).settlementValue).to.equal(toSettlementValue(101));
+  });
+
+  it("falls back to the candidate for markets sampled before the rule, and clears samples on reopen", async () => {
+    const { core, owner, tSet, submit, storedSamples } = await deployMultiSampleFixture();
+    await time.increaseTo(tSet + 20);
+    await submit(1, [
+      [-10, 100],
+      [2, 140],
+    ]);
+    await core.connect(owner).setSettlementRule(MEDIAN, 3, 100);
+    await submit(2, [
+      [-10, 100],
+      [2, 140],
+    ]);
+    expect(await storedSamples(1)).to.deep.equal([]);
+    expect(await storedSamples(2)).to.have.length(2);
+
+    // markSettlementFailed discards the stored samples too
+    await time.increaseTo(tSet + 300);
+    await core.connect(owner).markSettlementFailed(2);
+    expect(await storedSamples(2)).to.deep.equal([]);
+
+    await time.increaseTo(tSet + 305);
+    await core.connect(owner).finalizePrimarySettlement(1);
+    expect((await core.markets(1)).settlementValue).to.equal(toSettlementValue(140));
+
+    await core.connect(owner).reopenMarket(2);
+    expect(await storedSamples(2)).to.deep.equal([]);
+  });
+});
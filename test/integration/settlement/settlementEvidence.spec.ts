@@ -0,0 +1,183 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { uniformFactors } from "../../helpers/constants";
+import { DATA_FEED_ID, submitWithPayload } from "../../helpers/redstone";
+import { buildSamplePayload, HARDHAT_SIGNER_KEYS, signDataPackages } from "../../../scripts/keeper/payload-source";
+import {
+  buildSettlementEvidence,
+  deriveSecondarySettlement,
+  pickMedian,
+  readPriceSeries,
+  toSettlementTick,
+  toSettlementValue,
+  validateEvidenceRule,
+  writeSettlementEvidence,
+} from "../../../scripts/ops/settlement-evidence";
+
+// 100 bins of 100 ticks over [80k, 90k)
+const market = { minTick: 80_000n, maxTick: 90_000n, tickSpacing: 100n };
+
+describe("Secondary settlement evidence (scripts/ops/settlement-evidence)", () => {
+  async function deployEvidenceFixture() {
+    const system = await deployFullSystem({ submitWindow: 300 });
+    await system.core.connect(system.owner).setMinSeedAmount(1);
+    const now = await time.latest();
+    const tSet = now + 100;
+    const create = () =>
+      system.core.createMarket(
+        market.minTick,
+        market.maxTick,
+        market.tickSpacing,
+        now - 5,
+        now + 50,
+        tSet,
+        100,
+        ethers.parseEther("1"),
+        ethers.ZeroAddress,
+        uniformFactors(100)
+      );
+    await create();
+    await create();
+    return { ...system, tSet };
+  }
+
+  function writeSources(tSet: number) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "evidence-"));
+    const iso = (t: number) => new Date(t * 1000).toISOString();
+    fs.writeFileSync(
+      path.join(dir, "a.csv"),
+      `timestamp,price\n${tSet - 60},84000\n${tSet - 5},85012.34567891234\n${tSet + 5},86000\n`
+    );
+    fs.writeFileSync(
+      path.join(dir, "b.json"),
+      JSON.stringify([
+        { ts: (tSet + 5) * 1000, close: 85100.5 },
+        { ts: (tSet + 30) * 1000, close: 85200 },
+      ])
+    );
+    fs.writeFileSync(path.join(dir, "c.csv"), `time,last\n"${iso(tSet)}",84990\n`);
+    fs.writeFileSync(path.join(dir, "d.csv"), `timestamp,price\n${tSet + 700},99000\n`);
+    const rule = {
+      method: "median",
+      maxDistanceSec: 600,
+      minSources: 3,
+      sources: [
+        { name: "a", file: "a.csv" },
+        { name: "b", file: "b.json", timestampColumn: "ts", priceColumn: "close", timestampUnit: "ms" },
+        { name: "c", file: "c.csv", timestampColumn: "time", priceColumn: "last" },
+        { name: "d", file: "d.csv" },
+      ],
+    };
+    const ruleFile = path.join(dir, "rule.json");
+    fs.writeFileSync(ruleFile, JSON.stringify(rule));
+    return { rule, ruleFile };
+  }
+
+  it("mirrors the contracts' scaling, tick clamping and median", () => {
+    expect(toSettlementValue(8_501_234_567_891n, 8)).to.equal(85_012_345_678n);
+    expect(toSettlementValue(850_123_450n, 4)).to.equal(85_012_345_000n);
+    expect(toSettlementTick(market, 85_099_999_999n)).to.equal(85_000n);
+    expect(toSettlementTick(market, 95_000_000_000n)).to.equal(89_900n);
+    expect(toSettlementTick(market, -1n)).to.equal(80_000n);
+    expect(pickMedian([3n, 1n, 2n])).to.equal(2n);
+    expect(pickMedian([4n, 1n, 2n, 7n])).to.equal(3n); // (2 + 4) / 2
+    expect(pickMedian([1n, 2n])).to.equal(1n);
+
+    expect(
+      readPriceSeries("timestamp,price\n1700000000000,1.5\n", { name: "x", file: "x.csv", timestampUnit: "ms" })
+    ).to.deep.equal([{ timestamp: 1_700_000_000, price: "1.5" }]);
+    expect(() =>
+      validateEvidenceRule({ method: "mean", maxDistanceSec: -1, minSources: 3, sources: [{ name: "a" }] })
+    ).to.throw(
+      /method: must be "median"[\s\S]*maxDistanceSec[\s\S]*sources\[0\]\.file: required[\s\S]*minSources: exceeds/
+    );
+  });
+
+  it("scales feed prices exactly like a primary sample", async () => {
+    const { core, owner, tSet } = await deployEvidenceFixture();
+    await time.increaseTo(tSet);
+    for (const feedDecimals of [8, 4]) {
+      await core.connect(owner).setRedstoneConfig(ethers.encodeBytes32String(DATA_FEED_ID), feedDecimals, 600, 60);
+      const price = 85_012.345 + feedDecimals; // the second round is one second closer to Tset
+      const packages = signDataPackages({
+        signerKeys: HARDHAT_SIGNER_KEYS,
+        feedId: DATA_FEED_ID,
+        feedDecimals,
+        price,
+        timestampSec: tSet - (feedDecimals === 8 ? 2 : 1),
+      });
+      await submitWithPayload(core, owner, 2, buildSamplePayload(packages));
+      const [onChain] = await core.getSettlementPrice.staticCall(2);
+      expect(toSettlementValue(ethers.parseUnits(price.toString(), feedDecimals), feedDecimals)).to.equal(onChain);
+    }
+  });
+
+  it("derives the median at Tset, settles the failed market with it and records the evidence", async () => {
+    const { core, owner, tSet } = await deployEvidenceFixture();
+    const { rule, ruleFile } = writeSources(tSet);
+    const feedDecimals = Number(await core.redstoneFeedDecimals());
+    const onChainMarket = await core.markets(1);
+
+    const derivation = deriveSecondarySettlement(ruleFile, {
+      settlementTimestamp: tSet,
+      feedDecimals,
+      market: onChainMarket,
+    });
+    expect(derivation.inputs.map((i) => [i.name, i.observation?.price, i.distanceSec, i.included])).to.deep.equal([
+      ["a", "85012.34567891234", 5, true],
+      ["b", "85100.5", 5, true],
+      ["c", "84990", 0, true],
+      ["d", "99000", 700, false],
+    ]);
+    expect(derivation.inputs[3].reason).to.equal("beyond maxDistanceSec");
+    // Digits past 8 decimals are dropped before the median
+    expect(derivation.medianFeedUnits).to.equal(8_501_234_567_891n);
+    expect(derivation.settlementValue).to.equal(85_012_345_678n);
+    expect([derivation.settlementTick, derivation.bin, derivation.binUpperTick]).to.deep.equal([85_000n, 50n, 85_100n]);
+
+    // Not enough sources close to Tset: nothing is derived
+    const strict = { ...rule, maxDistanceSec: 4 };
+    fs.writeFileSync(ruleFile, JSON.stringify(strict));
+    expect(() =>
+      deriveSecondarySettlement(ruleFile, { settlementTimestamp: tSet, feedDecimals, market: onChainMarket })
+    ).to.throw("Only 1 of 4 sources are within 4s of Tset (minSources 3)");
+    fs.writeFileSync(ruleFile, JSON.stringify(rule));
+
+    await time.increaseTo(tSet + 400);
+    await core.markSettlementFailed(1);
+    const tx = await core.connect(owner).finalizeSecondarySettlement(1, derivation.settlementValue);
+    const settled = await core.markets(1);
+    expect([settled.settlementValue, settled.settlementTick]).to.deep.equal([
+      derivation.settlementValue,
+      derivation.settlementTick,
+    ]);
+
+    const evidence = buildSettlementEvidence(derivation, {
+      environment: "localhost",
+      network: "hardhat",
+      chainId: 31337n,
+      core: await core.getAddress(),
+      marketId: 1n,
+      market: onChainMarket,
+      txHash: tx.hash,
+    });
+    const filepath = writeSettlementEvidence(evidence);
+    try {
+      expect(filepath).to.equal(
+        path.join("releases", "localhost", "settlements", `market-1-${evidence.createdAt}.json`)
+      );
+      const written = JSON.parse(fs.readFileSync(filepath, "utf8"));
+      expect(written.txHash).to.equal(tx.hash);
+      expect(written.result).to.include({ settlementValue: "85012345678", settlementTick: "85000", bin: "50" });
+      expect(written.inputs[0].sha256).to.match(/^[0-9a-f]{64}$/);
+      expect(written.rule).to.deep.equal(rule);
+    } finally {
+      fs.rmSync(filepath);
+    }
+  });
+});
@@ -0,0 +1,183 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { uniformFactors } from "../../helpers/constants";
+import { buildRedstonePayload, submitWithPayload, toSettlementValue } from "../../helpers/redstone";
+import { formatRevert } from "../../../scripts/utils/revert";
+import {
+  maxDeviationBpsOf,
+  medianOf,
+  previewSettlement,
+  timeWeightedAverageOf,
+} from "../../../scripts/ops/settlement-preview";
+
+const SUBMIT_WINDOW = 300;
+const OPS_WINDOW = 5;
+const MEDIAN = 1;
+
+describe("Settlement preview", () => {
+  // Two 4-bin markets (ticks 0..4, spacing 1) settling in the batch right after seeding, 1% fees
+  async function deployPreviewFixture() {
+    const day = BigInt(await time.latest()) / 86400n + 1n;
+    await time.increaseTo(day * 86400n + 3600n);
+
+    const system = await deployFullSystem({ submitWindow: SUBMIT_WINDOW, opsWindow: OPS_WINDOW, claimDelay: 0 });
+    const { owner, users, core, payment, lifecycleModule, vaultModule } = system;
+    const [trader] = users;
+    const coreAddress = await core.getAddress();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+    await core
+      .connect(owner)
+      .setFeeWaterfallConfig(
+        ethers.parseEther("0.2"),
+        ethers.parseEther("0.7"),
+        ethers.parseEther("0.2"),
+        ethers.parseEther("0.1")
+      );
+    await payment.connect(owner).approve(coreAddress, 20_000_000n);
+    await core.connect(owner).seedVault(20_000_000n);
+    await payment.transfer(trader.address, 50_000_000n);
+    await payment.connect(trader).approve(coreAddress, ethers.MaxUint256);
+
+    const feePolicy = await (await ethers.getContractFactory("MockFeePolicy")).deploy(100);
+    const now = await time.latest();
+    const tSet = now + 60;
+    const create = () =>
+      core.createMarket(
+        0,
+        4,
+        1,
+        now - 5,
+        now + 50,
+        tSet,
+        4,
+        ethers.parseEther("1"),
+        feePolicy.target,
+        uniformFactors(4)
+      );
+    await create();
+    await create();
+    // Market 1: [1, 3) x 1000; market 2: [0, 2) x 2000
+    const open = async (marketId: number, lower: number, upper: number, quantity: bigint) => {
+      const cost = await core.calculateOpenCost.staticCall(marketId, lower, upper, quantity);
+      await core.connect(trader).openPosition(marketId, lower, upper, quantity, cost + 1_000_000n);
+    };
+    await open(1, 1, 3, 1_000n);
+    await open(2, 0, 2, 2_000n);
+
+    const lifecycleAtCore = lifecycleModule.attach(coreAddress) as typeof lifecycleModule;
+    const vaultAtCore = vaultModule.attach(coreAddress) as typeof vaultModule;
+    const submit = (marketId: number, offset: number, price: number) =>
+      submitWithPayload(core, owner, marketId, buildRedstonePayload(price, tSet + offset));
+    return { ...system, day, tSet, trader, lifecycleAtCore, vaultAtCore, submit };
+  }
+
+  it("matches the recorded P&L, the payout and the daily batch", async () => {
+    const { core, owner, day, tSet, trader, payment, lifecycleAtCore, vaultAtCore, submit } =
+      await deployPreviewFixture();
+    await time.increaseTo(tSet + 10);
+    await submit(1, -5, 2); // inside [1, 3): pays 1000
+    await submit(2, -5, 3); // outside [0, 2)
+    await time.increaseTo(tSet + SUBMIT_WINDOW + OPS_WINDOW);
+
+    // An explicit value outside the range pays nothing; the view leaves no trace
+    const [tick, , , reserve] = await core.previewSettlement.staticCall(1, toSettlementValue(0));
+    expect([tick, reserve]).to.deep.equal([0n, 0n]);
+
+    const report = await previewSettlement(core, 1n);
+    expect(report.batchId).to.equal(day);
+    expect(report.warnings).to.deep.equal([]);
+    const [m1, m2] = report.markets;
+    expect([m1.status, m1.valueSource, m1.settlementValue, m1.settlementTick, m1.payoutReserve]).to.deep.equal([
+      "previewed",
+      "candidate",
+      toSettlementValue(2),
+      2n,
+      1_000n,
+    ]);
+    expect([m2.status, m2.settlementTick, m2.payoutReserve]).to.deep.equal(["previewed", 3n, 0n]);
+    expect(m1.ftot).to.be.greaterThan(0n);
+    expect(report.projected).to.deep.equal({
+      Lt: m1.lt! + m2.lt!,
+      Ftot: m1.ftot! + m2.ftot!,
+      DeltaEtSum: m1.deltaEt! + m2.deltaEt!,
+    });
+
+    await expect(core.connect(owner).finalizePrimarySettlement(1))
+      .to.emit(lifecycleAtCore, "MarketPnlRecorded")
+      .withArgs(1, day, m1.lt, m1.ftot);
+
+    // Market 1 is now part of the recorded snapshot; the projection is unchanged
+    const after = await previewSettlement(core, 2n);
+    expect(after.markets.map((m) => m.status)).to.deep.equal(["settled", "previewed"]);
+    expect(after.recorded).to.deep.equal({ Lt: m1.lt, Ftot: m1.ftot, DeltaEtSum: m1.deltaEt });
+    expect(after.dailyBatch).to.deep.equal(report.dailyBatch);
+    const again = await previewSettlement(core, 1n).catch((e: Error) => e);
+    expect((again as Error).message).to.equal("Market 1 is already settled");
+    const settled = await core.previewSettlement.staticCall(1, toSettlementValue(2)).catch((e: unknown) => e);
+    expect(formatRevert(settled)).to.equal("MarketAlreadySettled(marketId=1)");
+
+    await core.connect(owner).finalizePrimarySettlement(2);
+    await core.requestSettlementChunks(1, 10);
+    await core.requestSettlementChunks(2, 10);
+    await time.increaseTo((day + 1n) * 86400n);
+    const b = report.dailyBatch!;
+    await expect(core.processDailyBatch(day))
+      .to.emit(vaultAtCore, "DailyBatchProcessed")
+      .withArgs(day, b.lt, b.ftot, b.ft, b.gt, b.navPre, b.batchPrice, b.navPost, b.pricePost, b.drawdown);
+    const processed = await previewSettlement(core, 2n).catch((e: Error) => e);
+    expect((processed as Error).message).to.equal("Market 2 is already settled");
+
+    // The previewed reserve is exactly what the winning position claims
+    const before = await payment.balanceOf(trader.address);
+    await core.connect(trader).claimPayout(1);
+    expect((await payment.balanceOf(trader.address)) - before).to.equal(m1.payoutReserve);
+  });
+
+  it("flags markets whose samples diverge or that have no value", async () => {
+    const { core, owner, tSet, lifecycleAtCore, submit } = await deployPreviewFixture();
+    await core.connect(owner).setSettlementRule(MEDIAN, 5, 500);
+    await time.increaseTo(tSet + 20);
+    // 120 is 18.8% away from the median of 101; market 2 gets no sample
+    await submit(1, -10, 100);
+    await submit(1, 0, 120);
+    await submit(1, 10, 101);
+    await time.increaseTo(tSet + SUBMIT_WINDOW + OPS_WINDOW);
+
+    const report = await previewSettlement(core, 2n, toSettlementValue(3));
+    const [m1, m2] = report.markets;
+    expect([m1.status, m1.valueSource, m1.deviationBps]).to.deep.equal(["wouldFail", "median", 1882n]);
+    expect([m2.status, m2.valueSource, m2.settlementTick]).to.deep.equal(["previewed", "override", 3n]);
+    expect(report.projected).to.deep.equal({ Lt: m2.lt, Ftot: m2.ftot, DeltaEtSum: m2.deltaEt });
+    expect(report.warnings).to.deep.equal([
+      "market 1: samples deviate 1882 bps; finalization marks it failed",
+      "markets without a value are left out of the projection",
+    ]);
+
+    // Same aggregate and deviation as the on-chain rule
+    await expect(core.connect(owner).finalizePrimarySettlement(1))
+      .to.emit(lifecycleAtCore, "SettlementSamplesAggregated")
+      .withArgs(1, MEDIAN, 3, toSettlementValue(101), 1882n);
+    const failed = await previewSettlement(core, 2n);
+    expect(failed.markets.map((m) => m.status)).to.deep.equal(["missing", "missing"]);
+    expect(failed.warnings.slice(0, 2)).to.deep.equal([
+      "market 1: no settlement value (failed, pending secondary)",
+      "market 2: no settlement value (no sample)",
+    ]);
+  });
+
+  it("mirrors the sample aggregates of SettlementSampleLib", () => {
+    const values = [100_000_000n, 120_000_000n, 101_000_000n];
+    expect(medianOf(values)).to.equal(101_000_000n);
+    expect(medianOf([100_000_000n, 103_000_000n])).to.equal(101_500_000n);
+    expect(maxDeviationBpsOf(values, 101_000_000n)).to.equal(1882n);
+    expect(maxDeviationBpsOf([0n, 1n], 0n)).to.equal(2n ** 256n - 1n);
+    // ((100 + 110)·20 + (110 + 100)·20 + (100 + 130)·20) / (2·60), samples out of order
+    const twap = timeWeightedAverageOf([100_000_000n, 100_000_000n, 130_000_000n, 110_000_000n], [20n, -20n, 40n, 0n]);
+    expect(twap).to.equal(108_333_333n);
+    expect(timeWeightedAverageOf([123n], [7n])).to.equal(123n);
+  });
+});
@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFullSystem } from "../../helpers/fullSystem";
+import { WAD, advancePastBatchEnd, uniformFactors } from "../../helpers/constants";
+import { createKeeper, runKeeperTick, type KeeperLogEntry } from "../../../scripts/keeper/settlement-keeper";
+
+const BATCH_SECONDS = 86400n;
+
+/**
+ * Empty batches: a day without markets must not stall the vault.
+ * processDailyBatch stays strict; the owner advances the day with processEmptyBatch.
+ */
+describe("Empty batch processing", () => {
+  async function deployEmptyBatchFixture() {
+    const system = await deployFullSystem();
+    const { owner, users, core, payment, lpShare } = system;
+    const [lp] = users;
+    const coreAddress = await core.getAddress();
+
+    await core.connect(owner).setMinSeedAmount(1);
+    await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+    await core
+      .connect(owner)
+      .setFeeWaterfallConfig(
+        ethers.parseEther("0.2"),
+        ethers.parseEther("0.8"),
+        ethers.parseEther("0.1"),
+        ethers.parseEther("0.1")
+      );
+    await core.connect(owner).setCapitalStack(ethers.parseEther("100"), ethers.parseEther("10"));
+    await payment.connect(owner).approve(coreAddress, ethers.MaxUint256);
+    await core.connect(owner).seedVault(1_000_000_000n);
+
+    await payment.transfer(lp.address, 100_000_000n);
+    await payment.connect(lp).approve(coreAddress, ethers.MaxUint256);
+    await lpShare.connect(owner).transfer(lp.address, ethers.parseEther("50"));
+
+    const firstBatchId = (await core.getCurrentBatchId()) + 1n;
+    return { ...system, lp, firstBatchId };
+  }
+
+  it("keeps processDailyBatch strict on a batch without markets", async () => {
+    const { core, vaultModule, firstBatchId } = await loadFixture(deployEmptyBatchFixture);
+    await advancePastBatchEnd(firstBatchId);
+
+    await expect(core.processDailyBatch(firstBatchId))
+      .to.be.revertedWithCustomError(vaultModule, "BatchHasNoMarkets")
+      .withArgs(firstBatchId);
+  });
+
+  it("is owner-only and requires an ended batch with no markets", async () => {
+    const { core, owner, lp, vaultModule, firstBatchId } = await loadFixture(deployEmptyBatchFixture);
+
+    await expect(core.connect(lp).processEmptyBatch(firstBatchId)).to.be.revertedWithCustomError(
+      core,
+      "OwnableUnauthorizedAccount"
+    );
+    await expect(core.connect(owner).processEmptyBatch(firstBatchId)).to.be.revertedWithCustomError(
+      vaultModule,
+      "BatchNotEnded"
+    );
+    await expect(core.connect(owner).processEmptyBatch(firstBatchId + 1n))
+      .to.be.revertedWithCustomError(vaultModule, "BatchNotReady")
+      .withArgs(firstBatchId + 1n);
+
+    // A batch with a market (even an unresolved one) must go through processDailyBatch
+    const settlement = Number((firstBatchId + 1n) * BATCH_SECONDS) - 60;
+    const now = await time.latest();
+    await core.createMarket(0, 4, 1, now, settlement - 60, settlement, 4, WAD, ethers.ZeroAddress, uniformFactors(4));
+    await advancePastBatchEnd(firstBatchId);
+    await expect(core.connect(owner).processEmptyBatch(firstBatchId))
+      .to.be.revertedWithCustomError(vaultModule, "BatchHasMarkets")
+      .withArgs(firstBatchId, 1);
+  });
+
+  it("settles queued deposits and withdrawals at the unchanged price", async () => {
+    const { core, owner, lp, lpShare, vaultModule, firstBatchId } = await loadFixture(deployEmptyBatchFixture);
+    const navBefore = await core.getVaultNav();
+    const priceBefore = await core.getVaultPrice();
+    const [backstopBefore, treasuryBefore] = await core.getCapitalStack();
+
+    await core.connect(lp).requestDeposit(25_000_000n);
+    await core.connect(lp).requestWithdraw(ethers.parseEther("10"));
+    await advancePastBatchEnd(firstBatchId);
+
+    const vaultAtCore = vaultModule.attach(await core.getAddress());
+    await expect(core.connect(owner).processEmptyBatch(firstBatchId))
+      .to.emit(vaultAtCore, "EmptyBatchProcessed")
+      .withArgs(firstBatchId)
+      .and.to.emit(vaultAtCore, "DailyBatchProcessed");
+
+    expect(await core.getCurrentBatchId()).to.equal(firstBatchId);
+    expect(await core.getVaultPrice()).to.equal(priceBefore);
+    expect(await core.getVaultNav()).to.equal(navBefore + ethers.parseEther("25") - ethers.parseEther("10"));
+    expect(await core.getCapitalStack()).to.deep.equal([backstopBefore, treasuryBefore]);
+    const [Lt, Ftot, Ft, Gt, Npre, Pe, processed] = await core.getDailyPnl.staticCall(firstBatchId);
+    expect([Lt, Ftot, Ft, Gt]).to.deep.equal([0n, 0n, 0n, 0n]);
+    expect(Npre).to.equal(navBefore);
+    expect(Pe).to.equal(priceBefore);
+    expect(processed).to.equal(true);
+
+    const lpSharesBefore = await lpShare.balanceOf(lp.address);
+    await core.connect(lp).claimDeposit(0);
+    expect(await lpShare.balanceOf(lp.address)).to.equal(lpSharesBefore + ethers.parseEther("25"));
+    await expect(core.connect(lp).claimWithdraw(0)).to.not.be.reverted;
+
+    await expect(core.connect(owner).processEmptyBatch(firstBatchId))
+      .to.be.revertedWithCustomError(vaultModule, "BatchNotReady")
+      .withArgs(firstBatchId);
+  });
+
+  it("rejects markets for a skipped batch but still accepts them for the next one", async () => {
+    const { core, owner, lifecycleModule, firstBatchId } = await loadFixture(deployEmptyBatchFixture);
+    await advancePastBatchEnd(firstBatchId);
+    await core.connect(owner).processEmptyBatch(firstBatchId);
+
+    // Late market for the skipped day could never record its P&L
+    const now = await time.latest();
+    const skippedSettlement = Number((firstBatchId + 1n) * BATCH_SECONDS) - 1;
+    await expect(
+      core.createMarket(0, 4, 1, now - 3600, now - 60, skippedSettlement, 4, WAD, ethers.ZeroAddress, uniformFactors(4))
+    )
+      .to.be.revertedWithCustomError(lifecycleModule, "BatchAlreadyProcessed")
+      .withArgs(firstBatchId);
+
+    // The next day still follows the regular market path
+    const nextBatchId = firstBatchId + 1n;
+    const settlement = Number((nextBatchId + 1n) * BATCH_SECONDS) - 60;
+    await core.createMarket(0, 4, 1, now, settlement - 60, settlement, 4, WAD, ethers.ZeroAddress, uniformFactors(4));
+    const [total] = await core.getBatchMarketState(nextBatchId);
+    expect(total).to.equal(1n);
+  });
+
+  it("lets the keeper advance over empty batches once enabled and past the grace period", async () => {
+    const { core, owner, firstBatchId } = await loadFixture(deployEmptyBatchFixture);
+    const logs: KeeperLogEntry[] = [];
+    const payloadSource = {
+      name: "unused",
+      async getPayload(): Promise<string> {
+        throw new Error("no markets to settle");
+      },
+    };
+
+    // Two empty days have ended
+    await time.increaseTo((firstBatchId + 2n) * BATCH_SECONDS + 60n);
+
+    const strict = createKeeper(core, owner, { payloadSource, log: (entry) => logs.push(entry) });
+    expect(await runKeeperTick(strict)).to.deep.equal([]);
+    expect(logs.some((l) => l.event === "batch-without-markets" && l.batchId === firstBatchId.toString())).to.equal(
+      true
+    );
+
+    const keeper = createKeeper(core, owner, {
+      payloadSource,
+      log: (entry) => logs.push(entry),
+      processEmptyBatches: true,
+      emptyBatchGraceSec: 3600,
+    });
+    // The first day is past its grace period, the second one is not yet
+    let actions = await runKeeperTick(keeper);
+    expect(actions.map((a) => [a.step, a.batchId])).to.deep.equal([["processEmptyBatch", firstBatchId]]);
+
+    await time.increaseTo((firstBatchId + 2n) * BATCH_SECONDS + 3600n);
+    actions = await runKeeperTick(keeper);
+    expect(actions.map((a) => [a.step, a.batchId])).to.deep.equal([["processEmptyBatch", firstBatchId + 1n]]);
+    expect(await core.getCurrentBatchId()).to.equal(firstBatchId + 1n);
+    expect(await runKeeperTick(keeper)).to.deep.equal([]);
+  });
+});
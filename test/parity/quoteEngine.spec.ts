@@ -0,0 +1,460 @@
+import { artifacts, ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  deployClmsrMathHarness,
+  deployFixedPointMathHarness,
+  deployLazyMulSegmentTreeHarness,
+} from "../helpers/deploy";
+import { deployFullSystem } from "../helpers/fullSystem";
+import { WAD, uniformFactors } from "../helpers/constants";
+import { createPrng, randomFactors } from "../helpers/utils";
+import * as fp from "../../scripts/lib/fixed-point-math";
+import { MathRevertError } from "../../scripts/lib/math-error";
+import {
+  applyRangeFactor,
+  createTree,
+  getRangeSum,
+  propagateLazy,
+  totalSum,
+  type SegmentTree,
+} from "../../scripts/lib/lazy-mul-segment-tree";
+import {
+  calculateQuantityFromCost,
+  calculateSellProceeds,
+  calculateTradeCost,
+  maxSafeChunkQuantity,
+} from "../../scripts/lib/clmsr-math";
+import {
+  applyTrade,
+  quoteDecreaseProceeds,
+  quoteOpenCost,
+  quoteQuantityFromBudget,
+  type QuoteMarket,
+} from "../../scripts/lib/clmsr-quote";
+
+/**
+ * Differential tests: the TypeScript quote engine (scripts/lib) must match
+ * FixedPointMathU, LazyMulSegmentTree, ClmsrMath and TradeModule to the wei.
+ */
+
+const errorsInterface = async () => new ethers.Interface((await artifacts.readArtifact("SignalsErrors")).abi);
+
+async function onChainErrorName(call: Promise<unknown>): Promise<string> {
+  try {
+    await call;
+  } catch (err) {
+    const data = (err as { data?: string }).data;
+    if (!data) throw err;
+    return (await errorsInterface()).parseError(data)?.name ?? "unknown";
+  }
+  throw new Error("expected on-chain call to revert");
+}
+
+function offChainErrorName(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof MathRevertError) return err.errorName;
+    throw err;
+  }
+  throw new Error("expected off-chain call to throw");
+}
+
+/** Same value, or the same revert reason when the contract reverts */
+async function expectSameOutcome(offChain: () => bigint, onChain: Promise<bigint>, label: string) {
+  let expected: bigint | string;
+  try {
+    expected = await onChain;
+  } catch {
+    expected = await onChainErrorName(onChain);
+  }
+  let actual: bigint | string;
+  try {
+    actual = offChain();
+  } catch (err) {
+    if (!(err instanceof MathRevertError)) throw err;
+    actual = err.errorName;
+  }
+  expect(actual).to.equal(expected, label);
+}
+
+async function expectTreeParity(
+  harness: { getRangeSum(lo: number, hi: number): Promise<bigint>; getTotalSum(): Promise<bigint> },
+  tree: SegmentTree
+) {
+  expect(await harness.getTotalSum()).to.equal(totalSum(tree));
+  for (let bin = 0; bin < tree.size; bin++) {
+    expect(await harness.getRangeSum(bin, bin)).to.equal(getRangeSum(tree, bin, bin), `bin ${bin}`);
+  }
+  for (let lo = 0; lo < tree.size; lo += 3) {
+    const hi = Math.min(tree.size - 1, lo + 5);
+    expect(await harness.getRangeSum(lo, hi)).to.equal(getRangeSum(tree, lo, hi), `range [${lo}, ${hi}]`);
+  }
+}
+
+describe("Quote engine parity (TypeScript vs contracts)", () => {
+  describe("FixedPointMathU", () => {
+    it("matches wExp and wLn to the wei across the input domain", async () => {
+      const harness = await loadFixture(deployFixedPointMathHarness);
+      const prng = createPrng(0x9e3779b97f4a7c15n);
+
+      const expInputs = [0n, 1n, 10n ** 9n, WAD, fp.MAX_EXP_INPUT_WAD - 1n, fp.MAX_EXP_INPUT_WAD];
+      for (let i = 0; i < 40; i++) expInputs.push(prng.nextInRange(0n, fp.MAX_EXP_INPUT_WAD));
+      for (let i = 0; i < 20; i++) expInputs.push(prng.nextInRange(0n, 5n * WAD));
+      for (const x of expInputs) {
+        expect(fp.wExp(x)).to.equal(await harness.wExp(x), `wExp(${x})`);
+      }
+
+      const lnInputs = [WAD, WAD + 1n, 2n * WAD, 100n * WAD, 2n ** 128n, 2n ** 255n];
+      for (let i = 0; i < 40; i++) lnInputs.push(prng.nextInRange(WAD, 200n * WAD));
+      for (let i = 0; i < 20; i++) lnInputs.push(prng.nextInRange(WAD, 10n ** 60n));
+      for (const x of lnInputs) {
+        expect(fp.wLn(x)).to.equal(await harness.wLn(x), `wLn(${x})`);
+      }
+
+      for (const n of [0n, 1n, 2n, 3n, 100n, 256n, 512n]) {
+        expect(fp.lnWadUp(n)).to.equal(await harness.lnWadUp(n), `lnWadUp(${n})`);
+      }
+    });
+
+    it("matches the rounding variants of mul/div and decimal conversion", async () => {
+      const harness = await loadFixture(deployFixedPointMathHarness);
+      const prng = createPrng(0x243f6a8885a308d3n);
+
+      for (let i = 0; i < 30; i++) {
+        const a = prng.nextInRange(1n, 10n ** 30n);
+        const b = prng.nextInRange(1n, 10n ** 24n);
+        expect(fp.wMul(a, b)).to.equal(await harness.wMul(a, b));
+        expect(fp.wMulUp(a, b)).to.equal(await harness.wMulUp(a, b));
+        expect(fp.wMulNearest(a, b)).to.equal(await harness.wMulNearest(a, b));
+        expect(fp.wDiv(a, b)).to.equal(await harness.wDiv(a, b));
+        expect(fp.wDivUp(a, b)).to.equal(await harness.wDivUp(a, b));
+        expect(fp.wDivNearest(a, b)).to.equal(await harness.wDivNearest(a, b));
+        expect(fp.fromWadRoundUp(a)).to.equal(await harness.fromWadRoundUp(a));
+        expect(fp.fromWadNearest(a)).to.equal(await harness.fromWadNearest(a));
+      }
+      for (const x of [0n, 1n, 10n ** 12n - 1n, 10n ** 12n, 10n ** 12n + 1n, 5n * 10n ** 11n]) {
+        expect(fp.fromWad(x)).to.equal(await harness.fromWad(x));
+        expect(fp.fromWadRoundUp(x)).to.equal(await harness.fromWadRoundUp(x));
+        expect(fp.fromWadNearestMin1(x)).to.equal(await harness.fromWadNearestMin1(x));
+      }
+
+      expect(offChainErrorName(() => fp.wExp(fp.MAX_EXP_INPUT_WAD + 1n))).to.equal(
+        await onChainErrorName(harness.wExp(fp.MAX_EXP_INPUT_WAD + 1n))
+      );
+      expect(offChainErrorName(() => fp.wLn(WAD - 1n))).to.equal(await onChainErrorName(harness.wLn(WAD - 1n)));
+    });
+  });
+
+  describe("LazyMulSegmentTree", () => {
+    it("tracks random range updates node for node", async () => {
+      const harness = await loadFixture(deployLazyMulSegmentTreeHarness);
+      const prng = createPrng(0x13198a2e03707344n);
+      const factors = randomFactors(prng, 23, WAD / 2n, 3n * WAD);
+      await harness.initAndSeed(factors);
+      const tree = createTree(factors);
+
+      for (let step = 0; step < 40; step++) {
+        const lo = prng.nextInt(23);
+        const hi = lo + prng.nextInt(23 - lo);
+        // Mix near-bound factors with mild ones so lazy values drift towards both thresholds
+        const factor =
+          step % 5 === 0
+            ? prng.nextInRange(10n ** 16n, 2n * 10n ** 16n)
+            : step % 7 === 0
+              ? prng.nextInRange(50n * WAD, 100n * WAD)
+              : prng.nextInRange(WAD / 2n, 2n * WAD);
+        await harness.applyRangeFactor(lo, hi, factor);
+        applyRangeFactor(tree, lo, hi, factor);
+        if (step % 8 === 7) await expectTreeParity(harness, tree);
+      }
+      await expectTreeParity(harness, tree);
+
+      await harness.propagateLazy(3, 17);
+      propagateLazy(tree, 3, 17);
+      await expectTreeParity(harness, tree);
+    });
+
+    it("reproduces underflow, overflow and exact-ONE flushes", async () => {
+      const harness = await loadFixture(deployLazyMulSegmentTreeHarness);
+      const factors = Array.from({ length: 16 }, (_, i) => WAD + BigInt(i) * 10n ** 17n);
+      await harness.initAndSeed(factors);
+      const tree = createTree(factors);
+
+      const apply = async (lo: number, hi: number, factor: bigint) => {
+        await harness.applyRangeFactor(lo, hi, factor);
+        applyRangeFactor(tree, lo, hi, factor);
+      };
+
+      // Pending 0.01 · 0.01 < UNDERFLOW_FLUSH_THRESHOLD on the [0, 7] node
+      await apply(0, 7, 10n ** 16n);
+      await apply(0, 7, 10n ** 16n);
+      await expectTreeParity(harness, tree);
+
+      // Pending 100 · 100 > FLUSH_THRESHOLD
+      await apply(8, 15, 100n * WAD);
+      await apply(8, 15, 100n * WAD);
+      await expectTreeParity(harness, tree);
+
+      // 2 · 0.5 collapses to exactly ONE, forcing a flush before a partial query
+      await apply(0, 15, 2n * WAD);
+      await apply(0, 15, WAD / 2n);
+      await apply(4, 11, 3n * WAD);
+      await expectTreeParity(harness, tree);
+
+      for (const factor of [10n ** 16n - 1n, 100n * WAD + 1n]) {
+        expect(offChainErrorName(() => applyRangeFactor(tree, 0, 3, factor))).to.equal(
+          await onChainErrorName(harness.applyRangeFactor(0, 3, factor))
+        );
+      }
+    });
+  });
+
+  describe("ClmsrMath", () => {
+    it("quotes buys, sells and inverse quantities across single and chunked paths", async () => {
+      const harness = await loadFixture(deployClmsrMathHarness);
+      const prng = createPrng(0xa4093822299f31d0n);
+      const factors = randomFactors(prng, 32, WAD / 4n, 4n * WAD);
+      await harness.seed(factors);
+      const tree = createTree(factors);
+
+      for (const alpha of [WAD / 10n, WAD, 37n * WAD]) {
+        const maxSafe = maxSafeChunkQuantity(alpha);
+        expect(maxSafe).to.equal(await harness.maxSafeChunkQuantity(alpha));
+        for (let i = 0; i < 12; i++) {
+          const lo = prng.nextInt(32);
+          const hi = lo + prng.nextInt(32 - lo);
+          // Up to 6 chunks; every fourth quantity leaves a dust chunk past the single-chunk limit,
+          // which the contract rejects with NonIncreasingSum
+          const quantity = i % 4 === 0 ? maxSafe + BigInt(i) : prng.nextInRange(1n, maxSafe * 6n);
+          await expectSameOutcome(
+            () => calculateTradeCost(tree, alpha, lo, hi, quantity),
+            harness.quoteBuy(alpha, lo, hi, quantity),
+            `buy α=${alpha} [${lo}, ${hi}] q=${quantity}`
+          );
+          await expectSameOutcome(
+            () => calculateSellProceeds(tree, alpha, lo, hi, quantity),
+            harness.quoteSell(alpha, lo, hi, quantity),
+            `sell α=${alpha} [${lo}, ${hi}] q=${quantity}`
+          );
+          const cost = prng.nextInRange(1n, alpha * 3n);
+          await expectSameOutcome(
+            () => calculateQuantityFromCost(tree, alpha, lo, hi, cost),
+            harness.quantityFromCost(alpha, lo, hi, cost),
+            `quantityFromCost α=${alpha} [${lo}, ${hi}] cost=${cost}`
+          );
+        }
+        const tooLarge = maxSafe * 100n + 1n;
+        await expectSameOutcome(
+          () => calculateTradeCost(tree, alpha, 0, 31, tooLarge),
+          harness.quoteBuy(alpha, 0, 31, tooLarge),
+          "chunk limit"
+        );
+      }
+    });
+
+    it("reverts like the contract once the affected sum trips the overflow guard", async () => {
+      const harness = await loadFixture(deployClmsrMathHarness);
+      // Guards trip above MAX_UINT256 / ~100e18 (buy) and MAX_UINT256 / ~0.01e18 (sell); the
+      // _computeSafeChunk fallback then shrinks chunks, but the WAD product still overflows
+      const factors = [10n ** 58n, 10n ** 58n, 10n ** 62n, 10n ** 62n];
+      await harness.seed(factors);
+      const tree = createTree(factors);
+      const quantity = 5n * WAD;
+
+      await expectSameOutcome(
+        () => calculateTradeCost(tree, WAD, 0, 1, quantity),
+        harness.quoteBuy(WAD, 0, 1, quantity),
+        "buy"
+      );
+      await expectSameOutcome(
+        () => calculateSellProceeds(tree, WAD, 2, 3, quantity),
+        harness.quoteSell(WAD, 2, 3, quantity),
+        "sell"
+      );
+    });
+
+    it("stays in lockstep over a random sequence of executed trades", async () => {
+      const harness = await loadFixture(deployClmsrMathHarness);
+      const prng = createPrng(0x082efa98ec4e6c89n);
+      const factors = Array.from({ length: 40 }, () => WAD);
+      await harness.seed(factors);
+      const tree = createTree(factors);
+      const alpha = 2n * WAD;
+      const maxSafe = maxSafeChunkQuantity(alpha);
+
+      for (let step = 0; step < 30; step++) {
+        const lo = prng.nextInt(40);
+        const hi = lo + prng.nextInt(Math.min(8, 40 - lo));
+        const isBuy = step % 3 !== 2;
+        const quantity = prng.nextInRange(10n ** 15n, maxSafe * 3n);
+        const quoted = isBuy
+          ? await harness.quoteBuy(alpha, lo, hi, quantity)
+          : await harness.quoteSell(alpha, lo, hi, quantity);
+        expect(
+          isBuy
+            ? calculateTradeCost(tree, alpha, lo, hi, quantity)
+            : calculateSellProceeds(tree, alpha, lo, hi, quantity)
+        ).to.equal(quoted, `step ${step}`);
+
+        // Execute with the same chunking as TradeModule._applyFactorChunked
+        let remaining = quantity;
+        while (remaining > 0n) {
+          const chunk = remaining > maxSafe ? maxSafe : remaining;
+          const up = await harness.exposedSafeExp(chunk, alpha);
+          const factor = isBuy ? up : fp.wDivUp(WAD, up);
+          await harness.applyRangeFactor(lo, hi, factor);
+          applyRangeFactor(tree, lo, hi, factor);
+          remaining -= chunk;
+        }
+        expect(await harness.rangeSum(0, 39)).to.equal(totalSum(tree));
+      }
+    });
+  });
+
+  describe("TradeModule", () => {
+    it("matches calculate* views and executed costs through a trade sequence", async () => {
+      const { owner, users, core, payment, tradeModule } = await deployFullSystem();
+      const [trader] = users;
+      const coreAddress = await core.getAddress();
+      await core.connect(owner).setMinSeedAmount(1);
+      await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+      await payment.connect(owner).approve(coreAddress, 100_000_000_000n);
+      await core.connect(owner).seedVault(100_000_000_000n);
+      await payment.transfer(trader.address, 100_000_000_000n);
+      await payment.connect(trader).approve(coreAddress, ethers.MaxUint256);
+
+      const prng = createPrng(0x3f84d5b5b5470917n);
+      const numBins = 24;
+      const baseFactors = uniformFactors(numBins);
+      const now = await time.latest();
+      await core.createMarket(
+        1000,
+        1000 + numBins * 10,
+        10,
+        now - 10,
+        now + 86400,
+        now + 86400 + 60,
+        numBins,
+        ethers.parseEther("3"),
+        ethers.ZeroAddress,
+        baseFactors
+      );
+      const market: QuoteMarket = await core.markets(1);
+      const tree = createTree(baseFactors);
+
+      const positions: { id: bigint; lower: bigint; upper: bigint; quantity: bigint }[] = [];
+      for (let step = 0; step < 16; step++) {
+        const sell = positions.length > 0 && step % 3 === 2;
+        if (!sell) {
+          const loBin = prng.nextInt(numBins);
+          const hiBin = loBin + prng.nextInt(Math.min(6, numBins - loBin));
+          const lower = 1000n + BigInt(loBin) * 10n;
+          const upper = 1000n + BigInt(hiBin + 1) * 10n;
+          // Up to 40 WAD of quantity, i.e. up to three chunks at α = 3
+          const quantity = prng.nextInRange(1_000n, 40_000_000n);
+          const quoted = await core.calculateOpenCost.staticCall(1, lower, upper, quantity);
+          expect(quoteOpenCost(market, tree, lower, upper, quantity)).to.equal(quoted, `open quote ${step}`);
+
+          const receipt = await (await core.connect(trader).openPosition(1, lower, upper, quantity, quoted * 2n)).wait();
+          const logs = receipt!.logs.map((log) => tradeModule.interface.parseLog(log)).filter((log) => log !== null);
+          const opened = logs.find((log) => log.name === "PositionOpened")!;
+          const executed = applyTrade(market, tree, lower, upper, quantity, true);
+          expect(executed.amount).to.equal(opened.args.cost, `open cost ${step}`);
+          expect(executed.factors).to.deep.equal(
+            logs.filter((log) => log.name === "RangeFactorApplied").map((log) => log.args.factor)
+          );
+          positions.push({ id: opened.args.positionId, lower, upper, quantity });
+        } else {
+          const position = positions[prng.nextInt(positions.length)];
+          const quantity = position.quantity / 2n + 1n;
+          const quoted = await core.calculateDecreaseProceeds.staticCall(position.id, quantity);
+          expect(quoteDecreaseProceeds(market, tree, position.lower, position.upper, quantity)).to.equal(
+            quoted,
+            `decrease quote ${step}`
+          );
+
+          const receipt = await (await core.connect(trader).decreasePosition(position.id, quantity, 0)).wait();
+          const decreased = receipt!.logs
+            .map((log) => tradeModule.interface.parseLog(log))
+            .find((log) => log?.name === "PositionDecreased")!;
+          const executed = applyTrade(market, tree, position.lower, position.upper, quantity, false);
+          expect(executed.amount).to.equal(decreased.args.proceeds, `decrease proceeds ${step}`);
+          position.quantity -= quantity;
+        }
+      }
+    });
+
+    it("inverts open quotes from a budget, fee included, like calculateQuantityFromBudget", async () => {
+      const { owner, users, core, payment } = await deployFullSystem();
+      const [trader] = users;
+      const coreAddress = await core.getAddress();
+      await core.connect(owner).setMinSeedAmount(1);
+      await core.connect(owner).setRiskConfig(ethers.parseEther("0.3"), ethers.parseEther("1"), false);
+      await payment.connect(owner).approve(coreAddress, 100_000_000_000n);
+      await core.connect(owner).seedVault(100_000_000_000n);
+      await payment.transfer(trader.address, 100_000_000_000n);
+      await payment.connect(trader).approve(coreAddress, ethers.MaxUint256);
+
+      // Market 1 has no fee, market 2 a 2.5% overlay fee on the base cost
+      const feePolicy = await (await ethers.getContractFactory("MockFeePolicy")).deploy(250);
+      const baseFactors = uniformFactors(16);
+      const now = await time.latest();
+      for (const policy of [ethers.ZeroAddress, await feePolicy.getAddress()]) {
+        await core.createMarket(0, 160, 10, now - 10, now + 86400, now + 86400 + 60, 16, WAD, policy, baseFactors);
+      }
+      const market: QuoteMarket = await core.markets(1);
+      const quoteFees = [() => 0n, (base: bigint) => (base * 250n) / 10_000n];
+
+      const prng = createPrng(0x5b1d6e0f7a9c3e21n);
+      const budgets = [1n, 2n, 999n, 1_000_000n, 37_500_000n, 132_000_000n, 140_000_000n, 2_000_000_000n];
+      for (let step = 0; step < budgets.length; step++) {
+        const budget = budgets[step];
+        const lower = BigInt(prng.nextInt(8)) * 10n;
+        const upper = lower + 10n + BigInt(prng.nextInt(8)) * 10n;
+        for (const marketId of [1n, 2n]) {
+          const label = `market ${marketId} budget ${budget} [${lower}, ${upper})`;
+          const quoteFee = quoteFees[Number(marketId) - 1];
+          const tree = createTree(baseFactors);
+          const onChain = await core
+            .connect(trader)
+            .calculateQuantityFromBudget.staticCall(marketId, lower, upper, budget);
+          const offChain = quoteQuantityFromBudget(market, tree, lower, upper, budget, quoteFee);
+          expect([offChain.quantity, offChain.cost, offChain.fee]).to.deep.equal([...onChain], label);
+          if (offChain.quantity === 0n) continue;
+
+          // Forward quotes agree: q fits the budget and q + 1 does not
+          const forward = await core.calculateOpenCost.staticCall(marketId, lower, upper, offChain.quantity);
+          expect(offChain.cost).to.equal(forward, label);
+          expect(offChain.fee).to.equal(quoteFee(offChain.cost));
+          expect(offChain.cost + offChain.fee).to.be.lte(budget, label);
+          const rangeSum = getRangeSum(tree, Number(lower / 10n), Number(upper / 10n) - 1);
+          const overflowCap = fp.fromWad(fp.wMul(WAD, fp.wLn(fp.MAX_UINT256 / rangeSum)));
+          if (budget > 1_000_000_000n) expect(offChain.quantity).to.equal(overflowCap, label);
+          if (offChain.quantity === overflowCap) {
+            // More than the range can absorb: capped where the forward quote still prices
+            expect(offChainErrorName(() => quoteOpenCost(market, tree, lower, upper, overflowCap * 2n))).to.equal(
+              "MathMulOverflow"
+            );
+          } else {
+            const nextCost = quoteOpenCost(market, tree, lower, upper, offChain.quantity + 1n);
+            expect(nextCost + quoteFee(nextCost)).to.be.gt(budget, label);
+          }
+        }
+      }
+
+      // The budget quote fills with maxCost = budget against the same state
+      const quote = await core.connect(trader).calculateQuantityFromBudget.staticCall(2, 30, 90, 25_000_000n);
+      const balance = await payment.balanceOf(trader.address);
+      await core.connect(trader).openPosition(2, 30, 90, quote.quantity, 25_000_000n);
+      expect(balance - (await payment.balanceOf(trader.address))).to.equal(quote.cost + quote.fee);
+      expect(quote.cost + quote.fee).to.be.lte(25_000_000n);
+
+      expect(await onChainErrorName(core.calculateQuantityFromBudget.staticCall(1, 0, 10, 0))).to.equal("ZeroAmount");
+      expect(offChainErrorName(() => quoteQuantityFromBudget(market, createTree(baseFactors), 0, 10, 0n))).to.equal(
+        "ZeroAmount"
+      );
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import { artifacts, ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { LPVaultModule__factory } from "../../typechain-types";
+import type { LPVaultModuleProxy, MockERC20 } from "../../typechain-types";
+import { WAD, advancePastBatchEnd } from "../helpers/constants";
+import { createPrng } from "../helpers/utils";
+import { MathRevertError } from "../../scripts/lib/math-error";
+import { toWad } from "../../scripts/lib/fixed-point-math";
+import {
+  calculateFeeWaterfall,
+  type FeeWaterfallParams,
+  type FeeWaterfallResult,
+} from "../../scripts/lib/fee-waterfall";
+import * as va from "../../scripts/lib/vault-accounting";
+import * as reference from "../helpers/feeWaterfallReference";
+
+/**
+ * Differential tests: the TypeScript vault model (scripts/lib) must match FeeWaterfallLib,
+ * VaultAccountingLib and LPVaultModule.processDailyBatch to the wei, including reverts.
+ */
+
+type Prng = ReturnType<typeof createPrng>;
+
+const errorsInterface = async () => new ethers.Interface((await artifacts.readArtifact("SignalsErrors")).abi);
+
+async function onChainErrorName(call: Promise<unknown>): Promise<string> {
+  try {
+    await call;
+  } catch (err) {
+    const data = (err as { data?: string }).data;
+    if (!data) throw err;
+    return (await errorsInterface()).parseError(data)?.name ?? "unknown";
+  }
+  throw new Error("expected on-chain call to revert");
+}
+
+/** Same result object, or the same revert reason when the contract reverts */
+async function expectSameOutcome<T>(offChain: () => T, onChain: Promise<T>, label: string) {
+  let expected: T | string;
+  try {
+    expected = await onChain;
+  } catch {
+    expected = await onChainErrorName(onChain);
+  }
+  let actual: T | string;
+  try {
+    actual = offChain();
+  } catch (err) {
+    if (!(err instanceof MathRevertError)) throw err;
+    actual = err.errorName;
+  }
+  expect(actual).to.deep.equal(expected, label);
+}
+
+/** Fee shares that sum to WAD but leave rounding dust in the residual split */
+function randomPhis(prng: Prng) {
+  const phiLP = prng.nextInRange(WAD / 2n, (WAD * 9n) / 10n);
+  const phiBS = prng.nextBigInt(WAD - phiLP);
+  return { phiLP, phiBS, phiTR: WAD - phiLP - phiBS };
+}
+
+function randomWaterfallParams(prng: Prng): FeeWaterfallParams {
+  const Nprev = prng.nextInRange(WAD, 10n ** 7n * WAD);
+  return {
+    Lt: prng.nextInRange(-Nprev / 2n, Nprev / 4n),
+    Ftot: prng.nextBigInt(Nprev / 10n),
+    Nprev,
+    Bprev: prng.nextBigInt(Nprev / 4n),
+    Tprev: prng.nextBigInt(Nprev / 10n),
+    deltaEt: prng.nextBigInt(Nprev / 4n),
+    pdd: -prng.nextInRange(WAD / 20n, WAD / 2n),
+    rhoBS: prng.nextBigInt((WAD * 3n) / 10n),
+    ...randomPhis(prng),
+  };
+}
+
+describe("Vault accounting parity (TypeScript vs contracts)", () => {
+  describe("FeeWaterfallLib", () => {
+    it("matches every result field, dust included, on random inputs", async () => {
+      const harness = await (await ethers.getContractFactory("FeeWaterfallLibHarness")).deploy();
+      const prng = createPrng(0x3c6ef372fe94f82bn);
+
+      let settled = 0;
+      let withDust = 0;
+      for (let i = 0; i < 60; i++) {
+        const p = randomWaterfallParams(prng);
+        const onChain = harness
+          .calculate(p.Lt, p.Ftot, p.Nprev, p.Bprev, p.Tprev, p.deltaEt, p.pdd, p.rhoBS, p.phiLP, p.phiBS, p.phiTR)
+          .then(([Floss, Fpool, Nraw, Gt, Ffill, Fdust, Ft, Npre, Bnext, Tnext]) => {
+            return { Floss, Fpool, Nraw, Gt, Ffill, Fdust, Ft, Npre, Bnext, Tnext };
+          });
+        await expectSameOutcome(() => calculateFeeWaterfall(p), onChain, `case ${i}`);
+
+        try {
+          if (calculateFeeWaterfall(p).Fdust > 0n) withDust++;
+          settled++;
+        } catch {
+          // revert parity already checked
+        }
+      }
+      expect(settled).to.be.greaterThan(20);
+      expect(withDust).to.be.greaterThan(0);
+    });
+
+    it("matches the independent test reference, reverts included", () => {
+      const prng = createPrng(0x510e527fade682d1n);
+      // Random draws plus the input reverts the random range never hits
+      const cases = Array.from({ length: 200 }, () => randomWaterfallParams(prng));
+      cases.push({ ...cases[0], pdd: 0n }, { ...cases[0], phiTR: cases[0].phiTR + 1n });
+
+      const outcome = (fn: () => FeeWaterfallResult, nameOf: (err: Error) => string) => {
+        try {
+          return fn();
+        } catch (err) {
+          return nameOf(err as Error);
+        }
+      };
+      let reverted = 0;
+      cases.forEach((p, i) => {
+        const expected = outcome(
+          () => reference.calculateFeeWaterfall(p),
+          (err) => err.message.split(":")[0]
+        );
+        const actual = outcome(
+          () => calculateFeeWaterfall(p),
+          (err) => (err instanceof MathRevertError ? err.errorName : err.message)
+        );
+        expect(actual).to.deep.equal(expected, `case ${i}`);
+        if (typeof expected === "string") reverted++;
+      });
+      expect(reverted).to.be.greaterThan(2);
+    });
+  });
+
+  describe("VaultAccountingLib", () => {
+    it("matches pre-batch, deposit, withdraw and post-batch math on random inputs", async () => {
+      const harness = await (await ethers.getContractFactory("VaultAccountingLibHarness")).deploy();
+      const prng = createPrng(0xa54ff53a5f1d36f1n);
+
+      for (let i = 0; i < 40; i++) {
+        const nav = prng.nextInRange(0n, 10n ** 7n * WAD);
+        const shares = prng.nextInRange(0n, 10n ** 7n * WAD);
+        const price = prng.nextInRange(0n, 3n * WAD);
+        const peak = prng.nextInRange(0n, 3n * WAD);
+        const pnl = prng.nextInRange(-nav, nav / 2n + 1n);
+        const fees = prng.nextBigInt(nav / 10n + 1n);
+        const grant = prng.nextBigInt(nav / 10n + 1n);
+        const amount = prng.nextBigInt(10n ** 6n * WAD);
+        const label = `case ${i}`;
+
+        await expectSameOutcome(
+          () => va.computePreBatch({ navPrev: nav, sharesPrev: shares, pnl, fees, grant }),
+          harness.computePreBatch(nav, shares, pnl, fees, grant).then(([navPre, batchPrice]) => ({ navPre, batchPrice })),
+          `computePreBatch ${label}`
+        );
+        await expectSameOutcome(
+          () => va.computePreBatchForSeed(nav, pnl, fees, grant),
+          harness.computePreBatchForSeed(nav, pnl, fees, grant).then(([navPre, batchPrice]) => ({ navPre, batchPrice })),
+          `computePreBatchForSeed ${label}`
+        );
+        await expectSameOutcome(
+          () => va.applyDeposit(nav, shares, price, amount),
+          harness
+            .applyDeposit(nav, shares, price, amount)
+            .then(([newNav, newShares, mintedShares, refundAmount]) => ({ newNav, newShares, mintedShares, refundAmount })),
+          `applyDeposit ${label}`
+        );
+        await expectSameOutcome(
+          () => va.applyWithdraw(nav, shares, price, amount),
+          harness
+            .applyWithdraw(nav, shares, price, amount)
+            .then(([newNav, newShares, withdrawAmount]) => ({ newNav, newShares, withdrawAmount })),
+          `applyWithdraw ${label}`
+        );
+        expect(va.computeDrawdown(price, peak)).to.equal(await harness.computeDrawdown(price, peak), label);
+
+        const [navOut, sharesOut, postPrice, pricePeak, drawdown] = await harness.computePostBatchState(nav, shares, peak);
+        expect(va.computePostBatchState(nav, shares, peak)).to.deep.equal(
+          { nav: navOut, shares: sharesOut, price: postPrice, pricePeak, drawdown },
+          label
+        );
+      }
+
+      expect(va.computePostBatchState(5n * WAD, 0n, 2n * WAD)).to.deep.equal({
+        nav: 5n * WAD,
+        shares: 0n,
+        price: WAD,
+        pricePeak: 2n * WAD,
+        drawdown: 0n,
+      });
+    });
+  });
+
+  describe("processBatch vs LPVaultModule.processDailyBatch", () => {
+    const usdc = (amount: bigint) => amount * 10n ** 6n;
+
+    async function deployVaultFixture() {
+      const [owner, lp] = await ethers.getSigners();
+      const payment = (await (await ethers.getContractFactory("MockERC20")).deploy("MockVaultToken", "MVT", 6)) as MockERC20;
+      const module = await (await ethers.getContractFactory("LPVaultModule")).deploy();
+      const proxy = (await (await ethers.getContractFactory("LPVaultModuleProxy")).deploy(module.target)) as LPVaultModuleProxy;
+
+      await proxy.setPaymentToken(payment.target);
+      await proxy.setMinSeedAmount(1n);
+      await proxy.setWithdrawalLagBatches(0);
+      await payment.mint(lp.address, usdc(10n ** 9n));
+      await payment.connect(lp).approve(proxy.target, ethers.MaxUint256);
+      return { owner, lp, payment, proxy };
+    }
+
+    async function readState(proxy: LPVaultModuleProxy): Promise<va.VaultBatchState> {
+      const [backstopNav, treasuryNav] = await proxy.getCapitalStack();
+      return {
+        nav: await proxy.getVaultNav(),
+        shares: await proxy.getVaultShares(),
+        price: await proxy.getVaultPrice(),
+        pricePeak: await proxy.getVaultPricePeak(),
+        backstopNav,
+        treasuryNav,
+      };
+    }
+
+    async function expectBatchParity(proxy: LPVaultModuleProxy, batchId: bigint, outcome: va.BatchOutcome, drawdown: bigint) {
+      const label = `batch ${batchId}`;
+      expect(await readState(proxy)).to.deep.equal(outcome.state, label);
+      expect(drawdown).to.equal(outcome.drawdown, label);
+
+      const [lt, ftot, ft, gt, npre, pe, processed] = await proxy.getDailyPnl(batchId);
+      expect({ lt, ftot, ft, gt, npre, pe, processed }).to.deep.equal(
+        {
+          lt: outcome.snapshot.Lt,
+          ftot: outcome.snapshot.Ftot,
+          ft: outcome.snapshot.Ft,
+          gt: outcome.snapshot.Gt,
+          npre: outcome.snapshot.Npre,
+          pe: outcome.snapshot.Pe,
+          processed: true,
+        },
+        label
+      );
+
+      const snap = await proxy.harnessGetDailyPnlSnapshot(batchId);
+      for (const key of Object.keys(outcome.snapshot) as (keyof va.DailyPnlSnapshot)[]) {
+        expect(snap[key]).to.equal(outcome.snapshot[key], `${label} ${key}`);
+      }
+
+      const [totalDepositAssets, totalWithdrawShares, batchPrice, aggProcessed] = await proxy.getBatchAggregation(batchId);
+      expect({ totalDepositAssets, totalWithdrawShares, batchPrice, processed: aggProcessed }).to.deep.equal(
+        outcome.aggregation,
+        label
+      );
+    }
+
+    it("matches NAV, shares, peak, capital stack and snapshots over a random 30-batch walk", async () => {
+      const { proxy, lp } = await loadFixture(deployVaultFixture);
+      const prng = createPrng(0x510e527fade682d1n);
+      const vaultInterface = LPVaultModule__factory.createInterface();
+
+      const lambda = prng.nextInRange(WAD / 10n, WAD / 5n);
+      const phis = randomPhis(prng);
+      const rhoBS = prng.nextInRange(WAD / 20n, WAD / 10n);
+      await proxy.setRiskConfig(lambda, WAD, false);
+      await proxy.setFeeWaterfallConfig(rhoBS, phis.phiLP, phis.phiBS, phis.phiTR);
+      // setRiskConfig enforces pdd := -λ
+      const config: va.FeeWaterfallConfig = { pdd: -lambda, rhoBS, ...phis };
+
+      await proxy.connect(lp).seedVault(usdc(100_000n) + prng.nextBigInt(10n ** 6n));
+      await proxy.setCapitalStack(toWad(usdc(8_000n)), toWad(usdc(500n)));
+      let state = await readState(proxy);
+
+      let reverts = 0;
+      let dustBatches = 0;
+      for (let day = 0; day < 30; day++) {
+        const batchId = (await proxy.getCurrentBatchId()) + 1n;
+        const pending: va.PendingBatchTotals = { deposits: 0n, withdraws: 0n };
+
+        if (prng.nextInt(2) === 0) {
+          const amount = prng.nextInRange(1n, state.nav / 10n ** 12n / 5n);
+          await proxy.connect(lp).requestDeposit(amount);
+          pending.deposits += toWad(amount);
+        }
+        if (prng.nextInt(2) === 0) {
+          const shares = prng.nextInRange(1n, state.shares / 4n);
+          await proxy.connect(lp).requestWithdraw(shares);
+          pending.withdraws += shares;
+        }
+        const [deposits, withdraws] = await proxy.getPendingBatchTotals(batchId);
+        expect({ deposits, withdraws }).to.deep.equal(pending);
+
+        const pnl: va.BatchPnlInput = {
+          Lt: prng.nextInRange(-(state.nav * 2n) / 5n, state.nav / 5n),
+          Ftot: prng.nextBigInt(state.nav / 20n),
+          DeltaEtSum: prng.nextBigInt(state.nav / 10n),
+        };
+        await proxy.harnessRecordPnl(batchId, pnl.Lt, pnl.Ftot, pnl.DeltaEtSum);
+        await advancePastBatchEnd(batchId);
+
+        let outcome: va.BatchOutcome;
+        try {
+          outcome = va.processBatch(state, pending, pnl, config);
+        } catch (err) {
+          if (!(err instanceof MathRevertError)) throw err;
+          expect(await onChainErrorName(proxy.processDailyBatch(batchId))).to.equal(err.errorName, `batch ${batchId}`);
+          reverts++;
+          // Offset the loss so the walk can continue
+          await proxy.harnessRecordPnl(batchId, -pnl.Lt, 0n, 0n);
+          outcome = va.processBatch(state, pending, { ...pnl, Lt: 0n }, config);
+        }
+
+        const receipt = await (await proxy.processDailyBatch(batchId)).wait();
+        const event = receipt!.logs
+          .map((log) => vaultInterface.parseLog(log))
+          .find((parsed) => parsed?.name === "DailyBatchProcessed");
+        await expectBatchParity(proxy, batchId, outcome, event!.args.drawdown);
+
+        if (outcome.snapshot.Fdust > 0n) dustBatches++;
+        state = outcome.state;
+      }
+
+      expect(reverts).to.be.greaterThan(0);
+      expect(dustBatches).to.be.greaterThan(0);
+    });
+
+    it("replays processEmptyBatch as a zero snapshot at the unchanged price", async () => {
+      const { proxy, lp } = await loadFixture(deployVaultFixture);
+      const vaultInterface = LPVaultModule__factory.createInterface();
+      const config: va.FeeWaterfallConfig = { pdd: -WAD / 5n, rhoBS: WAD / 10n, phiLP: (WAD * 8n) / 10n, phiBS: WAD / 10n, phiTR: WAD / 10n };
+      await proxy.setRiskConfig(WAD / 5n, WAD, false);
+      await proxy.setFeeWaterfallConfig(config.rhoBS, config.phiLP, config.phiBS, config.phiTR);
+      await proxy.connect(lp).seedVault(usdc(10_000n));
+      await proxy.setCapitalStack(toWad(usdc(800n)), toWad(usdc(50n)));
+
+      // A loss first so the empty batch runs below the peak
+      let state = await readState(proxy);
+      let batchId = (await proxy.getCurrentBatchId()) + 1n;
+      const pnl: va.BatchPnlInput = { Lt: -state.nav / 20n, Ftot: 0n, DeltaEtSum: 0n };
+      await proxy.harnessRecordPnl(batchId, pnl.Lt, pnl.Ftot, pnl.DeltaEtSum);
+      await advancePastBatchEnd(batchId);
+      await proxy.processDailyBatch(batchId);
+      state = va.processBatch(state, { deposits: 0n, withdraws: 0n }, pnl, config).state;
+
+      batchId++;
+      await proxy.connect(lp).requestDeposit(usdc(333n) + 7n);
+      await proxy.connect(lp).requestWithdraw(state.shares / 9n);
+      const [deposits, withdraws] = await proxy.getPendingBatchTotals(batchId);
+      await advancePastBatchEnd(batchId);
+
+      const outcome = va.processBatch(state, { deposits, withdraws }, va.EMPTY_BATCH_PNL, config);
+      const receipt = await (await proxy.processEmptyBatch(batchId)).wait();
+      const event = receipt!.logs
+        .map((log) => vaultInterface.parseLog(log))
+        .find((parsed) => parsed?.name === "DailyBatchProcessed");
+      await expectBatchParity(proxy, batchId, outcome, event!.args.drawdown);
+      expect(outcome.aggregation.batchPrice).to.equal(state.price);
+      expect(outcome.drawdown).to.be.greaterThan(0n);
+    });
+
+    it("reproduces the withdrawal brick guard", async () => {
+      const { proxy, lp } = await loadFixture(deployVaultFixture);
+      await proxy.setRiskConfig(WAD / 5n, WAD, false);
+      await proxy.setFeeWaterfallConfig(0n, (WAD * 8n) / 10n, WAD / 10n, WAD / 10n);
+      await proxy.connect(lp).seedVault(usdc(1_000n));
+
+      const state = await readState(proxy);
+      const batchId = (await proxy.getCurrentBatchId()) + 1n;
+      const withdraws = state.shares - va.MIN_DEAD_SHARES + 1n;
+      await proxy.connect(lp).requestWithdraw(withdraws);
+      await proxy.harnessRecordPnl(batchId, 0n, 0n, 0n);
+      await advancePastBatchEnd(batchId);
+
+      const config: va.FeeWaterfallConfig = { pdd: -WAD / 5n, rhoBS: 0n, phiLP: (WAD * 8n) / 10n, phiBS: WAD / 10n, phiTR: WAD / 10n };
+      let offChain = "";
+      try {
+        va.processBatch(state, { deposits: 0n, withdraws }, { Lt: 0n, Ftot: 0n, DeltaEtSum: 0n }, config);
+      } catch (err) {
+        offChain = (err as MathRevertError).errorName;
+      }
+      expect(offChain).to.equal("WithdrawalWouldBrickVault");
+      expect(await onChainErrorName(proxy.processDailyBatch(batchId))).to.equal(offChain);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { RiskModule } from "../../typechain-types";
+import { WAD } from "../helpers/constants";
+import { createPrng } from "../helpers/utils";
+import { deployFullSystem } from "../helpers/fullSystem";
+import { MathRevertError } from "../../scripts/lib/math-error";
+import { MIN_FACTOR } from "../../scripts/lib/lazy-mul-segment-tree";
+import * as rm from "../../scripts/lib/risk-math";
+import {
+  DEFAULT_VAULT_SIM_CONFIG,
+  priorFactors,
+  simulateVault,
+  toTimeSeriesCsv,
+  type VaultSimConfig,
+} from "../../scripts/sim/vault-simulator";
+
+/**
+ * The simulator sizes markets with scripts/lib/risk-math, so that port must match RiskMath
+ * (through RiskModule and createMarket) exactly; the simulator itself is checked for
+ * determinism and the invariants the vault relies on.
+ */
+
+function simConfig(overrides: Partial<VaultSimConfig> = {}): VaultSimConfig {
+  return { ...DEFAULT_VAULT_SIM_CONFIG, runs: 3, days: 30, ...overrides };
+}
+
+describe("Vault simulator", () => {
+  describe("RiskMath port", () => {
+    it("matches RiskModule αbase / αlimit on random inputs", async () => {
+      const risk = (await (await ethers.getContractFactory("RiskModule")).deploy()) as RiskModule;
+      const prng = createPrng(0x5be0cd19137e2179n);
+
+      for (let i = 0; i < 40; i++) {
+        const Et = prng.nextInRange(WAD, 10n ** 9n * WAD);
+        const numBins = 2 + prng.nextInt(255);
+        const lambda = prng.nextInRange(WAD / 100n, WAD);
+        const alphaBase = await risk.calculateAlphaBase(Et, numBins, lambda);
+        expect(rm.calculateAlphaBase(Et, numBins, lambda)).to.equal(alphaBase, `αbase case ${i}`);
+
+        const drawdown = prng.nextBigInt(WAD);
+        const k = prng.nextBigInt(3n * WAD);
+        expect(rm.calculateAlphaLimit(alphaBase, drawdown, k)).to.equal(
+          await risk.calculateAlphaLimit(alphaBase, drawdown, k),
+          `αlimit case ${i}`
+        );
+      }
+
+      await expect(risk.calculateAlphaBase(WAD, 1, WAD / 2n)).to.be.revertedWithCustomError(risk, "InvalidNumBins");
+      expect(() => rm.calculateAlphaBase(WAD, 1, WAD / 2n)).to.throw(MathRevertError, "InvalidNumBins");
+    });
+
+    it("matches the ΔEₜ createMarket stores for random priors", async () => {
+      const { owner, core } = await deployFullSystem();
+      await core.connect(owner).setCapitalStack(10n ** 12n * WAD, 0n);
+      const prng = createPrng(0x1f83d9abfb41bd6bn);
+
+      for (let marketId = 1; marketId <= 12; marketId++) {
+        const numBins = 2 + prng.nextInt(63);
+        const alpha = prng.nextInRange(WAD, 10_000n * WAD);
+        const factors =
+          marketId % 4 === 0
+            ? Array.from({ length: numBins }, () => WAD)
+            : Array.from({ length: numBins }, () => prng.nextInRange(MIN_FACTOR, 100n * WAD));
+        const now = await time.latest();
+        await core.createMarket(
+          0,
+          numBins,
+          1,
+          now + 60,
+          now + 3600,
+          now + 3660,
+          numBins,
+          alpha,
+          ethers.ZeroAddress,
+          factors
+        );
+        const { deltaEt } = await core.markets(marketId);
+        expect(rm.calculateDeltaEtFromFactors(alpha, numBins, factors)).to.equal(deltaEt, `market ${marketId}`);
+      }
+    });
+
+    it("matches RiskMath drawdown at and below the peak", () => {
+      expect(rm.calculateDrawdown(WAD, WAD)).to.equal(0n);
+      expect(rm.calculateDrawdown(2n * WAD, WAD)).to.equal(0n);
+      expect(rm.calculateDrawdown(WAD, 0n)).to.equal(0n);
+      expect(rm.calculateDrawdown((WAD * 3n) / 4n, WAD)).to.equal(WAD / 4n);
+    });
+  });
+
+  describe("simulateVault", () => {
+    it("is deterministic for a seed and keeps grants within ΔEₜ", () => {
+      const config = simConfig({
+        market: { ...DEFAULT_VAULT_SIM_CONFIG.market, prior: { shape: "bell", peakFactor: "4", widthBins: 12 } },
+      });
+      const first = simulateVault(config);
+      const second = simulateVault(config);
+      expect(toTimeSeriesCsv(second.days)).to.equal(toTimeSeriesCsv(first.days));
+      expect(second.summary).to.deep.equal(first.summary);
+      expect(toTimeSeriesCsv(simulateVault({ ...config, seed: config.seed + 1 }).days)).to.not.equal(
+        toTimeSeriesCsv(first.days)
+      );
+
+      const factors = priorFactors(config.market.prior, config.market.numBins);
+      for (const day of first.days.filter((d) => d.status === "processed")) {
+        expect(day.alpha).to.be.lte(day.alphaLimit);
+        expect(day.deltaEt).to.equal(rm.calculateDeltaEtFromFactors(day.alpha, config.market.numBins, factors));
+        expect(day.Gt).to.be.lte(day.deltaEt);
+        expect(day.price).to.be.lte(day.pricePeak);
+        expect(day.drawdown).to.equal(day.price === day.pricePeak ? 0n : ((day.pricePeak - day.price) * WAD) / day.pricePeak);
+      }
+      expect(first.runs.map((run) => run.daysProcessed)).to.deep.equal([30, 30, 30]);
+    });
+
+    it("chains each batch from the previous one and records the CSV series", () => {
+      const { days } = simulateVault(simConfig({ runs: 1, days: 20 }));
+      for (let i = 1; i < days.length; i++) {
+        const [prev, day] = [days[i - 1], days[i]];
+        expect(day.pricePeak).to.be.gte(prev.pricePeak);
+        // αlimit is sized from the NAV and drawdown the previous batch left behind
+        expect(day.alphaLimit).to.equal(
+          rm.calculateAlphaLimit(
+            rm.calculateAlphaBase(prev.nav, DEFAULT_VAULT_SIM_CONFIG.market.numBins, WAD * 3n / 10n),
+            rm.calculateDrawdown(prev.price, prev.pricePeak),
+            WAD
+          )
+        );
+      }
+      const lines = toTimeSeriesCsv(days).trim().split("\n");
+      expect(lines).to.have.length(21);
+      expect(lines[0].split(",")).to.include.members(["nav", "drawdown", "backstopNav", "Gt", "deltaEt"]);
+    });
+
+    it("halts a run when the drawdown penalty drives αlimit to zero", () => {
+      const result = simulateVault(
+        simConfig({
+          runs: 2,
+          days: 200,
+          risk: { lambda: "0.3", kDrawdown: "20" },
+          flow: { ...DEFAULT_VAULT_SIM_CONFIG.flow, informedShare: 1 },
+        })
+      );
+      for (const run of result.runs) {
+        expect(run.haltReason).to.equal("AlphaExceedsLimit");
+        expect(run.maxDrawdown).to.be.gte(0.05);
+      }
+      expect(result.summary.haltProbability).to.equal(1);
+      expect(result.summary.haltReasons).to.deep.equal({ AlphaExceedsLimit: 2 });
+      const halted = result.days.filter((day) => day.status === "halted");
+      expect(halted).to.have.length(2);
+      expect(halted.every((day) => day.alphaLimit === 0n)).to.equal(true);
+    });
+  });
+});